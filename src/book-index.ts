@@ -0,0 +1,629 @@
+/**
+ * Book Index
+ * Positional word index for books held completely in the sparse cache.
+ *
+ * Every word of the text is recorded in order with its byte offsets, and
+ * each distinct (folded) word has a postings list of where it occurs, so
+ * phrase, fuzzy and boolean/NEAR queries are answered without scanning:
+ * only the text around each match is read back from the cache.
+ *
+ * Words are found and folded as in text-query.ts: whole words, ignoring
+ * case, diacritics and punctuation, except that a phrase's last word may
+ * be the start of one. Boolean queries match one paragraph at a time, as
+ * PassageMatcher does.
+ *
+ * Indexes are saved next to the book's cache files and keyed by the
+ * cache's content key; SparseCache deletes them with the book, and a key
+ * that no longer matches (ETag, size or download changed) means a rebuild.
+ * BookIndexManager builds and loads them in a worker thread, one book at
+ * a time, so tokenizing a book or parsing a saved index never holds up
+ * the server.
+ */
+
+import fs from 'fs';
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
+import { foldWords, matchPassageWords, paragraphStarts, textWords } from './text-query.js';
+import type { TextQueryNode } from './text-query.js';
+import type { SparseCache, CacheContentKey } from './sparse-cache.js';
+
+const FORMAT = 'gutex-book-index';
+const VERSION = 1;
+
+/** Indexes kept in memory; others are read from disk again when next used */
+const MAX_LOADED = 8;
+
+/** A match as byte offsets into the book (end exclusive) */
+export interface IndexMatch {
+  start: number;
+  end: number;
+  editDistance: number;
+}
+
+export interface IndexSearchOptions {
+  /** Only matches within these bytes (end exclusive) */
+  start?: number;
+  end?: number;
+  /** Stop after this many matches (default: 50) */
+  maxMatches?: number;
+  /** Edits allowed over all the words of a phrase (default: 0) */
+  maxEditDistance?: number;
+}
+
+// Typed arrays are stored as base64 of their bytes (little-endian)
+interface SerializedBookIndex {
+  format: string;
+  version: number;
+  key: CacheContentKey;
+  vocabulary: string[];
+  tokens: string;
+  starts: string;
+  ends: string;
+  paragraphs: string;
+}
+
+/**
+ * An index's arrays, postings included, as sent between threads
+ */
+export interface BookIndexParts {
+  vocabulary: string[];
+  tokens: Uint32Array;
+  starts: Uint32Array;
+  ends: Uint32Array;
+  paragraphs: Uint32Array;
+  postingStarts: Uint32Array;
+  postings: Uint32Array;
+}
+
+function encodeArray(array: Uint32Array): string {
+  return Buffer.from(array.buffer, array.byteOffset, array.byteLength).toString('base64');
+}
+
+function decodeArray(encoded: string): Uint32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  // Copy so the array starts on a 4-byte boundary
+  return new Uint32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length));
+}
+
+function sameKey(a: CacheContentKey, b: CacheContentKey): boolean {
+  return a.fileSize === b.fileSize && a.etag === b.etag &&
+    a.lastModified === b.lastModified && a.createdAt === b.createdAt;
+}
+
+/**
+ * Levenshtein distance, or max + 1 once it is certain to exceed max
+ */
+function boundedEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** First index in a sorted array whose value is >= target */
+function lowerBound(array: ArrayLike<number>, target: number): number {
+  let low = 0;
+  let high = array.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (array[mid] < target) low = mid + 1; else high = mid;
+  }
+  return low;
+}
+
+export class BookIndex {
+  // Distinct folded words; a word's position here is its token id
+  private vocabulary: string[];
+  private tokenIds = new Map<string, number>();
+  // Per word of the text, in order: token id and byte offsets
+  private tokens: Uint32Array;
+  private starts: Uint32Array;
+  private ends: Uint32Array;
+  // Index of the first word of each paragraph
+  private paragraphs: Uint32Array;
+  // Word indexes with token t: postings[postingStarts[t]] up to postings[postingStarts[t + 1]]
+  private postingStarts: Uint32Array;
+  private postings: Uint32Array;
+
+  private constructor(
+    vocabulary: string[],
+    tokens: Uint32Array,
+    starts: Uint32Array,
+    ends: Uint32Array,
+    paragraphs: Uint32Array,
+    postings?: { postingStarts: Uint32Array; postings: Uint32Array }
+  ) {
+    this.vocabulary = vocabulary;
+    vocabulary.forEach((word, id) => this.tokenIds.set(word, id));
+    this.tokens = tokens;
+    this.starts = starts;
+    this.ends = ends;
+    this.paragraphs = paragraphs;
+
+    if (postings) {
+      this.postingStarts = postings.postingStarts;
+      this.postings = postings.postings;
+      return;
+    }
+
+    // Postings are rebuilt rather than stored: one counting pass
+    this.postingStarts = new Uint32Array(vocabulary.length + 1);
+    for (const token of tokens) this.postingStarts[token + 1]++;
+    for (let t = 0; t < vocabulary.length; t++) this.postingStarts[t + 1] += this.postingStarts[t];
+    this.postings = new Uint32Array(tokens.length);
+    const next = this.postingStarts.slice(0, vocabulary.length);
+    tokens.forEach((token, word) => { this.postings[next[token]++] = word; });
+  }
+
+  /**
+   * Index a whole book's bytes
+   */
+  static build(data: Buffer): BookIndex {
+    const text = data.toString('utf-8');
+    const words = textWords(text);
+    const vocabulary: string[] = [];
+    const ids = new Map<string, number>();
+    const tokens = new Uint32Array(words.length);
+    const starts = new Uint32Array(words.length);
+    const ends = new Uint32Array(words.length);
+
+    let charPos = 0;
+    let bytePos = 0;
+    words.forEach((word, i) => {
+      let id = ids.get(word.folded);
+      if (id === undefined) {
+        id = vocabulary.length;
+        vocabulary.push(word.folded);
+        ids.set(word.folded, id);
+      }
+      tokens[i] = id;
+      bytePos += Buffer.byteLength(text.slice(charPos, word.start), 'utf-8');
+      starts[i] = bytePos;
+      bytePos += Buffer.byteLength(text.slice(word.start, word.end), 'utf-8');
+      ends[i] = bytePos;
+      charPos = word.end;
+    });
+
+    // First word after each paragraph break; blank runs give no empty paragraphs
+    const paragraphs: number[] = [0];
+    let word = 0;
+    for (const start of paragraphStarts(text)) {
+      while (word < words.length && words[word].start < start) word++;
+      if (word < words.length && word > paragraphs[paragraphs.length - 1]) paragraphs.push(word);
+    }
+
+    return new BookIndex(vocabulary, tokens, starts, ends, Uint32Array.from(paragraphs));
+  }
+
+  /**
+   * Load a saved index, or null if it is missing, unreadable or for another
+   * version of the book
+   */
+  static load(filePath: string, key: CacheContentKey): BookIndex | null {
+    try {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SerializedBookIndex;
+      if (saved.format !== FORMAT || saved.version !== VERSION || !sameKey(saved.key, key)) {
+        return null;
+      }
+      return new BookIndex(
+        saved.vocabulary,
+        decodeArray(saved.tokens),
+        decodeArray(saved.starts),
+        decodeArray(saved.ends),
+        decodeArray(saved.paragraphs)
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write the index atomically (temp file, then rename)
+   */
+  save(filePath: string, key: CacheContentKey): void {
+    const data: SerializedBookIndex = {
+      format: FORMAT,
+      version: VERSION,
+      key,
+      vocabulary: this.vocabulary,
+      tokens: encodeArray(this.tokens),
+      starts: encodeArray(this.starts),
+      ends: encodeArray(this.ends),
+      paragraphs: encodeArray(this.paragraphs)
+    };
+    const tempPath = `${filePath}.tmp-${process.pid}`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * An index from the arrays another thread built or loaded
+   */
+  static fromParts(parts: BookIndexParts): BookIndex {
+    return new BookIndex(parts.vocabulary, parts.tokens, parts.starts, parts.ends, parts.paragraphs, parts);
+  }
+
+  toParts(): BookIndexParts {
+    return {
+      vocabulary: this.vocabulary,
+      tokens: this.tokens,
+      starts: this.starts,
+      ends: this.ends,
+      paragraphs: this.paragraphs,
+      postingStarts: this.postingStarts,
+      postings: this.postings
+    };
+  }
+
+  get wordCount(): number {
+    return this.tokens.length;
+  }
+
+  get vocabularySize(): number {
+    return this.vocabulary.length;
+  }
+
+  /**
+   * Find a phrase, word for word. The last word may be the start of a
+   * longer one, as a scan finds "white wha" in "white whale". With
+   * maxEditDistance, each word may be spelled differently as long as the
+   * edits add up to no more than that.
+   */
+  findPhrase(phrase: string, options: IndexSearchOptions = {}): IndexMatch[] {
+    const words = foldWords(phrase);
+    if (words.length === 0) return [];
+    const maxEdits = options.maxEditDistance ?? 0;
+
+    // Candidate tokens for each word of the phrase, with their distance
+    const candidates = words.map(word => maxEdits > 0
+      ? this.similarTokens(word, maxEdits)
+      : new Map<number, number>(this.tokenIds.has(word) ? [[this.tokenIds.get(word)!, 0]] : []));
+    const last = words[words.length - 1];
+    this.vocabulary.forEach((candidate, id) => {
+      if (candidate.startsWith(last)) candidates[words.length - 1].set(id, 0);
+    });
+    if (candidates.some(tokens => tokens.size === 0)) return [];
+
+    const firsts: number[] = [];
+    for (const token of candidates[0].keys()) {
+      for (const word of this.postingsOf(token)) firsts.push(word);
+    }
+    firsts.sort((a, b) => a - b);
+
+    return this.collect(firsts, options, first => {
+      let edits = 0;
+      for (let j = 0; j < words.length; j++) {
+        const distance = candidates[j].get(this.tokens[first + j]);
+        if (distance === undefined || (edits += distance) > maxEdits) return null;
+      }
+      return { first, last: first + words.length - 1, editDistance: edits };
+    });
+  }
+
+  /**
+   * Find paragraphs matching a boolean/NEAR query; each match covers the
+   * words the query matched, as with PassageMatcher
+   */
+  findQuery(root: TextQueryNode, options: IndexSearchOptions = {}): IndexMatch[] {
+    const occurrences = new Map<string, number[]>();
+    const collectTerms = (node: TextQueryNode): void => {
+      if (node.type === 'term') {
+        occurrences.set(node.words.join(' '), this.phraseOccurrences(node.words));
+      } else if (node.type === 'not') {
+        collectTerms(node.operand);
+      } else {
+        collectTerms(node.left);
+        collectTerms(node.right);
+      }
+    };
+    collectTerms(root);
+
+    // Only a paragraph containing some term can match
+    const candidates = new Set<number>();
+    for (const words of occurrences.values()) {
+      for (const word of words) candidates.add(this.paragraphOf(word));
+    }
+
+    return this.collect([...candidates].sort((a, b) => a - b), options, paragraph => {
+      const first = this.paragraphs[paragraph];
+      const end = paragraph + 1 < this.paragraphs.length ? this.paragraphs[paragraph + 1] : this.tokens.length;
+      const hit = matchPassageWords(root, terms => {
+        const all = occurrences.get(terms.join(' '))!;
+        const within: number[] = [];
+        for (let i = lowerBound(all, first); i < all.length && all[i] + terms.length <= end; i++) {
+          within.push(all[i]);
+        }
+        return within;
+      });
+      return hit && { ...hit, editDistance: 0 };
+    });
+  }
+
+  /**
+   * Turn candidates into matches in order, keeping those inside the byte
+   * bounds, up to maxMatches
+   */
+  private collect<T>(
+    candidates: T[],
+    options: IndexSearchOptions,
+    match: (candidate: T) => { first: number; last: number; editDistance: number } | null
+  ): IndexMatch[] {
+    const maxMatches = options.maxMatches || 50;
+    const from = options.start ?? 0;
+    const to = options.end ?? Infinity;
+    const matches: IndexMatch[] = [];
+
+    for (const candidate of candidates) {
+      const hit = match(candidate);
+      if (!hit) continue;
+      const start = this.starts[hit.first];
+      const end = this.ends[hit.last];
+      if (start < from) continue;
+      if (end > to) break;
+      matches.push({ start, end, editDistance: hit.editDistance });
+      if (matches.length >= maxMatches) break;
+    }
+    return matches;
+  }
+
+  private postingsOf(token: number): Uint32Array {
+    return this.postings.subarray(this.postingStarts[token], this.postingStarts[token + 1]);
+  }
+
+  // Word index of each occurrence of a run of folded words
+  private phraseOccurrences(words: string[]): number[] {
+    const ids = words.map(word => this.tokenIds.get(word));
+    if (ids.length === 0 || ids.some(id => id === undefined)) return [];
+
+    const found: number[] = [];
+    for (const first of this.postingsOf(ids[0]!)) {
+      if (ids.every((id, j) => this.tokens[first + j] === id)) found.push(first);
+    }
+    return found;
+  }
+
+  private similarTokens(word: string, maxEdits: number): Map<number, number> {
+    const similar = new Map<number, number>();
+    this.vocabulary.forEach((candidate, id) => {
+      const distance = boundedEditDistance(word, candidate, maxEdits);
+      if (distance <= maxEdits) similar.set(id, distance);
+    });
+    return similar;
+  }
+
+  private paragraphOf(word: number): number {
+    return lowerBound(this.paragraphs, word + 1) - 1;
+  }
+}
+
+export interface BookIndexManagerOptions {
+  debug?: boolean;
+  /** Called when a book's index has been built */
+  onBuilt?: (bookId: number, index: BookIndex) => void;
+}
+
+// Work for the index worker: build from a book's bytes and save, or load a saved index
+type IndexJob =
+  | { kind: 'build'; data: Uint8Array; filePath: string; key: CacheContentKey }
+  | { kind: 'load'; filePath: string; key: CacheContentKey };
+
+interface IndexJobResult {
+  id: number;
+  parts: BookIndexParts | null;
+  /** A build that couldn't be saved is still usable from memory */
+  saveError?: string;
+  error?: string;
+}
+
+/**
+ * Keeps word indexes for fully cached books: loads saved ones, and builds
+ * missing or stale ones in the background
+ */
+export class BookIndexManager {
+  private cache: SparseCache;
+  private debug: boolean;
+  private onBuilt: ((bookId: number, index: BookIndex) => void) | null;
+
+  // Most recently used last
+  private loaded = new Map<number, { key: CacheContentKey; index: BookIndex }>();
+  private loading = new Map<number, Promise<BookIndex | null>>();
+  private queue: number[] = [];
+  private running = false;
+
+  // Started on first use; holds the process open only while it has jobs
+  private worker: Worker | null = null;
+  private jobs = new Map<number, { resolve: (result: IndexJobResult) => void; reject: (err: Error) => void }>();
+  private nextJobId = 0;
+
+  constructor(cache: SparseCache, options: BookIndexManagerOptions = {}) {
+    this.cache = cache;
+    this.debug = options.debug || false;
+    this.onBuilt = options.onBuilt || null;
+  }
+
+  private log(msg: string): void {
+    if (this.debug) console.error(`[BookIndex] ${msg}`);
+  }
+
+  /**
+   * The index for a fully cached book, or null. A saved index is read in
+   * the worker; a book without a current one is queued for building, so a
+   * later call will find it.
+   */
+  async get(bookId: number): Promise<BookIndex | null> {
+    const key = this.fullyCachedKey(bookId);
+    if (!key) return null;
+
+    const entry = this.loaded.get(bookId);
+    if (entry && sameKey(entry.key, key)) {
+      this.remember(bookId, key, entry.index);
+      return entry.index;
+    }
+
+    let loading = this.loading.get(bookId);
+    if (!loading) {
+      loading = this.load(bookId, key).finally(() => this.loading.delete(bookId));
+      this.loading.set(bookId, loading);
+    }
+    return loading;
+  }
+
+  /**
+   * Queue a book for indexing; it is skipped if not fully cached by then
+   */
+  schedule(bookId: number): void {
+    if (this.queue.includes(bookId)) return;
+    this.queue.push(bookId);
+    if (!this.running) {
+      this.running = true;
+      void this.runQueue();
+    }
+  }
+
+  /**
+   * Index a fully cached book in the worker and save the index.
+   * Resolves to null if the book isn't fully cached.
+   */
+  async build(bookId: number): Promise<BookIndex | null> {
+    const key = this.fullyCachedKey(bookId);
+    if (!key) return null;
+
+    const startTime = Date.now();
+    const data = this.cache.readCachedRange(bookId, 0, key.fileSize - 1);
+    const result = await this.runJob({ kind: 'build', data, filePath: this.cache.getIndexPath(bookId), key });
+    if (!result.parts) throw new Error(result.error ?? 'no index built');
+    if (result.saveError) {
+      this.log(`Failed to save index for ${bookId}: ${result.saveError}`);
+    }
+
+    const index = BookIndex.fromParts(result.parts);
+    this.remember(bookId, key, index);
+    this.log(`Indexed book ${bookId}: ${index.wordCount} words, ${index.vocabularySize} distinct (${Date.now() - startTime}ms)`);
+    this.onBuilt?.(bookId, index);
+    return index;
+  }
+
+  /**
+   * Stop the worker; jobs still running fail, and the next one starts another
+   */
+  close(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private async load(bookId: number, key: CacheContentKey): Promise<BookIndex | null> {
+    try {
+      const result = await this.runJob({ kind: 'load', filePath: this.cache.getIndexPath(bookId), key });
+      if (result.parts) {
+        const index = BookIndex.fromParts(result.parts);
+        this.remember(bookId, key, index);
+        return index;
+      }
+    } catch (err) {
+      this.log(`Failed to load index for ${bookId}: ${(err as Error).message}`);
+    }
+
+    this.loaded.delete(bookId);
+    this.schedule(bookId);
+    return null;
+  }
+
+  // One book at a time, each in the worker
+  private async runQueue(): Promise<void> {
+    for (let bookId = this.queue.shift(); bookId !== undefined; bookId = this.queue.shift()) {
+      try {
+        const entry = this.loaded.get(bookId);
+        const key = this.fullyCachedKey(bookId);
+        if (!(entry && key && sameKey(entry.key, key))) await this.build(bookId);
+      } catch (err) {
+        this.log(`Failed to index book ${bookId}: ${(err as Error).message}`);
+      }
+    }
+    this.running = false;
+  }
+
+  private runJob(job: IndexJob): Promise<IndexJobResult> {
+    const worker = this.worker ?? this.startWorker();
+    const id = this.nextJobId++;
+    return new Promise((resolve, reject) => {
+      this.jobs.set(id, { resolve, reject });
+      worker.ref();
+      worker.postMessage({ id, job });
+    });
+  }
+
+  private startWorker(): Worker {
+    const worker = new Worker(new URL(import.meta.url), { workerData: { bookIndexWorker: true } });
+    const settle = (id: number) => {
+      const job = this.jobs.get(id);
+      this.jobs.delete(id);
+      if (this.jobs.size === 0) worker.unref();
+      return job;
+    };
+    const failAll = (err: Error) => {
+      if (this.worker === worker) this.worker = null;
+      for (const id of [...this.jobs.keys()]) settle(id)?.reject(err);
+    };
+
+    worker.on('message', (result: IndexJobResult) => settle(result.id)?.resolve(result));
+    worker.on('error', failAll);
+    worker.on('exit', () => failAll(new Error('Index worker stopped')));
+    worker.unref();
+    this.worker = worker;
+    return worker;
+  }
+
+  private remember(bookId: number, key: CacheContentKey, index: BookIndex): void {
+    this.loaded.delete(bookId);
+    this.loaded.set(bookId, { key, index });
+    if (this.loaded.size > MAX_LOADED) {
+      this.loaded.delete(this.loaded.keys().next().value!);
+    }
+  }
+
+  private fullyCachedKey(bookId: number): CacheContentKey | null {
+    const stats = this.cache.getBookStats(bookId);
+    if (!stats || stats.blocksCached < stats.totalBlocks) return null;
+    return this.cache.getContentKey(bookId);
+  }
+}
+
+// The worker: build or load one index per message, handing its arrays back
+if (!isMainThread && workerData?.bookIndexWorker) {
+  parentPort!.on('message', ({ id, job }: { id: number; job: IndexJob }) => {
+    const reply = (result: Omit<IndexJobResult, 'id'>) => {
+      const arrays = result.parts
+        ? [result.parts.tokens, result.parts.starts, result.parts.ends, result.parts.paragraphs,
+            result.parts.postingStarts, result.parts.postings]
+        : [];
+      parentPort!.postMessage({ id, ...result }, arrays.map(array => array.buffer as ArrayBuffer));
+    };
+
+    try {
+      if (job.kind === 'load') {
+        reply({ parts: BookIndex.load(job.filePath, job.key)?.toParts() ?? null });
+        return;
+      }
+      const index = BookIndex.build(Buffer.from(job.data.buffer, job.data.byteOffset, job.data.byteLength));
+      let saveError: string | undefined;
+      try {
+        index.save(job.filePath, job.key);
+      } catch (err) {
+        saveError = (err as Error).message;
+      }
+      reply({ parts: index.toParts(), saveError });
+    } catch (err) {
+      reply({ parts: null, error: (err as Error).message });
+    }
+  });
+}
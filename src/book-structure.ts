@@ -0,0 +1,470 @@
+/**
+ * Book Structure Module
+ * Finds the headings in a book's clean text and builds its table of
+ * contents: numbered divisions (PART II, Book the First, CHAPTER IV.,
+ * STAVE ONE), bare roman or arabic numerals ("XII.", "3. The Storm"),
+ * named sections (PREFACE, EPILOGUE) and, for books with none of those,
+ * standalone all-caps lines.
+ *
+ * A heading must stand apart: a blank line before it, and a blank line or
+ * a short title line (then a blank) after it, so prose that happens to
+ * start with "Chapter" isn't taken for one. A Gutenberg CONTENTS list is
+ * read as a list rather than as headings, and its titles fill in headings
+ * that have only a number ("CHAPTER IV.").
+ *
+ * StructureAnalyzer takes the text in pieces of any size; readOutline
+ * feeds it the whole clean range through a fetcher. OutlineStore keeps
+ * outlines between runs, keyed by the book's clean-text boundaries.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StringDecoder } from 'string_decoder';
+import type { Boundaries, BookOutline, TocEntry } from './types.js';
+
+const OUTLINE_FILE = path.join(os.homedir(), '.gutex_outlines.json');
+const VERSION = 1;
+
+/** Books kept in the outline file; the least recently saved are dropped */
+const MAX_STORED_OUTLINES = 200;
+
+/** Bytes read at a time when analysing a whole book */
+const READ_SIZE = 256 * 1024;
+
+/** Lines looked at past the current one (heading, blank, title, blank) */
+const LOOKAHEAD = 3;
+
+/** Longer lines are never headings or titles */
+const MAX_HEADING_LENGTH = 80;
+const MAX_TITLE_LENGTH = 70;
+
+/** Outlines stop growing here; a book with more is mostly noise */
+const MAX_ENTRIES = 2000;
+
+/** A CONTENTS list ends after this many lines without an entry */
+const MAX_CONTENTS_GAP = 400;
+
+// Level 1 divisions hold chapters; the rest are chapter-like
+const DIVISIONS: Record<string, { key: string; level: number }> = {
+  PART: { key: 'part', level: 1 },
+  BOOK: { key: 'book', level: 1 },
+  VOLUME: { key: 'volume', level: 1 },
+  'VOL.': { key: 'volume', level: 1 },
+  ACT: { key: 'act', level: 1 },
+  CHAPTER: { key: 'chapter', level: 2 },
+  'CHAP.': { key: 'chapter', level: 2 },
+  STAVE: { key: 'chapter', level: 2 },
+  LETTER: { key: 'letter', level: 2 },
+  SCENE: { key: 'scene', level: 2 }
+};
+
+const DIVISION_PATTERN = /^(PART|BOOK|VOLUME|VOL\.|ACT|CHAPTER|CHAP\.|STAVE|LETTER|SCENE)\s+(?:THE\s+)?([A-Z]+|\d{1,4})\b\.?(?:[\s.:–—-]+(.*))?$/i;
+const NUMERAL_PATTERN = /^([IVXLCDM]+|\d{1,3})(?:\.\s+(.+)|\.)?$/;
+const NAMED_PATTERN = /^(PREFACE|FOREWORD|INTRODUCTION|PROLOGUE|EPILOGUE|AFTERWORD|CONCLUSION|APPENDIX|POSTSCRIPT)\b\.?(?:[\s.:–—-]+(.*))?$/i;
+const CONTENTS_PATTERN = /^(?:TABLE\s+OF\s+)?CONTENTS\.?$/i;
+const NOT_HEADINGS = /^(?:THE\s+END|FINIS|CONTENTS|ILLUSTRATIONS|INDEX)\b/;
+const ROMAN = /^M{0,4}(?:CM|CD|D?C{0,3})(?:XC|XL|L?X{0,3})(?:IX|IV|V?I{0,3})$/;
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+
+const CARDINALS = ['ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE', 'TEN',
+  'ELEVEN', 'TWELVE', 'THIRTEEN', 'FOURTEEN', 'FIFTEEN', 'SIXTEEN', 'SEVENTEEN', 'EIGHTEEN', 'NINETEEN', 'TWENTY'];
+const ORDINALS = ['FIRST', 'SECOND', 'THIRD', 'FOURTH', 'FIFTH', 'SIXTH', 'SEVENTH', 'EIGHTH', 'NINTH', 'TENTH',
+  'ELEVENTH', 'TWELFTH', 'THIRTEENTH', 'FOURTEENTH', 'FIFTEENTH', 'SIXTEENTH', 'SEVENTEENTH', 'EIGHTEENTH', 'NINETEENTH', 'TWENTIETH'];
+
+interface Line {
+  /** Trimmed text, empty for blank lines and overlong ones */
+  text: string;
+  blank: boolean;
+  /** Byte offset of the first non-space character */
+  byteStart: number;
+}
+
+interface Heading {
+  /** Identifies the heading within its part, e.g. "chapter:4" */
+  key: string;
+  label: string;
+  title: string | null;
+  level: number;
+  kind: 'numbered' | 'named' | 'caps';
+}
+
+interface StoredOutline {
+  version: number;
+  startByte: number;
+  endByte: number;
+  savedAt: number;
+  outline: BookOutline;
+}
+
+// "IV", "12", "TWELVE", "Twelfth" → 12; null if it isn't a number
+function parseNumber(token: string): number | null {
+  const upper = token.toUpperCase();
+  if (/^\d+$/.test(upper)) return parseInt(upper, 10);
+  if (ROMAN.test(upper)) {
+    let value = 0;
+    for (let i = 0; i < upper.length; i++) {
+      const digit = ROMAN_VALUES[upper[i]];
+      const next = ROMAN_VALUES[upper[i + 1]] || 0;
+      value += digit < next ? -digit : digit;
+    }
+    return value;
+  }
+  const cardinal = CARDINALS.indexOf(upper);
+  if (cardinal >= 0) return cardinal + 1;
+  const ordinal = ORDINALS.indexOf(upper);
+  return ordinal >= 0 ? ordinal + 1 : null;
+}
+
+function cleanTitle(title: string | undefined): string | null {
+  const cleaned = (title || '').replace(/\s+/g, ' ').replace(/[.:,;]$/, '').trim();
+  return cleaned || null;
+}
+
+// Label is what comes before the title: "CHAPTER IV. Loomings" → "CHAPTER IV."
+function labelOf(text: string, rawTitle: string | undefined): string {
+  return rawTitle ? text.slice(0, text.length - rawTitle.length).trim() : text;
+}
+
+// Dot leaders and page numbers in a CONTENTS line: "Loomings ....... 12"
+function stripPageNumber(text: string): string {
+  return text.replace(/(?:\s*\.{2,}\s*|\s{2,})\d+$/, '').trim();
+}
+
+/**
+ * Classify a line as a numbered or named heading; all-caps lines are
+ * judged separately, as they only count in books without numbered ones.
+ * A title running on in lower case ("Chapter 2 of the log") is prose.
+ */
+function parseHeading(text: string): Heading | null {
+  if (text.length > MAX_HEADING_LENGTH) return null;
+
+  const division = DIVISION_PATTERN.exec(text);
+  if (division && /^[A-Z]/.test(division[1]) && !/^[a-z]/.test(division[3] || '')) {
+    const number = parseNumber(division[2]);
+    const kind = DIVISIONS[division[1].toUpperCase()];
+    if (number !== null) {
+      return {
+        key: `${kind.key}:${number}`,
+        label: labelOf(text, division[3]),
+        title: cleanTitle(division[3]),
+        level: kind.level,
+        kind: 'numbered'
+      };
+    }
+  }
+
+  const numeral = NUMERAL_PATTERN.exec(text);
+  if (numeral) {
+    const number = parseNumber(numeral[1]);
+    if (number !== null && number > 0) {
+      return {
+        key: `chapter:${number}`,
+        label: labelOf(text, numeral[2]),
+        title: cleanTitle(numeral[2]),
+        level: 2,
+        kind: 'numbered'
+      };
+    }
+  }
+
+  const named = NAMED_PATTERN.exec(text);
+  if (named && /^[A-Z]/.test(named[1])) {
+    return {
+      key: named[1].toLowerCase(),
+      label: labelOf(text, named[2]),
+      title: cleanTitle(named[2]),
+      level: 2,
+      kind: 'named'
+    };
+  }
+
+  return null;
+}
+
+function isCapsHeading(text: string): boolean {
+  return text.length <= MAX_TITLE_LENGTH &&
+    !/[a-z]/.test(text) &&
+    (text.match(/[A-Z]/g) || []).length >= 3 &&
+    !NOT_HEADINGS.test(text);
+}
+
+// A line that can serve as the title under a heading
+function isTitleLine(line: Line | undefined): boolean {
+  return !!line && !!line.text && line.text.length <= MAX_TITLE_LENGTH &&
+    !parseHeading(line.text) && !CONTENTS_PATTERN.test(line.text);
+}
+
+export class StructureAnalyzer {
+  private boundaries: Boundaries;
+  private partial = '';
+  private offset: number;
+  private window: Line[] = [];
+  private previousBlank = true;
+  // Title lines already used by the heading above them
+  private consumedThrough = -1;
+
+  private headings: Array<Heading & { byteStart: number }> = [];
+  private part = '';
+
+  // CONTENTS list state: entries by key, with the titles it gives them
+  private hasContents = false;
+  private inContents = false;
+  private listing = new Map<string, string | null>();
+  private listingPart = '';
+  private awaitingTitle: string | null = null;
+  private contentsGap = 0;
+  private paragraphRun = 0;
+  private lastListed: { key: string; heading: Heading; byteStart: number; standalone: boolean } | null = null;
+  private listSpaced = false;
+
+  constructor(boundaries: Boundaries) {
+    this.boundaries = boundaries;
+    this.offset = boundaries.startByte;
+  }
+
+  /**
+   * Add text that follows on from what came before
+   */
+  push(text: string): void {
+    const lines = (this.partial + text).split('\n');
+    this.partial = lines.pop()!;
+    for (const line of lines) this.addLine(line);
+  }
+
+  /**
+   * Finish the text and return the outline
+   */
+  end(): BookOutline {
+    if (this.partial) this.addLine(this.partial);
+    this.partial = '';
+    while (this.window.length > 0) this.processNext();
+
+    const numbered = this.headings.filter(h => h.kind === 'numbered').length;
+    const entries: TocEntry[] = this.headings
+      .filter(h => h.kind !== 'caps' || numbered < 2)
+      .map(h => ({
+        label: h.label,
+        title: h.title ?? this.listing.get(h.key) ?? null,
+        level: h.level,
+        byteStart: h.byteStart,
+        percent: this.percentOf(h.byteStart)
+      }));
+
+    return { entries, hasContents: this.hasContents };
+  }
+
+  private addLine(raw: string): void {
+    const byteLength = Buffer.byteLength(raw, 'utf-8');
+    const trimmed = raw.length > MAX_HEADING_LENGTH * 4 ? '' : raw.trim();
+    const indent = trimmed ? Buffer.byteLength(raw.slice(0, raw.length - raw.trimStart().length), 'utf-8') : 0;
+    this.window.push({
+      text: trimmed,
+      blank: raw.trim() === '',
+      byteStart: this.offset + indent
+    });
+    this.offset += byteLength + 1;
+    if (this.window.length > LOOKAHEAD) this.processNext();
+  }
+
+  private processNext(): void {
+    const line = this.window[0];
+    const previousBlank = this.previousBlank;
+    this.previousBlank = line.blank;
+
+    if (!line.blank && line.byteStart > this.consumedThrough) {
+      if (!(this.inContents && this.addToContents(line, previousBlank))) {
+        this.classify(line, previousBlank);
+      }
+    }
+    this.window.shift();
+  }
+
+  private classify(line: Line, previousBlank: boolean): void {
+    const [, next, afterNext, third] = this.window;
+    if (!previousBlank || !line.text) return;
+
+    if (CONTENTS_PATTERN.test(line.text)) {
+      this.startContents();
+      return;
+    }
+
+    const heading = parseHeading(line.text) ??
+      (isCapsHeading(line.text) ? { key: 'caps', label: line.text, title: null, level: 3, kind: 'caps' as const } : null);
+    if (!heading) return;
+
+    // Stands apart: blank after, or a title line then a blank
+    const blankAfter = !next || next.blank;
+    const titleAfter = isTitleLine(next) && (!afterNext || afterNext.blank);
+    if (!blankAfter && !(titleAfter && heading.kind !== 'caps')) return;
+
+    if (heading.kind !== 'caps' && !heading.title) {
+      const titleLine = titleAfter ? next : (blankAfter && isTitleLine(afterNext) && (!third || third.blank) ? afterNext : null);
+      if (titleLine) {
+        heading.title = cleanTitle(titleLine.text);
+        this.consumedThrough = titleLine.byteStart;
+      }
+    }
+
+    this.addHeading(heading, line.byteStart);
+  }
+
+  private addHeading(heading: Heading, byteStart: number): void {
+    if (this.headings.length >= MAX_ENTRIES) return;
+    if (heading.level === 1) {
+      this.part = heading.key;
+    } else if (heading.kind === 'numbered') {
+      heading.key = `${this.part}/${heading.key}`;
+    }
+    this.headings.push({ ...heading, byteStart });
+  }
+
+  private startContents(): void {
+    this.hasContents = true;
+    this.inContents = true;
+    this.contentsGap = 0;
+    this.paragraphRun = 0;
+  }
+
+  /**
+   * Take a line of a CONTENTS list; false once the list has ended and the
+   * line should be read as text
+   */
+  private addToContents(line: Line, previousBlank: boolean): boolean {
+    if (previousBlank) this.paragraphRun = 0;
+
+    const entry = line.text ? parseHeading(stripPageNumber(line.text)) : null;
+    if (entry) {
+      const part = entry.level === 1 ? entry.key : this.listingPart;
+      const key = entry.level === 1 || entry.kind === 'named' ? entry.key : `${part}/${entry.key}`;
+      // The list is over when its first entry comes round again as a heading
+      if (this.listing.has(key)) {
+        this.endContents(false);
+        return false;
+      }
+      this.listingPart = part;
+      this.listing.set(key, entry.title);
+      this.awaitingTitle = entry.title ? null : key;
+      const [, next] = this.window;
+      this.listSpaced = !!this.lastListed?.standalone;
+      this.lastListed = { key, heading: entry, byteStart: line.byteStart, standalone: previousBlank && (!next || next.blank) };
+      this.contentsGap = 0;
+      this.paragraphRun = 0;
+      return true;
+    }
+
+    // A title on the line under its number
+    if (this.awaitingTitle && line.text && line.text.length <= MAX_TITLE_LENGTH) {
+      this.listing.set(this.awaitingTitle, cleanTitle(stripPageNumber(line.text)));
+      this.awaitingTitle = null;
+      return true;
+    }
+    this.awaitingTitle = null;
+
+    // Several lines of prose: the list ended some time ago
+    this.paragraphRun++;
+    this.contentsGap++;
+    if (this.paragraphRun >= 3 || this.contentsGap >= MAX_CONTENTS_GAP) {
+      this.endContents(true);
+      return false;
+    }
+    return true;
+  }
+
+  private endContents(afterProse: boolean): void {
+    this.inContents = false;
+    this.awaitingTitle = null;
+    // A heading that followed the list without being in it was taken for
+    // its last entry; standing apart from a close-set list with prose right
+    // after shows it was a heading after all
+    const last = this.lastListed;
+    if (afterProse && last && last.standalone && !this.listSpaced) {
+      this.listing.delete(last.key);
+      this.addHeading(last.heading, last.byteStart);
+    }
+    this.lastListed = null;
+    this.listSpaced = false;
+  }
+
+  private percentOf(byte: number): number {
+    const { startByte, cleanLength } = this.boundaries;
+    if (cleanLength <= 0) return 0;
+    return Math.round(((byte - startByte) / cleanLength) * 1000) / 10;
+  }
+}
+
+/**
+ * Read a book's clean text through fetchRange (inclusive end) and return
+ * its outline
+ */
+export async function readOutline(
+  fetchRange: (start: number, end: number) => Promise<Buffer>,
+  boundaries: Boundaries
+): Promise<BookOutline> {
+  const analyzer = new StructureAnalyzer(boundaries);
+  const decoder = new StringDecoder('utf8');
+  for (let start = boundaries.startByte; start < boundaries.endByte; start += READ_SIZE) {
+    const end = Math.min(boundaries.endByte, start + READ_SIZE) - 1;
+    analyzer.push(decoder.write(await fetchRange(start, end)));
+  }
+  analyzer.push(decoder.end());
+  return analyzer.end();
+}
+
+/**
+ * Outlines saved between runs, one file for all books. An outline is only
+ * used for the same clean-text boundaries it was read from.
+ */
+export class OutlineStore {
+  private filePath: string;
+  private outlines: Record<string, StoredOutline> | null = null;
+
+  constructor(filePath: string = OUTLINE_FILE) {
+    this.filePath = filePath;
+  }
+
+  load(bookId: number | string, boundaries: Boundaries): BookOutline | null {
+    const stored = this.read()[String(bookId)];
+    if (!stored || stored.version !== VERSION ||
+        stored.startByte !== boundaries.startByte || stored.endByte !== boundaries.endByte) {
+      return null;
+    }
+    return stored.outline;
+  }
+
+  save(bookId: number | string, boundaries: Boundaries, outline: BookOutline): void {
+    const outlines = this.read();
+    outlines[String(bookId)] = {
+      version: VERSION,
+      startByte: boundaries.startByte,
+      endByte: boundaries.endByte,
+      savedAt: Date.now(),
+      outline
+    };
+
+    const ids = Object.keys(outlines);
+    if (ids.length > MAX_STORED_OUTLINES) {
+      ids.sort((a, b) => outlines[a].savedAt - outlines[b].savedAt);
+      for (const id of ids.slice(0, ids.length - MAX_STORED_OUTLINES)) delete outlines[id];
+    }
+
+    try {
+      const tempPath = `${this.filePath}.tmp-${process.pid}`;
+      fs.writeFileSync(tempPath, JSON.stringify(outlines));
+      fs.renameSync(tempPath, this.filePath);
+    } catch {
+      // Not saved; the outline is read again next time
+    }
+  }
+
+  private read(): Record<string, StoredOutline> {
+    if (!this.outlines) {
+      try {
+        this.outlines = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) || {};
+      } catch {
+        this.outlines = {};
+      }
+    }
+    return this.outlines!;
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * Cache Archive Module
+ * Export and import of sparse-cache books as a single .tar.gz bundle, for
+ * moving a reading library between machines
+ *
+ * Layout (plain ustar, readable with `tar -tzf`):
+ *   manifest.json
+ *   books/<id>.meta.json, <id>.bitmap, <id>.sums, <id>.txt   (per book)
+ *   catalog/pg_catalog.meta.json, catalog/pg_catalog.csv     (if present)
+ *
+ * Entries are written and read one at a time, so only a single book is held
+ * in memory. Importing merges into the existing cache via SparseCache.importBook.
+ */
+
+import fs from 'fs';
+import { once } from 'events';
+import { pipeline } from 'stream/promises';
+import { createGzip, createGunzip } from 'zlib';
+import type { Readable, Writable } from 'stream';
+import type { SparseCache, CacheBookExport, CacheImportResult, CacheMetadata } from './sparse-cache.js';
+import type { CatalogManager } from './catalog-manager.js';
+import type { CatalogMeta } from './types.js';
+
+const FORMAT = 'gutex-cache';
+const VERSION = 1;
+const TAR_BLOCK = 512;
+
+/** First entry of every archive */
+export interface CacheArchiveManifest {
+  format: typeof FORMAT;
+  version: number;
+  createdAt: string;
+  blockSize: number;
+  books: number[];
+  catalog: boolean;
+}
+
+export interface CacheExportOptions {
+  cache: SparseCache;
+  /** Include the catalog CSV and metadata when given */
+  catalog?: CatalogManager | null;
+  /** Books to export (default: every cached book) */
+  bookIds?: number[] | null;
+}
+
+export interface CacheImportOptions {
+  cache: SparseCache;
+  /** Receives the archived catalog when given */
+  catalog?: CatalogManager | null;
+}
+
+export interface CacheImportSummary {
+  books: CacheImportResult[];
+  /** 'imported' if the archive's catalog replaced ours, 'kept' if ours was newer */
+  catalog: 'imported' | 'kept' | 'absent';
+}
+
+// ============================================================================
+// Tar encoding
+// ============================================================================
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'ascii');
+}
+
+/**
+ * Build a ustar header for a regular file
+ */
+function tarHeader(name: string, size: number, mtime: number): Buffer {
+  if (Buffer.byteLength(name) > 100) {
+    throw new Error(`Archive entry name too long: ${name}`);
+  }
+
+  const header = Buffer.alloc(TAR_BLOCK);
+  header.write(name, 0, 100, 'utf-8');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime / 1000), 136, 12);
+  header.write('        ', 148, 8, 'ascii');
+  header.write('0', 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+  return header;
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+function parseHeader(header: Buffer): { name: string; size: number; type: string } {
+  if (readString(header, 257, 6).trim() !== 'ustar') {
+    throw new Error('Not a gutex cache archive (bad tar header)');
+  }
+
+  const expected = parseInt(readString(header, 148, 8).trim(), 8);
+  let checksum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    checksum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  if (checksum !== expected) {
+    throw new Error('Corrupt cache archive (tar header checksum mismatch)');
+  }
+
+  return {
+    name: readString(header, 0, 100),
+    size: parseInt(readString(header, 124, 12).trim() || '0', 8),
+    type: readString(header, 156, 1) || '0'
+  };
+}
+
+function paddedSize(size: number): number {
+  return Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+}
+
+/**
+ * Incremental tar parser: feed it gunzipped chunks, get back whole entries
+ */
+class TarParser {
+  private chunks: Buffer[] = [];
+  private length = 0;
+  private entry: { name: string; size: number; type: string } | null = null;
+  public ended = false;
+
+  push(chunk: Buffer): Array<{ name: string; data: Buffer }> {
+    if (this.ended) return [];
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+
+    const entries: Array<{ name: string; data: Buffer }> = [];
+    while (!this.ended) {
+      if (!this.entry) {
+        if (this.length < TAR_BLOCK) break;
+        const header = this.take(TAR_BLOCK);
+        if (header.every(b => b === 0)) {
+          this.ended = true;
+          break;
+        }
+        this.entry = parseHeader(header);
+      } else {
+        const padded = paddedSize(this.entry.size);
+        if (this.length < padded) break;
+        const data = this.take(padded).subarray(0, this.entry.size);
+        // Only regular files carry cache data
+        if (this.entry.type === '0') {
+          entries.push({ name: this.entry.name, data });
+        }
+        this.entry = null;
+      }
+    }
+    return entries;
+  }
+
+  private take(n: number): Buffer {
+    const all = this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks);
+    this.chunks = all.length > n ? [all.subarray(n)] : [];
+    this.length -= n;
+    return all.subarray(0, n);
+  }
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Write a .tar.gz bundle of cached books (and the catalog) to a stream
+ */
+export async function exportCacheArchive(output: Writable, options: CacheExportOptions): Promise<CacheArchiveManifest> {
+  const { cache } = options;
+  const bookIds = options.bookIds ?? cache.listCachedBooks();
+  const catalogFiles = options.catalog ? options.catalog.exportFiles() : null;
+
+  const gzip = createGzip();
+  const piped = pipeline(gzip, output);
+  const now = Date.now();
+
+  const writeEntry = async (name: string, data: Buffer): Promise<void> => {
+    const padding = paddedSize(data.length) - data.length;
+    for (const part of [tarHeader(name, data.length, now), data, Buffer.alloc(padding)]) {
+      if (part.length > 0 && !gzip.write(part)) {
+        await once(gzip, 'drain');
+      }
+    }
+  };
+
+  const books = bookIds.filter(bookId => cache.getBookStats(bookId) !== null);
+
+  const manifest: CacheArchiveManifest = {
+    format: FORMAT,
+    version: VERSION,
+    createdAt: new Date(now).toISOString(),
+    blockSize: cache.getBlockSize(),
+    books,
+    catalog: catalogFiles !== null
+  };
+
+  try {
+    await writeEntry('manifest.json', Buffer.from(JSON.stringify(manifest, null, 2)));
+
+    for (const bookId of books) {
+      // Read one book at a time; a book that fails to read is left out
+      const entry = cache.exportBook(bookId);
+      if (!entry) continue;
+      await writeEntry(`books/${bookId}.meta.json`, Buffer.from(JSON.stringify(entry.meta, null, 2)));
+      await writeEntry(`books/${bookId}.bitmap`, entry.bitmap);
+      if (entry.sums) {
+        await writeEntry(`books/${bookId}.sums`, entry.sums);
+      }
+      // Data last: the importer merges a book when its .txt arrives
+      await writeEntry(`books/${bookId}.txt`, entry.data);
+    }
+
+    if (catalogFiles) {
+      await writeEntry('catalog/pg_catalog.meta.json', Buffer.from(JSON.stringify(catalogFiles.meta, null, 2)));
+      await writeEntry('catalog/pg_catalog.csv', catalogFiles.csv);
+    }
+
+    gzip.end(Buffer.alloc(TAR_BLOCK * 2));
+  } catch (err) {
+    gzip.destroy(err as Error);
+  }
+
+  await piped;
+  return manifest;
+}
+
+/**
+ * Export to a file, replacing it only once the archive is complete
+ */
+export async function exportCacheArchiveToFile(filePath: string, options: CacheExportOptions): Promise<CacheArchiveManifest> {
+  const tempPath = `${filePath}.tmp-${process.pid}`;
+  try {
+    const manifest = await exportCacheArchive(fs.createWriteStream(tempPath), options);
+    fs.renameSync(tempPath, filePath);
+    return manifest;
+  } catch (err) {
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  }
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Read a bundle from a stream and merge it into the cache (and catalog)
+ */
+export async function importCacheArchive(input: Readable, options: CacheImportOptions): Promise<CacheImportSummary> {
+  const { cache } = options;
+  // Plain pipe rather than pipeline: a rejected archive must not destroy the
+  // input, which for the web API is the request the error is reported on
+  const gunzip = createGunzip();
+  input.on('error', err => gunzip.destroy(err));
+  input.pipe(gunzip);
+
+  const parser = new TarParser();
+  const summary: CacheImportSummary = { books: [], catalog: 'absent' };
+  const pending = new Map<number, Partial<CacheBookExport>>();
+  let manifest: CacheArchiveManifest | null = null;
+  let catalogMeta: CatalogMeta = {};
+
+  const handleEntry = (name: string, data: Buffer): void => {
+    if (!manifest) {
+      if (name !== 'manifest.json') {
+        throw new Error('Not a gutex cache archive (missing manifest)');
+      }
+      manifest = JSON.parse(data.toString('utf-8')) as CacheArchiveManifest;
+      if (manifest.format !== FORMAT || manifest.version !== VERSION) {
+        throw new Error(`Unsupported cache archive format: ${manifest.format} v${manifest.version}`);
+      }
+      if (manifest.blockSize !== cache.getBlockSize()) {
+        throw new Error(`Cache archive block size ${manifest.blockSize} does not match this cache (${cache.getBlockSize()})`);
+      }
+      return;
+    }
+
+    const bookMatch = name.match(/^books\/(\d+)\.(meta\.json|bitmap|sums|txt)$/);
+    if (bookMatch) {
+      const bookId = parseInt(bookMatch[1], 10);
+      const book = pending.get(bookId) ?? {};
+      pending.set(bookId, book);
+
+      switch (bookMatch[2]) {
+        case 'meta.json':
+          book.meta = JSON.parse(data.toString('utf-8')) as CacheMetadata;
+          break;
+        case 'bitmap':
+          book.bitmap = data;
+          break;
+        case 'sums':
+          book.sums = data;
+          break;
+        case 'txt':
+          pending.delete(bookId);
+          if (!book.meta || !book.bitmap || book.meta.bookId !== bookId) {
+            summary.books.push({ bookId, action: 'skipped', blocksAdded: 0, blocksRejected: 0, reason: 'incomplete entry' });
+            break;
+          }
+          summary.books.push(cache.importBook({ meta: book.meta, bitmap: book.bitmap, sums: book.sums ?? null, data }));
+          break;
+      }
+      return;
+    }
+
+    if (name === 'catalog/pg_catalog.meta.json') {
+      catalogMeta = JSON.parse(data.toString('utf-8')) as CatalogMeta;
+    } else if (name === 'catalog/pg_catalog.csv' && options.catalog) {
+      summary.catalog = options.catalog.importFiles(data, catalogMeta) ? 'imported' : 'kept';
+    }
+  };
+
+  for await (const chunk of gunzip) {
+    for (const entry of parser.push(chunk as Buffer)) {
+      handleEntry(entry.name, entry.data);
+    }
+  }
+  if (!parser.ended) {
+    throw new Error('Truncated cache archive');
+  }
+
+  return summary;
+}
+
+export async function importCacheArchiveFromFile(filePath: string, options: CacheImportOptions): Promise<CacheImportSummary> {
+  return importCacheArchive(fs.createReadStream(filePath), options);
+}
+
+/** Exposed for tests */
+export const _internal = {
+  tarHeader,
+  parseHeader,
+  TarParser
+};
@@ -12,7 +12,7 @@
  * - Falls through to network on cache failures
  */
 
-import { SparseCache, getSharedSparseCache, type SparseCacheOptions, type UpstreamFetcher } from './sparse-cache.js';
+import { SparseCache, NotCachedError, getSharedSparseCache, type SparseCacheOptions, type UpstreamFetcher } from './sparse-cache.js';
 import { getSharedMirrorManager } from './mirror-manager.js';
 import type { FetcherStats, FetcherOptions, LogCallback, MirrorManagerInterface, Mirror } from './types.js';
 
@@ -147,7 +147,8 @@ export class CachedFetcher {
         return result;
       } catch (err) {
         this._log(`Attempt ${attempt + 1} failed: ${(err as Error).message}`);
-        if (attempt === retries - 1) throw err;
+        // Missing offline data won't appear by retrying
+        if (err instanceof NotCachedError || attempt === retries - 1) throw err;
         await this._sleep(500 * (attempt + 1));
       }
     }
@@ -0,0 +1,93 @@
+/**
+ * Catalog Author Module
+ * Parses the catalog's free-text Authors field into structured credits:
+ *
+ *   Austen, Jane, 1775-1817; Jerome, Helen [Editor]
+ *   Homer, 751? BCE-651? BCE
+ *   Wells, H. G. (Herbert George), 1866-1946 [Illustrator]
+ *
+ * Each credit gets a slug from its name and dates, so two authors with the
+ * same name but different dates get different pages.
+ */
+
+import { foldText } from './catalog-query.js';
+import type { AuthorCredit } from './types.js';
+
+// Name suffixes that follow the given names: "Davis, Richard Harding, Jr."
+const SUFFIX = /^(?:jr|sr|[ivx]+)\.?$/i;
+
+function parseYear(text: string): number | null {
+  const match = text.trim().match(/^(\d{1,4})\??\s*(BCE?)?\??$/i);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  return match[2] ? -year : year;
+}
+
+// "1775-1817", "1847?-1912", "-1400", "1800-", "384 BCE-322 BCE"; anything
+// else (fl. 1350, active 17th century) keeps its text but no years
+function parseDates(dates: string): { birthYear: number | null; deathYear: number | null } {
+  const parts = dates.split('-');
+  if (parts.length !== 2) return { birthYear: null, deathYear: null };
+  return { birthYear: parseYear(parts[0]), deathYear: parseYear(parts[1]) };
+}
+
+/**
+ * Given names first: "Austen, Jane" → "Jane Austen"
+ */
+export function displayAuthorName(name: string): string {
+  const parts = name.replace(/\s*\([^)]*\)/g, '').split(/,\s*/).map(p => p.trim()).filter(Boolean);
+  if (parts.length <= 1) return parts[0] ?? name.trim();
+  const [surname, ...given] = parts;
+  const suffix = given.length > 1 && SUFFIX.test(given[given.length - 1]) ? given.pop()! : null;
+  return [...given, surname, ...(suffix ? [suffix] : [])].join(' ');
+}
+
+/**
+ * URL-safe id for an author: folded name and dates joined with dashes
+ */
+export function authorSlug(name: string, dates: string | null = null): string {
+  return foldText(dates ? `${name} ${dates}` : name).replace(/ /g, '-');
+}
+
+/**
+ * Parse one author entry (between semicolons) of an Authors field
+ */
+export function parseAuthorCredit(entry: string): AuthorCredit | null {
+  let rest = entry.replace(/\s+/g, ' ').trim();
+
+  let role: string | null = null;
+  const roleMatch = rest.match(/\s*\[([^\]]+)\]$/);
+  if (roleMatch) {
+    role = roleMatch[1].trim();
+    rest = rest.slice(0, roleMatch.index).trim();
+  }
+
+  let dates: string | null = null;
+  const datesMatch = rest.match(/,\s*([^,]*\d[^,]*)$/);
+  if (datesMatch) {
+    dates = datesMatch[1].trim();
+    rest = rest.slice(0, datesMatch.index).trim();
+  }
+
+  const name = rest.replace(/,$/, '').trim();
+  if (!name) return null;
+
+  return {
+    name,
+    displayName: displayAuthorName(name),
+    dates,
+    ...(dates ? parseDates(dates) : { birthYear: null, deathYear: null }),
+    role,
+    slug: authorSlug(name, dates)
+  };
+}
+
+/**
+ * Parse a whole Authors field ("A, B, 1800-1850; C [Translator]")
+ */
+export function parseAuthors(field: string | null | undefined): AuthorCredit[] {
+  if (!field) return [];
+  return field.split(';')
+    .map(parseAuthorCredit)
+    .filter((credit): credit is AuthorCredit => credit !== null);
+}
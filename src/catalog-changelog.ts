@@ -0,0 +1,156 @@
+/**
+ * Catalog Changelog Module
+ * Records which books each catalog update added, changed or removed, and
+ * renders recent arrivals as an Atom feed.
+ *
+ * The changelog is saved next to the catalog as pg_catalog.changelog.json,
+ * one entry per update that changed anything, oldest first.
+ */
+
+import fs from 'fs';
+import { parseAuthors } from './catalog-author.js';
+import type { CatalogRecord, CatalogDiff, CatalogChangelogEntry, CatalogArrival } from './types.js';
+
+const FORMAT = 'gutex-catalog-changelog';
+const VERSION = 1;
+
+/** Updates kept; older entries are dropped */
+const MAX_ENTRIES = 365;
+
+interface SerializedChangelog {
+  format: typeof FORMAT;
+  version: number;
+  entries: CatalogChangelogEntry[];
+}
+
+// Everything the catalog says about a book, in a comparable form
+function recordKey(record: CatalogRecord): string {
+  return JSON.stringify([
+    record.title, record.author, record.year, record.language, record.type,
+    record.subjects, record.locc, record.bookshelves
+  ]);
+}
+
+/**
+ * Ids added, changed (any field differs) or removed between two catalogs
+ */
+export function diffCatalogRecords(before: CatalogRecord[], after: CatalogRecord[]): CatalogDiff {
+  const previous = new Map(before.map(r => [r.id, r]));
+  const added: string[] = [];
+  const changed: string[] = [];
+
+  for (const record of after) {
+    const old = previous.get(record.id);
+    if (!old) {
+      added.push(record.id);
+      continue;
+    }
+    if (recordKey(old) !== recordKey(record)) changed.push(record.id);
+    previous.delete(record.id);
+  }
+
+  return { added, changed, removed: [...previous.keys()] };
+}
+
+/**
+ * Read the changelog; missing or unreadable files are empty
+ */
+export function loadChangelog(filePath: string): CatalogChangelogEntry[] {
+  try {
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SerializedChangelog;
+    if (saved.format !== FORMAT || saved.version !== VERSION || !Array.isArray(saved.entries)) return [];
+    return saved.entries;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add an entry and write the changelog atomically (temp file, then rename)
+ */
+export function appendChangelog(filePath: string, entry: CatalogChangelogEntry): void {
+  const entries = [...loadChangelog(filePath), entry].slice(-MAX_ENTRIES);
+  const data: SerializedChangelog = { format: FORMAT, version: VERSION, entries };
+  const tempPath = `${filePath}.tmp-${process.pid}`;
+  fs.writeFileSync(tempPath, JSON.stringify(data));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Books added or changed at or after a date, newest first. A book added and
+ * then changed counts as added (with the later date); a book removed again
+ * is left out.
+ */
+export function changesSince(
+  entries: CatalogChangelogEntry[],
+  since: Date
+): Array<{ id: string; change: 'added' | 'changed'; date: string }> {
+  const changes = new Map<string, { id: string; change: 'added' | 'changed'; date: string }>();
+  const from = since.getTime();
+
+  const recent = entries
+    .filter(e => Date.parse(e.date) >= from)
+    .sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+
+  for (const entry of recent) {
+    for (const id of entry.added) changes.set(id, { id, change: 'added', date: entry.date });
+    for (const id of entry.changed) {
+      changes.set(id, { id, change: changes.get(id)?.change ?? 'changed', date: entry.date });
+    }
+    for (const id of entry.removed) changes.delete(id);
+  }
+
+  return [...changes.values()].sort((a, b) =>
+    Date.parse(b.date) - Date.parse(a.date) || parseInt(b.id, 10) - parseInt(a.id, 10));
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Atom feed of new and changed books; entries link into the reader
+ *
+ * @param baseUrl - Server origin, e.g. http://localhost:3000
+ */
+export function renderArrivalsFeed(arrivals: CatalogArrival[], baseUrl: string): string {
+  const updated = arrivals[0]?.date ?? new Date().toISOString();
+
+  const entries = arrivals.map(book => {
+    const authors = parseAuthors(book.author).filter(a => !a.role);
+    const by = authors.length > 0 ? ` by ${authors.map(a => a.displayName).join(', ')}` : '';
+    const summary = `${book.change === 'added' ? 'New' : 'Updated'}: ${book.title}${by}` +
+      (book.language ? ` (${book.language})` : '');
+
+    return [
+      '  <entry>',
+      `    <title>${escapeXml(book.title)}</title>`,
+      `    <id>tag:gutenberg.org,2000:ebooks/${book.id}/${book.change}/${escapeXml(book.date)}</id>`,
+      `    <link href="${escapeXml(`${baseUrl}/read#${book.id}`)}"/>`,
+      `    <link rel="related" href="https://www.gutenberg.org/ebooks/${book.id}"/>`,
+      `    <updated>${escapeXml(book.date)}</updated>`,
+      ...authors.map(a => `    <author><name>${escapeXml(a.displayName)}</name></author>`),
+      ...book.subjects.map(s => `    <category term="${escapeXml(s)}"/>`),
+      `    <summary>${escapeXml(summary)}</summary>`,
+      '  </entry>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    '  <title>New on Project Gutenberg</title>',
+    `  <id>${escapeXml(`${baseUrl}/feeds/new.xml`)}</id>`,
+    `  <link rel="self" href="${escapeXml(`${baseUrl}/feeds/new.xml`)}"/>`,
+    `  <link href="${escapeXml(`${baseUrl}/`)}"/>`,
+    `  <updated>${escapeXml(updated)}</updated>`,
+    '  <author><name>Project Gutenberg</name></author>',
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
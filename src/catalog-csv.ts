@@ -0,0 +1,320 @@
+/**
+ * Catalog CSV Module
+ * Incremental parser for pg_catalog.csv. Text goes in as chunks of any size
+ * (a chunk may end mid-field or mid-quote) and complete records come out;
+ * only the row in progress is held. Columns are found by header name, so
+ * reordered or added columns don't matter. Rows that can't be used are
+ * skipped and reported with the line they start on.
+ *
+ * readCatalogFile streams a .csv or .csv.gz from disk; readCatalogFileSync
+ * reads a .csv in fixed-size blocks.
+ */
+
+import fs from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { createGunzip, gunzipSync } from 'zlib';
+import type { CatalogRecord, CatalogCsvProblem } from './types.js';
+
+// Header names for each record field; only Text# and Title are required
+const COLUMNS = {
+  id: 'Text#',
+  type: 'Type',
+  issued: 'Issued',
+  title: 'Title',
+  language: 'Language',
+  authors: 'Authors',
+  subjects: 'Subjects',
+  locc: 'LoCC',
+  bookshelves: 'Bookshelves'
+} as const;
+
+const REQUIRED: Array<keyof typeof COLUMNS> = ['id', 'title'];
+
+/** A row longer than this (usually a stray quote swallowing the file) is dropped */
+const MAX_ROW_LENGTH = 256 * 1024;
+
+/** Block size for reading the catalog from disk */
+const READ_SIZE = 64 * 1024;
+
+/**
+ * The catalog can't be read at all, e.g. its header lacks a required column
+ */
+export class CatalogCsvError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'CatalogCsvError';
+  }
+}
+
+// Subjects, LoCC and Bookshelves hold several values separated by "; "
+function splitList(field: string | undefined): string[] {
+  return (field || '').split(';').map(v => v.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+function clean(field: string | undefined): string {
+  return (field || '').replace(/\s+/g, ' ').trim();
+}
+
+export class CatalogCsvParser {
+  readonly problems: CatalogCsvProblem[] = [];
+  // Column index per field, once the header has been read
+  private columns: Record<keyof typeof COLUMNS, number> | null = null;
+  private headerLength = 0;
+  private onProblem: ((problem: CatalogCsvProblem) => void) | null;
+
+  private fields: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  // The last character closed a quote; a second " right after is a literal quote
+  private afterQuote = false;
+  // A \r ended the last row; a \n right after it belongs to the same line break
+  private afterCR = false;
+  // Dropping an overlong row up to the next line break
+  private skipping = false;
+  private rowLength = 0;
+  private line = 1;
+  private rowLine = 1;
+  private output: CatalogRecord[] = [];
+
+  constructor(onProblem: ((problem: CatalogCsvProblem) => void) | null = null) {
+    this.onProblem = onProblem;
+  }
+
+  /**
+   * Parse the next chunk of text; returns the records it completed
+   */
+  push(text: string): CatalogRecord[] {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (char === '\n' || char === '\r') {
+        this.line++;
+        this.afterCR = char === '\r';
+        if (!this.inQuotes) {
+          if (this.skipping) {
+            this.skipping = false;
+          } else {
+            this._endRow();
+          }
+          this.rowLine = this.line;
+          continue;
+        }
+      }
+
+      if (this.skipping) continue;
+
+      if (++this.rowLength > MAX_ROW_LENGTH) {
+        this._problem(this.rowLine, `row longer than ${MAX_ROW_LENGTH} characters (unbalanced quote?)`);
+        this._resetRow();
+        this.skipping = true;
+        continue;
+      }
+
+      if (char === '"') {
+        if (this.inQuotes) {
+          this.inQuotes = false;
+          this.afterQuote = true;
+        } else {
+          if (this.afterQuote) this.field += '"';
+          this.inQuotes = true;
+          this.afterQuote = false;
+        }
+        continue;
+      }
+      this.afterQuote = false;
+
+      if (char === ',' && !this.inQuotes) {
+        this.fields.push(this.field);
+        this.field = '';
+      } else {
+        this.field += char;
+      }
+    }
+
+    return this._drain();
+  }
+
+  /**
+   * Finish the input; returns the last record if the text didn't end with a
+   * line break
+   */
+  end(): CatalogRecord[] {
+    if (this.inQuotes) {
+      this._problem(this.rowLine, 'unterminated quoted field');
+      this._resetRow();
+    } else if (!this.skipping && (this.field || this.fields.length > 0)) {
+      this._endRow();
+    }
+    this.skipping = false;
+    return this._drain();
+  }
+
+  private _drain(): CatalogRecord[] {
+    const records = this.output;
+    this.output = [];
+    return records;
+  }
+
+  private _problem(line: number, message: string): void {
+    const problem = { line, message };
+    this.problems.push(problem);
+    this.onProblem?.(problem);
+  }
+
+  private _resetRow(): void {
+    this.fields = [];
+    this.field = '';
+    this.inQuotes = false;
+    this.afterQuote = false;
+    this.rowLength = 0;
+  }
+
+  private _endRow(): void {
+    const fields = this.fields;
+    fields.push(this.field);
+    this._resetRow();
+
+    // Blank line
+    if (fields.length === 1 && fields[0].trim() === '') return;
+
+    if (!this.columns) {
+      this._readHeader(fields);
+      return;
+    }
+
+    if (fields.length !== this.headerLength) {
+      this._problem(this.rowLine, `expected ${this.headerLength} fields, found ${fields.length}`);
+      return;
+    }
+
+    const record = this._toRecord(fields);
+    if (record) this.output.push(record);
+  }
+
+  private _readHeader(fields: string[]): void {
+    const names = fields.map((name, i) => (i === 0 ? name.replace(/^\uFEFF/, '') : name).trim().toLowerCase());
+    const columns = {} as Record<keyof typeof COLUMNS, number>;
+    for (const [key, name] of Object.entries(COLUMNS) as Array<[keyof typeof COLUMNS, string]>) {
+      columns[key] = names.indexOf(name.toLowerCase());
+    }
+
+    const missing = REQUIRED.filter(key => columns[key] === -1).map(key => COLUMNS[key]);
+    if (missing.length > 0) {
+      throw new CatalogCsvError(`catalog header is missing ${missing.join(', ')} (found: ${fields.join(', ')})`, this.rowLine);
+    }
+
+    this.columns = columns;
+    this.headerLength = fields.length;
+  }
+
+  private _toRecord(fields: string[]): CatalogRecord | null {
+    const columns = this.columns!;
+    const get = (key: keyof typeof COLUMNS): string | undefined =>
+      columns[key] === -1 ? undefined : fields[columns[key]];
+
+    const id = clean(get('id'));
+    if (!/^\d+$/.test(id)) {
+      this._problem(this.rowLine, `invalid Text# "${id}"`);
+      return null;
+    }
+    const title = clean(get('title'));
+    if (!title) {
+      this._problem(this.rowLine, `book ${id} has no Title`);
+      return null;
+    }
+
+    // Year from the issued date
+    const yearMatch = (get('issued') || '').match(/^\d{4}/);
+
+    return {
+      id,
+      title,
+      author: clean(get('authors')) || null,
+      year: yearMatch ? yearMatch[0] : null,
+      language: clean(get('language')) || null,
+      type: clean(get('type')) || 'Text',
+      subjects: splitList(get('subjects')),
+      locc: splitList(get('locc')),
+      bookshelves: splitList(get('bookshelves'))
+    };
+  }
+}
+
+/**
+ * Parse a whole catalog held in memory
+ */
+export function parseCatalogCsv(text: string): { records: CatalogRecord[]; problems: CatalogCsvProblem[] } {
+  const parser = new CatalogCsvParser();
+  const records = parser.push(text);
+  records.push(...parser.end());
+  return { records, problems: parser.problems };
+}
+
+function isGzip(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const magic = Buffer.alloc(2);
+    return fs.readSync(fd, magic, 0, 2, 0) === 2 && magic[0] === 0x1f && magic[1] === 0x8b;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Stream a catalog file (plain or gzipped) through the parser
+ */
+export async function readCatalogFile(
+  filePath: string,
+  onProblem: ((problem: CatalogCsvProblem) => void) | null = null
+): Promise<{ records: CatalogRecord[]; problems: CatalogCsvProblem[] }> {
+  const parser = new CatalogCsvParser(onProblem);
+  const records: CatalogRecord[] = [];
+  const decoder = new StringDecoder('utf8');
+
+  const file = fs.createReadStream(filePath, { highWaterMark: READ_SIZE });
+  const input = isGzip(filePath) ? file.pipe(createGunzip()) : file;
+  for await (const chunk of input) {
+    records.push(...parser.push(decoder.write(chunk as Buffer)));
+  }
+  records.push(...parser.push(decoder.end()), ...parser.end());
+  return { records, problems: parser.problems };
+}
+
+/**
+ * Read a catalog file block by block. A gzipped file has to be inflated in
+ * one go here; readCatalogFile streams it.
+ */
+export function readCatalogFileSync(
+  filePath: string,
+  onProblem: ((problem: CatalogCsvProblem) => void) | null = null
+): { records: CatalogRecord[]; problems: CatalogCsvProblem[] } {
+  const parser = new CatalogCsvParser(onProblem);
+  const records: CatalogRecord[] = [];
+  const decoder = new StringDecoder('utf8');
+
+  if (isGzip(filePath)) {
+    const data = gunzipSync(fs.readFileSync(filePath));
+    for (let offset = 0; offset < data.length; offset += READ_SIZE) {
+      records.push(...parser.push(decoder.write(data.subarray(offset, offset + READ_SIZE))));
+    }
+  } else {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(READ_SIZE);
+      let bytesRead: number;
+      while ((bytesRead = fs.readSync(fd, buffer, 0, READ_SIZE, null)) > 0) {
+        records.push(...parser.push(decoder.write(buffer.subarray(0, bytesRead))));
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  records.push(...parser.push(decoder.end()), ...parser.end());
+  return { records, problems: parser.problems };
+}
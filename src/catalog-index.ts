@@ -0,0 +1,433 @@
+/**
+ * Catalog Index Module
+ * Inverted index over the Gutenberg catalog: folded title/author token →
+ * record positions, folded subject/bookshelf token → record positions,
+ * id → record, and language, type, author, subject and bookshelf facets.
+ * Author slugs (see catalog-author.ts) are parsed on first lookup.
+ *
+ * Built once after the CSV is parsed and saved next to it as
+ * pg_catalog.index.json, keyed by the catalog's sha256 (plus file size and
+ * mtime), so a restart loads the index instead of reparsing the CSV.
+ */
+
+import fs from 'fs';
+import { prepareRecord, scoreRecord, compareRanked, matchesType, type PreparedRecord } from './catalog-query.js';
+import { parseAuthors } from './catalog-author.js';
+import type { CatalogRecord, CatalogQuery, CatalogFacetCount, AuthorCredit, AuthorWork } from './types.js';
+
+const FORMAT = 'gutex-catalog-index';
+const VERSION = 2;
+
+// Token lookups remembered per table; cleared when full
+const TERM_CACHE_SIZE = 500;
+
+/**
+ * Identifies the catalog file an index was built from
+ */
+export interface CatalogIndexKey {
+  sha256: string;
+  csvSize: number;
+  csvMtimeMs: number;
+}
+
+// id, title, author, year, language, type, subjects, locc, bookshelves,
+// then folded title, author, subjects and bookshelves
+type SerializedRecord = [
+  string, string, string | null, string | null, string | null, string, string[], string[], string[],
+  string, string, string, string
+];
+
+interface SerializedTable {
+  /** Sorted vocabulary and, in the same order, each token's record positions */
+  tokens: string[];
+  postings: number[][];
+}
+
+interface SerializedIndex {
+  format: typeof FORMAT;
+  version: number;
+  key: CatalogIndexKey;
+  records: SerializedRecord[];
+  text: SerializedTable;
+  topics: SerializedTable;
+}
+
+/**
+ * Token → record positions, with substring lookup over the vocabulary
+ */
+class TokenTable {
+  private postings = new Map<string, number[]>();
+  private vocabulary: string[] = [];
+  // Every token joined by newlines, searched with indexOf; starts[i] is the
+  // offset of vocabulary[i]
+  private vocabularyText = '';
+  private vocabularyStarts: number[] = [];
+  private cache = new Map<string, Set<number>>();
+
+  constructor(texts: string[] | SerializedTable) {
+    if (Array.isArray(texts)) {
+      texts.forEach((text, position) => {
+        for (const token of new Set(text.split(/[ |]+/).filter(Boolean))) {
+          const list = this.postings.get(token);
+          if (list) {
+            list.push(position);
+          } else {
+            this.postings.set(token, [position]);
+          }
+        }
+      });
+      this.vocabulary = [...this.postings.keys()].sort();
+    } else {
+      texts.tokens.forEach((token, i) => this.postings.set(token, texts.postings[i]));
+      this.vocabulary = texts.tokens;
+    }
+
+    let offset = 0;
+    for (const token of this.vocabulary) {
+      this.vocabularyStarts.push(offset);
+      offset += token.length + 1;
+    }
+    this.vocabularyText = this.vocabulary.join('\n');
+  }
+
+  serialize(): SerializedTable {
+    return { tokens: this.vocabulary, postings: this.vocabulary.map(token => this.postings.get(token)!) };
+  }
+
+  /**
+   * Positions of records with a token containing the word (terms match
+   * inside words, so every token is checked, not just the exact one)
+   */
+  matching(word: string): Set<number> {
+    const cached = this.cache.get(word);
+    if (cached) return cached;
+
+    const positions = new Set<number>();
+    let lastToken = -1;
+    for (let at = this.vocabularyText.indexOf(word); at !== -1; at = this.vocabularyText.indexOf(word, at + 1)) {
+      const token = this._tokenAt(at);
+      if (token === lastToken) continue;
+      lastToken = token;
+      for (const position of this.postings.get(this.vocabulary[token])!) positions.add(position);
+    }
+
+    if (this.cache.size >= TERM_CACHE_SIZE) this.cache.clear();
+    this.cache.set(word, positions);
+    return positions;
+  }
+
+  // Index of the vocabulary token containing a vocabularyText offset
+  private _tokenAt(offset: number): number {
+    let low = 0;
+    let high = this.vocabularyStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.vocabularyStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * Facet value → record positions, looked up case-insensitively
+ */
+class Facet {
+  private positions = new Map<string, number[]>();
+  // Lowercased value → value as first seen
+  private names = new Map<string, string>();
+  private sets = new Map<string, Set<number>>();
+
+  add(value: string, position: number): void {
+    const key = value.toLowerCase();
+    const list = this.positions.get(key);
+    if (list) {
+      list.push(position);
+    } else {
+      this.positions.set(key, [position]);
+      this.names.set(key, value);
+    }
+  }
+
+  name(value: string): string | null {
+    return this.names.get(value.toLowerCase()) ?? null;
+  }
+
+  get(value: string): number[] {
+    return this.positions.get(value.toLowerCase()) ?? [];
+  }
+
+  set(value: string): Set<number> {
+    const key = value.toLowerCase();
+    let set = this.sets.get(key);
+    if (!set) {
+      set = new Set(this.get(key));
+      this.sets.set(key, set);
+    }
+    return set;
+  }
+
+  counts(): CatalogFacetCount[] {
+    return [...this.positions.entries()]
+      .map(([key, positions]) => ({ value: this.names.get(key)!, count: positions.length }))
+      .sort(compareFacetCounts);
+  }
+}
+
+/**
+ * Most books first, then alphabetical
+ */
+export function compareFacetCounts(a: CatalogFacetCount, b: CatalogFacetCount): number {
+  return b.count - a.count || a.value.localeCompare(b.value);
+}
+
+export class CatalogIndex {
+  readonly records: PreparedRecord[];
+  private byId = new Map<string, number>();
+  // Title and author words
+  private text: TokenTable;
+  // Subject and bookshelf words
+  private topics: TokenTable;
+  private languageFacet = new Facet();
+  private typeFacet = new Facet();
+  private authorFacet = new Facet();
+  private subjectFacet = new Facet();
+  private bookshelfFacet = new Facet();
+  // Author slug → credit and record positions; parsed on first use
+  private authorSlugs: Map<string, { credit: AuthorCredit; positions: number[]; roles: Array<string | null> }> | null = null;
+
+  private constructor(records: PreparedRecord[], saved?: SerializedIndex) {
+    this.records = records;
+    this.text = new TokenTable(saved ? saved.text : records.map(p => `${p.title} ${p.author}`));
+    this.topics = new TokenTable(saved ? saved.topics : records.map(p => `${p.subjects} | ${p.bookshelves}`));
+
+    records.forEach(({ record, languages }, position) => {
+      this.byId.set(record.id, position);
+      this.typeFacet.add(record.type, position);
+      for (const language of languages) this.languageFacet.add(language, position);
+      for (const author of (record.author || '').split(';')) {
+        const name = author.trim();
+        if (name) this.authorFacet.add(name, position);
+      }
+      for (const subject of record.subjects) this.subjectFacet.add(subject, position);
+      for (const shelf of record.bookshelves) this.bookshelfFacet.add(shelf, position);
+    });
+  }
+
+  /**
+   * Index parsed CSV records; rows without a numeric id (the header) are skipped
+   */
+  static fromRecords(records: CatalogRecord[]): CatalogIndex {
+    return new CatalogIndex(records.filter(r => /^\d+$/.test(r.id)).map(r => prepareRecord(r)));
+  }
+
+  /**
+   * Load a saved index, or null if it is missing, unreadable or for another catalog
+   */
+  static load(filePath: string, key: CatalogIndexKey): CatalogIndex | null {
+    try {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SerializedIndex;
+      if (saved.format !== FORMAT || saved.version !== VERSION ||
+          saved.key.sha256 !== key.sha256 ||
+          saved.key.csvSize !== key.csvSize ||
+          saved.key.csvMtimeMs !== key.csvMtimeMs) {
+        return null;
+      }
+      const records = saved.records.map(([
+        id, title, author, year, language, type, subjects, locc, bookshelves,
+        foldedTitle, foldedAuthor, foldedSubjects, foldedBookshelves
+      ]) => prepareRecord(
+        { id, title, author, year, language, type, subjects, locc, bookshelves },
+        { title: foldedTitle, author: foldedAuthor, subjects: foldedSubjects, bookshelves: foldedBookshelves }
+      ));
+      return new CatalogIndex(records, saved);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write the index atomically (temp file, then rename)
+   */
+  save(filePath: string, key: CatalogIndexKey): void {
+    const data: SerializedIndex = {
+      format: FORMAT,
+      version: VERSION,
+      key,
+      records: this.records.map(({ record: r, title, author, subjects, bookshelves }) => [
+        r.id, r.title, r.author, r.year, r.language, r.type, r.subjects, r.locc, r.bookshelves,
+        title, author, subjects, bookshelves
+      ]),
+      text: this.text.serialize(),
+      topics: this.topics.serialize()
+    };
+    const tempPath = `${filePath}.tmp-${process.pid}`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  getById(id: string): CatalogRecord | null {
+    const position = this.byId.get(id);
+    return position === undefined ? null : this.records[position].record;
+  }
+
+  /**
+   * Text records whose language list includes the code
+   */
+  byLanguage(language: string): CatalogRecord[] {
+    return this._texts(this.languageFacet.get(language));
+  }
+
+  /**
+   * All Text records (not Sound, Image, ...)
+   */
+  texts(): CatalogRecord[] {
+    return this._texts(this.typeFacet.get('text'));
+  }
+
+  /**
+   * Records on a bookshelf (case-insensitive), sorted by title, or null if
+   * there is no such shelf
+   */
+  byBookshelf(name: string): { name: string; records: CatalogRecord[] } | null {
+    const canonical = this.bookshelfFacet.name(name);
+    if (!canonical) return null;
+    const records = this.bookshelfFacet.get(name)
+      .map(p => this.records[p].record)
+      .sort((a, b) => a.title.localeCompare(b.title));
+    return { name: canonical, records };
+  }
+
+  /**
+   * An author's records (any role, case-insensitive slug), sorted by title,
+   * or null if no credit has that slug
+   */
+  byAuthor(slug: string): { author: AuthorCredit; works: AuthorWork[] } | null {
+    const entry = this._authorSlugs().get(slug.toLowerCase());
+    if (!entry) return null;
+    const works = entry.positions
+      .map((p, i) => ({ ...this.records[p].record, role: entry.roles[i] }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+    return { author: { ...entry.credit, role: null }, works };
+  }
+
+  /**
+   * Languages with their book counts, most books first
+   */
+  languages(): CatalogFacetCount[] {
+    return this.languageFacet.counts();
+  }
+
+  types(): CatalogFacetCount[] {
+    return this.typeFacet.counts();
+  }
+
+  /**
+   * Authors (as written in the catalog) with their book counts, most books first
+   */
+  authors(): CatalogFacetCount[] {
+    return this.authorFacet.counts();
+  }
+
+  subjects(): CatalogFacetCount[] {
+    return this.subjectFacet.counts();
+  }
+
+  bookshelves(): CatalogFacetCount[] {
+    return this.bookshelfFacet.counts();
+  }
+
+  /**
+   * Ranked matches for a parsed query. Posting lists and facets narrow the
+   * records to candidates; scoreRecord then checks and ranks each candidate.
+   */
+  search(query: CatalogQuery, languageFilter: string | null = null): Array<{ score: number; prepared: PreparedRecord }> {
+    const sets: Array<Set<number>> = [];
+
+    if (query.id !== null) {
+      const position = this.byId.get(query.id);
+      sets.push(new Set(position === undefined ? [] : [position]));
+    }
+
+    const languages = query.languages.length > 0 ? query.languages : (languageFilter ? [languageFilter] : []);
+    if (languages.length > 0 && !languages.includes('all')) {
+      sets.push(languages.length === 1
+        ? this.languageFacet.set(languages[0])
+        : new Set(languages.flatMap(lang => this.languageFacet.get(lang))));
+    }
+
+    if (query.types.length === 0) {
+      sets.push(this.typeFacet.set('text'));
+    } else if (!query.types.includes('all')) {
+      sets.push(new Set(query.types.flatMap(type => this.typeFacet.get(type))));
+    }
+
+    const bareId = query.terms.length === 1 && /^\d+$/.test(query.terms[0].text) ? this.byId.get(query.terms[0].text) : undefined;
+    const lookups: Array<[TokenTable, CatalogQuery['terms']]> = [
+      [this.text, [...query.terms, ...query.title, ...query.author]],
+      [this.topics, [...query.subject, ...query.bookshelf]]
+    ];
+    for (const [table, terms] of lookups) {
+      for (const term of terms) {
+        for (const word of term.text.split(' ')) {
+          let matches = table.matching(word);
+          if (bareId !== undefined && !matches.has(bareId)) {
+            matches = new Set(matches).add(bareId);
+          }
+          sets.push(matches);
+        }
+      }
+    }
+
+    let candidates: Iterable<number>;
+    if (sets.length === 0) {
+      candidates = this.records.keys();
+    } else {
+      sets.sort((a, b) => a.size - b.size);
+      const [smallest, ...rest] = sets;
+      candidates = [...smallest].filter(p => rest.every(set => set.has(p)));
+    }
+
+    const matches: Array<{ score: number; prepared: PreparedRecord }> = [];
+    for (const position of candidates) {
+      const prepared = this.records[position];
+      const score = scoreRecord(prepared, query, languageFilter);
+      if (score !== null) {
+        matches.push({ score, prepared });
+      }
+    }
+    return matches.sort(compareRanked);
+  }
+
+  private _authorSlugs(): NonNullable<CatalogIndex['authorSlugs']> {
+    if (this.authorSlugs) return this.authorSlugs;
+    const slugs: NonNullable<CatalogIndex['authorSlugs']> = new Map();
+    this.records.forEach(({ record }, position) => {
+      for (const credit of parseAuthors(record.author)) {
+        const entry = slugs.get(credit.slug);
+        if (!entry) {
+          slugs.set(credit.slug, { credit, positions: [position], roles: [credit.role] });
+        } else if (entry.positions[entry.positions.length - 1] !== position) {
+          entry.positions.push(position);
+          entry.roles.push(credit.role);
+        }
+      }
+    });
+    this.authorSlugs = slugs;
+    return slugs;
+  }
+
+  private _texts(positions: number[]): CatalogRecord[] {
+    return positions
+      .map(p => this.records[p])
+      .filter(p => matchesType(p.type, []))
+      .map(p => p.record);
+  }
+}
@@ -9,11 +9,42 @@ import crypto from 'crypto';
 import { createGunzip } from 'zlib';
 import https from 'https';
 import { fileURLToPath } from 'url';
-import type { CatalogRecord, CatalogMeta, SearchResult } from './types.js';
+import { parseCatalogQuery, isEmptyQuery } from './catalog-query.js';
+import { CatalogIndex, compareFacetCounts, type CatalogIndexKey } from './catalog-index.js';
+import { diffCatalogRecords, loadChangelog, appendChangelog, changesSince } from './catalog-changelog.js';
+import { readCatalogFile, readCatalogFileSync } from './catalog-csv.js';
+import type {
+  CatalogRecord,
+  CatalogMeta,
+  SearchResult,
+  CatalogSearchOptions,
+  CatalogSearchPage,
+  CatalogFacets,
+  CatalogFacetCount,
+  CatalogAuthorPage,
+  CatalogArrival,
+  CatalogCsvProblem
+} from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+// Subject and bookshelf values listed in search facets
+const TOP_FACETS = 10;
+// How far back new arrivals look by default
+const NEW_ARRIVALS_DAYS = 30;
+
+function copyRecord<T extends CatalogRecord>(record: T): T {
+  return {
+    ...record,
+    subjects: [...record.subjects],
+    locc: [...record.locc],
+    bookshelves: [...record.bookshelves]
+  };
+}
+
 export class CatalogManager {
   private catalogUrl = 'https://www.gutenberg.org/cache/epub/feeds/pg_catalog.csv.gz';
   private cacheDir = path.join(__dirname, '..', '.cache');
@@ -21,9 +52,12 @@ export class CatalogManager {
   private metaPath = path.join(this.cacheDir, 'pg_catalog.meta.json');
   private checkIntervalMs = 60 * 60 * 1000;
   
-  // In-memory cache for parsed catalog records
-  private _cachedRecords: CatalogRecord[] | null = null;
-  private _cachedRecordsPath: string | null = null;
+  // In-memory index of the parsed catalog, and the file it was built from
+  private _index: CatalogIndex | null = null;
+  private _indexSource: { path: string; size: number; mtimeMs: number } | null = null;
+  
+  // Offline mode: never touch the network, use the on-disk catalog only
+  private offline = false;
   
   // Optional logging callback for server integration
   private _logCallback: ((type: string, message: string) => void) | null = null;
@@ -41,11 +75,34 @@ export class CatalogManager {
     }
   }
 
+  /**
+   * Restrict the catalog to what is already on disk
+   */
+  setOffline(offline: boolean): void {
+    this.offline = offline;
+  }
+
+  /**
+   * Make sure the catalog is on disk (downloading or refreshing it as needed)
+   * and its index is loaded
+   */
   async ensureCatalog(forceRefresh = false): Promise<void> {
+    await this._ensureCatalogFile(forceRefresh);
+    await this._loadIndex();
+  }
+
+  private async _ensureCatalogFile(forceRefresh: boolean): Promise<void> {
     if (!fs.existsSync(this.cacheDir)) {
       fs.mkdirSync(this.cacheDir, { recursive: true });
     }
 
+    if (this.offline) {
+      if (!fs.existsSync(this.catalogPath)) {
+        throw new Error('Catalog not available offline. Run once online to download it.');
+      }
+      return;
+    }
+
     const shouldRefresh = forceRefresh || this._shouldCheckForUpdates();
 
     if (!fs.existsSync(this.catalogPath)) {
@@ -67,207 +124,311 @@ export class CatalogManager {
     }
   }
 
+  /**
+   * Ranked search using the catalog query syntax (see catalog-query.ts).
+   * Returns every match, best first; an empty query matches nothing.
+   *
+   * @param languageFilter - Applies unless the query has its own lang: field
+   */
   searchCatalog(query: string, languageFilter: string | null = null): SearchResult[] {
-    const records = this._getCachedRecords();
-    if (records.length === 0) {
-      throw new Error('Catalog not available. Run with --refresh-catalog to download.');
-    }
+    const index = this._requireIndex();
+    const parsed = parseCatalogQuery(query);
+    if (isEmptyQuery(parsed)) return [];
 
-    const results: SearchResult[] = [];
+    return index.search(parsed, languageFilter).map(({ score, prepared }) => ({ ...copyRecord(prepared.record), score }));
+  }
 
-    // Split query into words and require all to match (AND logic)
-    const queryWords = query.toLowerCase().split(/\s+/).filter((w: string) => w.length > 0);
-    if (queryWords.length === 0) return results;
+  /**
+   * One page of searchCatalog results, with the total match count and facet
+   * counts over every match
+   */
+  searchCatalogPage(query: string, options: CatalogSearchOptions = {}): CatalogSearchPage {
+    const all = this.searchCatalog(query, options.languageFilter ?? null);
+    return { ...this._page(all, options), facets: this._facets(all) };
+  }
 
-    for (const record of records) {
-      if (record.id && record.title) {
-        // Filter by language if specified
-        if (languageFilter && record.language !== languageFilter) {
-          continue;
-        }
-        // Check for exact ID match first
-        if (record.id === query.trim()) {
-          results.push({ id: record.id, title: record.title, author: record.author, year: record.year, language: record.language });
-          continue;
-        }
-        // Otherwise search title and author
-        const searchText = [record.title, record.author || ''].join(' ').toLowerCase();
-        const allMatch = queryWords.every((word: string) => searchText.includes(word));
-        if (allMatch) {
-          results.push({ id: record.id, title: record.title, author: record.author, year: record.year, language: record.language });
-        }
+  getBookById(bookId: number | string): CatalogRecord | null {
+    const record = this._getIndex()?.getById(String(bookId));
+    return record ? copyRecord(record) : null;
+  }
+
+  /**
+   * Subjects with their record counts (every type, not only Text), most first,
+   * optionally only those containing a filter string (case-insensitive)
+   */
+  getSubjects(filter: string | null = null): CatalogFacetCount[] {
+    const subjects = this._requireIndex().subjects();
+    if (!filter) return subjects;
+    const needle = filter.toLowerCase();
+    return subjects.filter(s => s.value.toLowerCase().includes(needle));
+  }
+
+  /**
+   * Bookshelves with their book counts, most books first
+   */
+  getBookshelves(): CatalogFacetCount[] {
+    return this._requireIndex().bookshelves();
+  }
+
+  /**
+   * One page of the books on a bookshelf (sorted by title), or null if there
+   * is no shelf by that name
+   */
+  getBookshelf(name: string, options: CatalogSearchOptions = {}): (CatalogSearchPage & { name: string }) | null {
+    const shelf = this._requireIndex().byBookshelf(name);
+    if (!shelf) return null;
+    return { name: shelf.name, ...this._page(shelf.records.map(copyRecord), options) };
+  }
+
+  /**
+   * One page of an author's books (sorted by title, every role), or null if
+   * no author has that slug
+   */
+  getAuthor(slug: string, options: CatalogSearchOptions = {}): CatalogAuthorPage | null {
+    const found = this._requireIndex().byAuthor(slug);
+    if (!found) return null;
+    return { author: found.author, ...this._page(found.works.map(copyRecord), options) };
+  }
+
+  /**
+   * One page of the Text books added or changed by catalog updates since a
+   * date (default: the last 30 days), newest first
+   */
+  getNewArrivals(since: Date | null = null, options: CatalogSearchOptions = {}): CatalogSearchPage<CatalogArrival> & { since: string } {
+    const from = since ?? new Date(Date.now() - NEW_ARRIVALS_DAYS * 24 * 60 * 60 * 1000);
+    const index = this._getIndex();
+    const arrivals: CatalogArrival[] = [];
+
+    for (const { id, change, date } of changesSince(loadChangelog(this._changelogPath()), from)) {
+      const record = index?.getById(id);
+      if (record && record.type === 'Text') {
+        arrivals.push({ ...copyRecord(record), change, date });
       }
     }
-
-    return results;
+    return { since: from.toISOString(), ...this._page(arrivals, options) };
   }
 
-  getBookById(bookId: number | string): CatalogRecord | null {
-    const records = this._getCachedRecords();
-    if (records.length === 0) return null;
-    
-    const idStr = String(bookId);
+  private _page<T extends CatalogRecord>(all: T[], options: CatalogSearchOptions): CatalogSearchPage<T> {
+    const offset = Math.max(0, Math.floor(options.offset ?? 0));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(options.limit ?? DEFAULT_PAGE_SIZE)));
+    return { total: all.length, offset, limit, results: all.slice(offset, offset + limit) };
+  }
 
-    for (const record of records) {
-      if (record.id === idStr) {
-        return { id: record.id, title: record.title, author: record.author, year: record.year, language: record.language };
+  private _facets(records: CatalogRecord[]): CatalogFacets {
+    const count = (values: (r: CatalogRecord) => string[]): CatalogFacetCount[] => {
+      const counts = new Map<string, number>();
+      for (const record of records) {
+        for (const value of new Set(values(record))) {
+          counts.set(value, (counts.get(value) ?? 0) + 1);
+        }
       }
+      return [...counts.entries()].map(([value, n]) => ({ value, count: n })).sort(compareFacetCounts);
+    };
+
+    return {
+      languages: count(r => (r.language || '').split(/[;,\s]+/).filter(Boolean)),
+      types: count(r => [r.type]),
+      subjects: count(r => r.subjects).slice(0, TOP_FACETS),
+      bookshelves: count(r => r.bookshelves).slice(0, TOP_FACETS)
+    };
+  }
+
+  private _requireIndex(): CatalogIndex {
+    const index = this._getIndex();
+    if (!index || index.size === 0) {
+      throw new Error('Catalog not available. Run with --refresh-catalog to download.');
     }
+    return index;
+  }
 
-    return null;
+  /**
+   * Get the catalog index: from memory, else from the saved index if it
+   * matches the CSV, else by parsing the CSV (and saving the result)
+   */
+  private _getIndex(): CatalogIndex | null {
+    const stat = this._catalogStat();
+    if (!stat) return null;
+    if (this._isIndexCurrent(stat)) return this._index;
+
+    const key = this._indexKey(stat);
+    const index = (key && CatalogIndex.load(this._indexPath(), key)) ||
+      this._buildIndex(this._readCatalog(), key);
+    return this._setIndex(index, stat);
   }
 
   /**
-   * Get cached catalog records, parsing from disk only once
+   * Like _getIndex, but streams the CSV instead of reading it in one blocking
+   * pass; used by ensureCatalog so the first search doesn't pay for the parse
    */
-  private _getCachedRecords(): CatalogRecord[] {
-    if (!fs.existsSync(this.catalogPath)) {
-      return [];
+  private async _loadIndex(): Promise<void> {
+    const stat = this._catalogStat();
+    if (!stat || this._isIndexCurrent(stat)) return;
+
+    const key = this._indexKey(stat);
+    let index = key ? CatalogIndex.load(this._indexPath(), key) : null;
+    if (!index) {
+      const { records, problems } = await readCatalogFile(this.catalogPath);
+      this._logProblems(problems);
+      index = this._buildIndex(records, key);
     }
-    
-    // Invalidate cache if catalog file changed
-    if (this._cachedRecords && this._cachedRecordsPath === this.catalogPath) {
-      return this._cachedRecords;
+    this._setIndex(index, stat);
+  }
+
+  private _catalogStat(): fs.Stats | null {
+    return fs.existsSync(this.catalogPath) ? fs.statSync(this.catalogPath) : null;
+  }
+
+  // Whether the in-memory index was built from the catalog file as it is now
+  private _isIndexCurrent(stat: fs.Stats): boolean {
+    const source = this._indexSource;
+    return !!this._index && !!source && source.path === this.catalogPath &&
+      source.size === stat.size && source.mtimeMs === stat.mtimeMs;
+  }
+
+  // Without a sha256 there is nothing to key a saved index on
+  private _indexKey(stat: fs.Stats): CatalogIndexKey | null {
+    const sha256 = this._readMeta().sha256;
+    return sha256 ? { sha256, csvSize: stat.size, csvMtimeMs: stat.mtimeMs } : null;
+  }
+
+  private _buildIndex(records: CatalogRecord[], key: CatalogIndexKey | null): CatalogIndex {
+    const index = CatalogIndex.fromRecords(records);
+    if (key) {
+      try {
+        index.save(this._indexPath(), key);
+        this._log('catalog', `Catalog index built (${index.size} books)`);
+      } catch (err) {
+        this._log('catalog', `Could not save catalog index: ${(err as Error).message}`);
+      }
     }
-    
-    const content = fs.readFileSync(this.catalogPath, 'utf-8');
-    this._cachedRecords = this._parseCSV(content);
-    this._cachedRecordsPath = this.catalogPath;
-    return this._cachedRecords;
+    return index;
   }
-  
+
+  private _setIndex(index: CatalogIndex, stat: fs.Stats): CatalogIndex {
+    this._index = index;
+    this._indexSource = { path: this.catalogPath, size: stat.size, mtimeMs: stat.mtimeMs };
+    return index;
+  }
+
   /**
-   * Invalidate the in-memory cache (called after catalog download)
+   * Parse the catalog CSV, logging any rows that had to be skipped
    */
-  private _invalidateCache(): void {
-    this._cachedRecords = null;
-    this._cachedRecordsPath = null;
+  private _readCatalog(): CatalogRecord[] {
+    const { records, problems } = readCatalogFileSync(this.catalogPath);
+    this._logProblems(problems);
+    return records;
   }
 
-  getRandomBook(languageFilter: string | null = 'en'): CatalogRecord | null {
-    let records = this._getCachedRecords();
-    if (records.length === 0) return null;
+  private _logProblems(problems: CatalogCsvProblem[]): void {
+    if (problems.length === 0) return;
+    const [first] = problems;
+    this._log('catalog', `Skipped ${problems.length} malformed catalog row(s); first at line ${first.line}: ${first.message}`);
+  }
+
+  private _indexPath(): string {
+    return this.catalogPath.replace(/\.csv$/, '') + '.index.json';
+  }
+
+  private _changelogPath(): string {
+    return this.catalogPath.replace(/\.csv$/, '') + '.changelog.json';
+  }
 
-    // Filter by language if specified
-    if (languageFilter) {
-      records = records.filter(r => r.language === languageFilter);
+  /**
+   * Records of the catalog about to be replaced, to diff against the new one
+   * (null on first download or if the old catalog can't be read)
+   */
+  private _currentRecords(): CatalogRecord[] | null {
+    try {
+      return this._getIndex()?.records.map(p => p.record) ?? null;
+    } catch {
+      return null;
     }
+  }
 
-    if (records.length === 0) return null;
+  /**
+   * Append what changed between the previous catalog and the one just
+   * installed to the changelog. Failures are logged, never thrown: the new
+   * catalog is already in place.
+   */
+  private _recordChanges(previous: CatalogRecord[] | null, sha256: string | null): void {
+    if (!previous) return;
+    try {
+      const current = this._requireIndex().records.map(p => p.record);
+      const diff = diffCatalogRecords(previous, current);
+      if (diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0) return;
 
-    const idx = Math.floor(Math.random() * records.length);
-    const record = records[idx];
-    return { id: record.id, title: record.title, author: record.author, year: record.year, language: record.language };
-  }
-
-  private _parseCSV(content: string): CatalogRecord[] {
-    const records: CatalogRecord[] = [];
-    let currentRecord: string[] = [];
-    let currentField = '';
-    let inQuotes = false;
-    let i = 0;
-
-    while (i < content.length) {
-      const char = content[i];
-      const nextChar = content[i + 1];
-
-      if (char === '"') {
-        if (inQuotes && nextChar === '"') {
-          currentField += '"';
-          i += 2;
-          continue;
-        } else {
-          inQuotes = !inQuotes;
-          i++;
-          continue;
-        }
-      }
+      appendChangelog(this._changelogPath(), { date: new Date().toISOString(), sha256, ...diff });
+      this._log('catalog', `Catalog changes: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`);
+    } catch (err) {
+      this._log('catalog', `Could not record catalog changes: ${(err as Error).message}`);
+    }
+  }
 
-      if (!inQuotes && char === ',') {
-        currentRecord.push(currentField);
-        currentField = '';
-        i++;
-        continue;
-      }
+  private _readMeta(): CatalogMeta {
+    try {
+      return JSON.parse(fs.readFileSync(this.metaPath, 'utf-8')) as CatalogMeta;
+    } catch {
+      return {};
+    }
+  }
 
-      if (!inQuotes && (char === '\n' || char === '\r')) {
-        if (currentField || currentRecord.length > 0) {
-          currentRecord.push(currentField);
-
-          // CSV columns: 0=Text#, 1=Type, 2=Issued, 3=Title, 4=Language, 5=Authors
-          if (currentRecord.length >= 4) {
-            const id = currentRecord[0];
-            const issued = currentRecord[2] || '';
-            const title = currentRecord[3]
-              .replace(/\n/g, ' ')
-              .replace(/\r/g, '')
-              .replace(/\s+/g, ' ')
-              .trim();
-            const language = (currentRecord[4] || '')
-              .replace(/\n/g, ' ')
-              .replace(/\r/g, '')
-              .trim();
-            const author = (currentRecord[5] || '')
-              .replace(/\n/g, ' ')
-              .replace(/\r/g, '')
-              .replace(/\s+/g, ' ')
-              .trim();
-
-            // Extract year from issued date
-            const yearMatch = issued.match(/^\d{4}/);
-            const year = yearMatch ? yearMatch[0] : null;
-
-            if (id && title) {
-              records.push({ id, title, author: author || null, year, language: language || null });
-            }
-          }
+  /**
+   * Invalidate the in-memory cache (called after catalog download)
+   */
+  private _invalidateCache(): void {
+    this._index = null;
+    this._indexSource = null;
+  }
 
-          currentRecord = [];
-          currentField = '';
-        }
+  /**
+   * Read the on-disk catalog CSV and metadata (null if not downloaded)
+   */
+  exportFiles(): { csv: Buffer; meta: CatalogMeta } | null {
+    if (!fs.existsSync(this.catalogPath)) return null;
 
-        if (char === '\r' && nextChar === '\n') {
-          i += 2;
-        } else {
-          i++;
-        }
-        continue;
-      }
+    let meta: CatalogMeta = {};
+    try {
+      meta = JSON.parse(fs.readFileSync(this.metaPath, 'utf-8'));
+    } catch {}
+    return { csv: fs.readFileSync(this.catalogPath), meta };
+  }
 
-      currentField += char;
-      i++;
+  /**
+   * Install a catalog copied from another machine. Kept only if we have no
+   * catalog or the incoming one was downloaded more recently.
+   */
+  importFiles(csv: Buffer, meta: CatalogMeta): boolean {
+    const local = this.exportFiles();
+    if (local) {
+      const localDate = Date.parse(local.meta.downloadDate || '') || 0;
+      const incomingDate = Date.parse(meta.downloadDate || '') || 0;
+      if (incomingDate <= localDate) return false;
     }
 
-    if (currentField || currentRecord.length > 0) {
-      currentRecord.push(currentField);
-      if (currentRecord.length >= 4) {
-        const id = currentRecord[0];
-        const issued = currentRecord[2] || '';
-        const title = currentRecord[3]
-          .replace(/\n/g, ' ')
-          .replace(/\r/g, '')
-          .replace(/\s+/g, ' ')
-          .trim();
-        const language = (currentRecord[4] || '')
-          .replace(/\n/g, ' ')
-          .replace(/\r/g, '')
-          .trim();
-        const author = (currentRecord[5] || '')
-          .replace(/\n/g, ' ')
-          .replace(/\r/g, '')
-          .replace(/\s+/g, ' ')
-          .trim();
-
-        const yearMatch = issued.match(/^\d{4}/);
-        const year = yearMatch ? yearMatch[0] : null;
-
-        if (id && title) {
-          records.push({ id, title, author: author || null, year, language: language || null });
-        }
-      }
+    if (!fs.existsSync(this.cacheDir)) {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
     }
+    const previous = this._currentRecords();
+    const tempPath = this.catalogPath + '.tmp';
+    fs.writeFileSync(tempPath, csv);
+    fs.renameSync(tempPath, this.catalogPath);
+    this._updateMeta({ sha256: meta.sha256, downloadDate: meta.downloadDate });
+    this._invalidateCache();
+    this._recordChanges(previous, meta.sha256 ?? null);
+    this._log('catalog', `Catalog imported (downloaded ${meta.downloadDate || 'unknown'})`);
+    return true;
+  }
 
-    return records;
+  getRandomBook(languageFilter: string | null = 'en'): CatalogRecord | null {
+    const index = this._getIndex();
+    if (!index) return null;
+
+    // Text only (no audio books or images), in the language if specified
+    const records = languageFilter ? index.byLanguage(languageFilter) : index.texts();
+    if (records.length === 0) return null;
+
+    const idx = Math.floor(Math.random() * records.length);
+    return copyRecord(records[idx]);
   }
 
   private _shouldCheckForUpdates(): boolean {
@@ -326,6 +487,7 @@ export class CatalogManager {
 
     const tempPath = this.catalogPath + '.tmp';
     const hash = crypto.createHash('sha256');
+    const previous = this._currentRecords();
 
     return new Promise((resolve, reject) => {
       https.get(this.catalogUrl, (response) => {
@@ -350,6 +512,7 @@ export class CatalogManager {
               lastCheck: Date.now()
             });
             this._invalidateCache();
+            this._recordChanges(previous, sha256);
             console.log('✓ Catalog downloaded successfully\n');
             this._log('catalog', `Gutenberg index refreshed (${new Date().toISOString()})`);
             resolve();
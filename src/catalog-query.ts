@@ -0,0 +1,295 @@
+/**
+ * Catalog Query Module
+ * Parses and ranks structured catalog searches:
+ *
+ *   author:austen title:"pride" lang:en year:1800..1850
+ *   subject:"science fiction" shelf:harvard locc:PR type:sound
+ *
+ * Free terms match title or author; quoted text is a whole-word phrase.
+ * year: is the work's era: the years its authors lived, so Austen's books
+ * match 1800..1850 (the catalog's Issued date is when the ebook came out).
+ * Only Text records match unless the query has a type: field (type:all for any).
+ * Matching ignores case, diacritics and punctuation ("Bronte" finds "Brontë").
+ * Ranking: exact title > title prefix > word matches, with title words
+ * weighing a little more than author words.
+ */
+
+import { parseAuthors } from './catalog-author.js';
+import type { CatalogRecord, CatalogQuery, CatalogQueryTerm } from './types.js';
+
+/**
+ * A query that can't be run, e.g. a malformed year range
+ */
+export class CatalogQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogQueryError';
+  }
+}
+
+/**
+ * A catalog record with its searchable text folded once up front
+ */
+export interface PreparedRecord {
+  record: CatalogRecord;
+  title: string;
+  author: string;
+  /** Folded subjects and bookshelves, each list joined by ' | ' */
+  subjects: string;
+  bookshelves: string;
+  languages: string[];
+  /** First and last year the authors lived, or null if no dates are known */
+  era: { from: number; to: number } | null;
+  type: string;
+}
+
+/**
+ * Text fields a saved index stores already folded
+ */
+export type FoldedFields = Pick<PreparedRecord, 'title' | 'author' | 'subjects' | 'bookshelves'>;
+
+// Score for a term found as a whole word, at the start of a word, or inside one
+const TITLE_WEIGHTS = { word: 10, prefix: 6, substring: 3 };
+const AUTHOR_WEIGHTS = { word: 8, prefix: 5, substring: 2 };
+const TOPIC_WEIGHTS = { word: 4, prefix: 3, substring: 1 };
+const EXACT_TITLE_BONUS = 100;
+const TITLE_PREFIX_BONUS = 50;
+const ID_MATCH_SCORE = 1000;
+
+// Letters that NFKD doesn't decompose into base + mark
+const FOLD_MAP: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i'
+};
+
+/**
+ * Lowercase, strip diacritics and turn punctuation into single spaces
+ */
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .replace(/[ßæœøłđðþı]/g, ch => FOLD_MAP[ch])
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+const FIELDS = new Set([
+  'author', 'title', 'subject', 'shelf', 'bookshelf', 'locc', 'type', 'lang', 'language', 'year', 'id'
+]);
+
+function parseYearRange(value: string): { from: number | null; to: number | null } {
+  const match = value.match(/^(\d{1,4})?(?:(\.\.|-)(\d{1,4})?)?$/);
+  if (!match || (!match[1] && !match[3])) {
+    throw new CatalogQueryError(`Invalid year "${value}" (use 1813, 1800..1850, ..1850 or 1800..)`);
+  }
+  const from = match[1] ? parseInt(match[1], 10) : null;
+  const to = match[2] ? (match[3] ? parseInt(match[3], 10) : null) : from;
+  if (from !== null && to !== null && from > to) {
+    throw new CatalogQueryError(`Invalid year range "${value}" (start is after end)`);
+  }
+  return { from, to };
+}
+
+/**
+ * Split a query into free terms and field:value filters. Unknown prefixes
+ * ("Re:Zero") are kept as free text.
+ */
+export function parseCatalogQuery(query: string): CatalogQuery {
+  const parsed: CatalogQuery = {
+    terms: [], title: [], author: [], subject: [], bookshelf: [], locc: [], types: [], languages: [], year: null, id: null
+  };
+  const tokenPattern = /(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+  for (const match of query.matchAll(tokenPattern)) {
+    const [raw, fieldName, quoted, bare] = match;
+    const field = fieldName?.toLowerCase();
+    const value = quoted ?? bare ?? '';
+
+    if (!field || !FIELDS.has(field)) {
+      const text = foldText(fieldName ? raw : value);
+      if (text) parsed.terms.push({ text, phrase: quoted !== undefined });
+      continue;
+    }
+
+    switch (field) {
+      case 'author':
+      case 'title':
+      case 'subject':
+      case 'shelf':
+      case 'bookshelf': {
+        const text = foldText(value);
+        if (text) parsed[field === 'shelf' ? 'bookshelf' : field].push({ text, phrase: quoted !== undefined });
+        break;
+      }
+      case 'locc':
+        parsed.locc.push(...value.toUpperCase().split(/[,;|]/).map(c => c.trim()).filter(Boolean));
+        break;
+      case 'type':
+        parsed.types.push(...value.toLowerCase().split(/[,;|]/).map(t => t.trim()).filter(Boolean));
+        break;
+      case 'lang':
+      case 'language':
+        parsed.languages.push(...value.toLowerCase().split(/[,;|]/).map(l => l.trim()).filter(Boolean));
+        break;
+      case 'year':
+        parsed.year = parseYearRange(value.trim());
+        break;
+      case 'id':
+        if (!/^\d+$/.test(value)) throw new CatalogQueryError(`Invalid id "${value}"`);
+        parsed.id = value;
+        break;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * True if the query has nothing to match or filter on
+ */
+export function isEmptyQuery(query: CatalogQuery): boolean {
+  return query.terms.length === 0 && query.title.length === 0 && query.author.length === 0 &&
+    query.subject.length === 0 && query.bookshelf.length === 0 && query.locc.length === 0 &&
+    query.types.length === 0 && query.languages.length === 0 && query.year === null && query.id === null;
+}
+
+// Authors proper set the era; translators and illustrators only if no one else is credited
+function authorEra(author: string | null): PreparedRecord['era'] {
+  const credits = parseAuthors(author);
+  const authors = credits.some(c => c.role === null) ? credits.filter(c => c.role === null) : credits;
+  let era: PreparedRecord['era'] = null;
+  for (const { birthYear, deathYear } of authors) {
+    const from = birthYear ?? deathYear;
+    const to = deathYear ?? birthYear;
+    if (from === null || to === null) continue;
+    era = era ? { from: Math.min(era.from, from), to: Math.max(era.to, to) } : { from, to };
+  }
+  return era;
+}
+
+/**
+ * Fold a record's text fields for matching; a saved index passes them in
+ * already folded
+ */
+export function prepareRecord(record: CatalogRecord, folded?: FoldedFields): PreparedRecord {
+  return {
+    record,
+    title: folded?.title ?? foldText(record.title),
+    author: folded?.author ?? foldText(record.author || ''),
+    subjects: folded?.subjects ?? record.subjects.map(foldText).join(' | '),
+    bookshelves: folded?.bookshelves ?? record.bookshelves.map(foldText).join(' | '),
+    languages: (record.language || '').toLowerCase().split(/[;,\s]+/).filter(Boolean),
+    era: authorEra(record.author),
+    type: record.type.toLowerCase()
+  };
+}
+
+/**
+ * Whether a record's type passes the query (Text only by default)
+ */
+export function matchesType(type: string, types: string[]): boolean {
+  if (types.length === 0) return type === 'text';
+  return types.includes('all') || types.includes(type);
+}
+
+function termScore(term: CatalogQueryTerm, text: string, weights: typeof TITLE_WEIGHTS): number {
+  if (!text) return 0;
+  const padded = ` ${text} `;
+  if (padded.includes(` ${term.text} `)) return weights.word;
+  // Quoted phrases only count as whole words
+  if (term.phrase) return 0;
+  if (padded.includes(` ${term.text}`)) return weights.prefix;
+  if (text.includes(term.text)) return weights.substring;
+  return 0;
+}
+
+// Author phrases match their words in any order: "jane austen" finds "Austen, Jane"
+function authorScore(term: CatalogQueryTerm, author: string): number {
+  if (!term.phrase) return termScore(term, author, AUTHOR_WEIGHTS);
+  const words = term.text.split(' ');
+  const padded = ` ${author} `;
+  return words.every(word => padded.includes(` ${word} `)) ? AUTHOR_WEIGHTS.word * words.length : 0;
+}
+
+/**
+ * Score a record against a query, or null if it doesn't match
+ *
+ * @param languageFilter - Used only when the query has no lang: field
+ */
+export function scoreRecord(prepared: PreparedRecord, query: CatalogQuery, languageFilter: string | null = null): number | null {
+  const languages = query.languages.length > 0 ? query.languages : (languageFilter ? [languageFilter] : []);
+  if (languages.length > 0 && !languages.includes('all') &&
+      !languages.some(lang => prepared.languages.includes(lang))) {
+    return null;
+  }
+
+  // The era only has to overlap the range
+  if (query.year) {
+    if (prepared.era === null) return null;
+    if (query.year.from !== null && prepared.era.to < query.year.from) return null;
+    if (query.year.to !== null && prepared.era.from > query.year.to) return null;
+  }
+
+  if (query.id !== null && prepared.record.id !== query.id) return null;
+  if (!matchesType(prepared.type, query.types)) return null;
+  if (query.locc.length > 0 && !query.locc.some(code => prepared.record.locc.some(c => c.startsWith(code)))) {
+    return null;
+  }
+
+  // A bare number also finds the book with that id
+  if (query.terms.length === 1 && /^\d+$/.test(query.terms[0].text) &&
+      query.title.length === 0 && query.author.length === 0 &&
+      query.subject.length === 0 && query.bookshelf.length === 0 &&
+      prepared.record.id === query.terms[0].text) {
+    return ID_MATCH_SCORE;
+  }
+
+  let score = 0;
+  for (const term of query.terms) {
+    const best = Math.max(termScore(term, prepared.title, TITLE_WEIGHTS), authorScore(term, prepared.author));
+    if (best === 0) return null;
+    score += best;
+  }
+  for (const term of query.title) {
+    const s = termScore(term, prepared.title, TITLE_WEIGHTS);
+    if (s === 0) return null;
+    score += s;
+  }
+  for (const term of query.author) {
+    const s = authorScore(term, prepared.author);
+    if (s === 0) return null;
+    score += s;
+  }
+  for (const [terms, text] of [[query.subject, prepared.subjects], [query.bookshelf, prepared.bookshelves]] as const) {
+    for (const term of terms) {
+      const s = termScore(term, text, TOPIC_WEIGHTS);
+      if (s === 0) return null;
+      score += s;
+    }
+  }
+
+  // Whole-title bonuses, for the words meant for the title
+  const titleText = [...query.terms, ...query.title].map(t => t.text).join(' ');
+  if (titleText) {
+    if (prepared.title === titleText) {
+      score += EXACT_TITLE_BONUS;
+    } else if (prepared.title.startsWith(`${titleText} `)) {
+      score += TITLE_PREFIX_BONUS;
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Order for ranked results: score, then shorter titles, then lower ids
+ */
+export function compareRanked(
+  a: { score: number; prepared: PreparedRecord },
+  b: { score: number; prepared: PreparedRecord }
+): number {
+  return b.score - a.score ||
+    a.prepared.title.length - b.prepared.title.length ||
+    parseInt(a.prepared.record.id, 10) - parseInt(b.prepared.record.id, 10);
+}
@@ -0,0 +1,233 @@
+/**
+ * Chunking Module
+ * Chooses which of a fetched chunk's tokens make up one page of reading.
+ *
+ * Navigator splits text into word tokens and paragraph-break tokens. In
+ * 'words' mode a page is simply chunkSize words. 'sentences' and
+ * 'paragraphs' end pages where a sentence or paragraph ends, taking as many
+ * whole units as fit in chunkSize words; a unit longer than that may run on
+ * to UNIT_LIMIT × chunkSize words before it is cut (a long paragraph at a
+ * sentence end if there is one). 'screenful' fills a grid of columns × rows
+ * character cells and ignores chunkSize.
+ *
+ * Sentence ends are found from punctuation alone: a word ending in . ! or ?
+ * (before any closing quotes or brackets), not a known abbreviation or an
+ * initial, followed by a word that starts with a capital or digit (after
+ * any opening quotes or brackets). A paragraph break always ends a sentence.
+ */
+
+import type { ChunkMode, ScreenSize, WordPosition } from './types.js';
+
+export const CHUNK_MODES: readonly ChunkMode[] = ['words', 'sentences', 'paragraphs', 'screenful'];
+
+/** A page may run to this many times chunkSize words to finish a unit */
+export const UNIT_LIMIT = 3;
+
+/** Screen assumed in screenful mode when none is given */
+export const DEFAULT_SCREEN: ScreenSize = { columns: 80, rows: 24 };
+
+/** Abbreviations (lowercase, without the full stop) that don't end sentences */
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'messrs', 'mme', 'mlle', 'dr', 'st', 'mt', 'prof', 'rev',
+  'hon', 'capt', 'col', 'gen', 'lt', 'sgt', 'jr', 'sr', 'esq', 'no', 'vol',
+  'ch', 'chap', 'p', 'pp', 'fig', 'viz', 'cf', 'vs', 'ibid'
+]);
+
+/** Quotes and brackets that may close a sentence after its punctuation */
+const CLOSERS = /["'”’»)\]_*]+$/;
+/** ...and that may open one before its first letter */
+const OPENERS = /^["'“‘«(\[_*]+/;
+
+/** Which tokens a page takes, as inclusive indexes into the token list */
+export interface TokenRange {
+  from: number;
+  to: number;
+}
+
+/** What Navigator knows about where a fetched chunk sits in the book */
+export interface ChunkEdges {
+  /** The first token is the first word of the book */
+  atStart: boolean;
+  /** A paragraph break comes right before the first token */
+  leadingBreak: boolean;
+  /** The last token is the last word of the book */
+  atEnd: boolean;
+}
+
+export interface ChunkLayout {
+  mode: ChunkMode;
+  chunkSize: number;
+  screen: ScreenSize | null;
+}
+
+export function isChunkMode(value: unknown): value is ChunkMode {
+  return typeof value === 'string' && (CHUNK_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a word's punctuation ends a sentence (not counting what follows)
+ */
+export function endsSentence(word: string): boolean {
+  const bare = word.replace(CLOSERS, '');
+  if (/[!?]$/.test(bare) || bare.endsWith('…')) return true;
+  if (!bare.endsWith('.')) return false;
+
+  const stem = bare.slice(0, -1).replace(OPENERS, '');
+  if (stem.endsWith('.')) return true;                        // an ellipsis...
+  if (/^\p{L}$/u.test(stem)) return false;                    // an initial: "J."
+  if (/^(\p{L}\.)+\p{L}$/u.test(stem)) return false;          // "e.g.", "i.e."
+  return !ABBREVIATIONS.has(stem.toLowerCase());
+}
+
+/**
+ * Whether a word can begin a sentence
+ */
+export function startsSentence(word: string): boolean {
+  return /^[\p{Lu}\p{N}]/u.test(word.replace(OPENERS, ''));
+}
+
+/**
+ * Pick the tokens for one page. Forward pages start at the first token (or,
+ * when alignStart is set, at the first unit start if the chunk opens
+ * mid-unit); backward pages end at the last token.
+ */
+export function selectTokens(
+  tokens: WordPosition[],
+  direction: 'forward' | 'backward',
+  layout: ChunkLayout,
+  edges: ChunkEdges,
+  alignStart = false
+): TokenRange {
+  const last = tokens.length - 1;
+  if (layout.mode === 'screenful') {
+    return selectScreen(tokens, direction, layout.screen ?? DEFAULT_SCREEN);
+  }
+  if (layout.mode === 'words') {
+    return direction === 'forward'
+      ? { from: 0, to: nthWord(tokens, 0, 1, layout.chunkSize) ?? last }
+      : { from: nthWord(tokens, last, -1, layout.chunkSize) ?? 0, to: last };
+  }
+
+  const levels: ChunkMode[] = layout.mode === 'paragraphs' ? ['paragraphs', 'sentences'] : ['sentences'];
+  const limit = layout.chunkSize * UNIT_LIMIT;
+
+  if (direction === 'backward') {
+    const words = wordIndexes(tokens, last, -1, limit);
+    for (const level of levels) {
+      const n = pickUnit(words, layout.chunkSize, i => startsUnit(tokens, i, level, edges));
+      if (n !== null) return { from: words[n], to: last };
+    }
+    return { from: words[Math.min(layout.chunkSize, words.length) - 1] ?? 0, to: last };
+  }
+
+  // A capital after the cut could be a name mid-sentence, so only the start
+  // of the book or of a paragraph counts as already aligned
+  let from = 0;
+  if (alignStart && !edges.atStart && !edges.leadingBreak) {
+    const next = wordIndexes(tokens, 0, 1, limit).find(i => i > 0 && startsUnit(tokens, i, layout.mode, edges));
+    if (next !== undefined) from = next;
+  }
+
+  const words = wordIndexes(tokens, from, 1, limit);
+  for (const level of levels) {
+    const n = pickUnit(words, layout.chunkSize, i => endsUnit(tokens, i, level, edges));
+    if (n !== null) return { from, to: words[n] };
+  }
+  return { from, to: words[Math.min(layout.chunkSize, words.length) - 1] ?? last };
+}
+
+/**
+ * Index of the nth word token counting from a token in a direction, or
+ * null when there are fewer
+ */
+function nthWord(tokens: WordPosition[], start: number, step: 1 | -1, n: number): number | null {
+  let count = 0;
+  for (let i = start; i >= 0 && i < tokens.length; i += step) {
+    if (!tokens[i].isBreak && ++count === n) return i;
+  }
+  return null;
+}
+
+/** Indexes of up to max word tokens, counting from a token in a direction */
+function wordIndexes(tokens: WordPosition[], start: number, step: 1 | -1, max: number): number[] {
+  const indexes: number[] = [];
+  for (let i = start; i >= 0 && i < tokens.length && indexes.length < max; i += step) {
+    if (!tokens[i].isBreak) indexes.push(i);
+  }
+  return indexes;
+}
+
+/**
+ * Position in words of the last boundary within chunkSize words, else of
+ * the first one beyond it; null when there is none
+ */
+function pickUnit(words: number[], chunkSize: number, isBoundary: (index: number) => boolean): number | null {
+  let found: number | null = null;
+  for (let n = 0; n < words.length; n++) {
+    if (!isBoundary(words[n])) continue;
+    if (n < chunkSize) {
+      found = n;
+    } else {
+      return found ?? n;
+    }
+  }
+  return found;
+}
+
+/** Whether the word token at index is the last word of a unit */
+function endsUnit(tokens: WordPosition[], index: number, level: ChunkMode, edges: ChunkEdges): boolean {
+  const next = tokens[index + 1];
+  if (!next) return edges.atEnd;
+  if (next.isBreak) return true;
+  return level === 'sentences' && endsSentence(tokens[index].word) && startsSentence(next.word);
+}
+
+/** Whether the word token at index is the first word of a unit */
+function startsUnit(tokens: WordPosition[], index: number, level: ChunkMode, edges: ChunkEdges): boolean {
+  const previous = tokens[index - 1];
+  if (!previous) return edges.atStart || edges.leadingBreak;
+  if (previous.isBreak) return true;
+  return level === 'sentences' && endsUnit(tokens, index - 1, level, edges);
+}
+
+/**
+ * Lay words out greedily in lines of screen.columns cells, a paragraph
+ * break leaving a blank line, and take as many tokens as fill screen.rows
+ * (at least one word). Backward pages are laid out from the last token up.
+ */
+function selectScreen(tokens: WordPosition[], direction: 'forward' | 'backward', screen: ScreenSize): TokenRange {
+  const step = direction === 'forward' ? 1 : -1;
+  const first = direction === 'forward' ? 0 : tokens.length - 1;
+  let line = 0;
+  let column = 0;
+  let end = first;
+
+  for (let i = first; i >= 0 && i < tokens.length; i += step) {
+    const token = tokens[i];
+    if (token.isBreak) {
+      if (column > 0) {
+        line += 2;
+        column = 0;
+      }
+      continue;
+    }
+
+    const width = [...token.word].length;
+    if (column === 0) {
+      column = width;
+    } else if (column + 1 + width <= screen.columns) {
+      column += 1 + width;
+    } else {
+      line++;
+      column = width;
+    }
+    while (column > screen.columns) {
+      line++;
+      column -= screen.columns;
+    }
+    if (line >= screen.rows && i !== first) break;
+    end = i;
+  }
+
+  return direction === 'forward' ? { from: first, to: end } : { from: end, to: first };
+}
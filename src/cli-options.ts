@@ -3,12 +3,17 @@
  * Handles command-line argument parsing including flags like --snapshot and --raw
  */
 
-import type { CliOptionsData } from './types.js';
+import { isSourceSpec } from './text-source.js';
+import type { CliOptionsData, ChunkMode } from './types.js';
 
 export class CliOptions implements CliOptionsData {
   snapshot: boolean = false;
   raw: boolean = false;
   bookId: number | null = null;
+  source: string | null = null;
+  clean: boolean = true;
+  offline: boolean = false;
+  chunkMode: ChunkMode = 'words';
   chunkSize: number | null = null;
   startPercent: number | null = null;
   errors: string[] = [];
@@ -28,6 +33,15 @@ export class CliOptions implements CliOptionsData {
           this.snapshot = true;
         } else if (flag === 'raw') {
           this.raw = true;
+        } else if (flag === 'no-clean') {
+          this.clean = false;
+        } else if (flag === 'offline') {
+          this.offline = true;
+        } else if (flag === 'sentences' || flag === 'paragraphs' || flag === 'screenful') {
+          if (this.chunkMode !== 'words' && this.chunkMode !== flag) {
+            this.errors.push(`--${flag} cannot be used with --${this.chunkMode}`);
+          }
+          this.chunkMode = flag;
         } else if (flag === 'help') {
           // Handled by wrapper, ignore here
         } else if (flag === 'lookup' || flag === 'refresh-catalog' || flag === 'search' || flag === 'fuzzy') {
@@ -44,16 +58,18 @@ export class CliOptions implements CliOptionsData {
 
     // Parse positional arguments (1-3 required, with defaults)
     if (args.length < 1 || args.length > 3) {
-      this.errors.push('Expected 1-3 positional arguments: <bookId> [chunkSize] [startPercent]');
+      this.errors.push('Expected 1-3 positional arguments: <bookId|file|url> [chunkSize] [startPercent]');
       return;
     }
 
-    const bookId = parseInt(args[0], 10);
+    // A non-numeric first argument may name a local file or URL
+    const source = isSourceSpec(args[0]) ? args[0] : null;
+    const bookId = source ? null : parseInt(args[0], 10);
     const chunkSize = args[1] ? parseInt(args[1], 10) : 200;
     const startPercent = args[2] ? parseInt(args[2], 10) : 0;
 
-    if (isNaN(bookId)) {
-      this.errors.push('Book ID must be a number');
+    if (bookId !== null && isNaN(bookId)) {
+      this.errors.push('Book ID must be a number (or a path to an existing text file)');
       return;
     }
 
@@ -68,6 +84,7 @@ export class CliOptions implements CliOptionsData {
     }
 
     this.bookId = bookId;
+    this.source = source;
     this.chunkSize = chunkSize;
     this.startPercent = startPercent;
 
@@ -94,13 +111,14 @@ export class CliOptions implements CliOptionsData {
 
   getUsageMessage(): string {
     return `
-Usage: ./gutex [options] <bookId> [chunkSize] [startPercent]
+Usage: ./gutex [options] <bookId|file|url> [chunkSize] [startPercent]
 
 Run './gutex --help' for full usage information.
 
 Quick examples:
   ./gutex 1342                 Read Pride and Prejudice
   ./gutex 1342 50              Same, 50 words per chunk
+  ./gutex ./notes.txt          Read a local text file
   ./gutex --lookup "Dracula"   Search for books
 `;
   }
@@ -4,6 +4,7 @@ import { fileURLToPath } from 'url';
 import { CliOptions } from './cli-options.js';
 import { SnapshotRunner } from './snapshot-runner.js';
 import { GutexEnhanced } from './gutex-enhanced.js';
+import { createTextSource } from './text-source.js';
 
 async function main(): Promise<void> {
   const options = new CliOptions();
@@ -14,17 +15,28 @@ async function main(): Promise<void> {
     process.exit(1);
   }
   
+  const source = options.source
+    ? createTextSource(options.source, { clean: options.clean, debug: process.env.DEBUG === '1' })
+    : null;
+  
   if (options.snapshot) {
-    const runner = new SnapshotRunner(options.bookId!, options.chunkSize!, options.startPercent!);
+    const runner = new SnapshotRunner(
+      options.bookId ?? 0,
+      options.chunkSize!,
+      options.startPercent!,
+      source,
+      options.offline,
+      options.chunkMode
+    );
     await runner.run();
     return;
   }
   
   const gutex = new GutexEnhanced(
-    options.bookId!,
+    options.bookId ?? 0,
     options.chunkSize!,
     options.startPercent!,
-    { showChrome: !options.raw }
+    { showChrome: !options.raw, source, offline: options.offline, chunkMode: options.chunkMode }
   );
   
   await gutex.run();
@@ -4,23 +4,39 @@
  */
 
 import { Fetcher } from './fetcher.js';
+import { CachedFetcher } from './cached-fetcher.js';
+import { getSharedSparseCache } from './sparse-cache.js';
 import { Cleaner } from './cleaner.js';
 import { Navigator } from './navigator.js';
 import { KeyboardHandler } from './keyboard.js';
 import { TerminalUI } from './terminal-ui.js';
 import { CatalogManager } from './catalog-manager.js';
-import type { Position, GutexEnhancedOptions } from './types.js';
+import { SourceFetcher, findSourceBoundaries } from './text-source.js';
+import { OutlineStore } from './book-structure.js';
+import { WordMapStore, SMALL_BOOK_BYTES } from './word-map.js';
+import { encodeAnchor, decodeAnchor } from './text-anchor.js';
+import { ReadingTrail, type TrailKind } from './reading-trail.js';
+import type { Position, GutexEnhancedOptions, TextSource, ChunkMode } from './types.js';
+
+/** Reading position is written to the trail once page turns pause (ms) */
+const TRAIL_HERE_DELAY = 2000;
 
 export class GutexEnhanced {
   private bookId: number;
   private chunkSize: number;
+  private chunkMode: ChunkMode;
   private startPercent: number;
   private currentPosition: Position | null = null;
   private navigator: Navigator | null = null;
-  private fetcher: Fetcher | null = null;
+  private fetcher: Fetcher | CachedFetcher | SourceFetcher | null = null;
+  private source: TextSource | null;
+  private offline: boolean;
   private keyboard: KeyboardHandler;
   private ui: TerminalUI;
   private catalog: CatalogManager;
+  private outlines = new OutlineStore();
+  private wordMaps = new WordMapStore();
+  private trail = new ReadingTrail();
   
   // Auto-read interval
   private autoIntervalId: ReturnType<typeof setInterval> | null = null;
@@ -31,39 +47,60 @@ export class GutexEnhanced {
   // Countdown refresh interval (for Jump Around display)
   private countdownIntervalId: ReturnType<typeof setInterval> | null = null;
 
+  // Reading position waiting to be written to the trail
+  private trailHere: {
+    bookId: number | string;
+    position: Position;
+    navigator: Navigator;
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
+
   constructor(bookId: number, chunkSize: number, startPercent: number, options: GutexEnhancedOptions = {}) {
     this.bookId = bookId;
     this.chunkSize = chunkSize;
     this.startPercent = startPercent;
+    this.source = options.source || null;
+    this.offline = options.offline === true;
+    this.chunkMode = options.chunkMode || 'words';
     this.keyboard = new KeyboardHandler();
     this.catalog = new CatalogManager();
 
     // Initialize UI
     this.ui = new TerminalUI({
       showChrome: options.showChrome !== false,
-      bookId: this.bookId
+      bookId: this.bookId,
+      offline: this.offline
     });
     this.ui.chunkSize = this.chunkSize;
+    this.ui.chunkMode = this.chunkMode;
+    this.ui.source = this.source;
   }
 
   async run(): Promise<void> {
     try {
       const debug = process.env.DEBUG === '1';
 
-      this.ui.showLoading(this.bookId);
-      
-      // Load book info from catalog
-      await this.ui.loadBookInfo(this.bookId);
+      if (this.source) {
+        await this.openSource(this.source, debug);
+      } else {
+        this.ui.showLoading(this.bookId);
 
-      const fetcher = new Fetcher(this.bookId, debug);
-      const boundaries = await Cleaner.findCleanBoundaries(fetcher);
+        // Load book info from catalog
+        await this.ui.loadBookInfo(this.bookId);
 
-      this.navigator = new Navigator(fetcher, boundaries, this.chunkSize);
-      this.fetcher = fetcher;
+        const fetcher = this.createFetcher(this.bookId, debug);
+        const boundaries = await Cleaner.findCleanBoundaries(fetcher);
+
+        this.navigator = new Navigator(fetcher, boundaries, this.chunkSize);
+        this.fetcher = fetcher;
+      }
+      this.applyChunkMode();
+      await this.loadWordMap();
 
       // Navigate to starting position
-      this.currentPosition = await this.navigator.goToPercent(this.startPercent);
+      this.currentPosition = await this.navigator!.goToPercent(this.startPercent);
       this.ui.render(this.currentPosition);
+      await this.recordTeleport('open');
 
       // Set up keyboard handlers
       this.setupKeyboardHandlers();
@@ -116,6 +153,14 @@ export class GutexEnhanced {
     this.keyboard.onPageUp(() => this.handlePageUp());
     this.keyboard.onPageDown(() => this.handlePageDown());
     
+    // Chapter navigation
+    this.keyboard.onNextChapter(() => this.handleChapter('forward'));
+    this.keyboard.onPreviousChapter(() => this.handleChapter('backward'));
+    
+    // Reading trail
+    this.keyboard.onTrailBack(() => this.handleTrail('back'));
+    this.keyboard.onTrailForward(() => this.handleTrail('forward'));
+    
     // Escape - context-aware (stop modes or quit)
     this.keyboard.onEscape(() => this.handleEscape());
     
@@ -152,6 +197,7 @@ export class GutexEnhanced {
         }
       } else {
         this.ui.render(this.currentPosition);
+        this.recordHere();
       }
     } catch (err) {
       this.ui.showError((err as Error).message);
@@ -185,16 +231,18 @@ export class GutexEnhanced {
         }
       } else {
         this.ui.render(this.currentPosition);
+        this.recordHere();
       }
     } catch (err) {
       this.ui.showError((err as Error).message);
     }
   }
 
-  private handleQuit(): void {
+  private async handleQuit(): Promise<void> {
     // Stop any running modes
     this.stopAutoRead();
     this.stopJumpAround();
+    await this.flushTrailHere();
     
     this.ui.showGoodbye();
 
@@ -269,7 +317,7 @@ export class GutexEnhanced {
     const bookId = await this.ui.showSearch(this.keyboard);
     
     if (bookId) {
-      await this.loadBook(bookId, 0);
+      await this.loadBook(bookId, 0, undefined, undefined, 'search');
     } else {
       this.keyboard.resume();
       if (this.currentPosition) {
@@ -290,7 +338,7 @@ export class GutexEnhanced {
     const result = await this.ui.showBookmarks(this.keyboard, this.currentPosition ?? undefined);
     
     if (result) {
-      await this.loadBook(result.bookId, 0, result.position);
+      await this.loadBook(result.bookId, 0, result.position, result.anchor, 'bookmark');
     } else {
       this.keyboard.resume();
       if (this.currentPosition) {
@@ -299,10 +347,21 @@ export class GutexEnhanced {
     }
   }
 
-  private handleSaveBookmark(): void {
-    if (!this.currentPosition) return;
+  private async handleSaveBookmark(): Promise<void> {
+    if (!this.currentPosition || !this.navigator) return;
+    if (this.source) {
+      this.ui.showMessage('Bookmarks are only available for Gutenberg books');
+      return;
+    }
     
-    const name = this.ui.quickSaveBookmark(this.currentPosition);
+    const position = this.currentPosition;
+    let anchor: string | undefined;
+    try {
+      anchor = encodeAnchor(await this.navigator.anchorAt(position.byteStart));
+    } catch {
+      // Saved without an anchor; it just won't follow revisions of the text
+    }
+    const name = this.ui.quickSaveBookmark(position, anchor);
     this.ui.showMessage(`Saved: ${name}`);
     
     // Re-render after a moment to clear the message
@@ -332,6 +391,7 @@ export class GutexEnhanced {
       try {
         this.currentPosition = await this.navigator.goToPercent(percent);
         this.ui.render(this.currentPosition);
+        await this.recordTeleport('jump');
       } catch (err) {
         this.ui.showError((err as Error).message);
       }
@@ -521,6 +581,7 @@ export class GutexEnhanced {
         try {
           this.currentPosition = await this.navigator.goToPercent(percent);
           this.ui.render(this.currentPosition);
+          await this.recordTeleport('jump');
         } catch (err) {
           this.ui.showError((err as Error).message);
         }
@@ -608,6 +669,7 @@ export class GutexEnhanced {
       const newPercent = Math.min(100, currentPercent + 10);
       this.currentPosition = await this.navigator.goToPercent(newPercent);
       this.ui.render(this.currentPosition);
+      await this.recordTeleport('jump');
     } catch (err) {
       this.ui.showError((err as Error).message);
     }
@@ -621,6 +683,128 @@ export class GutexEnhanced {
       const newPercent = Math.max(0, currentPercent - 10);
       this.currentPosition = await this.navigator.goToPercent(newPercent);
       this.ui.render(this.currentPosition);
+      await this.recordTeleport('jump');
+    } catch (err) {
+      this.ui.showError((err as Error).message);
+    }
+  }
+
+  // ============================================================================
+  // Chapter Navigation
+  // ============================================================================
+
+  private async handleChapter(direction: 'forward' | 'backward'): Promise<void> {
+    if (!this.navigator || !this.currentPosition) return;
+
+    try {
+      // The first jump reads the whole book to find its headings
+      this.ui.showMessage('Reading chapters...');
+      // Local files and URLs can change, so only Gutenberg outlines are saved
+      await this.navigator.getOutline(this.source ? null : this.outlines, this.bookId);
+      const position = direction === 'forward'
+        ? await this.navigator.nextChapter(this.currentPosition)
+        : await this.navigator.previousChapter(this.currentPosition);
+      if (!position) {
+        this.ui.render(this.currentPosition);
+        this.ui.showMessage(direction === 'forward' ? 'No later chapter' : 'No earlier chapter');
+        return;
+      }
+      this.currentPosition = position;
+      this.ui.render(this.currentPosition);
+      await this.recordTeleport('chapter');
+      const chapter = this.navigator.chapterAt(position.byteStart);
+      if (chapter) {
+        this.ui.showMessage(chapter.title ? `${chapter.label} ${chapter.title}` : chapter.label);
+      }
+    } catch (err) {
+      this.ui.showError((err as Error).message);
+    }
+  }
+
+  // ============================================================================
+  // Reading Trail (see reading-trail.ts)
+  // ============================================================================
+
+  private trailBookId(): number | string {
+    return this.source ? this.source.id : this.bookId;
+  }
+
+  private async recordTeleport(kind: TrailKind): Promise<void> {
+    if (!this.currentPosition || !this.navigator) return;
+    await this.flushTrailHere();
+    const position = this.currentPosition;
+    this.trail.visit({
+      bookId: this.trailBookId(),
+      byteStart: position.byteStart,
+      anchor: await this.trailAnchor(this.navigator, position.byteStart),
+      kind,
+      chunkSize: this.chunkSize,
+      title: this.ui.bookTitle,
+      percent: parseFloat(position.percent)
+    });
+  }
+
+  /** Keep the trail's current entry at the passage being read, once page turns pause */
+  private recordHere(): void {
+    if (!this.currentPosition || !this.navigator) return;
+    if (this.trailHere) clearTimeout(this.trailHere.timer);
+    this.trailHere = {
+      bookId: this.trailBookId(),
+      position: this.currentPosition,
+      navigator: this.navigator,
+      timer: setTimeout(() => this.flushTrailHere(), TRAIL_HERE_DELAY)
+    };
+  }
+
+  /** Write the reading position to the trail now if it's waiting */
+  private async flushTrailHere(): Promise<void> {
+    if (!this.trailHere) return;
+    const { bookId, position, navigator, timer } = this.trailHere;
+    clearTimeout(timer);
+    this.trailHere = null;
+    this.trail.here(bookId, position.byteStart, {
+      anchor: await this.trailAnchor(navigator, position.byteStart),
+      percent: parseFloat(position.percent)
+    });
+  }
+
+  // Anchored, so back and forward find the passage after a revision
+  private async trailAnchor(navigator: Navigator, byteStart: number): Promise<string | undefined> {
+    try {
+      return encodeAnchor(await navigator.anchorAt(byteStart));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async handleTrail(direction: 'back' | 'forward'): Promise<void> {
+    if (!this.navigator || !this.currentPosition) return;
+    this.stopAutoRead();
+    this.stopJumpAround();
+
+    await this.flushTrailHere();
+    const entry = direction === 'back' ? this.trail.back() : this.trail.forward();
+    if (!entry) {
+      this.ui.render(this.currentPosition);
+      this.ui.showMessage(direction === 'back' ? 'Start of reading trail' : 'End of reading trail');
+      return;
+    }
+
+    try {
+      if (entry.bookId === this.trailBookId()) {
+        const anchor = entry.anchor ? decodeAnchor(entry.anchor) : null;
+        const match = anchor ? await this.navigator.resolveAnchor(anchor) : null;
+        this.navigator.positionHistory = [];
+        this.currentPosition = await this.navigator._fetchChunkAt(match?.byteStart ?? entry.byteStart, 0, 'forward');
+        this.ui.render(this.currentPosition);
+      } else if (typeof entry.bookId === 'number') {
+        await this.loadBook(entry.bookId, 0, entry.byteStart, entry.anchor, null);
+      } else {
+        // A local or URL text opened in another reader; stay put
+        if (direction === 'back') this.trail.forward(); else this.trail.back();
+        this.ui.render(this.currentPosition);
+        this.ui.showMessage(`Not open here: ${entry.title ?? entry.bookId}`);
+      }
     } catch (err) {
       this.ui.showError((err as Error).message);
     }
@@ -630,12 +814,88 @@ export class GutexEnhanced {
   // Book Loading
   // ============================================================================
 
-  private async loadBook(bookId: number, startPercent: number, byteStart?: number): Promise<void> {
+  /**
+   * Offline reads come only from the sparse cache
+   */
+  private createFetcher(bookId: number, debug: boolean): Fetcher | CachedFetcher {
+    if (this.offline) {
+      return new CachedFetcher(bookId, debug, {
+        useMirrors: false,
+        sparseCache: getSharedSparseCache({ offline: true, debug })
+      });
+    }
+    return new Fetcher(bookId, debug);
+  }
+
+  /**
+   * Pick a book with cached content (offline random/teleport)
+   */
+  private pickCachedBookId(): number | null {
+    const books = getSharedSparseCache({ offline: true }).listReadableBooks();
+    if (books.length === 0) return null;
+    return books[Math.floor(Math.random() * books.length)];
+  }
+
+  /** Give the navigator the chunk mode, and the screen size for screenful */
+  private applyChunkMode(): void {
+    const navigator = this.navigator!;
+    navigator.chunkMode = this.chunkMode;
+    // Sized once, for the terminal as it is when the book opens
+    navigator.screen = this.chunkMode === 'screenful' ? this.ui.textArea() : null;
+  }
+
+  /**
+   * Count the book's words when that's cheap (a small text, or a book fully
+   * in the offline cache) so positions carry exact word indexes
+   */
+  private async loadWordMap(): Promise<void> {
+    const navigator = this.navigator!;
+    const stats = this.fetcher instanceof CachedFetcher ? this.fetcher.getCacheStats().bookStats : null;
+    const fullyCached = stats !== null && stats.blocksCached >= stats.totalBlocks;
+    if (!fullyCached && navigator.boundaries.cleanLength > SMALL_BOOK_BYTES) return;
+
+    try {
+      // Local files and URLs can change, so only Gutenberg word maps are saved
+      await navigator.loadWordMap(this.source ? null : this.wordMaps, this.bookId);
+    } catch {
+      // Positions keep estimated word indexes
+    }
+  }
+
+  /**
+   * Open a local file or URL source in place of a Gutenberg book
+   */
+  private async openSource(source: TextSource, debug: boolean): Promise<void> {
+    this.ui.showLoading(source.title);
+    this.ui.bookTitle = source.title;
+    this.ui.bookAuthor = source.author || undefined;
+
+    const fetcher = new SourceFetcher(source, debug);
+    const boundaries = await findSourceBoundaries(source, fetcher);
+
+    this.navigator = new Navigator(fetcher, boundaries, this.chunkSize);
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Open a Gutenberg book, adding it to the reading trail as trailKind (or
+   * not at all, when the trail itself is being walked)
+   */
+  private async loadBook(
+    bookId: number,
+    startPercent: number,
+    byteStart?: number,
+    anchor?: string,
+    trailKind: TrailKind | null = 'open'
+  ): Promise<void> {
     try {
       this.stopAutoRead();
       // Note: stopJumpAround is called by handlers (search, bookmarks, random menu, etc.)
       // before calling loadBook, so we don't need to call it here
-      
+
+      // Leaving a local/URL source for a Gutenberg book
+      this.source = null;
+      this.ui.source = null;
       this.bookId = bookId;
       this.startPercent = startPercent;
       this.ui.bookId = bookId;
@@ -646,12 +906,21 @@ export class GutexEnhanced {
       await this.ui.loadBookInfo(bookId);
       
       const debug = process.env.DEBUG === '1';
-      const fetcher = new Fetcher(bookId, debug);
+      const fetcher = this.createFetcher(bookId, debug);
       const boundaries = await Cleaner.findCleanBoundaries(fetcher);
       
       this.navigator = new Navigator(fetcher, boundaries, this.chunkSize);
       this.fetcher = fetcher;
+      this.applyChunkMode();
+      await this.loadWordMap();
       
+      // A bookmark's anchor finds its passage if the text has been revised
+      const decoded = anchor ? decodeAnchor(anchor) : null;
+      if (byteStart !== undefined && decoded) {
+        const match = await this.navigator.resolveAnchor(decoded);
+        if (match) byteStart = match.byteStart;
+      }
+
       if (byteStart !== undefined) {
         // Navigate to specific byte position
         this.currentPosition = await this.navigator._fetchChunkAt(
@@ -665,6 +934,7 @@ export class GutexEnhanced {
       
       this.keyboard.resume();
       this.ui.render(this.currentPosition);
+      if (trailKind) await this.recordTeleport(trailKind);
       
     } catch (err) {
       this.ui.showError((err as Error).message);
@@ -673,6 +943,18 @@ export class GutexEnhanced {
   }
 
   private async goToRandomBook(): Promise<void> {
+    if (this.offline) {
+      const cachedBookId = this.pickCachedBookId();
+      if (cachedBookId === null) {
+        this.ui.showError('No cached books available offline');
+        this.keyboard.resume();
+        return;
+      }
+      this.ui.showTeleporting(cachedBookId, 0);
+      await this.loadBook(cachedBookId, 0, undefined, undefined, 'random');
+      return;
+    }
+
     try {
       // Try to get a verified random book from catalog
       let randomBookId: number;
@@ -691,7 +973,7 @@ export class GutexEnhanced {
       }
       
       this.ui.showTeleporting(randomBookId, 0);
-      await this.loadBook(randomBookId, 0);
+      await this.loadBook(randomBookId, 0, undefined, undefined, 'random');
       
     } catch {
       // Book might not exist, try again
@@ -700,6 +982,18 @@ export class GutexEnhanced {
   }
 
   private async teleportToRandomLocation(): Promise<void> {
+    if (this.offline) {
+      const cachedBookId = this.pickCachedBookId();
+      if (cachedBookId === null) {
+        this.ui.showError('No cached books available offline');
+        return;
+      }
+      const randomPercent = Math.floor(Math.random() * 100);
+      this.ui.showTeleporting(cachedBookId, randomPercent);
+      await this.loadBook(cachedBookId, randomPercent, undefined, undefined, 'random');
+      return;
+    }
+
     try {
       // Pick random book (1-70000)
       const randomBookId = 1 + Math.floor(Math.random() * 70000);
@@ -707,7 +1001,7 @@ export class GutexEnhanced {
       const randomPercent = Math.floor(Math.random() * 100);
 
       this.ui.showTeleporting(randomBookId, randomPercent);
-      await this.loadBook(randomBookId, randomPercent);
+      await this.loadBook(randomBookId, randomPercent, undefined, undefined, 'random');
       
     } catch {
       // Book might not exist, try again
@@ -1,12 +1,24 @@
 #!/usr/bin/env node
 
 import { WebServer } from './web-server.js';
+import { TextSourceRegistry, createTextSource } from './text-source.js';
 
 const args = process.argv.slice(2);
 
 // Parse options
 let port = 3000;
 let chunkSize = 200;
+let clean = true;
+let offline = false;
+let cacheMaxBytes: number | undefined;
+let cacheMaxBytesPerBook: number | undefined;
+let exportCachePath: string | null = null;
+let importCachePath: string | null = null;
+let exportBookIds: number[] | null = null;
+let mirrorConfigPath: string | undefined;
+const mirrors: string[] = [];
+const sourceSpecs: string[] = [];
+const textDirs: string[] = [];
 
 for (let i = 0; i < args.length; i++) {
   if (args[i] === '-p' || args[i] === '--port') {
@@ -15,6 +27,37 @@ for (let i = 0; i < args.length; i++) {
   } else if (args[i] === '-w' || args[i] === '--words') {
     chunkSize = parseInt(args[i + 1], 10);
     i++;
+  } else if (args[i] === '--source') {
+    sourceSpecs.push(args[i + 1]);
+    i++;
+  } else if (args[i] === '--texts') {
+    textDirs.push(args[i + 1]);
+    i++;
+  } else if (args[i] === '--no-clean') {
+    clean = false;
+  } else if (args[i] === '--offline') {
+    offline = true;
+  } else if (args[i] === '--cache-quota') {
+    cacheMaxBytes = parseFloat(args[i + 1]) * 1024 * 1024;
+    i++;
+  } else if (args[i] === '--cache-book-cap') {
+    cacheMaxBytesPerBook = parseFloat(args[i + 1]) * 1024 * 1024;
+    i++;
+  } else if (args[i] === '--export-cache') {
+    exportCachePath = args[i + 1];
+    i++;
+  } else if (args[i] === '--import-cache') {
+    importCachePath = args[i + 1];
+    i++;
+  } else if (args[i] === '--mirror') {
+    mirrors.push(args[i + 1]);
+    i++;
+  } else if (args[i] === '--mirror-config') {
+    mirrorConfigPath = args[i + 1];
+    i++;
+  } else if (args[i] === '--books') {
+    exportBookIds = args[i + 1].split(',').map(id => parseInt(id, 10)).filter(id => !isNaN(id));
+    i++;
   } else if (args[i] === '-h' || args[i] === '--help') {
     console.log(`
 gutex-web - Web UI for Gutex
@@ -24,15 +67,30 @@ Usage: gutex-web [options]
 Options:
   -p, --port <port>    Port to listen on (default: 3000)
   -w, --words <count>  Default words per chunk (default: 200)
+  --source <path|url>  Serve a local text file or URL (repeatable)
+  --texts <dir>        Serve every .txt file in a directory
+  --no-clean           Skip Gutenberg header/footer detection for sources
+  --offline            Serve only cached books and the on-disk catalog
+  --cache-quota <MB>   Evict cold cached text beyond this total size
+  --cache-book-cap <MB>  Keep at most this much of any one (unpinned) book
+  --export-cache <file>  Write cached books and the catalog to a .tar.gz and exit
+  --books <id,id,...>  Limit --export-cache to these books
+  --import-cache <file>  Merge an exported .tar.gz into the cache and exit
+  --mirror <url>       Add a private mirror, http(s):// or file:// (repeatable)
+  --mirror-config <file>  Mirror config (default: ~/.gutex_mirrors.json)
   -h, --help           Show this help
 
 URL Format:
   http://localhost:<port>/#<bookId>
   http://localhost:<port>/#<bookId>,<byteStart>,<chunkSize>
+  http://localhost:<port>/#<sourceId>       Local/URL text (see /api/sources)
 
 Examples:
   gutex-web                    Start on default port 3000
   gutex-web -p 8080            Start on port 8080
+  gutex-web --texts ./corpus   Also serve ./corpus/*.txt
+  gutex-web --export-cache library.tar.gz   Bundle the cache for another machine
+  gutex-web --mirror file:///srv/gutenberg  Prefer an rsync'd local mirror
 
 Then open:
   http://localhost:3000/#1342           Pride and Prejudice (default 200 words)
@@ -50,5 +108,49 @@ Keyboard Controls (same as CLI):
   }
 }
 
-const server = new WebServer({ port, chunkSize });
+const registry = new TextSourceRegistry();
+for (const dir of textDirs) {
+  registry.registerDirectory(dir, { clean });
+}
+for (const spec of sourceSpecs) {
+  registry.register(createTextSource(spec, { clean }));
+}
+let server: WebServer;
+try {
+  server = new WebServer({
+    port,
+    chunkSize,
+    sources: registry.all(),
+    offline,
+    cacheMaxBytes,
+    cacheMaxBytesPerBook,
+    mirrors,
+    mirrorConfigPath
+  });
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}`);
+  process.exit(1);
+}
+
+if (exportCachePath || importCachePath) {
+  try {
+    if (importCachePath) {
+      const summary = await server.importCache(importCachePath);
+      for (const book of summary.books) {
+        const detail = book.action === 'skipped' ? book.reason : `+${book.blocksAdded} blocks`;
+        console.log(`  Book ${book.bookId}: ${book.action} (${detail})`);
+      }
+      console.log(`✓ Imported ${importCachePath}: ${summary.books.length} book(s), catalog ${summary.catalog}`);
+    }
+    if (exportCachePath) {
+      const manifest = await server.exportCache(exportCachePath, exportBookIds);
+      console.log(`✓ Exported ${manifest.books.length} book(s)${manifest.catalog ? ' and catalog' : ''} to ${exportCachePath}`);
+    }
+    process.exit(0);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
 server.start();
@@ -6,12 +6,16 @@ import path from 'path';
 import { CatalogManager } from './catalog-manager.js';
 import { NetworkSearcher } from './network-search.js';
 import { Fetcher } from './fetcher.js';
+import { CachedFetcher } from './cached-fetcher.js';
+import { getSharedSparseCache } from './sparse-cache.js';
+import { PinJobManager } from './pin-jobs.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-async function handleLookup(searchQuery: string, refreshCatalog: boolean): Promise<void> {
+async function handleLookup(searchQuery: string, refreshCatalog: boolean, offline = false): Promise<void> {
   const catalog = new CatalogManager();
+  catalog.setOffline(offline);
 
   try {
     await catalog.ensureCatalog(refreshCatalog);
@@ -24,8 +28,8 @@ async function handleLookup(searchQuery: string, refreshCatalog: boolean): Promi
 
     console.log(`Found ${results.length} result${results.length === 1 ? '' : 's'} for: "${searchQuery}"\n`);
 
-    for (const { id, title } of results) {
-      console.log(`    --> [${id}] "${title}"`);
+    for (const { id, title, author } of results) {
+      console.log(`    --> [${id}] "${title}"${author ? ` by ${author}` : ''}`);
     }
 
     console.log();
@@ -36,7 +40,7 @@ async function handleLookup(searchQuery: string, refreshCatalog: boolean): Promi
   }
 }
 
-async function handleSearch(bookId: number, phrase: string, fuzzy: boolean): Promise<void> {
+async function handleSearch(bookId: number, phrase: string, fuzzy: boolean, offline = false): Promise<void> {
   const searcher = new NetworkSearcher(false);
   
   // Validate phrase
@@ -49,14 +53,24 @@ async function handleSearch(bookId: number, phrase: string, fuzzy: boolean): Pro
   console.error(`Searching book ${bookId} for: "${phrase}"${fuzzy ? ' (fuzzy)' : ''}...`);
   
   try {
-    // Get file size for the book
-    const fetcher = new Fetcher(bookId, false);
-    const fileSize = await fetcher.getFileSize();
+    let fileSize: number;
+    let rangeFetcher: (start: number, end: number) => Promise<Buffer>;
     
-    // Create range fetcher using the Fetcher
-    const rangeFetcher = async (start: number, end: number): Promise<Buffer> => {
-      return fetcher.fetchRange(start, end);
-    };
+    if (offline) {
+      // Only cached blocks can be searched
+      const cache = getSharedSparseCache({ offline: true });
+      fileSize = await cache.getFileSize(bookId);
+      rangeFetcher = (start, end) => cache.getRange(bookId, start, end);
+    } else {
+      // Get file size for the book
+      const fetcher = new Fetcher(bookId, false);
+      fileSize = await fetcher.getFileSize();
+      
+      // Create range fetcher using the Fetcher
+      rangeFetcher = async (start: number, end: number): Promise<Buffer> => {
+        return fetcher.fetchRange(start, end);
+      };
+    }
     
     // Build the URL for search
     const bookUrl = `https://www.gutenberg.org/cache/epub/${bookId}/pg${bookId}.txt`;
@@ -67,7 +81,9 @@ async function handleSearch(bookId: number, phrase: string, fuzzy: boolean): Pro
       maxMatches: 50,
       maxEditDistance: fuzzy ? 2 : 0,
       contextSize: 150,
-      rangeFetcher
+      rangeFetcher,
+      fileSize,
+      offline
     });
     
     if (!result.found || result.matches.length === 0) {
@@ -109,6 +125,48 @@ async function handleSearch(bookId: number, phrase: string, fuzzy: boolean): Pro
   }
 }
 
+async function handlePin(bookId: number): Promise<void> {
+  // CachedFetcher routes the shared sparse cache through the mirror pool
+  const fetcher = new CachedFetcher(bookId, false);
+  const cache = getSharedSparseCache();
+
+  try {
+    await fetcher.getFileSize();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`\n❌ Book ${bookId} unavailable: ${message}\n`);
+    process.exit(1);
+  }
+
+  const jobs = new PinJobManager(cache, {
+    onProgress: (status) => {
+      if (status.totalBytes === null) return;
+      process.stderr.write(`\r  ${status.percent.toFixed(1)}% of ${formatBytes(status.totalBytes)} cached`);
+    }
+  });
+
+  console.error(`Pinning book ${bookId} for offline reading (Ctrl+C to stop, run again to resume)...`);
+  const onInterrupt = (): void => { jobs.cancel(bookId); };
+  process.once('SIGINT', onInterrupt);
+
+  jobs.pin(bookId);
+  const status = await jobs.wait(bookId);
+  process.removeListener('SIGINT', onInterrupt);
+  process.stderr.write('\n');
+
+  if (!status || status.state === 'failed') {
+    console.error(`\n❌ Pin failed: ${status?.error ?? 'unknown error'}\n`);
+    process.exit(1);
+  }
+
+  if (status.state === 'cancelled') {
+    console.error(`Stopped at ${status.percent.toFixed(1)}%. Book ${bookId} stays pinned; run again to resume.\n`);
+    return;
+  }
+
+  console.error(`✓ Book ${bookId} pinned: downloaded ${formatBytes(status.bytesFetched)} in ${status.requests} request(s)\n`);
+}
+
 function formatBytes(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -146,30 +204,45 @@ gutex - Explore text at Project Gutenberg
 
 Usage:
   gutex [options] <bookId> [chunkSize] [startPercent]
+  gutex [options] <file|url> [chunkSize] [startPercent]
   gutex --lookup <query>
   gutex --search <bookId> "<phrase>"
+  gutex --pin <bookId>
 
 Arguments:
   bookId        Project Gutenberg book ID (required for reading)
-  chunkSize     Words per chunk (default: 200)
+  file|url      Local text file, file:// or http(s):// URL instead of a book ID
+  chunkSize     Words per chunk (default: 200; a rough limit with --sentences
+                and --paragraphs, ignored with --screenful)
   startPercent  Starting position 0-100 (default: 0)
 
 Options:
   --help, -h         Show this help
-  --lookup <query>   Search catalog by title/author
+  --lookup <query>   Search catalog by title/author, best match first
+                     (fields: author: title: lang: year:1800..1850 id:)
   --search <id> <phrase>  Search within a book for a phrase (4+ words)
   --fuzzy            Enable fuzzy matching (use with --search)
+  --pin <id>         Download a whole book into the local cache for offline use
   --refresh-catalog  Force re-download of catalog (use with --lookup)
   --snapshot         Print one chunk and exit (no REPL)
   --raw              Hide metadata in REPL mode
+  --no-clean         Read a file/URL as-is (skip Gutenberg header/footer detection)
+  --offline          Use only cached books and the on-disk catalog (no network)
+  --sentences        End chunks at sentence ends
+  --paragraphs       End chunks at paragraph ends
+  --screenful        Fill the terminal with each chunk
 
 Examples:
   gutex 1342                      Pride and Prejudice, default settings
   gutex 996 50 25                 Don Quixote, 50 words, start at 25%
   gutex --snapshot 345 100 10    Dracula, print 100 words at 10% and exit
+  gutex ./notes.txt --no-clean   Read a local file from the beginning
+  gutex 1342 150 --paragraphs    Whole paragraphs, about 150 words at a time
   gutex --lookup "Sherlock"      Search for Sherlock Holmes books
   gutex --lookup "Austen" --refresh-catalog   Search with fresh catalog
+  gutex --lookup 'author:austen title:"pride" lang:en'   Field search
   gutex --search 7849 "stretched across his waistcoat"  Search The Trial
+  gutex --pin 1342               Keep Pride and Prejudice available offline
 
 Search Output Format:
   Each match outputs two lines:
@@ -211,21 +284,44 @@ Web UI:
 
   let lookupIndex = -1;
   let searchIndex = -1;
+  let pinIndex = -1;
   let refreshCatalog = false;
   let fuzzy = false;
+  let offline = false;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--lookup') {
       lookupIndex = i;
     } else if (args[i] === '--search') {
       searchIndex = i;
+    } else if (args[i] === '--pin') {
+      pinIndex = i;
     } else if (args[i] === '--refresh-catalog') {
       refreshCatalog = true;
     } else if (args[i] === '--fuzzy') {
       fuzzy = true;
+    } else if (args[i] === '--offline') {
+      offline = true;
     }
   }
 
+  // Handle --pin
+  if (pinIndex !== -1) {
+    const bookId = parseInt(args[pinIndex + 1] ?? '', 10);
+    if (isNaN(bookId)) {
+      console.error('\n❌ --pin requires a numeric book ID\n');
+      console.error('Usage: gutex --pin <bookId>\n');
+      process.exit(1);
+    }
+    if (offline) {
+      console.error('\n❌ --pin cannot be used with --offline\n');
+      process.exit(1);
+    }
+
+    await handlePin(bookId);
+    return;
+  }
+
   // Handle --search
   if (searchIndex !== -1) {
     if (searchIndex + 2 >= args.length) {
@@ -242,7 +338,7 @@ Web UI:
     }
 
     const phrase = args[searchIndex + 2];
-    await handleSearch(bookId, phrase, fuzzy);
+    await handleSearch(bookId, phrase, fuzzy, offline);
     return;
   }
 
@@ -256,7 +352,12 @@ Web UI:
     }
 
     const searchQuery = args[lookupIndex + 1];
-    await handleLookup(searchQuery, refreshCatalog);
+    if (refreshCatalog && offline) {
+      console.error('\n❌ --refresh-catalog cannot be used with --offline\n');
+      process.exit(1);
+    }
+
+    await handleLookup(searchQuery, refreshCatalog, offline);
     return;
   }
 
@@ -288,4 +389,4 @@ if (scriptPath && (modulePath.endsWith(scriptPath) || scriptPath.endsWith('gutex
   });
 }
 
-export { main, handleLookup, handleSearch };
+export { main, handleLookup, handleSearch, handlePin };
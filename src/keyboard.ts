@@ -35,6 +35,10 @@ export class KeyboardHandler {
     debug: null,
     pageUp: null,
     pageDown: null,
+    nextChapter: null,
+    previousChapter: null,
+    trailBack: null,
+    trailForward: null,
     escape: null,
     excerpt: null
   };
@@ -64,6 +68,10 @@ export class KeyboardHandler {
   onDebug(callback: () => void): void { this.callbacks.debug = callback; }
   onPageUp(callback: () => void): void { this.callbacks.pageUp = callback; }
   onPageDown(callback: () => void): void { this.callbacks.pageDown = callback; }
+  onNextChapter(callback: () => void): void { this.callbacks.nextChapter = callback; }
+  onPreviousChapter(callback: () => void): void { this.callbacks.previousChapter = callback; }
+  onTrailBack(callback: () => void): void { this.callbacks.trailBack = callback; }
+  onTrailForward(callback: () => void): void { this.callbacks.trailForward = callback; }
   onEscape(callback: () => void): void { this.callbacks.escape = callback; }
   onExcerpt(callback: () => void): void { this.callbacks.excerpt = callback; }
 
@@ -220,6 +228,26 @@ export class KeyboardHandler {
       if (this.callbacks.pageDown) this.callbacks.pageDown();
       return;
     }
+
+    // Chapter navigation
+    if (name === 'n') {
+      if (this.callbacks.nextChapter) this.callbacks.nextChapter();
+      return;
+    }
+    if (name === 'p') {
+      if (this.callbacks.previousChapter) this.callbacks.previousChapter();
+      return;
+    }
+
+    // Reading trail: back and forward through teleports, across books
+    if (str === '<') {
+      if (this.callbacks.trailBack) this.callbacks.trailBack();
+      return;
+    }
+    if (str === '>') {
+      if (this.callbacks.trailForward) this.callbacks.trailForward();
+      return;
+    }
   }
 
   stop(): void {
@@ -8,8 +8,11 @@ import os from 'os';
 import path from 'path';
 
 export interface LastPosition {
-  bookId: number;
+  /** Gutenberg book ID, or text source ID for local/URL texts */
+  bookId: number | string;
   byteStart: number;
+  /** Text anchor token for byteStart (see text-anchor.ts) */
+  anchor?: string;
   chunkSize: number;
   mode?: '2d' | '3d';
   timestamp: number;
@@ -0,0 +1,147 @@
+/**
+ * Mirror Config Module
+ * User mirror preferences: private mirrors (http(s):// or file://), pinned or
+ * excluded providers and continents, and per-mirror priority
+ *
+ * Example ~/.gutex_mirrors.json:
+ *   {
+ *     "mirrors": [{ "url": "file:///srv/gutenberg", "provider": "NAS" }],
+ *     "exclude": { "continents": ["Asia"] },
+ *     "priority": { "https://aleph.pglaf.org": 5 }
+ *   }
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { Mirror, MirrorConfig, CustomMirrorConfig } from './types.js';
+
+export const MIRROR_CONFIG_FILE = path.join(os.homedir(), '.gutex_mirrors.json');
+
+/** Priority given to user mirrors that don't set one */
+const CUSTOM_MIRROR_PRIORITY = 10;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Check the shape of a parsed config; throws with the offending key
+ */
+export function validateMirrorConfig(raw: unknown): MirrorConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('expected a JSON object');
+  }
+  const config = raw as Record<string, unknown>;
+
+  if (config.mirrors !== undefined) {
+    if (!Array.isArray(config.mirrors)) throw new Error('"mirrors" must be an array');
+    for (const entry of config.mirrors as CustomMirrorConfig[]) {
+      if (!entry || typeof entry.url !== 'string' || !/^(https?|file):\/\//.test(entry.url)) {
+        throw new Error('each of "mirrors" needs an http://, https:// or file:// "url"');
+      }
+      if (entry.priority !== undefined && typeof entry.priority !== 'number') {
+        throw new Error(`"priority" for ${entry.url} must be a number`);
+      }
+    }
+  }
+
+  for (const key of ['pin', 'exclude'] as const) {
+    const section = config[key] as Record<string, unknown> | undefined;
+    if (section === undefined) continue;
+    if (!section || typeof section !== 'object') throw new Error(`"${key}" must be an object`);
+    for (const [field, value] of Object.entries(section)) {
+      if (!isStringArray(value)) throw new Error(`"${key}.${field}" must be an array of strings`);
+    }
+  }
+
+  if (config.priority !== undefined) {
+    const priority = config.priority as Record<string, unknown>;
+    if (!priority || typeof priority !== 'object' || Object.values(priority).some(v => typeof v !== 'number')) {
+      throw new Error('"priority" must map URLs or provider names to numbers');
+    }
+  }
+
+  return config as MirrorConfig;
+}
+
+/**
+ * Read a mirror config file. A missing file is an empty config; an
+ * unreadable or invalid one throws.
+ */
+export function loadMirrorConfig(filePath: string = MIRROR_CONFIG_FILE): MirrorConfig {
+  if (!fs.existsSync(filePath)) return {};
+  try {
+    return validateMirrorConfig(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+  } catch (err) {
+    throw new Error(`Invalid mirror config ${filePath}: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Add --mirror URLs to a config
+ */
+export function withExtraMirrors(config: MirrorConfig, urls: string[]): MirrorConfig {
+  if (urls.length === 0) return config;
+  return validateMirrorConfig({
+    ...config,
+    mirrors: [...(config.mirrors ?? []), ...urls.map(url => ({ url }))]
+  });
+}
+
+/**
+ * Build a Mirror from a config entry
+ */
+export function customMirror(entry: CustomMirrorConfig): Mirror {
+  const baseUrl = entry.url.trim().replace(/\/+$/, '');
+  let provider = entry.provider;
+  if (!provider) {
+    provider = baseUrl.startsWith('file://')
+      ? `Local (${fileURLToPath(baseUrl)})`
+      : new URL(baseUrl).host;
+  }
+
+  return {
+    baseUrl,
+    provider,
+    location: entry.location ?? (baseUrl.startsWith('file://') ? 'Local' : 'Custom'),
+    priority: entry.priority ?? CUSTOM_MIRROR_PRIORITY,
+    custom: true
+  };
+}
+
+function matches(list: string[] | undefined, value: string | undefined): boolean {
+  if (!list || !value) return false;
+  const needle = value.toLowerCase();
+  return list.some(item => item.toLowerCase() === needle);
+}
+
+/**
+ * Apply a config to the MIRRORS.ALL list: drop excluded mirrors, keep only
+ * pinned ones if a pin is set, add user mirrors and set priorities.
+ * The fallback mirror (gutenberg.org) survives a pin, but not an exclude.
+ */
+export function applyMirrorConfig(mirrors: Mirror[], config: MirrorConfig, fallbackUrl: string): Mirror[] {
+  const { pin, exclude, priority = {} } = config;
+  const pinned = pin && ((pin.providers?.length ?? 0) > 0 || (pin.continents?.length ?? 0) > 0);
+
+  const isExcluded = (m: Mirror): boolean =>
+    matches(exclude?.providers, m.provider) ||
+    matches(exclude?.continents, m.continent) ||
+    (exclude?.urls ?? []).some(url => url.replace(/\/+$/, '') === m.baseUrl);
+
+  const custom = (config.mirrors ?? []).map(customMirror);
+  const customUrls = new Set(custom.map(m => m.baseUrl));
+
+  const listed = mirrors.filter(m => {
+    if (customUrls.has(m.baseUrl) || isExcluded(m)) return false;
+    if (!pinned || m.baseUrl === fallbackUrl) return true;
+    return matches(pin!.providers, m.provider) || matches(pin!.continents, m.continent);
+  });
+
+  return [...custom.filter(m => !isExcluded(m)), ...listed].map(m => {
+    const configured = priority[m.baseUrl] ?? priority[m.provider];
+    return configured !== undefined ? { ...m, priority: configured } : m;
+  });
+}
@@ -3,19 +3,39 @@
  *
  * Strategy:
  * - At startup: download MIRRORS.ALL, fall back to local cache, fall back to direct
- * - On first request for a book: race top N mirrors in parallel, use fastest responder
+ * - On first request for a book: race top N mirrors, first success wins and the
+ *   rest are aborted
+ * - Once latencies are known, races are hedged: the next mirror only starts if
+ *   the previous one is slower than the p90 response time (or fails)
  * - On subsequent requests: use the mirror that worked, with fast fallback
  * - Short timeouts (3s) to fail fast
+ * - Each mirror has a circuit breaker: repeated failures open it and the
+ *   mirror is skipped until a cooldown passes, then one probe decides
+ * - A mirror's copy of a book is checked against gutenberg.org (size, ETag,
+ *   sampled-bytes hash) when it is first chosen; mismatches are quarantined
+ *   for that book so stale copies can't shift stored byte offsets, and
+ *   onQuarantine listeners drop what was already read from them
+ * - Health, sticky mirrors and quarantines persist to .cache/mirror-health.json
+ * - User config (~/.gutex_mirrors.json, --mirror) adds private http(s):// or
+ *   file:// mirrors, pins/excludes providers and continents, and sets
+ *   priorities that order mirrors ahead of latency
  */
 
 import https from 'https';
 import http from 'http';
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import { fileURLToPath } from 'url';
+import { applyMirrorConfig, loadMirrorConfig } from './mirror-config.js';
 import type {
   Mirror,
   MirrorStats,
+  MirrorBreakerState,
+  MirrorErrorClass,
+  MirrorVerification,
+  ContentFingerprint,
+  MirrorConfig,
   MirrorRequestResult,
   HttpResponse,
   HeadResult,
@@ -29,28 +49,153 @@ import type {
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+/** Successful response times kept per mirror */
+const MAX_RESPONSE_SAMPLES = 50;
+/** Samples needed before hedging on a p90 */
+const MIN_HEDGE_SAMPLES = 5;
+/** Head start for a book's sticky mirror before backups join, without latency data */
+const STICKY_HEAD_START_MS = 500;
+/** Errors kept per mirror for /api/mirrors */
+const MAX_RECENT_ERRORS = 10;
+/** Sticky book→mirror entries kept in the state file */
+const MAX_PERSISTED_BOOKS = 500;
+/** Longest a breaker stays open */
+const MAX_BREAKER_COOLDOWN_MS = 30 * 60 * 1000;
+
+/** Bytes hashed from each sampled window when fingerprinting a file */
+const FINGERPRINT_SAMPLE_BYTES = 1024;
+/** How long a canonical fingerprint is trusted before refetching */
+const CANONICAL_TTL_MS = 60 * 60 * 1000;
+
+const DEFAULT_STATE_PATH = path.join(__dirname, '..', '.cache', 'mirror-health.json');
+
+interface PersistedMirrorState {
+  version: 1;
+  savedAt: number;
+  stats: Record<string, MirrorStats>;
+  bookMirrors: Record<string, Mirror>;
+  verifications?: MirrorVerification[];
+}
+
+type RequestFn<T> = (url: string, mirror: Mirror, signal: AbortSignal) => Promise<T>;
+
 interface MirrorManagerOptions {
   requestTimeout?: number;
   raceCount?: number;
   debug?: boolean;
+  /** Where health and sticky mirrors are saved (null: memory only) */
+  statePath?: string | null;
+  /** Consecutive failures that open a mirror's breaker (default 3) */
+  breakerThreshold?: number;
+  /** First open period; doubles on each re-open (default 60s) */
+  breakerCooldownMs?: number;
+  /** Half-life of response time samples (default 10 minutes) */
+  decayHalfLifeMs?: number;
+  /** Check mirrors' copies against gutenberg.org (default true) */
+  verifyContent?: boolean;
+  /** User mirrors, pins, excludes and priorities */
+  config?: MirrorConfig | null;
 }
 
 interface RequestOptions {
   method?: string;
   timeout?: number;
   headers?: Record<string, string>;
+  signal?: AbortSignal;
   _redirectCount?: number;
 }
 
+/**
+ * Sort a request error into a coarse class for health reporting
+ */
+export function classifyMirrorError(err: Error): MirrorErrorClass {
+  const code = (err as NodeJS.ErrnoException).code || '';
+  const httpMatch = err.message.match(/^HTTP (\d)\d\d/);
+  if (httpMatch) return httpMatch[1] === '4' ? 'http-4xx' : httpMatch[1] === '5' ? 'http-5xx' : 'other';
+  if (/^Timeout/.test(err.message) || code === 'ETIMEDOUT') return 'timeout';
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return 'dns';
+  if (/CERT|SSL|TLS/i.test(code) || /certificate/i.test(err.message)) return 'tls';
+  if (['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE'].includes(code)) return 'connection';
+  return 'other';
+}
+
+/**
+ * Start offsets of the windows hashed for a fingerprint: head, middle, tail
+ */
+export function fingerprintOffsets(size: number): number[] {
+  if (size <= FINGERPRINT_SAMPLE_BYTES * 3) return [0];
+  return [0, Math.floor(size / 2), size - FINGERPRINT_SAMPLE_BYTES];
+}
+
+/**
+ * Why a mirror's fingerprint differs from the canonical one (null if it matches).
+ * ETags differ between servers for identical files, so only a matching ETag
+ * counts; a different one falls through to the size and content checks.
+ */
+export function compareFingerprints(canonical: ContentFingerprint, candidate: ContentFingerprint): 'size' | 'content' | null {
+  if (canonical.etag && candidate.etag && canonical.etag === candidate.etag) return null;
+  if (canonical.size !== candidate.size) return 'size';
+  if (canonical.sampleHash !== candidate.sampleHash) return 'content';
+  return null;
+}
+
+function headerValue(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+function abortError(): Error {
+  const err = new Error('Request cancelled');
+  err.name = 'AbortError';
+  return err;
+}
+
+function emptyStats(): MirrorStats {
+  return {
+    successes: 0,
+    failures: 0,
+    cancelled: 0,
+    avgResponseTime: null,
+    sampleWeight: 0,
+    lastSampleAt: null,
+    responseTimes: [],
+    lastSuccess: null,
+    lastFailure: null,
+    lastCancelled: null,
+    breaker: 'closed',
+    consecutiveFailures: 0,
+    breakerTrips: 0,
+    openUntil: null,
+    recentErrors: []
+  };
+}
+
 export class MirrorManager implements MirrorManagerInterface {
   private mirrorsUrl = 'https://www.gutenberg.org/MIRRORS.ALL';
   private localMirrorsPath = path.join(__dirname, '..', 'MIRRORS.ALL');
   public requestTimeout: number;
   public raceCount: number;
   private debug: boolean;
-
-  // Parsed mirrors
+  private statePath: string | null;
+  private breakerThreshold: number;
+  private breakerCooldownMs: number;
+  private decayHalfLifeMs: number;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Half-open mirrors with their single probe request in flight
+  private probesInFlight = new Set<string>();
+
+  private verifyContent: boolean;
+  // bookId -> mirror baseUrl -> outcome of checking that mirror's copy
+  public verifications = new Map<number, Map<string, MirrorVerification>>();
+  private canonicalFingerprints = new Map<number, { fingerprint: ContentFingerprint; fetchedAt: number }>();
+  private quarantineListeners = new Set<(verification: MirrorVerification) => void>();
+
+  // Parsed mirrors, after the user config is applied
   public mirrors: Mirror[] = [];
+  // MIRRORS.ALL plus the default, before the user config
+  private listedMirrors: Mirror[] = [];
+  private config: MirrorConfig;
 
   // Default fallback
   private defaultMirror: Mirror = {
@@ -72,6 +217,20 @@ export class MirrorManager implements MirrorManagerInterface {
     this.requestTimeout = options.requestTimeout || 3000;
     this.raceCount = options.raceCount || 3;
     this.debug = options.debug || false;
+    this.statePath = options.statePath ?? null;
+    this.breakerThreshold = options.breakerThreshold || 3;
+    this.breakerCooldownMs = options.breakerCooldownMs || 60 * 1000;
+    this.decayHalfLifeMs = options.decayHalfLifeMs || 10 * 60 * 1000;
+    this.verifyContent = options.verifyContent ?? true;
+    this.config = options.config ?? {};
+    this._loadState();
+
+    if (this.statePath) {
+      // Flush a pending save; the timer itself doesn't hold the process open
+      process.once('exit', () => {
+        if (this.saveTimer) this.saveState();
+      });
+    }
   }
 
   private log(message: string): void {
@@ -120,16 +279,17 @@ export class MirrorManager implements MirrorManagerInterface {
     }
 
     if (mirrorsContent) {
-      this.mirrors = this._parseMirrorsFile(mirrorsContent);
-      this.log(`Parsed ${this.mirrors.length} usable HTTP/HTTPS mirrors`);
+      this.listedMirrors = this._parseMirrorsFile(mirrorsContent);
+      this.log(`Parsed ${this.listedMirrors.length} usable HTTP/HTTPS mirrors`);
     }
 
     // Always have the default as an option
-    if (!this.mirrors.some(m => m.baseUrl === this.defaultMirror.baseUrl)) {
-      this.mirrors.push(this.defaultMirror);
+    if (!this.listedMirrors.some(m => m.baseUrl === this.defaultMirror.baseUrl)) {
+      this.listedMirrors.push(this.defaultMirror);
     }
 
     this.initialized = true;
+    this._applyConfig();
 
     return {
       mirrorCount: this.mirrors.length,
@@ -137,6 +297,24 @@ export class MirrorManager implements MirrorManagerInterface {
     };
   }
 
+  /**
+   * Replace the user mirror config; takes effect at once if initialized
+   */
+  configure(config: MirrorConfig): void {
+    this.config = config;
+    if (this.initialized) {
+      this._applyConfig();
+    }
+  }
+
+  private _applyConfig(): void {
+    this.mirrors = applyMirrorConfig(this.listedMirrors, this.config, this.defaultMirror.baseUrl);
+    const custom = this.mirrors.filter(m => m.custom).length;
+    if (custom > 0 || this.mirrors.length !== this.listedMirrors.length) {
+      this.log(`Mirror config: ${this.mirrors.length} mirrors in use, ${custom} user-added`);
+    }
+  }
+
   /**
    * Download MIRRORS.ALL from Gutenberg
    */
@@ -235,17 +413,24 @@ export class MirrorManager implements MirrorManagerInterface {
   }
 
   /**
-   * Get ordered list of mirrors based on health stats
+   * Get ordered list of mirrors: configured priority first, then health
+   * stats. Mirrors whose breaker
+   * is open are left out, unless every mirror is open. With a bookId, mirrors
+   * quarantined for that book are always left out.
    */
-  public _getOrderedMirrors(): Mirror[] {
-    if (this.mirrorStats.size === 0) {
-      return [...this.mirrors];
-    }
+  public _getOrderedMirrors(bookId?: number): Mirror[] {
+    const candidates = bookId === undefined
+      ? this.mirrors
+      : this.mirrors.filter(m => !this.isQuarantined(bookId, m.baseUrl));
 
     const now = Date.now();
     const recentWindow = 5 * 60 * 1000;
 
-    return [...this.mirrors].sort((a, b) => {
+    // Array.prototype.sort is stable, so equal mirrors keep MIRRORS.ALL order
+    const ordered = [...candidates].sort((a, b) => {
+      const priorityDiff = (b.priority ?? 0) - (a.priority ?? 0);
+      if (priorityDiff !== 0) return priorityDiff;
+
       const statsA = this.mirrorStats.get(a.baseUrl);
       const statsB = this.mirrorStats.get(b.baseUrl);
 
@@ -262,46 +447,165 @@ export class MirrorManager implements MirrorManagerInterface {
       const bTime = statsB.avgResponseTime ?? Infinity;
       return aTime - bTime;
     });
+
+    const available = ordered.filter(m => this._isAvailable(m.baseUrl));
+    return available.length > 0 ? available : ordered;
   }
 
   /**
-   * Update stats for a mirror
+   * Whether a mirror may be sent a request now. An open breaker whose
+   * cooldown has passed turns half-open and admits one probe at a time.
    */
-  public _updateMirrorStats(baseUrl: string, success: boolean, responseTime: number): void {
-    const stats = this.mirrorStats.get(baseUrl) || {
-      successes: 0,
-      failures: 0,
-      avgResponseTime: null,
-      lastSuccess: null,
-      lastFailure: null
-    };
+  public _isAvailable(baseUrl: string): boolean {
+    const stats = this.mirrorStats.get(baseUrl);
+    if (!stats) return true;
+
+    if (stats.breaker === 'open' && stats.openUntil !== null && Date.now() >= stats.openUntil) {
+      stats.breaker = 'half-open';
+      this.log(`Breaker half-open: ${baseUrl}`);
+    }
+
+    switch (stats.breaker) {
+      case 'closed': return true;
+      case 'half-open': return !this.probesInFlight.has(baseUrl);
+      case 'open': return false;
+    }
+  }
+
+  /**
+   * Note that a request is starting; for a half-open mirror it is the probe
+   */
+  private _beginAttempt(baseUrl: string): void {
+    if (this.mirrorStats.get(baseUrl)?.breaker === 'half-open') {
+      this.probesInFlight.add(baseUrl);
+      this.log(`Probing: ${baseUrl}`);
+    }
+  }
+
+  private _getStats(baseUrl: string): MirrorStats {
+    let stats = this.mirrorStats.get(baseUrl);
+    if (!stats) {
+      stats = emptyStats();
+      this.mirrorStats.set(baseUrl, stats);
+    }
+    return stats;
+  }
 
+  /**
+   * Update stats and the circuit breaker for a mirror
+   */
+  public _updateMirrorStats(baseUrl: string, success: boolean, responseTime: number, error?: Error): void {
+    const stats = this._getStats(baseUrl);
     const now = Date.now();
+    this.probesInFlight.delete(baseUrl);
 
     if (success) {
       stats.successes++;
       stats.lastSuccess = now;
-      if (stats.avgResponseTime === null) {
-        stats.avgResponseTime = responseTime;
-      } else {
-        stats.avgResponseTime = (stats.avgResponseTime * 0.9) + (responseTime * 0.1);
+
+      // Older samples lose half their weight every decayHalfLifeMs
+      const decay = stats.lastSampleAt === null
+        ? 0
+        : Math.pow(0.5, (now - stats.lastSampleAt) / this.decayHalfLifeMs);
+      const weight = stats.sampleWeight * decay;
+      stats.avgResponseTime = ((stats.avgResponseTime ?? 0) * weight + responseTime) / (weight + 1);
+      stats.sampleWeight = weight + 1;
+      stats.lastSampleAt = now;
+
+      stats.responseTimes.push(responseTime);
+      if (stats.responseTimes.length > MAX_RESPONSE_SAMPLES) {
+        stats.responseTimes.shift();
       }
+
+      if (stats.breaker !== 'closed') {
+        this.log(`Breaker closed: ${baseUrl}`);
+      }
+      stats.breaker = 'closed';
+      stats.consecutiveFailures = 0;
+      stats.breakerTrips = 0;
+      stats.openUntil = null;
     } else {
       stats.failures++;
       stats.lastFailure = now;
+      stats.consecutiveFailures++;
+
+      if (error) {
+        stats.recentErrors.push({ errorClass: classifyMirrorError(error), message: error.message, at: now });
+        if (stats.recentErrors.length > MAX_RECENT_ERRORS) {
+          stats.recentErrors.shift();
+        }
+      }
+
+      // A failed probe re-opens at once; a closed breaker needs a run of failures
+      if (stats.breaker === 'half-open' || stats.consecutiveFailures >= this.breakerThreshold) {
+        this._openBreaker(baseUrl, stats, now);
+      }
     }
 
-    this.mirrorStats.set(baseUrl, stats);
+    this._scheduleSave();
+  }
+
+  private _openBreaker(baseUrl: string, stats: MirrorStats, now: number): void {
+    if (stats.breaker === 'open') return;
+
+    const cooldown = Math.min(this.breakerCooldownMs * Math.pow(2, stats.breakerTrips), MAX_BREAKER_COOLDOWN_MS);
+    stats.breaker = 'open';
+    stats.breakerTrips++;
+    stats.openUntil = now + cooldown;
+    this.log(`Breaker open: ${baseUrl} for ${Math.round(cooldown / 1000)}s`);
+  }
+
+  /**
+   * Record an attempt aborted because another mirror won. Not a failure:
+   * it doesn't push the mirror down the order or count toward its breaker.
+   */
+  public _recordCancelled(baseUrl: string): void {
+    const stats = this._getStats(baseUrl);
+    stats.cancelled++;
+    stats.lastCancelled = Date.now();
+    this.probesInFlight.delete(baseUrl);
+    this._scheduleSave();
+  }
+
+  /**
+   * p90 of successful response times for a mirror, or across all mirrors when
+   * called without one. Null until enough samples exist.
+   */
+  public _latencyP90(baseUrl?: string): number | null {
+    const samples = baseUrl
+      ? (this.mirrorStats.get(baseUrl)?.responseTimes ?? [])
+      : Array.from(this.mirrorStats.values()).flatMap(s => s.responseTimes);
+    if (samples.length < MIN_HEDGE_SAMPLES) return null;
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    return sorted[Math.ceil(sorted.length * 0.9) - 1];
+  }
+
+  /**
+   * How long to wait on a mirror before hedging with the next one
+   */
+  public _hedgeDelay(mirror: Mirror): number | null {
+    return this._latencyP90(mirror.baseUrl) ?? this._latencyP90();
   }
 
   /**
    * Make an HTTP/HTTPS request with timeout
    */
   private _makeRequest(url: string, options: RequestOptions = {}): Promise<HttpResponse> {
+    if (url.startsWith('file://')) {
+      return this._makeFileRequest(url, options);
+    }
+
     return new Promise((resolve, reject) => {
       const protocol = url.startsWith('https://') ? https : http;
       const method = options.method || 'GET';
       const timeout = options.timeout || this.requestTimeout;
+      const { signal } = options;
+
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
 
       const reqOptions = {
         method,
@@ -352,71 +656,192 @@ export class MirrorManager implements MirrorManagerInterface {
         reject(new Error(`Timeout after ${timeout}ms`));
       });
 
+      if (signal) {
+        const onAbort = (): void => {
+          req.destroy();
+          reject(abortError());
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        req.on('close', () => signal.removeEventListener('abort', onAbort));
+      }
+
       req.end();
     });
   }
 
   /**
-   * Race multiple mirrors in parallel
+   * Serve a request from a file:// mirror, answering like an HTTP server
+   * would (404, 200, or 206 for a Range)
    */
-  private async _raceMirrors<T>(
+  public async _makeFileRequest(url: string, options: RequestOptions = {}): Promise<HttpResponse> {
+    if (options.signal?.aborted) throw abortError();
+
+    const filePath = fileURLToPath(url);
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(filePath);
+    } catch {
+      return { statusCode: 404, headers: {}, body: Buffer.alloc(0), url };
+    }
+
+    const headers: Record<string, string> = {
+      'content-length': String(stat.size),
+      'etag': `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`,
+      'last-modified': stat.mtime.toUTCString()
+    };
+    if ((options.method || 'GET') === 'HEAD') {
+      return { statusCode: 200, headers, url };
+    }
+
+    const range = options.headers?.['Range']?.match(/^bytes=(\d+)-(\d*)$/);
+    if (!range) {
+      return { statusCode: 200, headers, body: await fs.promises.readFile(filePath), url };
+    }
+
+    const start = parseInt(range[1], 10);
+    const end = Math.min(range[2] ? parseInt(range[2], 10) : stat.size - 1, stat.size - 1);
+    if (start > end) {
+      return { statusCode: 416, headers: { 'content-range': `bytes */${stat.size}` }, body: Buffer.alloc(0), url };
+    }
+
+    const body = Buffer.alloc(end - start + 1);
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      await handle.read(body, 0, body.length, start);
+    } finally {
+      await handle.close();
+    }
+    return {
+      statusCode: 206,
+      headers: { ...headers, 'content-length': String(body.length), 'content-range': `bytes ${start}-${end}/${stat.size}` },
+      body,
+      url
+    };
+  }
+
+  /**
+   * Try mirrors in order until one succeeds. The first success wins and
+   * aborts the rest. A failure starts the next mirror at once; otherwise the
+   * next one starts after hedgeDelay ms (0 = all at once, null = never, so
+   * mirrors are tried strictly one after another).
+   */
+  public _raceAttempts<T>(
     bookId: number,
-    makeRequestFn: (url: string, mirror: Mirror) => Promise<T>
+    mirrors: Mirror[],
+    makeRequestFn: RequestFn<T>,
+    hedgeDelay: number | null
   ): Promise<MirrorRequestResult<T>> {
-    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const controllers = new Map<Mirror, AbortController>();
+      const errors: string[] = [];
+      let next = 0;
+      let settled = false;
+      let hedgeTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const finish = (): void => {
+        settled = true;
+        if (hedgeTimer) clearTimeout(hedgeTimer);
+      };
 
-    const orderedMirrors = this._getOrderedMirrors();
-    const mirrorsToTry = orderedMirrors.slice(0, this.raceCount);
+      const armHedge = (): void => {
+        if (hedgeTimer) clearTimeout(hedgeTimer);
+        hedgeTimer = null;
+        if (hedgeDelay === null || settled || next >= mirrors.length) return;
+        hedgeTimer = setTimeout(() => {
+          this.log(`Hedging: no answer within ${Math.round(hedgeDelay)}ms`);
+          launch();
+        }, hedgeDelay);
+      };
 
-    const racePromises = mirrorsToTry.map(async (mirror): Promise<MirrorRequestResult<T>> => {
-      const url = this._buildBookUrl(mirror.baseUrl, bookId);
-      const startTime = Date.now();
+      const launch = (): void => {
+        if (settled || next >= mirrors.length) return;
+        const mirror = mirrors[next++];
+        const controller = new AbortController();
+        controllers.set(mirror, controller);
+        this._beginAttempt(mirror.baseUrl);
 
-      try {
+        const url = this._buildBookUrl(mirror.baseUrl, bookId);
+        const startTime = Date.now();
         this.log(`Racing: ${mirror.provider} - ${url}`);
-        const result = await makeRequestFn(url, mirror);
-        const elapsed = Date.now() - startTime;
 
-        this._updateMirrorStats(mirror.baseUrl, true, elapsed);
-        this.log(`Winner: ${mirror.provider} (${elapsed}ms)`);
+        makeRequestFn(url, mirror, controller.signal).then(result => {
+          const elapsed = Date.now() - startTime;
+          controllers.delete(mirror);
+          this._updateMirrorStats(mirror.baseUrl, true, elapsed);
+          if (settled) return;
 
-        return { success: true, result, mirror, elapsed };
-      } catch (err) {
-        const elapsed = Date.now() - startTime;
-        this._updateMirrorStats(mirror.baseUrl, false, elapsed);
-        this.log(`Failed: ${mirror.provider} - ${(err as Error).message} (${elapsed}ms)`);
-        return { success: false, error: err as Error, mirror };
+          finish();
+          this.log(`Winner: ${mirror.provider} (${elapsed}ms)`);
+          for (const other of controllers.values()) other.abort();
+          resolve({ success: true, result, mirror, elapsed });
+        }, (err: Error) => {
+          const elapsed = Date.now() - startTime;
+          controllers.delete(mirror);
+          if (controller.signal.aborted) {
+            this._recordCancelled(mirror.baseUrl);
+            this.log(`Cancelled: ${mirror.provider} (${elapsed}ms)`);
+            return;
+          }
+
+          this._updateMirrorStats(mirror.baseUrl, false, elapsed, err);
+          this.log(`Failed: ${mirror.provider} - ${err.message} (${elapsed}ms)`);
+          errors.push(`${mirror.provider}: ${err.message}`);
+          if (settled) return;
+
+          if (next < mirrors.length) {
+            launch();
+          } else if (controllers.size === 0) {
+            finish();
+            reject(new Error(`All ${mirrors.length} mirrors failed for book ${bookId} (${errors.join('; ')})`));
+          }
+        });
+
+        armHedge();
+      };
+
+      if (mirrors.length === 0) {
+        reject(new Error(`No mirrors available for book ${bookId}`));
+        return;
+      }
+
+      if (hedgeDelay === 0) {
+        while (next < mirrors.length) launch();
+      } else {
+        launch();
       }
     });
+  }
+
+  /**
+   * Race the top mirrors, then fall back to the rest one at a time
+   */
+  private async _raceMirrors<T>(
+    bookId: number,
+    makeRequestFn: RequestFn<T>,
+    logCallback?: LogCallback | null
+  ): Promise<MirrorRequestResult<T>> {
+    await this.initialize();
 
-    const results = await Promise.all(racePromises);
-    const winner = results.find(r => r.success);
+    const orderedMirrors = this._getOrderedMirrors(bookId);
+    const mirrorsToTry = orderedMirrors.slice(0, this.raceCount);
 
-    if (winner) {
-      this.bookMirrors.set(bookId, winner.mirror);
+    try {
+      const hedgeDelay = mirrorsToTry.length > 0 ? (this._hedgeDelay(mirrorsToTry[0]) ?? 0) : 0;
+      const winner = await this._raceAttempts(bookId, mirrorsToTry, makeRequestFn, hedgeDelay);
+      this._chooseBookMirror(bookId, winner.mirror, logCallback);
       return winner;
+    } catch (err) {
+      this.log(`Race failed: ${(err as Error).message}`);
     }
 
     // All raced mirrors failed - try remaining
     const remainingMirrors = orderedMirrors.slice(this.raceCount);
-    for (const mirror of remainingMirrors) {
-      const url = this._buildBookUrl(mirror.baseUrl, bookId);
-      const startTime = Date.now();
-
-      try {
-        this.log(`Fallback: ${mirror.provider} - ${url}`);
-        const result = await makeRequestFn(url, mirror);
-        const elapsed = Date.now() - startTime;
-
-        this._updateMirrorStats(mirror.baseUrl, true, elapsed);
-        this.bookMirrors.set(bookId, mirror);
-
-        return { success: true, result, mirror, elapsed };
-      } catch (err) {
-        const elapsed = Date.now() - startTime;
-        this._updateMirrorStats(mirror.baseUrl, false, elapsed);
-        this.log(`Fallback failed: ${mirror.provider} - ${(err as Error).message}`);
-      }
+    try {
+      const winner = await this._raceAttempts(bookId, remainingMirrors, makeRequestFn, null);
+      this._chooseBookMirror(bookId, winner.mirror, logCallback);
+      return winner;
+    } catch (err) {
+      this.log(`Fallback failed: ${(err as Error).message}`);
     }
 
     throw new Error(`All ${orderedMirrors.length} mirrors failed for book ${bookId}`);
@@ -429,12 +854,13 @@ export class MirrorManager implements MirrorManagerInterface {
     await this.initialize();
 
     // Check for sticky mirror
-    const stickyMirror = this.bookMirrors.get(bookId);
+    const stickyMirror = this._getBookMirror(bookId);
     if (stickyMirror) {
       const url = this._buildBookUrl(stickyMirror.baseUrl, bookId);
       const startTime = Date.now();
 
       try {
+        this._beginAttempt(stickyMirror.baseUrl);
         const response = await this._makeRequest(url, { method: 'HEAD' });
         const elapsed = Date.now() - startTime;
 
@@ -452,17 +878,19 @@ export class MirrorManager implements MirrorManagerInterface {
             mirror: stickyMirror
           };
         }
+        throw new Error(`HTTP ${response.statusCode}`);
       } catch (err) {
+        this._updateMirrorStats(stickyMirror.baseUrl, false, Date.now() - startTime, err as Error);
         this.log(`Sticky mirror failed: ${stickyMirror.provider} - ${(err as Error).message}`);
-        this.bookMirrors.delete(bookId);
+        this.clearBookMirror(bookId);
       }
     }
 
     // Race mirrors
     if (logCallback) logCallback('mirror_try', `Racing ${this.raceCount} mirrors...`);
 
-    const winner = await this._raceMirrors(bookId, async (url) => {
-      const response = await this._makeRequest(url, { method: 'HEAD' });
+    const winner = await this._raceMirrors(bookId, async (url, _mirror, signal) => {
+      const response = await this._makeRequest(url, { method: 'HEAD', signal });
 
       if (response.statusCode === 200 && response.headers['content-length']) {
         const contentLength = Array.isArray(response.headers['content-length'])
@@ -475,7 +903,7 @@ export class MirrorManager implements MirrorManagerInterface {
         };
       }
       throw new Error(`HTTP ${response.statusCode}`);
-    });
+    }, logCallback);
 
     if (logCallback) logCallback('mirror_success', `Using ${winner.mirror.provider} (${winner.elapsed}ms)`);
 
@@ -497,90 +925,43 @@ export class MirrorManager implements MirrorManagerInterface {
       headers['Range'] = options.range;
     }
 
-    const makeGetRequest = async (url: string): Promise<HttpResponse> => {
-      const response = await this._makeRequest(url, { headers });
+    const makeGetRequest = async (url: string, _mirror: Mirror, signal: AbortSignal): Promise<{ body: Buffer; url: string }> => {
+      const response = await this._makeRequest(url, { headers, signal });
       if (response.statusCode === 200 || response.statusCode === 206) {
-        return response;
+        return { body: response.body!, url: response.url || url };
       }
       throw new Error(`HTTP ${response.statusCode}`);
     };
 
-    // Use sticky mirror with backup racing
-    const stickyMirror = this.bookMirrors.get(bookId);
+    // Use sticky mirror, hedged with backups if it is slow or fails
+    const stickyMirror = this._getBookMirror(bookId);
     if (stickyMirror) {
-      const stickyUrl = this._buildBookUrl(stickyMirror.baseUrl, bookId);
-
-      const backupMirrors = this._getOrderedMirrors()
+      const backupMirrors = this._getOrderedMirrors(bookId)
         .filter(m => m.baseUrl !== stickyMirror.baseUrl)
         .slice(0, 2);
-
-      const stickyPromise = (async (): Promise<{ response: HttpResponse; mirror: Mirror; source: string }> => {
-        const startTime = Date.now();
-        try {
-          const response = await makeGetRequest(stickyUrl);
-          const elapsed = Date.now() - startTime;
-          this._updateMirrorStats(stickyMirror.baseUrl, true, elapsed);
-          return { response, mirror: stickyMirror, source: 'sticky' };
-        } catch (err) {
-          const elapsed = Date.now() - startTime;
-          this._updateMirrorStats(stickyMirror.baseUrl, false, elapsed);
-          this.log(`Sticky mirror failed: ${stickyMirror.provider} - ${(err as Error).message}`);
-          throw err;
-        }
-      })();
-
-      const backupPromises = backupMirrors.map(async (mirror): Promise<{ response: HttpResponse; mirror: Mirror; source: string }> => {
-        await this._sleep(500);
-
-        const url = this._buildBookUrl(mirror.baseUrl, bookId);
-        const startTime = Date.now();
-        try {
-          const response = await makeGetRequest(url);
-          const elapsed = Date.now() - startTime;
-          this._updateMirrorStats(mirror.baseUrl, true, elapsed);
-          return { response, mirror, source: 'backup' };
-        } catch (err) {
-          const elapsed = Date.now() - startTime;
-          this._updateMirrorStats(mirror.baseUrl, false, elapsed);
-          throw err;
-        }
-      });
-
-      // Attach no-op catch handlers to prevent unhandled rejections from losing promises
-      const allPromises = [stickyPromise, ...backupPromises];
-      allPromises.forEach(p => p.catch(() => {}));
+      const hedgeDelay = this._latencyP90(stickyMirror.baseUrl) ?? STICKY_HEAD_START_MS;
 
       try {
-        const winner = await Promise.any(allPromises);
+        const winner = await this._raceAttempts(bookId, [stickyMirror, ...backupMirrors], makeGetRequest, hedgeDelay);
 
-        if (winner.source === 'backup') {
+        if (winner.mirror !== stickyMirror) {
           this.log(`Backup mirror won: ${winner.mirror.provider}`);
-          this.bookMirrors.set(bookId, winner.mirror);
+          this._chooseBookMirror(bookId, winner.mirror, logCallback);
         }
 
         return {
-          body: winner.response.body!,
-          url: winner.response.url || this._buildBookUrl(winner.mirror.baseUrl, bookId),
+          body: winner.result!.body,
+          url: winner.result!.url,
           mirror: winner.mirror
         };
       } catch {
         this.log(`All mirrors failed for GET, clearing sticky`);
-        this.bookMirrors.delete(bookId);
+        this.clearBookMirror(bookId);
       }
     }
 
     // Full race
-    const winner = await this._raceMirrors(bookId, async (url) => {
-      const response = await this._makeRequest(url, { headers });
-
-      if (response.statusCode === 200 || response.statusCode === 206) {
-        return {
-          body: response.body!,
-          url: response.url || url
-        };
-      }
-      throw new Error(`HTTP ${response.statusCode}`);
-    });
+    const winner = await this._raceMirrors(bookId, makeGetRequest, logCallback);
 
     return {
       body: winner.result!.body,
@@ -593,27 +974,267 @@ export class MirrorManager implements MirrorManagerInterface {
    * Get mirror status for debugging
    */
   getStatus(): MirrorStatus {
+    const breakers: Record<MirrorBreakerState, number> = { closed: 0, open: 0, 'half-open': 0 };
+    const quarantined = this._allVerifications()
+      .filter(v => v.status === 'quarantined')
+      .map(v => ({ ...v, provider: this.mirrors.find(m => m.baseUrl === v.baseUrl)?.provider ?? v.baseUrl }));
+    const mirrors = this.mirrors.map(m => {
+      this._isAvailable(m.baseUrl);
+      const stats = this.mirrorStats.get(m.baseUrl) || emptyStats();
+      breakers[stats.breaker]++;
+      return {
+        provider: m.provider,
+        location: m.location,
+        baseUrl: m.baseUrl,
+        stats,
+        quarantinedBooks: quarantined.filter(q => q.baseUrl === m.baseUrl).map(q => q.bookId)
+      };
+    });
+
     return {
       initialized: this.initialized,
       mirrorCount: this.mirrors.length,
       stickyBooks: this.bookMirrors.size,
-      mirrors: this.mirrors.map(m => {
-        const stats = this.mirrorStats.get(m.baseUrl);
-        return {
-          provider: m.provider,
-          location: m.location,
-          baseUrl: m.baseUrl,
-          stats: stats || { successes: 0, failures: 0, avgResponseTime: null, lastSuccess: null, lastFailure: null }
-        };
-      })
+      breakers,
+      quarantined,
+      mirrors
     };
   }
 
+  /**
+   * Sticky mirror for a book, unless its breaker is open
+   */
+  private _getBookMirror(bookId: number): Mirror | null {
+    const mirror = this.bookMirrors.get(bookId);
+    if (!mirror) return null;
+    if (this.isQuarantined(bookId, mirror.baseUrl)) {
+      this.clearBookMirror(bookId);
+      return null;
+    }
+    if (!this._isAvailable(mirror.baseUrl)) {
+      this.log(`Sticky mirror unavailable (breaker): ${mirror.provider}`);
+      return null;
+    }
+    return mirror;
+  }
+
+  private _setBookMirror(bookId: number, mirror: Mirror): void {
+    // Re-insert so the Map stays in least-recently-set order for trimming
+    this.bookMirrors.delete(bookId);
+    this.bookMirrors.set(bookId, mirror);
+    this._scheduleSave();
+  }
+
   /**
    * Clear cached mirror for a book
    */
   clearBookMirror(bookId: number): void {
-    this.bookMirrors.delete(bookId);
+    if (this.bookMirrors.delete(bookId)) {
+      this._scheduleSave();
+    }
+  }
+
+  /**
+   * Make a mirror sticky for a book and, the first time, check its copy
+   * against gutenberg.org in the background
+   */
+  private _chooseBookMirror(bookId: number, mirror: Mirror, logCallback?: LogCallback | null): void {
+    this._setBookMirror(bookId, mirror);
+
+    const existing = this.verifications.get(bookId)?.get(mirror.baseUrl);
+    if (!this.verifyContent || mirror.baseUrl === this.defaultMirror.baseUrl) return;
+    if (existing && existing.status !== 'unverified') return;
+
+    void this.verifyMirror(bookId, mirror).then(result => {
+      if (result.status === 'quarantined' && logCallback) {
+        logCallback('mirror_quarantine', `${mirror.provider} serves a different copy of book ${bookId} (${result.reason} mismatch); not using it for this book`);
+      }
+    });
+  }
+
+  // ============================================================================
+  // Content verification
+  // ============================================================================
+
+  /**
+   * Be told when a mirror is quarantined for a book. The mirror has already
+   * served it, so whatever was read from it should be dropped. Returns a
+   * function that stops the calls.
+   */
+  onQuarantine(listener: (verification: MirrorVerification) => void): () => void {
+    this.quarantineListeners.add(listener);
+    return () => { this.quarantineListeners.delete(listener); };
+  }
+
+  /**
+   * Whether a mirror's copy of a book was found to differ from gutenberg.org's
+   */
+  isQuarantined(bookId: number, baseUrl: string): boolean {
+    return this.verifications.get(bookId)?.get(baseUrl)?.status === 'quarantined';
+  }
+
+  /**
+   * Compare a mirror's copy of a book with gutenberg.org's and quarantine the
+   * mirror for that book if they differ. Never throws: a check that cannot
+   * run is recorded as 'unverified' and retried the next time the mirror wins.
+   */
+  async verifyMirror(bookId: number, mirror: Mirror): Promise<MirrorVerification> {
+    const record: MirrorVerification = {
+      bookId,
+      baseUrl: mirror.baseUrl,
+      status: 'pending',
+      reason: null,
+      expected: null,
+      actual: null,
+      error: null,
+      checkedAt: null
+    };
+    this._setVerification(record);
+
+    try {
+      record.expected = await this._getCanonicalFingerprint(bookId);
+      record.actual = await this._fetchFingerprint(mirror, bookId);
+      record.reason = compareFingerprints(record.expected, record.actual);
+      record.status = record.reason ? 'quarantined' : 'verified';
+    } catch (err) {
+      record.status = 'unverified';
+      record.error = (err as Error).message;
+    }
+    record.checkedAt = Date.now();
+
+    if (record.status === 'quarantined') {
+      this.log(`Quarantined ${mirror.provider} for book ${bookId}: ${record.reason} mismatch`);
+      if (this.bookMirrors.get(bookId)?.baseUrl === mirror.baseUrl) {
+        this.bookMirrors.delete(bookId);
+      }
+    } else {
+      this.log(`Verification of ${mirror.provider} for book ${bookId}: ${record.status}${record.error ? ` (${record.error})` : ''}`);
+    }
+
+    this._setVerification(record);
+    this._scheduleSave();
+    if (record.status === 'quarantined') {
+      for (const listener of this.quarantineListeners) listener({ ...record });
+    }
+    return { ...record };
+  }
+
+  private async _getCanonicalFingerprint(bookId: number): Promise<ContentFingerprint> {
+    const cached = this.canonicalFingerprints.get(bookId);
+    if (cached && Date.now() - cached.fetchedAt < CANONICAL_TTL_MS) {
+      return cached.fingerprint;
+    }
+
+    const fingerprint = await this._fetchFingerprint(this.defaultMirror, bookId);
+    this.canonicalFingerprints.set(bookId, { fingerprint, fetchedAt: Date.now() });
+    return fingerprint;
+  }
+
+  /**
+   * HEAD a mirror's copy, then hash a few sampled byte windows of it
+   */
+  public async _fetchFingerprint(mirror: Mirror, bookId: number): Promise<ContentFingerprint> {
+    const url = this._buildBookUrl(mirror.baseUrl, bookId);
+    const head = await this._makeRequest(url, { method: 'HEAD' });
+    const length = headerValue(head.headers['content-length']);
+    if (head.statusCode !== 200 || !length) {
+      throw new Error(`HTTP ${head.statusCode} from ${mirror.provider}`);
+    }
+
+    const size = parseInt(length, 10);
+    const hash = crypto.createHash('sha256');
+    for (const start of fingerprintOffsets(size)) {
+      const end = Math.min(start + FINGERPRINT_SAMPLE_BYTES, size) - 1;
+      const response = await this._makeRequest(url, { headers: { Range: `bytes=${start}-${end}` } });
+      if (response.statusCode === 206) {
+        hash.update(response.body!);
+      } else if (response.statusCode === 200) {
+        hash.update(response.body!.subarray(start, end + 1));
+      } else {
+        throw new Error(`HTTP ${response.statusCode} from ${mirror.provider}`);
+      }
+    }
+
+    return { size, etag: headerValue(head.headers['etag']), sampleHash: hash.digest('hex').slice(0, 16) };
+  }
+
+  private _setVerification(record: MirrorVerification): void {
+    let byMirror = this.verifications.get(record.bookId);
+    if (!byMirror) {
+      byMirror = new Map();
+      this.verifications.set(record.bookId, byMirror);
+    }
+    byMirror.set(record.baseUrl, { ...record });
+  }
+
+  private _allVerifications(): MirrorVerification[] {
+    return Array.from(this.verifications.values()).flatMap(byMirror => Array.from(byMirror.values()));
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  private _loadState(): void {
+    if (!this.statePath) return;
+
+    let state: PersistedMirrorState;
+    try {
+      state = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+    } catch {
+      return;
+    }
+    if (state.version !== 1) return;
+
+    for (const [baseUrl, saved] of Object.entries(state.stats || {})) {
+      this.mirrorStats.set(baseUrl, { ...emptyStats(), ...saved });
+    }
+    for (const [bookId, mirror] of Object.entries(state.bookMirrors || {})) {
+      this.bookMirrors.set(parseInt(bookId, 10), mirror);
+    }
+    for (const verification of state.verifications || []) {
+      this._setVerification(verification);
+    }
+    this.log(`Loaded health for ${this.mirrorStats.size} mirrors, ${this.bookMirrors.size} sticky books`);
+  }
+
+  /**
+   * Write health and sticky mirrors to the state file now
+   */
+  saveState(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.statePath) return;
+
+    const books = Array.from(this.bookMirrors.entries()).slice(-MAX_PERSISTED_BOOKS);
+    const state: PersistedMirrorState = {
+      version: 1,
+      savedAt: Date.now(),
+      stats: Object.fromEntries(this.mirrorStats),
+      bookMirrors: Object.fromEntries(books.map(([id, mirror]) => [String(id), mirror])),
+      // Only settled outcomes; a pending or failed check simply runs again
+      verifications: this._allVerifications().filter(v => v.status === 'verified' || v.status === 'quarantined')
+    };
+
+    const tempPath = `${this.statePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(state));
+      fs.renameSync(tempPath, this.statePath);
+    } catch (err) {
+      this.log(`Failed to save mirror health: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Coalesce saves: stats change on every request
+   */
+  private _scheduleSave(): void {
+    if (!this.statePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.saveState(), 1000);
+    this.saveTimer.unref();
   }
 
   public _sleep(ms: number): Promise<void> {
@@ -626,7 +1247,13 @@ let sharedInstance: MirrorManager | null = null;
 
 export function getSharedMirrorManager(options: MirrorManagerOptions = {}): MirrorManager {
   if (!sharedInstance) {
-    sharedInstance = new MirrorManager(options);
+    let config: MirrorConfig = {};
+    try {
+      config = loadMirrorConfig();
+    } catch (err) {
+      console.error(`Warning: ${(err as Error).message}`);
+    }
+    sharedInstance = new MirrorManager({ statePath: DEFAULT_STATE_PATH, config, ...options });
   }
   return sharedInstance;
 }
@@ -10,7 +10,21 @@
  */
 
 import { Cleaner } from './cleaner.js';
-import type { Position, Boundaries, CachedChunk, FetchRangeResult, WordPosition } from './types.js';
+import { readOutline, type OutlineStore } from './book-structure.js';
+import { readWordMap, type WordMap, type WordMapStore } from './word-map.js';
+import { selectTokens, UNIT_LIMIT, DEFAULT_SCREEN } from './chunking.js';
+import { createAnchor, resolveAnchor, type TextAnchor, type AnchorMatch } from './text-anchor.js';
+import type {
+  Position,
+  Boundaries,
+  CachedChunk,
+  FetchRangeResult,
+  WordPosition,
+  BookOutline,
+  TocEntry,
+  ChunkMode,
+  ScreenSize
+} from './types.js';
 
 interface FetcherInterface {
   fetchRange(start: number, end: number): Promise<Buffer>;
@@ -21,6 +35,10 @@ export class Navigator {
   public boundaries: Boundaries;
   public chunkSize: number;
 
+  // Where chunks end (see chunking.ts); screen is used in screenful mode
+  public chunkMode: ChunkMode = 'words';
+  public screen: ScreenSize | null = null;
+
   // Word density estimation
   private avgBytesPerWord = 6;
   private totalWords: number | null = null;
@@ -40,6 +58,14 @@ export class Navigator {
   // UTF-8 safety margin
   private safetyMargin = 4;
 
+  // Chapter outline, read once from the whole clean text
+  private outline: BookOutline | null = null;
+  private outlineLoading: Promise<BookOutline> | null = null;
+
+  // Exact word offsets, when the book has been counted (see word-map.ts)
+  private wordMap: WordMap | null = null;
+  private wordMapLoading: Promise<WordMap> | null = null;
+
   // For web server - track book IDs
   public actualBookId?: number;
   public requestedBookId?: number;
@@ -64,6 +90,135 @@ export class Navigator {
     return await this._navigateToWord(targetWord);
   }
 
+  /**
+   * Jump to a word by index. Exact once the word map is loaded; otherwise
+   * the byte offset is estimated from word density like goToPercent.
+   */
+  async goToWord(wordIndex: number): Promise<Position> {
+    if (!this.totalWords) {
+      await this._calibrateWordDensity();
+    }
+
+    // Clear history when jumping to new position
+    this.positionHistory = [];
+    this.futureHistory = [];
+
+    return await this._navigateToWord(wordIndex);
+  }
+
+  /**
+   * Count the book's words so positions carry exact word offsets. Reads the
+   * whole clean text unless a store holds the map for this book; once
+   * loaded it is kept.
+   */
+  async loadWordMap(store: WordMapStore | null = null, bookId?: number | string): Promise<WordMap> {
+    if (this.wordMap) return this.wordMap;
+    if (!this.wordMapLoading) {
+      this.wordMapLoading = (async () => {
+        const stored = store && bookId !== undefined ? store.load(bookId, this.boundaries) : null;
+        const wordMap = stored ?? await readWordMap((start, end) => this.fetcher.fetchRange(start, end), this.boundaries);
+        if (!stored && store && bookId !== undefined) {
+          store.save(bookId, this.boundaries, wordMap);
+        }
+        this.wordMap = wordMap;
+        if (wordMap.totalWords > 0) {
+          this.totalWords = wordMap.totalWords;
+          this.avgBytesPerWord = this.boundaries.cleanLength / wordMap.totalWords;
+        }
+        return wordMap;
+      })().finally(() => {
+        this.wordMapLoading = null;
+      });
+    }
+    return await this.wordMapLoading;
+  }
+
+  get hasWordMap(): boolean {
+    return this.wordMap !== null;
+  }
+
+  /**
+   * An anchor for the passage starting at byteStart, to find it again after
+   * the text is revised (see text-anchor.ts)
+   */
+  async anchorAt(byteStart: number): Promise<TextAnchor> {
+    return await createAnchor((start, end) => this.fetcher.fetchRange(start, end), this.boundaries, byteStart);
+  }
+
+  /**
+   * Where an anchored passage is in this text, or null if it can't be found
+   */
+  async resolveAnchor(anchor: TextAnchor): Promise<AnchorMatch | null> {
+    return await resolveAnchor((start, end) => this.fetcher.fetchRange(start, end), this.boundaries, anchor);
+  }
+
+  /**
+   * The book's table of contents. Reading it fetches the whole clean text
+   * unless a store holds it for this book; once read it is kept.
+   */
+  async getOutline(store: OutlineStore | null = null, bookId?: number | string): Promise<BookOutline> {
+    if (this.outline) return this.outline;
+    if (!this.outlineLoading) {
+      this.outlineLoading = (async () => {
+        const stored = store && bookId !== undefined ? store.load(bookId, this.boundaries) : null;
+        const outline = stored ?? await readOutline((start, end) => this.fetcher.fetchRange(start, end), this.boundaries);
+        if (!stored && store && bookId !== undefined) {
+          store.save(bookId, this.boundaries, outline);
+        }
+        this.outline = outline;
+        return outline;
+      })().finally(() => {
+        this.outlineLoading = null;
+      });
+    }
+    return await this.outlineLoading;
+  }
+
+  /**
+   * The outline entry a byte offset falls in, if the outline has been read
+   */
+  chapterAt(byte: number): TocEntry | null {
+    let found: TocEntry | null = null;
+    for (const entry of this.outline?.entries ?? []) {
+      if (entry.byteStart > byte) break;
+      found = entry;
+    }
+    return found;
+  }
+
+  /**
+   * Jump to the start of the next heading after the current position;
+   * null if there is none
+   */
+  async nextChapter(currentPosition: Position): Promise<Position | null> {
+    const { entries } = await this.getOutline();
+    const next = entries.find(entry => entry.byteStart > currentPosition.byteStart);
+    return next ? await this._goToEntry(next) : null;
+  }
+
+  /**
+   * Jump to the heading before the current position (the start of the
+   * chapter being read when it began on an earlier page); null if none
+   */
+  async previousChapter(currentPosition: Position): Promise<Position | null> {
+    const { entries } = await this.getOutline();
+    const previous = entries.filter(entry => entry.byteStart < currentPosition.byteStart).pop();
+    return previous ? await this._goToEntry(previous) : null;
+  }
+
+  private async _goToEntry(entry: TocEntry): Promise<Position> {
+    if (!this.totalWords) {
+      await this._calibrateWordDensity();
+    }
+
+    // Clear history when jumping to new position
+    this.positionHistory = [];
+    this.futureHistory = [];
+
+    const wordIndex = Math.floor((entry.byteStart - this.boundaries.startByte) / this.avgBytesPerWord);
+    return await this._fetchChunkAt(entry.byteStart, wordIndex, 'forward');
+  }
+
   async moveForward(currentPosition: Position): Promise<Position> {
     // Save current position to history BEFORE moving
     this.positionHistory.push({
@@ -80,7 +235,9 @@ export class Navigator {
     // Clear future history
     this.futureHistory = [];
 
-    const targetWord = currentPosition.wordIndex + this.chunkSize;
+    // Sentence, paragraph and screenful chunks vary in length
+    const advance = this.chunkMode === 'words' ? this.chunkSize : currentPosition.actualCount;
+    const targetWord = currentPosition.wordIndex + advance;
 
     // If we have the exact byte position where next chunk should start, use it
     if (currentPosition.nextByteStart !== undefined) {
@@ -154,28 +311,33 @@ export class Navigator {
   private async _navigateToWord(targetWord: number): Promise<Position> {
     targetWord = Math.max(0, Math.min(targetWord, this.totalWords! - 1));
 
+    if (this.wordMap) {
+      return await this._fetchChunkAt(this.wordMap.byteOf(targetWord), targetWord, 'forward');
+    }
+
     const estimatedByteOffset = targetWord * this.avgBytesPerWord;
     const estimatedByte = this.boundaries.startByte + Math.floor(estimatedByteOffset);
 
     const safetyMargin = Math.floor(this.avgBytesPerWord * 20);
-    const fetchSize = Math.floor(this.chunkSize * this.avgBytesPerWord * 2.5);
+    const fetchSize = this._fetchSize();
 
     const fetchStart = Math.max(this.boundaries.startByte, estimatedByte - safetyMargin);
     const fetchEnd = Math.min(this.boundaries.endByte, estimatedByte + fetchSize);
 
-    return await this._fetchChunkAt(fetchStart, targetWord, 'forward', fetchEnd);
+    // An estimated byte is as likely mid-sentence as not: start at the next unit
+    return await this._fetchChunkAt(fetchStart, targetWord, 'forward', fetchEnd, true);
   }
 
   async _fetchChunkAt(
     byteStart: number,
     targetWordIndex: number,
     direction: 'forward' | 'backward' = 'forward',
-    byteEnd: number | null = null
+    byteEnd: number | null = null,
+    alignStart = false
   ): Promise<Position> {
     // Calculate fetch range if not provided
     if (byteEnd === null) {
-      const fetchSize = Math.floor(this.chunkSize * this.avgBytesPerWord * 2.5);
-      byteEnd = Math.min(this.boundaries.endByte, byteStart + fetchSize);
+      byteEnd = Math.min(this.boundaries.endByte, byteStart + this._fetchSize());
     }
 
     // Check cache first
@@ -200,17 +362,30 @@ export class Navigator {
     }
 
     // Extract words from the fetched chunk
-    return this._extractWords(chunk, targetWordIndex, direction);
+    return this._extractWords(chunk, targetWordIndex, direction, alignStart);
   }
 
   private async _fetchChunkBackward(previousByteEnd: number, targetWordIndex: number): Promise<Position> {
-    const fetchSize = Math.floor(this.chunkSize * this.avgBytesPerWord * 2.5);
+    const fetchSize = this._fetchSize();
     const byteEnd = previousByteEnd - 1;
     const byteStart = Math.max(this.boundaries.startByte, byteEnd - fetchSize);
 
     return await this._fetchChunkAt(byteStart, targetWordIndex, 'backward', byteEnd);
   }
 
+  /**
+   * Bytes to fetch for one chunk. Sentence and paragraph chunks may run on
+   * past chunkSize words; screenful chunks are sized by the screen.
+   */
+  private _fetchSize(): number {
+    if (this.chunkMode === 'screenful') {
+      const screen = this.screen ?? DEFAULT_SCREEN;
+      return Math.floor(screen.columns * screen.rows * 1.5);
+    }
+    const words = this.chunkMode === 'words' ? this.chunkSize : this.chunkSize * UNIT_LIMIT;
+    return Math.floor(words * this.avgBytesPerWord * 2.5);
+  }
+
   public async _fetchRangeSafe(startByte: number, endByte: number): Promise<FetchRangeResult> {
     // Add safety margins for UTF-8 boundaries
     const requestStart = Math.max(this.boundaries.startByte, startByte - this.safetyMargin);
@@ -297,7 +472,12 @@ export class Navigator {
     return offset;
   }
 
-  private _extractWords(chunk: CachedChunk, targetWordIndex: number, direction: 'forward' | 'backward'): Position {
+  private _extractWords(
+    chunk: CachedChunk,
+    targetWordIndex: number,
+    direction: 'forward' | 'backward',
+    alignStart = false
+  ): Position {
     let text = chunk.text;
 
     // If not at the beginning AND we're mid-word, skip the partial word
@@ -363,21 +543,20 @@ export class Navigator {
       };
     }
 
-    // Select tokens based on word count
-    const selected: WordPosition[] = [];
-    let selectedWordCount = 0;
-
-    if (direction === 'backward') {
-      for (let i = wordPositions.length - 1; i >= 0 && selectedWordCount < this.chunkSize; i--) {
-        selected.unshift(wordPositions[i]);
-        if (!wordPositions[i].isBreak) selectedWordCount++;
-      }
-    } else {
-      for (let i = 0; i < wordPositions.length && selectedWordCount < this.chunkSize; i++) {
-        selected.push(wordPositions[i]);
-        if (!wordPositions[i].isBreak) selectedWordCount++;
-      }
-    }
+    // Select tokens by word count, or to sentence/paragraph ends or a screenful
+    const edges = {
+      atStart: chunk.actualStart <= this.boundaries.startByte,
+      leadingBreak: /\n\s*\n\s*$/.test(chunk.text.substring(0, textStart)),
+      atEnd: chunk.actualEnd >= this.boundaries.endByte - 1
+    };
+    const range = selectTokens(
+      wordPositions,
+      direction,
+      { mode: this.chunkMode, chunkSize: this.chunkSize, screen: this.screen },
+      edges,
+      alignStart
+    );
+    const selected = wordPositions.slice(range.from, range.to + 1);
 
     // Build words array
     const extractedWords = selected.filter(w => !w.isBreak).map(w => w.word);
@@ -398,9 +577,8 @@ export class Navigator {
     // Calculate nextByteStart
     let nextByteStart: number | undefined;
 
-    const lastSelectedIdx = wordPositions.indexOf(lastToken);
-    if (lastSelectedIdx < wordPositions.length - 1) {
-      const nextToken = wordPositions[lastSelectedIdx + 1];
+    if (range.to < wordPositions.length - 1) {
+      const nextToken = wordPositions[range.to + 1];
       nextByteStart = chunk.actualStart + textStartBytes + nextToken.startBytes;
     } else if (absoluteEnd < this.boundaries.endByte - 100) {
       nextByteStart = absoluteEnd + 1;
@@ -415,12 +593,18 @@ export class Navigator {
     // Calculate percent
     const percent = ((absoluteStart - this.boundaries.startByte) / this.boundaries.cleanLength * 100).toFixed(1);
     const isNearEnd = absoluteEnd >= this.boundaries.endByte - 100 ||
-                      extractedWords.length < this.chunkSize;
+                      (this.chunkMode === 'words'
+                        ? extractedWords.length < this.chunkSize
+                        : range.to === wordPositions.length - 1 && edges.atEnd);
+
+    // With a word map the index is counted, not carried over from the caller
+    const wordIndex = this.wordMap ? this.wordMap.wordAt(absoluteStart) : targetWordIndex;
 
     return {
       words: extractedWords,
       formattedText: formattedText,
-      wordIndex: targetWordIndex,
+      wordIndex,
+      wordIndexExact: this.wordMap !== null,
       actualCount: extractedWords.length,
       percent: percent,
       isNearEnd: isNearEnd,
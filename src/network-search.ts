@@ -4,10 +4,22 @@
  * Searches text files via HTTP byte-range requests without full download.
  * Uses KMP for exact matching and Bitap for fuzzy matching with Levenshtein distance.
  * Adaptive chunk sizing minimizes network round-trips.
+ * searchLibrary runs one phrase over many books, e.g. everything cached.
+ *
+ * A book that is fully cached can also be searched with short phrases,
+ * regexes and boolean/NEAR queries (see text-query.ts); reading it costs
+ * no network, so the query limits there replace the 4-word minimum.
+ * Given its word index (see book-index.ts), phrase, fuzzy and boolean
+ * queries skip the scan and only read the text around each match.
  */
 
 import https from 'https';
 import http from 'http';
+import { StringDecoder } from 'string_decoder';
+import { parseTextQuery, PassageMatcher, TextQueryError, TEXT_QUERY_LIMITS } from './text-query.js';
+import type { TextQuery, PassageMatch } from './text-query.js';
+import { RegexRunner } from './regex-runner.js';
+import type { BookIndex } from './book-index.js';
 
 // ============================================================
 // Types
@@ -38,6 +50,24 @@ export interface SearchResult {
   bytesDownloaded: number;
   chunksRequested: number;
   searchTimeMs: number;
+  strategy: 'full-download' | 'range-search' | 'index';
+  /** The byte budget (maxBytes) ran out before the search reached the end */
+  budgetExhausted?: boolean;
+  /** The search was stopped through options.signal */
+  cancelled?: boolean;
+}
+
+/**
+ * How far a search has got, reported after each chunk
+ */
+export interface SearchProgress {
+  bytesDownloaded: number;
+  chunksRequested: number;
+  /** Size of the next range request; grows while chunks miss */
+  chunkSize: number;
+  /** Byte offset the search has reached */
+  position: number;
+  fileSize: number;
   strategy: 'full-download' | 'range-search';
 }
 
@@ -54,12 +84,76 @@ export interface SearchOptions {
   debug?: boolean;
   /** Optional cached range fetcher - inject to enable caching */
   rangeFetcher?: RangeFetcher;
+  /** Known file size; skips the HEAD request */
+  fileSize?: number;
+  /** Never download directly: requires rangeFetcher and fileSize */
+  offline?: boolean;
+  /** Search only these byte ranges (e.g. a book's cached blocks); requires rangeFetcher and fileSize */
+  ranges?: Array<{ start: number; end: number }>;
+  /** Stop reading once this many bytes have been fetched (range search only) */
+  maxBytes?: number;
+  /** Called with each match as it is found */
+  onMatch?: (match: SearchMatch) => void;
+  /** Called after each chunk is searched */
+  onProgress?: (progress: SearchProgress) => void;
+  /** Stops the search between chunks when aborted */
+  signal?: AbortSignal;
+  /** Every byte is cached: allows short phrases, regex and boolean queries; requires rangeFetcher and fileSize */
+  fullyCached?: boolean;
+  /** The book's word index: answers phrase, fuzzy and boolean queries without scanning; requires rangeFetcher and fileSize */
+  wordIndex?: BookIndex;
+}
+
+/**
+ * Where to read one book from, for NetworkSearcher.searchLibrary
+ */
+export interface LibraryBook {
+  url: string;
+  rangeFetcher?: RangeFetcher;
+  fileSize?: number;
+  /** Search only these byte ranges */
+  ranges?: Array<{ start: number; end: number }>;
+  /** Word index, for a fully cached book */
+  wordIndex?: BookIndex;
+}
+
+export interface LibrarySearchOptions extends Omit<SearchOptions, 'rangeFetcher' | 'fileSize' | 'ranges' | 'wordIndex'> {
+  /** Books searched at the same time (default: 3) */
+  concurrency?: number;
+}
+
+export interface LibrarySearchResult extends SearchResult {
+  bookId: number;
+  /** Why the book couldn't be searched; the other fields are then empty */
+  error?: string;
 }
 
 interface ChunkResult {
   data: Buffer;
   start: number;
   end: number;
+  /** Last byte of the span being read (set by iterateSpans) */
+  spanEnd?: number;
+}
+
+/**
+ * Decode a chunk without the partial characters at either edge;
+ * start is the byte offset of the first whole character
+ */
+function decodeWholeChars(data: Buffer, start: number): { text: string; start: number } {
+  let first = 0;
+  while (first < data.length && first < 3 && (data[first] & 0xC0) === 0x80) first++;
+
+  let last = data.length;
+  for (let i = data.length - 1; i >= Math.max(first, data.length - 3); i--) {
+    const byte = data[i];
+    if ((byte & 0xC0) === 0x80) continue;
+    const length = byte >= 0xF0 ? 4 : byte >= 0xE0 ? 3 : byte >= 0xC0 ? 2 : 1;
+    if (i + length > data.length) last = i;
+    break;
+  }
+
+  return { text: data.toString('utf-8', first, last), start: start + first };
 }
 
 // ============================================================
@@ -295,7 +389,7 @@ class BitapSearcher {
 
 class AdaptiveChunkFetcher {
   private url: string;
-  private fileSize: number;
+  readonly fileSize: number;
   private chunkSize: number;
   private consecutiveMisses: number = 0;
   private bytesDownloaded: number = 0;
@@ -425,10 +519,11 @@ class AdaptiveChunkFetcher {
     this.consecutiveMisses = 0;
   }
   
-  getStats(): { bytesDownloaded: number; chunksRequested: number } {
+  getStats(): { bytesDownloaded: number; chunksRequested: number; chunkSize: number } {
     return {
       bytesDownloaded: this.bytesDownloaded,
-      chunksRequested: this.chunksRequested
+      chunksRequested: this.chunksRequested,
+      chunkSize: this.chunkSize
     };
   }
 }
@@ -474,6 +569,46 @@ export class NetworkSearcher {
     return { valid: true, words };
   }
   
+  /**
+   * Parse and validate a query. Short phrases, regexes and boolean queries
+   * are only allowed when the book is fully cached; before then a boolean
+   * query is searched as a phrase.
+   */
+  validateQuery(query: string, fullyCached: boolean = false): { valid: boolean; error?: string; query?: TextQuery } {
+    let parsed: TextQuery;
+    try {
+      parsed = parseTextQuery(query);
+    } catch (err) {
+      if (err instanceof TextQueryError) return { valid: false, error: err.message };
+      throw err;
+    }
+    
+    // Quotes or capitals in a passage are searched as written until the
+    // book is cached
+    if (parsed.kind === 'boolean' && !fullyCached) {
+      parsed = { kind: 'phrase', text: query.trim() };
+    }
+    
+    if (parsed.kind === 'phrase') {
+      if (!fullyCached) {
+        const validation = this.validatePhrase(query);
+        return validation.valid ? { valid: true, query: parsed } : { valid: false, error: validation.error };
+      }
+      if (parsed.text.length < 2) {
+        return { valid: false, error: 'Search phrase too short' };
+      }
+      return { valid: true, query: parsed };
+    }
+    
+    if (!fullyCached) {
+      return {
+        valid: false,
+        error: 'Regex queries need the whole book cached; pin it for offline reading first'
+      };
+    }
+    return { valid: true, query: parsed };
+  }
+  
   /**
    * Get file size via HEAD request
    */
@@ -521,13 +656,23 @@ export class NetworkSearcher {
     const response = await this.fetchFullFile(url);
     const text = response.toString('utf-8');
     
-    const matches = options.fuzzy
+    const matches = (options.fuzzy
       ? this.fuzzySearchText(text, phrase, options)
-      : this.exactSearchText(text, phrase, options);
+      : this.exactSearchText(text, phrase, options)).slice(0, options.maxMatches || 50);
+    
+    options.onProgress?.({
+      bytesDownloaded: response.length,
+      chunksRequested: 1,
+      chunkSize: response.length,
+      position: response.length,
+      fileSize: response.length,
+      strategy: 'full-download'
+    });
+    matches.forEach(match => options.onMatch?.(match));
     
     return {
       found: matches.length > 0,
-      matches: matches.slice(0, options.maxMatches || 50),
+      matches,
       bytesDownloaded: response.length,
       chunksRequested: 1,
       searchTimeMs: Date.now() - startTime,
@@ -580,12 +725,14 @@ export class NetworkSearcher {
     
     const fetcher = new AdaptiveChunkFetcher(url, fileSize, this.debug, options.rangeFetcher);
     const matches: SearchMatch[] = [];
+    const spans = this.searchSpans(searchStart, searchEnd, options.ranges);
+    const budget = { maxBytes: options.maxBytes ?? Infinity, exhausted: false };
     
     if (options.fuzzy) {
       const searcher = new BitapSearcher(phrase, options.maxEditDistance || 2);
       const overlap = searcher.patternLength - 1;
       
-      for await (const chunk of fetcher.iterateChunks(searchStart, searchEnd, overlap)) {
+      for await (const chunk of this.iterateSpans(fetcher, spans, overlap, budget, options)) {
         const text = chunk.data.toString('utf-8');
         // processChunk returns character positions when passed 0 as offset
         const chunkMatches = searcher.processChunk(text, 0);
@@ -609,13 +756,15 @@ export class NetworkSearcher {
             const context = text.slice(contextStart, contextEnd);
             const matchedText = text.slice(charPos, charPos + phrase.length);
             
-            matches.push({
+            const match: SearchMatch = {
               position: bytePos,
               matchedText,
               context,
               editDistance: m.editDistance,
               byteStart: bytePos
-            });
+            };
+            matches.push(match);
+            options.onMatch?.(match);
           }
         } else {
           fetcher.reportMiss();
@@ -627,7 +776,7 @@ export class NetworkSearcher {
       const searcher = new StreamingKMP(phrase);
       const overlap = searcher.patternLength - 1;
       
-      for await (const chunk of fetcher.iterateChunks(searchStart, searchEnd, overlap)) {
+      for await (const chunk of this.iterateSpans(fetcher, spans, overlap, budget, options)) {
         const text = chunk.data.toString('utf-8');
         
         // Reset KMP state for clean search within this chunk
@@ -654,13 +803,15 @@ export class NetworkSearcher {
             const contextEnd = Math.min(text.length, charPos + phrase.length + contextSize);
             const context = text.slice(contextStart, contextEnd);
             
-            matches.push({
+            const match: SearchMatch = {
               position: bytePos,
               matchedText,
               context,
               editDistance: 0,
               byteStart: bytePos
-            });
+            };
+            matches.push(match);
+            options.onMatch?.(match);
           }
         } else {
           fetcher.reportMiss();
@@ -678,10 +829,235 @@ export class NetworkSearcher {
       bytesDownloaded: stats.bytesDownloaded,
       chunksRequested: stats.chunksRequested,
       searchTimeMs: Date.now() - startTime,
-      strategy: 'range-search'
+      strategy: 'range-search',
+      budgetExhausted: budget.exhausted,
+      cancelled: options.signal?.aborted === true
     };
   }
   
+  /**
+   * Range-based search for a regex or boolean query. Regex chunks overlap by
+   * the longest match allowed; boolean queries read the text as one stream
+   * and match it paragraph by paragraph, so terms may sit in different chunks.
+   */
+  async searchQueryWithRanges(
+    url: string,
+    fileSize: number,
+    query: Exclude<TextQuery, { kind: 'phrase' }>,
+    options: SearchOptions
+  ): Promise<SearchResult> {
+    const startTime = Date.now();
+    const maxMatches = options.maxMatches || 50;
+    const contextSize = options.contextSize || 100;
+    
+    // Calculate search bounds (skip Gutenberg header/footer)
+    const searchStart = Math.min(this.HEADER_SKIP, fileSize);
+    const searchEnd = Math.max(searchStart, fileSize - this.FOOTER_SKIP);
+    
+    const fetcher = new AdaptiveChunkFetcher(url, fileSize, this.debug, options.rangeFetcher);
+    const matches: SearchMatch[] = [];
+    const spans = this.searchSpans(searchStart, searchEnd, options.ranges);
+    const budget = { maxBytes: options.maxBytes ?? Infinity, exhausted: false };
+    
+    const report = (text: string, start: number, end: number, textByteStart: number) => {
+      const byteStart = textByteStart + Buffer.byteLength(text.slice(0, start), 'utf-8');
+      const match: SearchMatch = {
+        position: byteStart,
+        matchedText: text.slice(start, end),
+        context: text.slice(Math.max(0, start - contextSize), Math.min(text.length, end + contextSize)),
+        editDistance: 0,
+        byteStart
+      };
+      matches.push(match);
+      options.onMatch?.(match);
+    };
+    
+    if (query.kind === 'regex') {
+      const overlap = TEXT_QUERY_LIMITS.maxRegexMatchBytes;
+      // Matched off the event loop, within a time limit
+      const runner = new RegexRunner(query.regex);
+      let lastReported = -1;
+      
+      try {
+        for await (const chunk of this.iterateSpans(fetcher, spans, overlap, budget, options)) {
+          const { text, start } = decodeWholeChars(chunk.data, chunk.start);
+          // A match starting where the next chunk begins is left for that chunk to find whole
+          const nextStart = chunk.end >= chunk.spanEnd! ? Infinity : chunk.end + 1 - overlap;
+          const found = await runner.run(text, start, lastReported, nextStart, maxMatches - matches.length);
+          
+          for (const m of found) {
+            lastReported = m.byteStart;
+            report(text, m.index, m.end, start);
+          }
+          
+          if (found.length > 0) fetcher.reportHit(); else fetcher.reportMiss();
+          if (matches.length >= maxMatches) break;
+        }
+      } finally {
+        runner.close();
+      }
+    } else {
+      const matcher = new PassageMatcher(query.root);
+      let decoder = new StringDecoder('utf8');
+      let expected = -1;
+      
+      const reportPassages = (passages: PassageMatch[]) => {
+        for (const passage of passages) {
+          if (matches.length >= maxMatches) return;
+          report(passage.text, passage.start, passage.end, passage.byteStart);
+        }
+      };
+      
+      for await (const chunk of this.iterateSpans(fetcher, spans, 0, budget, options)) {
+        let data = chunk.data;
+        if (chunk.start !== expected) {
+          // A new span: whatever came before it isn't contiguous
+          let skip = 0;
+          while (skip < data.length && skip < 3 && (data[skip] & 0xC0) === 0x80) skip++;
+          data = data.subarray(skip);
+          reportPassages(matcher.end(chunk.start + skip));
+          decoder = new StringDecoder('utf8');
+        }
+        expected = chunk.end + 1;
+        
+        const before = matches.length;
+        reportPassages(matcher.push(decoder.write(data)));
+        if (matches.length > before) fetcher.reportHit(); else fetcher.reportMiss();
+        if (matches.length >= maxMatches) break;
+      }
+      
+      if (matches.length < maxMatches && !options.signal?.aborted) {
+        reportPassages(matcher.end(0));
+      }
+    }
+    
+    const stats = fetcher.getStats();
+    
+    return {
+      found: matches.length > 0,
+      matches,
+      bytesDownloaded: stats.bytesDownloaded,
+      chunksRequested: stats.chunksRequested,
+      searchTimeMs: Date.now() - startTime,
+      strategy: 'range-search',
+      budgetExhausted: budget.exhausted,
+      cancelled: options.signal?.aborted === true
+    };
+  }
+  
+  /**
+   * Answer a phrase or boolean query from a word index. Only the context
+   * around each match is read. Index phrases match whole words (the last
+   * may be the start of one, as in a scan), ignoring case and punctuation;
+   * fuzzy phrases allow maxEditDistance edits in all.
+   */
+  async searchIndex(
+    fileSize: number,
+    query: Exclude<TextQuery, { kind: 'regex' }>,
+    index: BookIndex,
+    options: SearchOptions
+  ): Promise<SearchResult> {
+    const startTime = Date.now();
+    const contextSize = options.contextSize || 100;
+    const rangeFetcher = options.rangeFetcher!;
+    
+    // Same bounds as a scan (skip Gutenberg header/footer)
+    const searchStart = Math.min(this.HEADER_SKIP, fileSize);
+    const bounds = {
+      start: searchStart,
+      end: Math.max(searchStart, fileSize - this.FOOTER_SKIP),
+      maxMatches: options.maxMatches || 50
+    };
+    const found = query.kind === 'phrase'
+      ? index.findPhrase(query.text, { ...bounds, maxEditDistance: options.fuzzy ? (options.maxEditDistance || 2) : 0 })
+      : index.findQuery(query.root, bounds);
+    
+    const matches: SearchMatch[] = [];
+    let bytesDownloaded = 0;
+    for (const m of found) {
+      if (options.signal?.aborted) break;
+      
+      const from = Math.max(0, m.start - contextSize);
+      const data = await rangeFetcher(from, Math.min(fileSize - 1, m.end - 1 + contextSize));
+      bytesDownloaded += data.length;
+      
+      const { text, start } = decodeWholeChars(data, from);
+      const matchStart = data.toString('utf-8', start - from, m.start - from).length;
+      const matchEnd = matchStart + data.toString('utf-8', m.start - from, m.end - from).length;
+      const match: SearchMatch = {
+        position: m.start,
+        matchedText: text.slice(matchStart, matchEnd),
+        context: text,
+        editDistance: m.editDistance,
+        byteStart: m.start
+      };
+      matches.push(match);
+      options.onMatch?.(match);
+    }
+    
+    return {
+      found: matches.length > 0,
+      matches,
+      bytesDownloaded,
+      chunksRequested: matches.length,
+      searchTimeMs: Date.now() - startTime,
+      strategy: 'index',
+      cancelled: options.signal?.aborted === true
+    };
+  }
+  
+  /**
+   * Byte spans to search: start-end, or only the parts of it covered by ranges
+   */
+  private searchSpans(
+    start: number,
+    end: number,
+    ranges?: Array<{ start: number; end: number }>
+  ): Array<{ start: number; end: number }> {
+    if (!ranges) return [{ start, end }];
+    
+    return ranges
+      .map(range => ({ start: Math.max(range.start, start), end: Math.min(range.end, end) }))
+      .filter(span => span.start < span.end)
+      .sort((a, b) => a.start - b.start);
+  }
+  
+  /**
+   * Chunks of each span in turn, reporting progress once each has been
+   * searched. Stops after the chunk that spends the byte budget, or when
+   * the signal is aborted. Matches spanning two ranges are not found.
+   */
+  private async *iterateSpans(
+    fetcher: AdaptiveChunkFetcher,
+    spans: Array<{ start: number; end: number }>,
+    overlap: number,
+    budget: { maxBytes: number; exhausted: boolean },
+    options: SearchOptions
+  ): AsyncGenerator<ChunkResult> {
+    for (let i = 0; i < spans.length && !options.signal?.aborted; i++) {
+      const span = spans[i];
+      for await (const chunk of fetcher.iterateChunks(span.start, span.end, overlap)) {
+        yield { ...chunk, spanEnd: span.end };
+        
+        if (options.onProgress) {
+          options.onProgress({
+            ...fetcher.getStats(),
+            position: chunk.end + 1,
+            fileSize: fetcher.fileSize,
+            strategy: 'range-search'
+          });
+        }
+        if (options.signal?.aborted) return;
+        
+        const finished = i === spans.length - 1 && chunk.end >= span.end;
+        if (!finished && fetcher.getStats().bytesDownloaded >= budget.maxBytes) {
+          budget.exhausted = true;
+          return;
+        }
+      }
+    }
+  }
+  
   private async extractMatchWithContext(
     fetcher: AdaptiveChunkFetcher,
     position: number,
@@ -782,16 +1158,38 @@ export class NetworkSearcher {
     phrase: string,
     options: SearchOptions = {}
   ): Promise<SearchResult> {
-    // Validate phrase
-    const validation = this.validatePhrase(phrase);
+    // Validate phrase or query
+    const validation = this.validateQuery(phrase, options.fullyCached);
     if (!validation.valid) {
       throw new Error(validation.error);
     }
     
+    const query = validation.query!;
+    if (options.wordIndex && query.kind !== 'regex') {
+      if (!options.rangeFetcher || options.fileSize === undefined) {
+        throw new Error('Index search requires a cached range fetcher and file size');
+      }
+      return this.searchIndex(options.fileSize, query, options.wordIndex, options);
+    }
+    
+    if (query.kind !== 'phrase') {
+      if (!options.rangeFetcher || options.fileSize === undefined) {
+        throw new Error('Regex and boolean search requires a cached range fetcher and file size');
+      }
+      return this.searchQueryWithRanges(url, options.fileSize, query, options);
+    }
+    
+    if (options.offline || options.ranges || options.fullyCached) {
+      if (!options.rangeFetcher || options.fileSize === undefined) {
+        throw new Error('Offline search requires a cached range fetcher and file size');
+      }
+      return this.searchWithRanges(url, options.fileSize, phrase, options);
+    }
+    
     // Get file size to decide strategy
     let fileSize: number;
     try {
-      fileSize = await this.getFileSize(url);
+      fileSize = options.fileSize ?? await this.getFileSize(url);
     } catch (err) {
       // If HEAD fails, fall back to full download
       if (this.debug) {
@@ -811,6 +1209,74 @@ export class NetworkSearcher {
     
     return this.searchWithRanges(url, fileSize, phrase, options);
   }
+  
+  /**
+   * Search many books for one phrase, yielding each book's result as soon as
+   * it finishes (not in input order). open() says where to read a book from;
+   * a book that can't be opened or searched yields a result with an error
+   * rather than ending the search.
+   */
+  async *searchLibrary(
+    bookIds: number[],
+    phrase: string,
+    open: (bookId: number) => Promise<LibraryBook>,
+    options: LibrarySearchOptions = {}
+  ): AsyncGenerator<LibrarySearchResult> {
+    const validation = this.validatePhrase(phrase);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+    
+    const concurrency = Math.max(1, options.concurrency ?? 3);
+    const running = new Map<number, Promise<[number, LibrarySearchResult]>>();
+    let next = 0;
+    
+    const startNext = () => {
+      const index = next++;
+      running.set(index, this.searchLibraryBook(bookIds[index], phrase, open, options)
+        .then(result => [index, result] as [number, LibrarySearchResult]));
+    };
+    
+    while (next < bookIds.length && running.size < concurrency) startNext();
+    
+    while (running.size > 0) {
+      const [index, result] = await Promise.race(running.values());
+      running.delete(index);
+      if (next < bookIds.length) startNext();
+      yield result;
+    }
+  }
+  
+  private async searchLibraryBook(
+    bookId: number,
+    phrase: string,
+    open: (bookId: number) => Promise<LibraryBook>,
+    options: LibrarySearchOptions
+  ): Promise<LibrarySearchResult> {
+    const startTime = Date.now();
+    try {
+      const book = await open(bookId);
+      const result = await this.search(book.url, phrase, {
+        ...options,
+        rangeFetcher: book.rangeFetcher,
+        fileSize: book.fileSize,
+        ranges: book.ranges,
+        wordIndex: book.wordIndex
+      });
+      return { bookId, ...result };
+    } catch (err) {
+      return {
+        bookId,
+        found: false,
+        matches: [],
+        bytesDownloaded: 0,
+        chunksRequested: 0,
+        searchTimeMs: Date.now() - startTime,
+        strategy: 'range-search',
+        error: (err as Error).message
+      };
+    }
+  }
 }
 
 // ============================================================
@@ -0,0 +1,235 @@
+/**
+ * Pin Jobs
+ * Background "pin for offline" downloads that fill a book's sparse cache
+ *
+ * - One job runs at a time; further pins wait in a FIFO queue
+ * - Missing ranges come from the cache bitmap, so a restarted job only
+ *   fetches what is still missing
+ * - Ranges are coalesced by SparseCache and requests spaced by throttleMs
+ * - Cancelling stops after the in-flight request; fetched blocks stay cached
+ */
+
+import type { SparseCache } from './sparse-cache.js';
+
+export type PinJobState = 'queued' | 'running' | 'done' | 'cancelled' | 'failed';
+
+/** Progress snapshot for a pin job */
+export interface PinJobStatus {
+  bookId: number;
+  state: PinJobState;
+  totalBytes: number | null;
+  cachedBytes: number;
+  percent: number;
+  bytesFetched: number;
+  requests: number;
+  remainingRequests: number | null;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: string | null;
+}
+
+export interface PinJobManagerOptions {
+  /** Pause between range requests (default 250ms) */
+  throttleMs?: number;
+  /** Largest single range request (default 256KB) */
+  maxRequestBytes?: number;
+  debug?: boolean;
+  onProgress?: (status: PinJobStatus) => void;
+}
+
+interface PinJob {
+  status: PinJobStatus;
+  cancelled: boolean;
+  done: Promise<PinJobStatus>;
+  resolve: (status: PinJobStatus) => void;
+}
+
+export class PinJobManager {
+  private cache: SparseCache;
+  private throttleMs: number;
+  private maxRequestBytes: number;
+  private debug: boolean;
+  private onProgress: ((status: PinJobStatus) => void) | null;
+
+  private jobs = new Map<number, PinJob>();
+  private queue: PinJob[] = [];
+  private running = false;
+
+  constructor(cache: SparseCache, options: PinJobManagerOptions = {}) {
+    this.cache = cache;
+    this.throttleMs = options.throttleMs ?? 250;
+    this.maxRequestBytes = options.maxRequestBytes || 256 * 1024;
+    this.debug = options.debug || false;
+    this.onProgress = options.onProgress || null;
+  }
+
+  private log(msg: string): void {
+    if (this.debug) console.error(`[PinJobs] ${msg}`);
+  }
+
+  /**
+   * Pin a book and queue a job to download the rest of it.
+   * Pinning a book that already has an active job returns that job.
+   */
+  pin(bookId: number): PinJobStatus {
+    const existing = this.jobs.get(bookId);
+    if (existing && (existing.status.state === 'queued' || existing.status.state === 'running')) {
+      return { ...existing.status };
+    }
+
+    let resolve!: (status: PinJobStatus) => void;
+    const done = new Promise<PinJobStatus>(r => { resolve = r; });
+    const job: PinJob = {
+      status: {
+        bookId,
+        state: 'queued',
+        totalBytes: null,
+        cachedBytes: 0,
+        percent: 0,
+        bytesFetched: 0,
+        requests: 0,
+        remainingRequests: null,
+        startedAt: null,
+        finishedAt: null,
+        error: null
+      },
+      cancelled: false,
+      done,
+      resolve
+    };
+
+    // Books never opened have no cache entry yet; the job pins them once initialized
+    this.cache.setPinned(bookId, true);
+    this._updateProgress(job);
+
+    this.jobs.set(bookId, job);
+    this.queue.push(job);
+    this.log(`Queued book ${bookId}`);
+    void this._pump();
+    return { ...job.status };
+  }
+
+  /**
+   * Stop a queued or running job. The book stays pinned.
+   */
+  cancel(bookId: number): boolean {
+    const job = this.jobs.get(bookId);
+    if (!job || (job.status.state !== 'queued' && job.status.state !== 'running')) {
+      return false;
+    }
+
+    job.cancelled = true;
+    const queuedIndex = this.queue.indexOf(job);
+    if (queuedIndex !== -1) {
+      this.queue.splice(queuedIndex, 1);
+      this._finish(job, 'cancelled');
+    }
+    this.log(`Cancelled book ${bookId}`);
+    return true;
+  }
+
+  /**
+   * Cancel any job and drop the pin so LRU pruning may evict the book
+   */
+  unpin(bookId: number): { cancelled: boolean; unpinned: boolean } {
+    const cancelled = this.cancel(bookId);
+    const unpinned = this.cache.setPinned(bookId, false);
+    return { cancelled, unpinned };
+  }
+
+  getStatus(bookId: number): PinJobStatus | null {
+    const job = this.jobs.get(bookId);
+    return job ? { ...job.status } : null;
+  }
+
+  list(): PinJobStatus[] {
+    return Array.from(this.jobs.values()).map(job => ({ ...job.status }));
+  }
+
+  /**
+   * Resolve when the book's current job finishes (null if there is none)
+   */
+  async wait(bookId: number): Promise<PinJobStatus | null> {
+    const job = this.jobs.get(bookId);
+    return job ? job.done : null;
+  }
+
+  /**
+   * Re-queue pinned books whose download was interrupted (e.g. by a restart)
+   */
+  resumePinned(): number[] {
+    const resumed: number[] = [];
+    for (const bookId of this.cache.listPinnedBooks()) {
+      const stats = this.cache.getBookStats(bookId);
+      if (stats && stats.blocksCached < stats.totalBlocks) {
+        this.pin(bookId);
+        resumed.push(bookId);
+      }
+    }
+    return resumed;
+  }
+
+  private async _pump(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let job: PinJob | undefined;
+      while ((job = this.queue.shift())) {
+        await this._run(job);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async _run(job: PinJob): Promise<void> {
+    const { bookId } = job.status;
+    job.status.state = 'running';
+    job.status.startedAt = Date.now();
+
+    try {
+      const ranges = await this.cache.getMissingRanges(bookId, this.maxRequestBytes);
+      this.cache.setPinned(bookId, true);
+      job.status.remainingRequests = ranges.length;
+      this._updateProgress(job);
+      this.log(`Book ${bookId}: ${ranges.length} range requests to go`);
+
+      for (let i = 0; i < ranges.length && !job.cancelled; i++) {
+        const fetched = await this.cache.prefetchRange(bookId, ranges[i].start, ranges[i].end);
+        job.status.bytesFetched += fetched;
+        job.status.requests++;
+        job.status.remainingRequests = ranges.length - i - 1;
+        this._updateProgress(job);
+
+        if (this.throttleMs > 0 && i < ranges.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, this.throttleMs));
+        }
+      }
+
+      this._finish(job, job.cancelled ? 'cancelled' : 'done');
+    } catch (err) {
+      job.status.error = (err as Error).message;
+      this.log(`Book ${bookId} failed: ${job.status.error}`);
+      this._finish(job, 'failed');
+    }
+  }
+
+  private _finish(job: PinJob, state: PinJobState): void {
+    job.status.state = state;
+    job.status.finishedAt = Date.now();
+    this._updateProgress(job);
+    job.resolve({ ...job.status });
+  }
+
+  private _updateProgress(job: PinJob): void {
+    const stats = this.cache.getBookStats(job.status.bookId);
+    if (stats) {
+      job.status.totalBytes = stats.totalBytes;
+      job.status.cachedBytes = stats.cachedBytes;
+      job.status.percent = Math.round(stats.coveragePercent * 10) / 10;
+    }
+    if (this.onProgress) {
+      this.onProgress({ ...job.status });
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Reading Trail Module
+ * A persistent back/forward history of passages, across books and sessions.
+ *
+ * Page turns stay within one entry: they move its position along (here), so
+ * going back returns to where reading left off, not where it began. Entries
+ * are added by teleports — opening a book, a random book, jump-around,
+ * search results, chapters, bookmarks, go to percent. Like a browser, a
+ * teleport after going back drops the entries ahead of the cursor.
+ *
+ * The trail is shared by the terminal and web readers, and read afresh for
+ * each change so both can be open at once.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const TRAIL_FILE = path.join(os.homedir(), '.gutex_trail.json');
+
+/** Oldest entries are dropped beyond this */
+export const MAX_TRAIL_ENTRIES = 200;
+
+/** What took the reader to an entry */
+export type TrailKind = 'open' | 'jump' | 'chapter' | 'random' | 'search' | 'bookmark' | 'link';
+
+export const TRAIL_KINDS: readonly TrailKind[] = ['open', 'jump', 'chapter', 'random', 'search', 'bookmark', 'link'];
+
+export interface TrailEntry {
+  /** Gutenberg book ID, or text source ID for local/URL texts */
+  bookId: number | string;
+  byteStart: number;
+  /** Text anchor token for byteStart (see text-anchor.ts) */
+  anchor?: string;
+  kind: TrailKind;
+  chunkSize?: number;
+  title?: string;
+  percent?: number;
+  timestamp: number;
+}
+
+export interface TrailState {
+  entries: TrailEntry[];
+  /** Index of the entry being read, -1 when the trail is empty */
+  cursor: number;
+}
+
+export function isTrailKind(value: unknown): value is TrailKind {
+  return typeof value === 'string' && (TRAIL_KINDS as readonly string[]).includes(value);
+}
+
+export class ReadingTrail {
+  private filePath: string;
+
+  constructor(filePath: string = TRAIL_FILE) {
+    this.filePath = filePath;
+  }
+
+  get state(): TrailState {
+    return this.read();
+  }
+
+  /** The entry being read, or null */
+  get current(): TrailEntry | null {
+    const trail = this.read();
+    return trail.entries[trail.cursor] ?? null;
+  }
+
+  /**
+   * Add a teleport destination after the current entry, dropping any
+   * entries ahead of it. A visit to the passage already being read only
+   * refreshes it.
+   */
+  visit(entry: Omit<TrailEntry, 'timestamp'>): TrailState {
+    const trail = this.read();
+    const current = trail.entries[trail.cursor];
+    const visited = { ...entry, timestamp: Date.now() };
+
+    if (current && current.bookId === entry.bookId && current.byteStart === entry.byteStart) {
+      trail.entries[trail.cursor] = { ...current, ...visited, kind: current.kind };
+    } else {
+      trail.entries = [...trail.entries.slice(0, trail.cursor + 1), visited].slice(-MAX_TRAIL_ENTRIES);
+      trail.cursor = trail.entries.length - 1;
+    }
+    return this.write(trail);
+  }
+
+  /**
+   * Move the current entry along to where the reader is now. Ignored (false)
+   * unless the reader is still in the current entry's book.
+   */
+  here(bookId: number | string, byteStart: number, details: { anchor?: string; percent?: number } = {}): boolean {
+    const trail = this.read();
+    const current = trail.entries[trail.cursor];
+    if (!current || current.bookId !== bookId) return false;
+    // An anchor is kept while it still fits the position
+    const anchor = details.anchor ?? (current.byteStart === byteStart ? current.anchor : undefined);
+    if (current.byteStart === byteStart && current.anchor === anchor) return true;
+
+    trail.entries[trail.cursor] = {
+      ...current,
+      byteStart,
+      anchor,
+      percent: details.percent ?? current.percent,
+      timestamp: Date.now()
+    };
+    this.write(trail);
+    return true;
+  }
+
+  /** Step back to an earlier entry and return it, or null at the oldest */
+  back(steps = 1): TrailEntry | null {
+    return this.step(-steps);
+  }
+
+  /** Step forward to a later entry and return it, or null at the newest */
+  forward(steps = 1): TrailEntry | null {
+    return this.step(steps);
+  }
+
+  clear(): void {
+    this.write({ entries: [], cursor: -1 });
+  }
+
+  // As far as the trail goes, like a browser asked to go back too far
+  private step(delta: number): TrailEntry | null {
+    const trail = this.read();
+    const cursor = Math.max(0, Math.min(trail.cursor + delta, trail.entries.length - 1));
+    if (cursor === trail.cursor || trail.cursor < 0) return null;
+    trail.cursor = cursor;
+    this.write(trail);
+    return trail.entries[cursor];
+  }
+
+  private read(): TrailState {
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      if (Array.isArray(stored?.entries) && Number.isInteger(stored.cursor)) {
+        const cursor = Math.max(-1, Math.min(stored.cursor, stored.entries.length - 1));
+        return { entries: stored.entries, cursor };
+      }
+    } catch {
+      // Missing or unreadable: start a new trail
+    }
+    return { entries: [], cursor: -1 };
+  }
+
+  private write(trail: TrailState): TrailState {
+    try {
+      const tempPath = `${this.filePath}.tmp-${process.pid}`;
+      fs.writeFileSync(tempPath, JSON.stringify(trail));
+      fs.renameSync(tempPath, this.filePath);
+    } catch {
+      // Not saved; the trail on disk stays as it was
+    }
+    return trail;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Regex Runner Module
+ * Runs a user's regex in a worker thread with a time limit, so a pattern
+ * that backtracks badly ends the worker instead of stalling the server.
+ *
+ * Patterns are screened when parsed (see text-query.ts); this catches the
+ * ones the screen lets through. The limit covers all the text one runner
+ * matches, e.g. a whole book searched chunk by chunk.
+ */
+
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
+import { TextQueryError, TEXT_QUERY_LIMITS } from './text-query.js';
+
+/** A match: character offsets in the text, byte offset in the file */
+export interface RegexRunMatch {
+  index: number;
+  end: number;
+  byteStart: number;
+}
+
+interface RegexRunRequest {
+  text: string;
+  /** Byte offset of the text in the file */
+  byteStart: number;
+  /** Only matches starting after this byte offset... */
+  after: number;
+  /** ...and before this one */
+  before: number;
+  limit: number;
+}
+
+export class RegexRunner {
+  private regex: RegExp;
+  private remainingMs: number;
+  private worker: Worker | null = null;
+
+  constructor(regex: RegExp, timeLimitMs: number = TEXT_QUERY_LIMITS.maxRegexMs) {
+    this.regex = regex;
+    this.remainingMs = timeLimitMs;
+  }
+
+  /**
+   * Matches in a text that start within (after, before) in the file, at
+   * most limit. Rejects with TextQueryError once the time is used up.
+   */
+  run(text: string, byteStart: number, after: number, before: number, limit: number): Promise<RegexRunMatch[]> {
+    if (this.remainingMs <= 0) {
+      return Promise.reject(this.tooSlow());
+    }
+    const worker = this.worker ??= new Worker(new URL(import.meta.url), {
+      workerData: { regexRunner: true, source: this.regex.source, flags: this.regex.flags }
+    });
+    const request: RegexRunRequest = { text, byteStart, after, before, limit };
+    const started = Date.now();
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        this.remainingMs -= Date.now() - started;
+      };
+      const onMessage = (matches: RegexRunMatch[]) => {
+        finish();
+        resolve(matches);
+      };
+      const onError = (err: Error) => {
+        finish();
+        this.close();
+        reject(err);
+      };
+      const timer = setTimeout(() => {
+        finish();
+        this.close();
+        reject(this.tooSlow());
+      }, this.remainingMs);
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.postMessage(request);
+    });
+  }
+
+  /** Stop the worker; a later run starts another */
+  close(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private tooSlow(): TextQueryError {
+    return new TextQueryError('Regex took too long to run; try a simpler pattern');
+  }
+}
+
+// The worker: match each text it is sent, counting bytes as it goes
+if (!isMainThread && workerData?.regexRunner) {
+  const regex = new RegExp(workerData.source, workerData.flags);
+  parentPort!.on('message', (request: RegexRunRequest) => {
+    const matches: RegexRunMatch[] = [];
+    let byteStart = request.byteStart;
+    let counted = 0;
+    regex.lastIndex = 0;
+    for (const m of request.text.matchAll(regex)) {
+      byteStart += Buffer.byteLength(request.text.slice(counted, m.index), 'utf-8');
+      counted = m.index!;
+      if (byteStart <= request.after) continue;
+      if (byteStart >= request.before || matches.length >= request.limit) break;
+      matches.push({ index: m.index!, end: m.index! + m[0].length, byteStart });
+    }
+    parentPort!.postMessage(matches);
+  });
+}
@@ -4,19 +4,36 @@
  */
 
 import { Fetcher } from './fetcher.js';
+import { CachedFetcher } from './cached-fetcher.js';
+import { getSharedSparseCache } from './sparse-cache.js';
 import { Cleaner } from './cleaner.js';
 import { Navigator } from './navigator.js';
 import { Display } from './display.js';
+import { SourceFetcher, findSourceBoundaries } from './text-source.js';
+import type { Boundaries, TextSource, ChunkMode } from './types.js';
 
 export class SnapshotRunner {
   public bookId: number;
   public chunkSize: number;
   public startPercent: number;
+  public source: TextSource | null;
+  public offline: boolean;
+  public chunkMode: ChunkMode;
 
-  constructor(bookId: number, chunkSize: number, startPercent: number) {
+  constructor(
+    bookId: number,
+    chunkSize: number,
+    startPercent: number,
+    source: TextSource | null = null,
+    offline = false,
+    chunkMode: ChunkMode = 'words'
+  ) {
     this.bookId = bookId;
     this.chunkSize = chunkSize;
     this.startPercent = startPercent;
+    this.source = source;
+    this.offline = offline;
+    this.chunkMode = chunkMode;
   }
 
   /**
@@ -27,9 +44,26 @@ export class SnapshotRunner {
       const debug = process.env.DEBUG === '1';
 
       // Set up fetcher and navigator
-      const fetcher = new Fetcher(this.bookId, debug);
-      const boundaries = await Cleaner.findCleanBoundaries(fetcher);
+      let fetcher: Fetcher | CachedFetcher | SourceFetcher;
+      let boundaries: Boundaries;
+      if (this.source) {
+        fetcher = new SourceFetcher(this.source, debug);
+        boundaries = await findSourceBoundaries(this.source, fetcher);
+      } else if (this.offline) {
+        fetcher = new CachedFetcher(this.bookId, debug, {
+          useMirrors: false,
+          sparseCache: getSharedSparseCache({ offline: true, debug })
+        });
+        boundaries = await Cleaner.findCleanBoundaries(fetcher);
+      } else {
+        fetcher = new Fetcher(this.bookId, debug);
+        boundaries = await Cleaner.findCleanBoundaries(fetcher);
+      }
       const navigator = new Navigator(fetcher, boundaries, this.chunkSize);
+      navigator.chunkMode = this.chunkMode;
+      if (process.stdout.columns && process.stdout.rows) {
+        navigator.screen = { columns: process.stdout.columns, rows: process.stdout.rows };
+      }
 
       // Navigate to target position
       const position = await navigator.goToPercent(this.startPercent);
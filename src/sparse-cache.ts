@@ -6,6 +6,8 @@
  * - Tracks cached byte ranges via bitmap (block granularity)
  * - Coalesces missing ranges to minimize HTTP requests
  * - Validates against upstream ETags/Last-Modified periodically
+ * - Enforces byte quotas by evicting cold regions, not just whole books
+ * - Checksums every block and re-fetches blocks that fail verification
  * - Gracefully degrades to network on cache failures
  * 
  * Design inspired by functional programming principles:
@@ -43,6 +45,7 @@ export interface CacheMetadata {
   createdAt: number;      // Unix timestamp ms
   blocksCached: number;   // Count of cached blocks
   totalBlocks: number;    // Total blocks in file
+  pinned?: boolean;       // Kept for offline use, never pruned by LRU
 }
 
 /** Statistics for cache inspection */
@@ -58,6 +61,53 @@ export interface CacheStats {
   lastAccessed: Date;
   isStale: boolean;
   etag: string | null;
+  pinned: boolean;
+}
+
+/**
+ * Identifies one version of a book's text in the cache. Anything derived
+ * from the text (e.g. a word index) is stale once this changes.
+ */
+export interface CacheContentKey {
+  fileSize: number;
+  etag: string | null;
+  lastModified: string | null;
+  createdAt: number;
+}
+
+/** Result of checking a book's data file against its bitmap and checksums */
+export interface VerifyReport {
+  bookId: number;
+  ok: boolean;
+  blocksChecked: number;
+  /** Cached blocks whose bytes don't match their checksum */
+  corruptBlocks: number;
+  corruptRanges: Array<{ start: number; end: number }>;
+  /** Cached blocks with no recorded checksum (written before checksums existed) */
+  unverifiedBlocks: number;
+  /** Data file missing or not the size recorded in metadata */
+  sizeMismatch: boolean;
+  /** Set by repair(): blocks fetched again from upstream */
+  repairedBlocks?: number;
+}
+
+/** One book's cache files, as carried in an export archive */
+export interface CacheBookExport {
+  meta: CacheMetadata;
+  bitmap: Buffer;
+  /** Absent for caches written before checksums existed */
+  sums: Buffer | null;
+  data: Buffer;
+}
+
+/** Outcome of merging one exported book into this cache */
+export interface CacheImportResult {
+  bookId: number;
+  action: 'added' | 'merged' | 'replaced' | 'skipped';
+  blocksAdded: number;
+  /** Incoming blocks dropped because they failed verification */
+  blocksRejected: number;
+  reason?: string;
 }
 
 /** A contiguous range of bytes */
@@ -74,6 +124,34 @@ export interface SparseCacheOptions {
   maxCoalesceGap?: number;      // Max gap to coalesce in bytes (default 8KB)
   debug?: boolean;
   baseUrl?: string;             // Override PG URL for testing
+  offline?: boolean;            // Serve only cached blocks, never touch upstream
+  maxBytes?: number;            // Total cached bytes across books (default unlimited)
+  maxBytesPerBook?: number;     // Cached bytes kept for any one book (default unlimited)
+  evictionRegionBytes?: number; // Eviction granularity (default 64KB)
+  evictionGraceMs?: number;     // Regions read this recently are never evicted (default 30s)
+}
+
+/**
+ * Raised in offline mode when a book, or part of a requested range,
+ * is not in the cache. `ranges` lists the missing byte ranges (empty when
+ * the whole book is unknown); `nextCachedByte` is where readable data
+ * resumes after the first gap, or null if nothing further is cached.
+ */
+export class NotCachedError extends Error {
+  readonly code = 'NOT_CACHED';
+  readonly bookId: number;
+  readonly ranges: Array<{ start: number; end: number }>;
+  readonly nextCachedByte: number | null;
+
+  constructor(bookId: number, ranges: Array<{ start: number; end: number }> = [], nextCachedByte: number | null = null) {
+    super(ranges.length > 0
+      ? `Book ${bookId} bytes ${ranges[0].start}-${ranges[0].end} not cached (offline)`
+      : `Book ${bookId} is not cached (offline)`);
+    this.name = 'NotCachedError';
+    this.bookId = bookId;
+    this.ranges = ranges;
+    this.nextCachedByte = nextCachedByte;
+  }
 }
 
 /** Upstream fetcher interface for dependency injection */
@@ -161,6 +239,75 @@ function countCachedBlocks(bitmap: Buffer): number {
   return count;
 }
 
+/**
+ * Clear a range of blocks (inclusive) - returns new bitmap
+ */
+function clearBlockRangeCached(bitmap: Buffer, startBlock: number, endBlock: number): Buffer {
+  const result = Buffer.from(bitmap);
+  for (let block = startBlock; block <= endBlock; block++) {
+    const byteIndex = Math.floor(block / 8);
+    if (byteIndex < result.length) {
+      result[byteIndex] &= ~(1 << (block % 8));
+    }
+  }
+  return result;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (IEEE) of a buffer
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Checksum stored for a block. 0 is reserved for "not recorded".
+ */
+function blockChecksum(data: Buffer): number {
+  return crc32(data) || 1;
+}
+
+/**
+ * Whether a block's bytes pass verification. Blocks without a recorded
+ * checksum only fail if they are all zeros, which text never is.
+ */
+function isBlockIntact(data: Buffer, expected: number): boolean {
+  if (expected !== 0) return blockChecksum(data) === expected;
+  return data.some(b => b !== 0);
+}
+
+/**
+ * Write a file via a temp file and rename, so readers never see a torn write
+ */
+function writeFileAtomic(file: string, data: string | Buffer): void {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempFile, data);
+    fs.renameSync(tempFile, file);
+  } catch (err) {
+    try {
+      if (fs.existsSync(tempFile)) fs.unlinkSync(tempFile);
+    } catch {}
+    throw err;
+  }
+}
+
 /**
  * Find uncached block ranges within a byte range
  * Returns array of block ranges that need fetching
@@ -216,6 +363,50 @@ function findUncachedBlockRanges(
   return ranges;
 }
 
+/**
+ * Find runs of cached blocks, as byte ranges (the last may run past the end of file)
+ */
+function findCachedBlockRanges(bitmap: Buffer, totalBlocks: number, blockSize: number): ByteRange[] {
+  const ranges: ByteRange[] = [];
+  let runStart: number | null = null;
+
+  for (let block = 0; block <= totalBlocks; block++) {
+    const cached = block < totalBlocks && isBlockCached(bitmap, block);
+    if (cached && runStart === null) {
+      runStart = block;
+    } else if (!cached && runStart !== null) {
+      ranges.push({ start: blockToByte(runStart, blockSize), end: blockToByte(block, blockSize) - 1 });
+      runStart = null;
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Find the first cached byte at or after a block, or null if none remain
+ */
+function findNextCachedByte(bitmap: Buffer, fromBlock: number, totalBlocks: number, blockSize: number): number | null {
+  for (let block = fromBlock; block < totalBlocks; block++) {
+    if (isBlockCached(bitmap, block)) {
+      return blockToByte(block, blockSize);
+    }
+  }
+  return null;
+}
+
+/**
+ * Split a range into pieces of at most maxBytes, keeping block alignment
+ */
+function splitRange(range: ByteRange, maxBytes: number, blockSize: number): ByteRange[] {
+  const step = Math.max(blockSize, Math.floor(maxBytes / blockSize) * blockSize);
+  const pieces: ByteRange[] = [];
+  for (let start = range.start; start <= range.end; start += step) {
+    pieces.push({ start, end: Math.min(start + step - 1, range.end) });
+  }
+  return pieces;
+}
+
 /**
  * Coalesce adjacent/overlapping ranges
  */
@@ -373,6 +564,11 @@ export class SparseCache {
   private validationIntervalMs: number;
   private maxCoalesceGap: number;
   private debug: boolean;
+  private offline: boolean;
+  private maxBytes: number | null;
+  private maxBytesPerBook: number | null;
+  private evictionRegionBlocks: number;
+  private evictionGraceMs: number;
   private upstream: UpstreamFetcher;
 
   // In-memory metadata cache for quick access
@@ -380,10 +576,17 @@ export class SparseCache {
   
   // In-memory bitmap cache
   private bitmapCache = new Map<number, Buffer>();
+
+  // In-memory per-block checksum cache (UInt32LE per block)
+  private checksumCache = new Map<number, Buffer>();
   
   // Pending fetches to avoid duplicate requests
   private pendingFetches = new Map<string, Promise<Buffer>>();
 
+  // Last read time per eviction region (bookId -> region -> ms), in memory only;
+  // regions not read since startup count as coldest
+  private regionAccess = new Map<number, Map<number, number>>();
+
   // Stats tracking
   public stats = {
     cacheHits: 0,
@@ -391,7 +594,12 @@ export class SparseCache {
     bytesFromCache: 0,
     bytesFromNetwork: 0,
     validationChecks: 0,
-    validationRefreshes: 0
+    validationRefreshes: 0,
+    evictions: 0,
+    blocksEvicted: 0,
+    bytesEvicted: 0,
+    booksEvicted: 0,
+    corruptBlocks: 0
   };
 
   constructor(options: SparseCacheOptions = {}) {
@@ -401,6 +609,11 @@ export class SparseCache {
     this.validationIntervalMs = options.validationIntervalMs || 24 * 60 * 60 * 1000; // 24 hours
     this.maxCoalesceGap = options.maxCoalesceGap || 8192; // 8KB
     this.debug = options.debug || false;
+    this.offline = options.offline || false;
+    this.maxBytes = options.maxBytes || null;
+    this.maxBytesPerBook = options.maxBytesPerBook || null;
+    this.evictionRegionBlocks = Math.max(1, Math.floor((options.evictionRegionBytes || 64 * 1024) / this.blockSize));
+    this.evictionGraceMs = options.evictionGraceMs ?? 30 * 1000;
     this.upstream = new HttpUpstreamFetcher(options.baseUrl, this.debug);
     
     this._ensureCacheDir();
@@ -426,6 +639,14 @@ export class SparseCache {
     return path.join(this.cacheDir, `${bookId}.meta.json`);
   }
 
+  private checksumPath(bookId: number): string {
+    return path.join(this.cacheDir, `${bookId}.sums`);
+  }
+
+  private indexPath(bookId: number): string {
+    return path.join(this.cacheDir, `${bookId}.index.json`);
+  }
+
   private _ensureCacheDir(): void {
     if (!fs.existsSync(this.cacheDir)) {
       fs.mkdirSync(this.cacheDir, { recursive: true });
@@ -458,7 +679,7 @@ export class SparseCache {
   private saveMetadata(meta: CacheMetadata): void {
     const metaFile = this.metaPath(meta.bookId);
     try {
-      fs.writeFileSync(metaFile, JSON.stringify(meta, null, 2));
+      writeFileAtomic(metaFile, JSON.stringify(meta, null, 2));
       this.metadataCache.set(meta.bookId, meta);
     } catch (err) {
       this.log(`Failed to save metadata for ${meta.bookId}: ${(err as Error).message}`);
@@ -500,13 +721,110 @@ export class SparseCache {
   private saveBitmap(bookId: number, bitmap: Buffer): void {
     const bitmapFile = this.bitmapPath(bookId);
     try {
-      fs.writeFileSync(bitmapFile, bitmap);
+      writeFileAtomic(bitmapFile, bitmap);
       this.bitmapCache.set(bookId, bitmap);
     } catch (err) {
       this.log(`Failed to save bitmap for ${bookId}: ${(err as Error).message}`);
     }
   }
 
+  // ============================================================================
+  // Checksum Operations
+  // ============================================================================
+
+  private loadChecksums(bookId: number, totalBlocks: number): Buffer {
+    const cached = this.checksumCache.get(bookId);
+    if (cached) return cached;
+
+    const size = totalBlocks * 4;
+    const checksumFile = this.checksumPath(bookId);
+    if (fs.existsSync(checksumFile)) {
+      try {
+        const data = fs.readFileSync(checksumFile);
+        if (data.length === size) {
+          this.checksumCache.set(bookId, data);
+          return data;
+        }
+        this.log(`Checksum file size mismatch for ${bookId}, recreating`);
+      } catch (err) {
+        this.log(`Failed to load checksums for ${bookId}: ${(err as Error).message}`);
+      }
+    }
+
+    // Caches written before checksums existed start with nothing recorded
+    const sums = Buffer.alloc(size, 0);
+    this.checksumCache.set(bookId, sums);
+    return sums;
+  }
+
+  private saveChecksums(bookId: number, sums: Buffer): void {
+    try {
+      writeFileAtomic(this.checksumPath(bookId), sums);
+      this.checksumCache.set(bookId, sums);
+    } catch (err) {
+      this.log(`Failed to save checksums for ${bookId}: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Record checksums for block-aligned data written at start
+   */
+  private recordChecksums(sums: Buffer, start: number, data: Buffer): void {
+    const firstBlock = byteToBlock(start, this.blockSize);
+    for (let offset = 0; offset < data.length; offset += this.blockSize) {
+      const block = firstBlock + offset / this.blockSize;
+      if ((block + 1) * 4 > sums.length) break;
+      sums.writeUInt32LE(blockChecksum(data.subarray(offset, offset + this.blockSize)), block * 4);
+    }
+  }
+
+  /**
+   * Read [start, end] and check every cached block it touches.
+   * Returns the requested bytes and the indexes of blocks that failed.
+   */
+  private readVerifiedRange(
+    bookId: number,
+    meta: CacheMetadata,
+    start: number,
+    end: number
+  ): { data: Buffer | null; corrupt: number[] } {
+    const firstBlock = byteToBlock(start, this.blockSize);
+    const lastBlock = byteToBlock(end, this.blockSize);
+    const alignedStart = blockToByte(firstBlock, this.blockSize);
+    const alignedEnd = Math.min(blockToByte(lastBlock + 1, this.blockSize), meta.fileSize) - 1;
+
+    const aligned = this.readDataRange(bookId, alignedStart, alignedEnd);
+    if (!aligned) return { data: null, corrupt: [] };
+
+    const bitmap = this.loadBitmap(bookId, meta.fileSize);
+    const sums = this.loadChecksums(bookId, meta.totalBlocks);
+    const corrupt: number[] = [];
+    for (let block = firstBlock; block <= lastBlock; block++) {
+      if (!isBlockCached(bitmap, block)) continue;
+      const offset = blockToByte(block, this.blockSize) - alignedStart;
+      const blockData = aligned.subarray(offset, offset + this.blockSize);
+      if (!isBlockIntact(blockData, sums.readUInt32LE(block * 4))) {
+        corrupt.push(block);
+      }
+    }
+
+    return { data: aligned.subarray(start - alignedStart, end - alignedStart + 1), corrupt };
+  }
+
+  /**
+   * Forget blocks that failed verification so they are fetched again
+   */
+  private discardBlocks(bookId: number, meta: CacheMetadata, blocks: number[]): void {
+    let bitmap = this.loadBitmap(bookId, meta.fileSize);
+    for (const block of blocks) {
+      bitmap = clearBlockRangeCached(bitmap, block, block);
+    }
+    this.saveBitmap(bookId, bitmap);
+    this.saveMetadata({ ...(this.loadMetadata(bookId) || meta), blocksCached: countCachedBlocks(bitmap) });
+    this.stats.corruptBlocks += blocks.length;
+    this.log(`Discarded ${blocks.length} corrupt block(s) of book ${bookId}`);
+  }
+
   // ============================================================================
   // Data File Operations
   // ============================================================================
@@ -575,6 +893,12 @@ export class SparseCache {
   private async initializeBook(bookId: number): Promise<CacheMetadata | null> {
     const existingMeta = this.loadMetadata(bookId);
     
+    if (this.offline) {
+      // No upstream to validate against or learn a new book's size from
+      if (!existingMeta) throw new NotCachedError(bookId);
+      return existingMeta;
+    }
+    
     if (existingMeta) {
       // Check if validation needed
       const needsValidation = Date.now() - existingMeta.lastValidated > this.validationIntervalMs;
@@ -582,9 +906,15 @@ export class SparseCache {
       if (needsValidation) {
         const isValid = await this.validateBook(bookId, existingMeta);
         if (!isValid) {
-          // Cache invalidated - reinitialize
+          // Cache invalidated - reinitialize, keeping the pin
           await this.invalidate(bookId);
-          return this.initializeBook(bookId);
+          const freshMeta = await this.initializeBook(bookId);
+          if (freshMeta && existingMeta.pinned) {
+            const pinnedMeta: CacheMetadata = { ...freshMeta, pinned: true };
+            this.saveMetadata(pinnedMeta);
+            return pinnedMeta;
+          }
+          return freshMeta;
         }
       }
       
@@ -700,6 +1030,10 @@ export class SparseCache {
    * and fetching missing ranges from upstream
    */
   async getRange(bookId: number, start: number, end: number): Promise<Buffer> {
+    return this._getRange(bookId, start, end, false);
+  }
+
+  private async _getRange(bookId: number, start: number, end: number, isRetry: boolean): Promise<Buffer> {
     const meta = await this.initializeBook(bookId);
     
     if (!meta) {
@@ -720,6 +1054,7 @@ export class SparseCache {
     // Update access time
     const updatedMeta: CacheMetadata = { ...meta, lastAccessed: Date.now() };
     this.metadataCache.set(bookId, updatedMeta);
+    this.touchRegions(bookId, clampedStart, clampedEnd);
 
     // Load bitmap and find uncached ranges
     const bitmap = this.loadBitmap(bookId, meta.fileSize);
@@ -731,14 +1066,32 @@ export class SparseCache {
       this.maxCoalesceGap
     );
 
+    if (uncachedRanges.length > 0 && this.offline) {
+      const missing = findUncachedBlockRanges(bitmap, clampedStart, clampedEnd, this.blockSize, 0)
+        .map(r => ({ start: Math.max(r.start, clampedStart), end: Math.min(r.end, clampedEnd) }));
+      const nextCachedByte = findNextCachedByte(
+        bitmap,
+        byteToBlock(missing[0].end, this.blockSize) + 1,
+        meta.totalBlocks,
+        this.blockSize
+      );
+      this.stats.cacheMisses++;
+      throw new NotCachedError(bookId, missing, nextCachedByte);
+    }
+
     if (uncachedRanges.length > 0) {
       // Fetch missing ranges
       const coalesced = coalesceRanges(uncachedRanges, this.maxCoalesceGap);
-      await this.fetchAndStore(bookId, meta, bitmap, coalesced);
+      await this.fetchAndStore(bookId, meta, bitmap, coalesced, { start: clampedStart, end: clampedEnd });
     }
 
-    // Read entire range from cache
-    const data = this.readDataRange(bookId, clampedStart, clampedEnd);
+    // Read entire range from cache, checking each block against its checksum
+    const { data, corrupt } = this.readVerifiedRange(bookId, meta, clampedStart, clampedEnd);
+    if (data && corrupt.length > 0 && !isRetry) {
+      // Torn write or disk damage: drop the bad blocks and fetch them again
+      this.discardBlocks(bookId, meta, corrupt);
+      return this._getRange(bookId, start, end, true);
+    }
     if (data) {
       // Calculate cache vs network bytes
       let cachedBytes = (clampedEnd - clampedStart + 1);
@@ -758,6 +1111,9 @@ export class SparseCache {
     }
 
     // Cache read failed - direct fetch
+    if (this.offline) {
+      throw new NotCachedError(bookId, [{ start: clampedStart, end: clampedEnd }]);
+    }
     this.stats.cacheMisses++;
     this.stats.bytesFromNetwork += (clampedEnd - clampedStart + 1);
     return this.upstream.getRange(bookId, clampedStart, clampedEnd);
@@ -770,10 +1126,13 @@ export class SparseCache {
     bookId: number,
     meta: CacheMetadata,
     bitmap: Buffer,
-    ranges: ByteRange[]
+    ranges: ByteRange[],
+    requested: ByteRange
   ): Promise<void> {
     let updatedBitmap = bitmap;
     let totalFetched = 0;
+    let fetchedRanges = 0;
+    const sums = this.loadChecksums(bookId, meta.totalBlocks);
 
     for (const range of ranges) {
       // Clamp to file size
@@ -794,11 +1153,16 @@ export class SparseCache {
           
           // Write to cache file
           if (this.writeDataRange(bookId, range.start, data)) {
-            // Update bitmap
+            this.recordChecksums(sums, range.start, data);
+
+            // Update the latest bitmap so concurrent fetches (e.g. a pin job
+            // alongside reads) don't drop each other's blocks
             const startBlock = byteToBlock(range.start, this.blockSize);
             const endBlock = byteToBlock(clampedEnd, this.blockSize);
-            updatedBitmap = markBlockRangeCached(updatedBitmap, startBlock, endBlock);
+            updatedBitmap = markBlockRangeCached(this.loadBitmap(bookId, meta.fileSize), startBlock, endBlock);
+            this.bitmapCache.set(bookId, updatedBitmap);
             totalFetched += data.length;
+            fetchedRanges++;
           }
         } finally {
           this.pendingFetches.delete(fetchKey);
@@ -809,19 +1173,223 @@ export class SparseCache {
       }
     }
 
-    if (totalFetched > 0) {
+    if (fetchedRanges > 0) {
       this.stats.bytesFromNetwork += totalFetched;
       
-      // Save updated bitmap
+      // Checksums before bitmap: a block is only ever marked once it can be verified
+      this.saveChecksums(bookId, sums);
       this.saveBitmap(bookId, updatedBitmap);
       
-      // Update metadata
+      // Update metadata (re-read so a concurrent pin isn't lost)
       const updatedMeta: CacheMetadata = {
-        ...meta,
+        ...(this.loadMetadata(bookId) || meta),
         blocksCached: countCachedBlocks(updatedBitmap),
         lastAccessed: Date.now()
       };
       this.saveMetadata(updatedMeta);
+
+      this.enforceQuota(bookId, requested);
+    }
+  }
+
+  // ============================================================================
+  // Quotas & Eviction
+  // ============================================================================
+
+  private regionOf(byteOffset: number): number {
+    return Math.floor(byteToBlock(byteOffset, this.blockSize) / this.evictionRegionBlocks);
+  }
+
+  /**
+   * Record a read so eviction prefers regions nobody has looked at lately
+   */
+  private touchRegions(bookId: number, start: number, end: number): void {
+    let regions = this.regionAccess.get(bookId);
+    if (!regions) {
+      regions = new Map();
+      this.regionAccess.set(bookId, regions);
+    }
+    const now = Date.now();
+    for (let region = this.regionOf(start); region <= this.regionOf(end); region++) {
+      regions.set(region, now);
+    }
+  }
+
+  private cachedBytesOf(meta: CacheMetadata): number {
+    return Math.min(meta.blocksCached * this.blockSize, meta.fileSize);
+  }
+
+  /**
+   * Total bytes held across all cached books
+   */
+  getCachedBytes(): number {
+    let total = 0;
+    for (const bookId of this.listCachedBooks()) {
+      const meta = this.loadMetadata(bookId);
+      if (meta) total += this.cachedBytesOf(meta);
+    }
+    return total;
+  }
+
+  /**
+   * Bring the cache back under its per-book cap and total quota.
+   * Runs after every upstream fetch. Pinned books are never touched, and
+   * the range that triggered the fetch is always kept.
+   */
+  private enforceQuota(activeBookId: number, requested: ByteRange): void {
+    if (this.maxBytes === null && this.maxBytesPerBook === null) return;
+
+    const protectedRegions = { start: this.regionOf(requested.start), end: this.regionOf(requested.end) };
+    let evicted = 0;
+
+    if (this.maxBytesPerBook !== null) {
+      const meta = this.loadMetadata(activeBookId);
+      if (meta && !meta.pinned) {
+        const excess = this.cachedBytesOf(meta) - this.maxBytesPerBook;
+        if (excess > 0) {
+          evicted += this.evictColdBlocks(activeBookId, excess, protectedRegions);
+        }
+      }
+    }
+
+    if (this.maxBytes !== null) {
+      let excess = this.getCachedBytes() - this.maxBytes;
+      if (excess > 0) {
+        // Least recently used books first; the book being read goes last
+        const candidates = this.listCachedBooks()
+          .map(id => ({ id, meta: this.loadMetadata(id) }))
+          .filter((x): x is { id: number; meta: CacheMetadata } => x.meta !== null && !x.meta.pinned)
+          .sort((a, b) => {
+            if (a.id === activeBookId) return 1;
+            if (b.id === activeBookId) return -1;
+            return a.meta.lastAccessed - b.meta.lastAccessed;
+          });
+
+        for (const { id } of candidates) {
+          if (excess <= 0) break;
+          const freed = this.evictColdBlocks(id, excess, id === activeBookId ? protectedRegions : null);
+          excess -= freed;
+          evicted += freed;
+        }
+      }
+    }
+
+    if (evicted > 0) {
+      this.stats.evictions++;
+      this.log(`Evicted ${evicted} bytes to stay within quota`);
+    }
+  }
+
+  /**
+   * Drop the coldest regions of a book until at least bytesWanted are freed.
+   * Cleared blocks are punched out of the data file; a book left with no
+   * blocks is removed entirely. Returns the bytes freed.
+   */
+  private evictColdBlocks(
+    bookId: number,
+    bytesWanted: number,
+    protectedRegions: { start: number; end: number } | null
+  ): number {
+    const meta = this.loadMetadata(bookId);
+    if (!meta || meta.blocksCached === 0) return 0;
+
+    const bitmap = this.loadBitmap(bookId, meta.fileSize);
+    const access = this.regionAccess.get(bookId) || new Map<number, number>();
+    const hotSince = Date.now() - this.evictionGraceMs;
+    const regionCount = Math.ceil(meta.totalBlocks / this.evictionRegionBlocks);
+
+    // Cached regions that are neither protected nor recently read, coldest first
+    const regions: Array<{ region: number; lastRead: number }> = [];
+    for (let region = 0; region < regionCount; region++) {
+      if (protectedRegions && region >= protectedRegions.start && region <= protectedRegions.end) continue;
+      const lastRead = access.get(region) ?? 0;
+      if (this.evictionGraceMs > 0 && lastRead > hotSince) continue;
+      const firstBlock = region * this.evictionRegionBlocks;
+      const lastBlock = Math.min(firstBlock + this.evictionRegionBlocks, meta.totalBlocks) - 1;
+      for (let block = firstBlock; block <= lastBlock; block++) {
+        if (isBlockCached(bitmap, block)) {
+          regions.push({ region, lastRead });
+          break;
+        }
+      }
+    }
+    regions.sort((a, b) => a.lastRead - b.lastRead || a.region - b.region);
+
+    let updatedBitmap = bitmap;
+    for (const { region } of regions) {
+      if (meta.blocksCached - countCachedBlocks(updatedBitmap) >= Math.ceil(bytesWanted / this.blockSize)) break;
+      const firstBlock = region * this.evictionRegionBlocks;
+      const lastBlock = Math.min(firstBlock + this.evictionRegionBlocks, meta.totalBlocks) - 1;
+      updatedBitmap = clearBlockRangeCached(updatedBitmap, firstBlock, lastBlock);
+      access.delete(region);
+    }
+
+    const remainingBlocks = countCachedBlocks(updatedBitmap);
+    const blocksFreed = meta.blocksCached - remainingBlocks;
+    if (blocksFreed <= 0) return 0;
+
+    const bytesFreed = this.cachedBytesOf(meta) - Math.min(remainingBlocks * this.blockSize, meta.fileSize);
+    this.stats.blocksEvicted += blocksFreed;
+    this.stats.bytesEvicted += bytesFreed;
+
+    if (remainingBlocks === 0 && !protectedRegions) {
+      this.log(`Evicting book ${bookId} entirely`);
+      this.removeBookFiles(bookId);
+      this.stats.booksEvicted++;
+      return bytesFreed;
+    }
+
+    // Bitmap first: a block that is no longer marked is never read back
+    this.saveBitmap(bookId, updatedBitmap);
+    this.saveMetadata({ ...meta, blocksCached: remainingBlocks });
+    this.punchHoles(bookId, meta.fileSize, updatedBitmap);
+    this.log(`Evicted ${blocksFreed} cold blocks from book ${bookId}`);
+    return bytesFreed;
+  }
+
+  /**
+   * Release disk space held by uncached blocks. Node has no
+   * fallocate(PUNCH_HOLE), so the sparse file is rebuilt with only the
+   * cached runs written and swapped into place.
+   */
+  private punchHoles(bookId: number, fileSize: number, bitmap: Buffer): boolean {
+    const dataFile = this.dataPath(bookId);
+    const tempFile = `${dataFile}.tmp`;
+    const totalBlocks = Math.ceil(fileSize / this.blockSize);
+
+    try {
+      const src = fs.openSync(dataFile, 'r');
+      const dst = fs.openSync(tempFile, 'w');
+      try {
+        fs.ftruncateSync(dst, fileSize);
+        let block = 0;
+        while (block < totalBlocks) {
+          if (!isBlockCached(bitmap, block)) {
+            block++;
+            continue;
+          }
+          let runEnd = block;
+          while (runEnd + 1 < totalBlocks && isBlockCached(bitmap, runEnd + 1)) runEnd++;
+
+          const start = blockToByte(block, this.blockSize);
+          const end = Math.min(blockToByte(runEnd + 1, this.blockSize), fileSize);
+          const buffer = Buffer.alloc(end - start);
+          fs.readSync(src, buffer, 0, buffer.length, start);
+          fs.writeSync(dst, buffer, 0, buffer.length, start);
+          block = runEnd + 1;
+        }
+      } finally {
+        fs.closeSync(src);
+        fs.closeSync(dst);
+      }
+      fs.renameSync(tempFile, dataFile);
+      return true;
+    } catch (err) {
+      this.log(`Failed to punch holes for ${bookId}: ${(err as Error).message}`);
+      try {
+        if (fs.existsSync(tempFile)) fs.unlinkSync(tempFile);
+      } catch {}
+      return false;
     }
   }
 
@@ -831,12 +1399,21 @@ export class SparseCache {
   async invalidate(bookId: number): Promise<void> {
     this.log(`Invalidating cache for book ${bookId}`);
     
+    this.removeBookFiles(bookId);
+  }
+
+  private removeBookFiles(bookId: number): void {
     // Clear memory caches
     this.metadataCache.delete(bookId);
     this.bitmapCache.delete(bookId);
+    this.checksumCache.delete(bookId);
+    this.regionAccess.delete(bookId);
 
     // Remove files
-    const files = [this.dataPath(bookId), this.bitmapPath(bookId), this.metaPath(bookId)];
+    const files = [
+      this.dataPath(bookId), this.bitmapPath(bookId), this.checksumPath(bookId),
+      this.metaPath(bookId), this.indexPath(bookId)
+    ];
     for (const file of files) {
       try {
         if (fs.existsSync(file)) {
@@ -854,6 +1431,7 @@ export class SparseCache {
   async forceValidation(bookId: number): Promise<boolean> {
     const meta = this.loadMetadata(bookId);
     if (!meta) return false;
+    if (this.offline) return true;
     
     return this.validateBook(bookId, meta);
   }
@@ -880,10 +1458,33 @@ export class SparseCache {
       lastValidated: new Date(meta.lastValidated),
       lastAccessed: new Date(meta.lastAccessed),
       isStale: Date.now() - meta.lastValidated > this.validationIntervalMs,
-      etag: meta.etag
+      etag: meta.etag,
+      pinned: meta.pinned === true
     };
   }
 
+  /**
+   * Get the version of a book's cached text, or null if it isn't cached
+   */
+  getContentKey(bookId: number): CacheContentKey | null {
+    const meta = this.loadMetadata(bookId);
+    if (!meta) return null;
+    return {
+      fileSize: meta.fileSize,
+      etag: meta.etag,
+      lastModified: meta.lastModified,
+      createdAt: meta.createdAt
+    };
+  }
+
+  /**
+   * Where a book's word index is kept. It is deleted with the rest of the
+   * book's files, so invalidating or replacing the book drops it too.
+   */
+  getIndexPath(bookId: number): string {
+    return this.indexPath(bookId);
+  }
+
   /**
    * Get aggregate cache statistics
    */
@@ -895,11 +1496,29 @@ export class SparseCache {
     hitRate: number;
     validationChecks: number;
     validationRefreshes: number;
+    evictions: number;
+    blocksEvicted: number;
+    bytesEvicted: number;
+    booksEvicted: number;
+    corruptBlocks: number;
+    quota: {
+      maxBytes: number | null;
+      maxBytesPerBook: number | null;
+      usedBytes: number;
+      usedPercent: number | null;
+    };
   } {
     const total = this.stats.cacheHits + this.stats.cacheMisses;
+    const usedBytes = this.getCachedBytes();
     return {
       ...this.stats,
-      hitRate: total > 0 ? this.stats.cacheHits / total : 0
+      hitRate: total > 0 ? this.stats.cacheHits / total : 0,
+      quota: {
+        maxBytes: this.maxBytes,
+        maxBytesPerBook: this.maxBytesPerBook,
+        usedBytes,
+        usedPercent: this.maxBytes ? (usedBytes / this.maxBytes) * 100 : null
+      }
     };
   }
 
@@ -940,12 +1559,18 @@ export class SparseCache {
       bytesFromCache: 0,
       bytesFromNetwork: 0,
       validationChecks: 0,
-      validationRefreshes: 0
+      validationRefreshes: 0,
+      evictions: 0,
+      blocksEvicted: 0,
+      bytesEvicted: 0,
+      booksEvicted: 0,
+      corruptBlocks: 0
     };
   }
 
   /**
-   * Prune old cache entries by LRU
+   * Prune old cache entries by LRU. Pinned books are never removed,
+   * though they still count towards maxBooks.
    */
   async pruneByLRU(maxBooks: number): Promise<number[]> {
     const books = this.listCachedBooks();
@@ -957,8 +1582,11 @@ export class SparseCache {
       .filter((x): x is { id: number; meta: CacheMetadata } => x.meta !== null)
       .sort((a, b) => a.meta.lastAccessed - b.meta.lastAccessed);
 
-    // Remove oldest entries
-    const toRemove = withMeta.slice(0, withMeta.length - maxBooks).map(x => x.id);
+    // Remove oldest unpinned entries
+    const toRemove = withMeta
+      .filter(x => !x.meta.pinned)
+      .slice(0, Math.max(0, withMeta.length - maxBooks))
+      .map(x => x.id);
     
     for (const bookId of toRemove) {
       await this.invalidate(bookId);
@@ -967,6 +1595,390 @@ export class SparseCache {
     return toRemove;
   }
 
+  /**
+   * List cached books that have at least one readable block
+   */
+  listReadableBooks(): number[] {
+    return this.listCachedBooks().filter(bookId => {
+      const meta = this.loadMetadata(bookId);
+      return meta !== null && countCachedBlocks(this.loadBitmap(bookId, meta.fileSize)) > 0;
+    });
+  }
+
+  // ============================================================================
+  // Integrity
+  // ============================================================================
+
+  /**
+   * Check every cached block of a book against its checksum.
+   * Returns null if the book isn't cached.
+   */
+  verify(bookId: number): VerifyReport | null {
+    const meta = this.loadMetadata(bookId);
+    if (!meta) return null;
+    return this._verify(bookId, meta).report;
+  }
+
+  private _verify(bookId: number, meta: CacheMetadata): { report: VerifyReport; corrupt: number[]; unverified: number[] } {
+    const bitmap = this.loadBitmap(bookId, meta.fileSize);
+    const sums = this.loadChecksums(bookId, meta.totalBlocks);
+    const corrupt: number[] = [];
+    const unverified: number[] = [];
+    let blocksChecked = 0;
+
+    let sizeMismatch = false;
+    try {
+      sizeMismatch = fs.statSync(this.dataPath(bookId)).size !== meta.fileSize;
+    } catch {
+      sizeMismatch = true;
+    }
+
+    for (let block = 0; block < meta.totalBlocks; block++) {
+      if (!isBlockCached(bitmap, block)) continue;
+      blocksChecked++;
+      if (sizeMismatch) {
+        corrupt.push(block);
+        continue;
+      }
+
+      const start = blockToByte(block, this.blockSize);
+      const end = Math.min(start + this.blockSize, meta.fileSize) - 1;
+      const data = this.readDataRange(bookId, start, end);
+      const expected = sums.readUInt32LE(block * 4);
+      if (!data || !isBlockIntact(data, expected)) {
+        corrupt.push(block);
+      } else if (expected === 0) {
+        unverified.push(block);
+      }
+    }
+
+    const corruptRanges = coalesceRanges(
+      corrupt.map(block => ({
+        start: blockToByte(block, this.blockSize),
+        end: Math.min(blockToByte(block + 1, this.blockSize), meta.fileSize) - 1
+      })),
+      0
+    );
+
+    return {
+      report: {
+        bookId,
+        ok: corrupt.length === 0 && !sizeMismatch,
+        blocksChecked,
+        corruptBlocks: corrupt.length,
+        corruptRanges,
+        unverifiedBlocks: unverified.length,
+        sizeMismatch
+      },
+      corrupt,
+      unverified
+    };
+  }
+
+  /**
+   * Verify a book, discard corrupt blocks and fetch them again.
+   * Blocks without a recorded checksum that look sane get one recorded.
+   * Offline, corrupt blocks are discarded but can't be replaced.
+   */
+  async repair(bookId: number): Promise<VerifyReport | null> {
+    const meta = this.loadMetadata(bookId);
+    if (!meta) return null;
+
+    const { report, corrupt, unverified } = this._verify(bookId, meta);
+
+    if (unverified.length > 0) {
+      const sums = this.loadChecksums(bookId, meta.totalBlocks);
+      for (const block of unverified) {
+        const start = blockToByte(block, this.blockSize);
+        const data = this.readDataRange(bookId, start, Math.min(start + this.blockSize, meta.fileSize) - 1);
+        if (data) sums.writeUInt32LE(blockChecksum(data), block * 4);
+      }
+      this.saveChecksums(bookId, sums);
+    }
+
+    if (corrupt.length === 0) {
+      return { ...report, repairedBlocks: 0 };
+    }
+
+    if (report.sizeMismatch) {
+      this.ensureDataFile(bookId, meta.fileSize);
+    }
+    this.discardBlocks(bookId, meta, corrupt);
+
+    if (this.offline) {
+      return { ...report, repairedBlocks: 0 };
+    }
+
+    const freshMeta = this.loadMetadata(bookId) || meta;
+    await this.fetchAndStore(
+      bookId,
+      freshMeta,
+      this.loadBitmap(bookId, freshMeta.fileSize),
+      report.corruptRanges,
+      report.corruptRanges[0]
+    );
+    const after = this._verify(bookId, this.loadMetadata(bookId) || freshMeta).report;
+    return { ...report, ok: after.ok, repairedBlocks: corrupt.length - after.corruptBlocks };
+  }
+
+  // ============================================================================
+  // Export & Import
+  // ============================================================================
+
+  getBlockSize(): number {
+    return this.blockSize;
+  }
+
+  /**
+   * Snapshot a book's cache files for an export archive
+   */
+  exportBook(bookId: number): CacheBookExport | null {
+    const meta = this.loadMetadata(bookId);
+    if (!meta) return null;
+
+    let data: Buffer;
+    try {
+      data = fs.readFileSync(this.dataPath(bookId));
+    } catch (err) {
+      this.log(`Failed to read data for export of ${bookId}: ${(err as Error).message}`);
+      return null;
+    }
+    if (data.length !== meta.fileSize) return null;
+
+    const sums = this.loadChecksums(bookId, meta.totalBlocks);
+    return {
+      meta,
+      bitmap: this.loadBitmap(bookId, meta.fileSize),
+      sums: sums.some(b => b !== 0) ? sums : null,
+      data
+    };
+  }
+
+  /**
+   * Merge an exported book into this cache. Blocks we lack are copied in if
+   * they pass verification. If the two copies are different versions of the
+   * text (size, ETag or Last-Modified differ), the more recently validated
+   * one wins outright.
+   */
+  importBook(incoming: CacheBookExport): CacheImportResult {
+    const inMeta = incoming.meta;
+    const bookId = inMeta.bookId;
+    const skipped = (reason: string): CacheImportResult => ({ bookId, action: 'skipped', blocksAdded: 0, blocksRejected: 0, reason });
+
+    const totalBlocks = Math.ceil(inMeta.fileSize / this.blockSize);
+    if (
+      incoming.data.length !== inMeta.fileSize ||
+      incoming.bitmap.length !== bitmapSize(inMeta.fileSize, this.blockSize) ||
+      (incoming.sums && incoming.sums.length !== totalBlocks * 4)
+    ) {
+      return skipped('malformed entry');
+    }
+
+    const local = this.loadMetadata(bookId);
+    let action: CacheImportResult['action'] = 'added';
+    if (local) {
+      const sameVersion = local.fileSize === inMeta.fileSize &&
+        !(local.etag && inMeta.etag && local.etag !== inMeta.etag) &&
+        !(local.lastModified && inMeta.lastModified && local.lastModified !== inMeta.lastModified);
+      if (sameVersion) {
+        action = 'merged';
+      } else if (inMeta.lastValidated > local.lastValidated) {
+        this.removeBookFiles(bookId);
+        action = 'replaced';
+      } else {
+        return skipped('local copy is a newer version');
+      }
+    }
+
+    const base: CacheMetadata = action === 'merged' && local
+      ? local
+      : { ...inMeta, totalBlocks, blocksCached: 0, lastAccessed: Date.now() };
+    if (!this.ensureDataFile(bookId, inMeta.fileSize)) {
+      return skipped('could not create data file');
+    }
+
+    const bitmap = Buffer.from(this.loadBitmap(bookId, inMeta.fileSize));
+    const sums = Buffer.from(this.loadChecksums(bookId, totalBlocks));
+    let blocksAdded = 0;
+    let blocksRejected = 0;
+    let runStart: number | null = null;
+
+    const flushRun = (endBlock: number): void => {
+      if (runStart === null) return;
+      const start = blockToByte(runStart, this.blockSize);
+      const end = Math.min(blockToByte(endBlock + 1, this.blockSize), inMeta.fileSize);
+      if (!this.writeDataRange(bookId, start, incoming.data.subarray(start, end))) {
+        for (let b = runStart; b <= endBlock; b++) {
+          bitmap[Math.floor(b / 8)] &= ~(1 << (b % 8));
+        }
+        blocksAdded -= endBlock - runStart + 1;
+      }
+      runStart = null;
+    };
+
+    for (let block = 0; block < totalBlocks; block++) {
+      const wanted = isBlockCached(incoming.bitmap, block) && !isBlockCached(bitmap, block);
+      if (wanted) {
+        const start = blockToByte(block, this.blockSize);
+        const blockData = incoming.data.subarray(start, Math.min(start + this.blockSize, inMeta.fileSize));
+        const expected = incoming.sums ? incoming.sums.readUInt32LE(block * 4) : 0;
+        if (isBlockIntact(blockData, expected)) {
+          sums.writeUInt32LE(expected || blockChecksum(blockData), block * 4);
+          bitmap[Math.floor(block / 8)] |= 1 << (block % 8);
+          if (runStart === null) runStart = block;
+          blocksAdded++;
+          continue;
+        }
+        blocksRejected++;
+      }
+      flushRun(block - 1);
+    }
+    flushRun(totalBlocks - 1);
+
+    this.saveChecksums(bookId, sums);
+    this.saveBitmap(bookId, bitmap);
+    this.saveMetadata({
+      ...base,
+      etag: base.etag || inMeta.etag,
+      lastModified: base.lastModified || inMeta.lastModified,
+      lastValidated: Math.max(base.lastValidated, inMeta.lastValidated),
+      blocksCached: countCachedBlocks(bitmap),
+      pinned: local?.pinned === true || inMeta.pinned === true
+    });
+
+    this.log(`Imported book ${bookId} (${action}, +${blocksAdded} blocks)`);
+    return { bookId, action, blocksAdded, blocksRejected };
+  }
+
+  // ============================================================================
+  // Pinning & Prefetch
+  // ============================================================================
+
+  /**
+   * Mark a book as pinned (or not). Pinned books are exempt from LRU pruning.
+   * Returns false if the book has no cache entry yet.
+   */
+  setPinned(bookId: number, pinned: boolean): boolean {
+    const meta = this.loadMetadata(bookId);
+    if (!meta) return false;
+    this.saveMetadata({ ...meta, pinned });
+    return true;
+  }
+
+  isPinned(bookId: number): boolean {
+    return this.loadMetadata(bookId)?.pinned === true;
+  }
+
+  listPinnedBooks(): number[] {
+    return this.listCachedBooks().filter(bookId => this.isPinned(bookId));
+  }
+
+  /**
+   * List the uncached byte ranges of a whole book, coalesced and then split
+   * into requests of at most maxRangeBytes
+   */
+  async getMissingRanges(bookId: number, maxRangeBytes = 256 * 1024): Promise<Array<{ start: number; end: number }>> {
+    const meta = await this.initializeBook(bookId);
+    if (!meta) {
+      throw new Error(`Cache unavailable for book ${bookId}`);
+    }
+    if (meta.fileSize === 0) return [];
+
+    const bitmap = this.loadBitmap(bookId, meta.fileSize);
+    const uncached = findUncachedBlockRanges(bitmap, 0, meta.fileSize - 1, this.blockSize, this.maxCoalesceGap);
+    return coalesceRanges(uncached, this.maxCoalesceGap)
+      .flatMap(range => splitRange(range, maxRangeBytes, this.blockSize))
+      .map(range => ({ start: range.start, end: Math.min(range.end, meta.fileSize - 1) }));
+  }
+
+  /**
+   * List the cached byte ranges of a book, adjacent blocks merged.
+   * Empty if the book isn't cached.
+   */
+  getCachedRanges(bookId: number): Array<{ start: number; end: number }> {
+    const meta = this.loadMetadata(bookId);
+    if (!meta) return [];
+
+    const bitmap = this.loadBitmap(bookId, meta.fileSize);
+    return findCachedBlockRanges(bitmap, meta.totalBlocks, this.blockSize)
+      .map(range => ({ start: range.start, end: Math.min(range.end, meta.fileSize - 1) }));
+  }
+
+  /**
+   * Read a byte range from cached blocks only: no validation against
+   * upstream and no fetching, even when online. Throws NotCachedError if a
+   * block in the range is missing or fails its checksum.
+   */
+  readCachedRange(bookId: number, start: number, end: number): Buffer {
+    const meta = this.loadMetadata(bookId);
+    if (!meta) throw new NotCachedError(bookId);
+
+    const clampedEnd = Math.min(end, meta.fileSize - 1);
+    const clampedStart = Math.max(start, 0);
+    if (clampedStart > clampedEnd) return Buffer.alloc(0);
+
+    const bitmap = this.loadBitmap(bookId, meta.fileSize);
+    const missing = findUncachedBlockRanges(bitmap, clampedStart, clampedEnd, this.blockSize, 0);
+    if (missing.length > 0) {
+      this.stats.cacheMisses++;
+      throw new NotCachedError(bookId, missing.map(r => ({
+        start: Math.max(r.start, clampedStart),
+        end: Math.min(r.end, clampedEnd)
+      })));
+    }
+
+    const { data, corrupt } = this.readVerifiedRange(bookId, meta, clampedStart, clampedEnd);
+    if (corrupt.length > 0) this.discardBlocks(bookId, meta, corrupt);
+    if (!data || corrupt.length > 0) {
+      throw new NotCachedError(bookId, [{ start: clampedStart, end: clampedEnd }]);
+    }
+
+    this.touchRegions(bookId, clampedStart, clampedEnd);
+    this.stats.cacheHits++;
+    this.stats.bytesFromCache += data.length;
+    return data;
+  }
+
+  /**
+   * Fill any uncached blocks in a range without reading the data back.
+   * Returns the number of bytes fetched from upstream.
+   */
+  async prefetchRange(bookId: number, start: number, end: number): Promise<number> {
+    const meta = await this.initializeBook(bookId);
+    if (!meta) {
+      throw new Error(`Cache unavailable for book ${bookId}`);
+    }
+
+    const clampedEnd = Math.min(end, meta.fileSize - 1);
+    const clampedStart = Math.max(start, 0);
+    if (clampedStart > clampedEnd) return 0;
+
+    const bitmap = this.loadBitmap(bookId, meta.fileSize);
+    const uncached = findUncachedBlockRanges(bitmap, clampedStart, clampedEnd, this.blockSize, this.maxCoalesceGap);
+    if (uncached.length === 0) return 0;
+    if (this.offline) {
+      throw new NotCachedError(bookId, uncached);
+    }
+
+    const before = this.stats.bytesFromNetwork;
+    await this.fetchAndStore(bookId, meta, bitmap, coalesceRanges(uncached, this.maxCoalesceGap), {
+      start: clampedStart,
+      end: clampedEnd
+    });
+    return this.stats.bytesFromNetwork - before;
+  }
+
+  /**
+   * Switch offline mode on or off
+   */
+  setOffline(offline: boolean): void {
+    this.offline = offline;
+  }
+
+  isOffline(): boolean {
+    return this.offline;
+  }
+
   /**
    * Set a custom upstream fetcher (useful for testing or mirror integration)
    */
@@ -1003,7 +2015,12 @@ export const _internal = {
   isBlockCached,
   markBlockCached,
   markBlockRangeCached,
+  clearBlockRangeCached,
   countCachedBlocks,
+  crc32,
   findUncachedBlockRanges,
+  findCachedBlockRanges,
+  findNextCachedByte,
+  splitRange,
   coalesceRanges
 };
@@ -5,7 +5,7 @@
 
 import { CatalogManager } from './catalog-manager.js';
 import { listBookmarks, saveBookmark } from './bookmarks.js';
-import type { Position, SearchResult, BookmarkInfo, FetcherStats } from './types.js';
+import type { Position, SearchResult, BookmarkInfo, FetcherStats, TextSource, ChunkMode, ScreenSize } from './types.js';
 
 // ANSI escape codes
 const ANSI = {
@@ -36,6 +36,8 @@ const ANSI = {
 export interface TerminalUIOptions {
   showChrome?: boolean;
   bookId?: number;
+  /** Search and book info use the on-disk catalog only */
+  offline?: boolean;
 }
 
 export interface AutoReadState {
@@ -56,6 +58,8 @@ export class TerminalUI {
   public bookId: number;
   public bookTitle?: string;
   public bookAuthor?: string;
+  /** Set when reading a local file or URL instead of a Gutenberg book */
+  public source: TextSource | null = null;
   
   private catalog: CatalogManager;
   
@@ -77,13 +81,15 @@ export class TerminalUI {
   // Debug mode
   public showDebug = false;
   
-  // Current chunk size (for display)
+  // Current chunk size and mode (for display)
   public chunkSize = 200;
+  public chunkMode: ChunkMode = 'words';
   
   constructor(options: TerminalUIOptions = {}) {
     this.showChrome = options.showChrome !== false;
     this.bookId = options.bookId ?? 0;
     this.catalog = new CatalogManager();
+    this.catalog.setOffline(options.offline === true);
   }
   
   private write(text: string): void {
@@ -96,6 +102,22 @@ export class TerminalUI {
       cols: process.stdout.columns || 80
     };
   }
+
+  /**
+   * Character cells the book text is drawn in, for screenful chunks
+   */
+  textArea(): ScreenSize {
+    const { rows, cols } = this.getSize();
+    if (!this.showChrome) return { columns: cols, rows: rows - 1 };
+    // Header, book info, status and controls, and a banner line kept free
+    return { columns: cols - 1, rows: Math.max(1, rows - 6) };
+  }
+
+  private chunkLabel(): string {
+    if (this.chunkMode === 'screenful') return 'screen';
+    if (this.chunkMode === 'words') return `${this.chunkSize}w`;
+    return `${this.chunkMode} ~${this.chunkSize}w`;
+  }
   
   private clearScreen(): void {
     if (typeof console.clear === 'function') {
@@ -131,10 +153,11 @@ export class TerminalUI {
     
     // Header
     const wordRange = `${position.wordIndex}-${position.wordIndex + position.actualCount - 1}`;
-    let header = `${ANSI.cyan}[Book ${this.bookId}]${ANSI.reset} `;
+    const label = this.source ? this.source.id : `Book ${this.bookId}`;
+    let header = `${ANSI.cyan}[${label}]${ANSI.reset} `;
     header += `${ANSI.gray}Words ${wordRange}${ANSI.reset} `;
     header += `${ANSI.yellow}${position.percent}%${ANSI.reset} `;
-    header += `${ANSI.cyan}[${this.chunkSize}w]${ANSI.reset}`;
+    header += `${ANSI.cyan}[${this.chunkLabel()}]${ANSI.reset}`;
     
     console.log(header);
     
@@ -262,6 +285,8 @@ export class TerminalUI {
     console.log('  s a (dn/lt) Move backward');
     console.log('  PgUp/PgDn   Jump 10%');
     console.log('  g           Go to percent');
+    console.log('  n p         Next / previous chapter');
+    console.log('  < >         Back / forward through reading trail');
     console.log('  [ ]         Adjust chunk size\n');
     console.log(`${ANSI.bold}Auto-Read${ANSI.reset}`);
     console.log('  Space       Toggle auto-read');
@@ -334,7 +359,7 @@ export class TerminalUI {
   async showBookmarks(
     keyboard: { prompt: (msg: string) => Promise<string> },
     currentPosition?: Position
-  ): Promise<{ bookId: number; position: number } | null> {
+  ): Promise<{ bookId: number; position: number; anchor?: string } | null> {
     this.clearScreen();
     console.log(`${ANSI.inverse} Bookmarks ${ANSI.reset}\n`);
     
@@ -376,13 +401,13 @@ export class TerminalUI {
     const num = parseInt(choice, 10);
     if (num >= 1 && num <= entries.length) {
       const info = entries[num - 1][1];
-      return { bookId: info.bookId, position: info.position };
+      return { bookId: info.bookId, position: info.position, anchor: info.anchor };
     }
     
     return null;
   }
   
-  quickSaveBookmark(position: Position): string {
+  quickSaveBookmark(position: Position, anchor?: string): string {
     const title = this.bookTitle || `Book ${this.bookId}`;
     const now = new Date();
     const timeStr = now.toLocaleString('en-US', {
@@ -402,6 +427,7 @@ export class TerminalUI {
       author: this.bookAuthor,
       chunkSize: this.chunkSize
     };
+    if (anchor) info.anchor = anchor;
     
     saveBookmark(name, info);
     return name;
@@ -449,7 +475,7 @@ export class TerminalUI {
   // Status Messages
   // ============================================================================
   
-  showLoading(bookId: number): void {
+  showLoading(bookId: number | string): void {
     if (this.showChrome) {
       console.log(`\n${ANSI.cyan}Loading book ${bookId}...${ANSI.reset}\n`);
     }
@@ -551,7 +577,9 @@ export class TerminalUI {
     
     // Build the curl command
     const byteRange = `${position.byteStart}-${position.byteEnd}`;
-    const url = `https://www.gutenberg.org/cache/epub/${this.bookId}/pg${this.bookId}.txt`;
+    const url = this.source
+      ? this.source.location
+      : `https://www.gutenberg.org/cache/epub/${this.bookId}/pg${this.bookId}.txt`;
     const curlCmd = `curl -s -r ${byteRange} "${url}"`;
     
     // Show book info
@@ -561,6 +589,9 @@ export class TerminalUI {
     }
     console.log(`${ANSI.cyan}Position:${ANSI.reset} ${position.percent}`);
     console.log(`${ANSI.cyan}Bytes:${ANSI.reset} ${position.byteStart} - ${position.byteEnd}`);
+    if (position.wordIndexExact) {
+      console.log(`${ANSI.cyan}Word:${ANSI.reset} ${position.wordIndex.toLocaleString('en-US')}`);
+    }
     console.log();
     
     // Show curl command in a box
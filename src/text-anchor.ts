@@ -0,0 +1,237 @@
+/**
+ * Text Anchor Module
+ * Passage addresses that survive revisions of a book's text.
+ *
+ * A byte offset stops pointing at the same words as soon as Project
+ * Gutenberg edits the file (SparseCache notices the ETag change and drops
+ * the old blocks). An anchor keeps the offset together with the words around
+ * it: ANCHOR_BEFORE words ending at the offset, ANCHOR_AFTER words starting
+ * there, and a fingerprint of the latter. Words are folded as for fulltext
+ * search (see text-query.ts), so case, accents and punctuation don't matter.
+ *
+ * resolveAnchor first checks the fingerprint at the old offset (one small
+ * read). If the text there differs it searches outward in widening windows,
+ * each word of the window voting for where the anchor's words would begin,
+ * and scores the best-voted places by how many anchor words they hold in
+ * order. Words may be missing, changed or added around the passage.
+ *
+ * Anchors are stored and passed around as opaque tokens (encodeAnchor), in
+ * bookmarks, the last position and excerpt links.
+ */
+
+import crypto from 'crypto';
+import { textWords } from './text-query.js';
+import type { Boundaries } from './types.js';
+
+/** Words of context kept before and from the anchored offset */
+const ANCHOR_BEFORE = 8;
+const ANCHOR_AFTER = 12;
+
+/** Bytes read on each side of an offset to find its context words */
+const CONTEXT_BYTES = 512;
+
+/** Half-widths of the windows searched around the old offset, in turn */
+const SEARCH_RADII = [16 * 1024, 256 * 1024, 2 * 1024 * 1024];
+
+/** Share of the anchor's words that must be found, in order, to accept a place */
+const MIN_SCORE = 0.6;
+
+/** Best-voted places scored in full per window */
+const CANDIDATES = 8;
+
+export type RangeFetcher = (start: number, end: number) => Promise<Buffer>;
+
+export interface TextAnchor {
+  /** Byte offset of the passage when the anchor was made */
+  byteStart: number;
+  /** Hash of the words from byteStart (the after words) */
+  fingerprint: string;
+  /** Folded words just before byteStart */
+  before: string[];
+  /** Folded words from byteStart on */
+  after: string[];
+}
+
+export interface AnchorMatch {
+  /** Where the passage starts now (the start of its first word) */
+  byteStart: number;
+  /** 'exact' when the passage is still at its old offset */
+  status: 'exact' | 'moved';
+  /** Share of the anchor's words found in order at the match, 0-1 */
+  score: number;
+}
+
+export function fingerprintWords(words: string[]): string {
+  return crypto.createHash('sha256').update(words.join(' ')).digest('hex').slice(0, 12);
+}
+
+/**
+ * Opaque, URL-safe form of an anchor
+ */
+export function encodeAnchor(anchor: TextAnchor): string {
+  const fields = [anchor.byteStart, anchor.fingerprint, anchor.before.join(' '), anchor.after.join(' ')];
+  return Buffer.from(JSON.stringify(fields)).toString('base64url');
+}
+
+/**
+ * Read a token from encodeAnchor, or null if it isn't one
+ */
+export function decodeAnchor(token: string): TextAnchor | null {
+  try {
+    const fields = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!Array.isArray(fields) || fields.length !== 4) return null;
+    const [byteStart, fingerprint, before, after] = fields;
+    if (!Number.isInteger(byteStart) || byteStart < 0 || typeof fingerprint !== 'string' ||
+        typeof before !== 'string' || typeof after !== 'string' || !after) {
+      return null;
+    }
+    return { byteStart, fingerprint, before: splitWords(before), after: splitWords(after) };
+  } catch {
+    return null;
+  }
+}
+
+function splitWords(text: string): string[] {
+  return text ? text.split(' ') : [];
+}
+
+/**
+ * Anchor the word starting at byteStart
+ */
+export async function createAnchor(fetchRange: RangeFetcher, boundaries: Boundaries, byteStart: number): Promise<TextAnchor> {
+  const start = Math.max(boundaries.startByte, byteStart - CONTEXT_BYTES);
+  const end = Math.min(boundaries.endByte, byteStart + CONTEXT_BYTES);
+
+  const beforeText = start < byteStart ? decodeFrom(await fetchRange(start, byteStart - 1)) : '';
+  let before = textWords(beforeText).map(w => w.folded);
+  // The first word may have been cut by the read
+  if (start > boundaries.startByte && before.length > ANCHOR_BEFORE) before = before.slice(1);
+  before = before.slice(-ANCHOR_BEFORE);
+
+  const afterText = byteStart < end ? decodeFrom(await fetchRange(byteStart, end - 1)) : '';
+  const after = textWords(afterText).slice(0, ANCHOR_AFTER).map(w => w.folded);
+
+  return { byteStart, fingerprint: fingerprintWords(after), before, after };
+}
+
+/**
+ * Find an anchored passage in the current text, or null if it is gone
+ */
+export async function resolveAnchor(
+  fetchRange: RangeFetcher,
+  boundaries: Boundaries,
+  anchor: TextAnchor
+): Promise<AnchorMatch | null> {
+  const origin = Math.max(boundaries.startByte, Math.min(anchor.byteStart, boundaries.endByte));
+
+  if (anchor.byteStart >= boundaries.startByte && anchor.byteStart < boundaries.endByte) {
+    const end = Math.min(boundaries.endByte, anchor.byteStart + CONTEXT_BYTES);
+    const text = decodeFrom(await fetchRange(anchor.byteStart, end - 1));
+    const words = textWords(text).slice(0, anchor.after.length).map(w => w.folded);
+    if (fingerprintWords(words) === anchor.fingerprint) {
+      return { byteStart: anchor.byteStart, status: 'exact', score: 1 };
+    }
+  }
+
+  let searched = 0;
+  for (const radius of SEARCH_RADII) {
+    const start = Math.max(boundaries.startByte, origin - radius);
+    const end = Math.min(boundaries.endByte, origin + radius);
+    if (end - start <= searched) continue;
+    searched = end - start;
+
+    const match = findInWindow(await fetchRange(start, end - 1), start, origin, anchor);
+    if (match) return match;
+    if (start === boundaries.startByte && end === boundaries.endByte) break;
+  }
+  return null;
+}
+
+// Continuation bytes at the start of a read that began inside a character
+function partialCharBytes(bytes: Buffer): number {
+  let count = 0;
+  while (count < bytes.length && count < 3 && (bytes[count] & 0xc0) === 0x80) count++;
+  return count;
+}
+
+function decodeFrom(bytes: Buffer): string {
+  return bytes.subarray(partialCharBytes(bytes)).toString('utf8');
+}
+
+function findInWindow(bytes: Buffer, windowStart: number, origin: number, anchor: TextAnchor): AnchorMatch | null {
+  const skip = partialCharBytes(bytes);
+  const text = bytes.subarray(skip).toString('utf8');
+  const words = textWords(text);
+  const context = [...anchor.before, ...anchor.after];
+  if (words.length === 0 || context.length === 0) return null;
+
+  // Each window word votes for where the context would begin if it were
+  // that context word
+  const places = new Map<string, number[]>();
+  context.forEach((word, k) => places.set(word, [...(places.get(word) ?? []), k]));
+  const votes = new Map<number, number>();
+  words.forEach((word, i) => {
+    for (const k of places.get(word.folded) ?? []) {
+      votes.set(i - k, (votes.get(i - k) ?? 0) + 1);
+    }
+  });
+
+  const originChar = bytes.subarray(skip, Math.max(skip, origin - windowStart)).toString('utf8').length;
+  const distance = (i: number) => Math.abs(words[Math.max(0, Math.min(words.length - 1, i))].start - originChar);
+
+  const candidates = [...votes.entries()]
+    .sort((a, b) => b[1] - a[1] || distance(a[0]) - distance(b[0]))
+    .slice(0, CANDIDATES);
+
+  let best: { index: number; score: number } | null = null;
+  for (const [begin] of candidates) {
+    // Allow a few words added or dropped within the passage
+    const from = Math.max(0, begin - 2);
+    const slice = words.slice(from, begin + context.length + 2).map(w => w.folded);
+    const score = commonInOrder(context, slice) / context.length;
+    const index = alignAfter(words, begin + anchor.before.length, anchor.after);
+    if (!best || score > best.score || (score === best.score && distance(index) < distance(best.index))) {
+      best = { index, score };
+    }
+  }
+  if (!best || best.score < MIN_SCORE || best.index >= words.length) return null;
+
+  // Back to the start of the whitespace-delimited token, opening quote and all
+  let char = words[best.index].start;
+  while (char > 0 && !/\s/.test(text[char - 1])) char--;
+  const byteStart = windowStart + skip + Buffer.byteLength(text.slice(0, char));
+  return { byteStart, status: 'moved', score: Math.round(best.score * 100) / 100 };
+}
+
+/**
+ * Index near guess where the after words line up best
+ */
+function alignAfter(words: Array<{ folded: string }>, guess: number, after: string[]): number {
+  let best = Math.max(0, guess);
+  let bestHits = -1;
+  for (let offset = 0; offset <= 3; offset++) {
+    for (const index of offset === 0 ? [guess] : [guess - offset, guess + offset]) {
+      if (index < 0 || index >= words.length) continue;
+      let hits = 0;
+      after.forEach((word, k) => { if (words[index + k]?.folded === word) hits++; });
+      if (hits > bestHits) {
+        best = index;
+        bestHits = hits;
+      }
+    }
+  }
+  return best;
+}
+
+// Length of the longest common subsequence
+function commonInOrder(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (const word of a) {
+    const row = [0];
+    for (let j = 0; j < b.length; j++) {
+      row.push(word === b[j] ? previous[j] + 1 : Math.max(previous[j + 1], row[j]));
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
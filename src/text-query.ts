@@ -0,0 +1,609 @@
+/**
+ * Text Query Module
+ * Parses fulltext queries beyond a plain phrase:
+ *
+ *   /whale(bone|ship)s?/i              regex
+ *   "white whale" AND (Ahab OR Starbuck) NOT Queequeg
+ *   "whale" NEAR/10 "ship"             both within 10 words of each other
+ *
+ * Boolean and NEAR queries are matched one paragraph at a time by
+ * PassageMatcher, which takes text in pieces of any size, so a paragraph
+ * may span several fetched chunks. Terms match whole words, ignoring case,
+ * diacritics and punctuation. Adjacent terms without an operator are ANDed.
+ *
+ * Queries are checked against cost limits when parsed: a regex must stay
+ * short, not match the empty string and avoid the patterns that can
+ * backtrack for ever: nested quantifiers, repeated groups whose
+ * alternatives overlap, overlapping repeated pieces side by side, and
+ * backreferences. The screen can't be complete, so regexes also run with
+ * a time limit (see regex-runner.ts).
+ */
+
+import { foldText } from './catalog-query.js';
+
+/**
+ * A query that can't be run, e.g. unbalanced parentheses or a risky regex
+ */
+export class TextQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TextQueryError';
+  }
+}
+
+export type TextQueryNode =
+  | { type: 'term'; words: string[] }
+  | { type: 'and' | 'or'; left: TextQueryNode; right: TextQueryNode }
+  | { type: 'not'; operand: TextQueryNode }
+  | { type: 'near'; left: TextQueryNode; right: TextQueryNode; distance: number };
+
+export type TextQuery =
+  | { kind: 'phrase'; text: string }
+  | { kind: 'regex'; regex: RegExp }
+  | { kind: 'boolean'; root: TextQueryNode };
+
+export const TEXT_QUERY_LIMITS = {
+  /** Characters in the whole query */
+  maxQueryLength: 500,
+  /** Terms in a boolean query */
+  maxTerms: 16,
+  /** Largest NEAR/n */
+  maxNearDistance: 100,
+  /** Characters in a regex pattern */
+  maxRegexLength: 200,
+  /** Longest regex match found reliably; longer matches may be cut short at chunk edges */
+  maxRegexMatchBytes: 1024,
+  /** Time a regex may spend matching in one search, in ms */
+  maxRegexMs: 5000,
+  /** A paragraph longer than this is matched in pieces */
+  maxPassageChars: 8000
+};
+
+const DEFAULT_NEAR_DISTANCE = 10;
+
+// A word, apostrophes included ("don't", "whale’s")
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+export function foldWords(text: string): string[] {
+  return [...text.matchAll(WORD_PATTERN)].map(match => foldText(match[0]).replace(/ /g, ''));
+}
+
+/**
+ * Each word of a text, folded the way query terms are, with its character
+ * offsets (start inclusive, end exclusive)
+ */
+export function textWords(text: string): Array<{ folded: string; start: number; end: number }> {
+  const words: Array<{ folded: string; start: number; end: number }> = [];
+  // Most words repeat; fold each spelling once
+  const folded = new Map<string, string>();
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    let word = folded.get(match[0]);
+    if (word === undefined) {
+      word = foldWords(match[0])[0];
+      folded.set(match[0], word);
+    }
+    words.push({ folded: word, start: match.index!, end: match.index! + match[0].length });
+  }
+  return words;
+}
+
+// Group containing a quantifier, itself quantified: (a+)+, (\w*x)*, (a|b+){2,}
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)\s*(?:[+*]|\{\d+,\d*\})/;
+
+// Characters a piece of a regex is tried against to see what it can match:
+// ASCII, and a few letters, spaces and punctuation beyond it
+const REGEX_SAMPLE = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  ' ', 'é', 'ß', 'α', 'Я', '一', '’', '—', ' '
+];
+
+/**
+ * One piece of a regex, as far as backtracking cost goes: which sample
+ * characters it can start with and how often it repeats
+ */
+interface RegexPiece {
+  first: Set<string>;
+  min: number;
+  max: number;
+  /** Alternatives of a group, each a sequence of pieces; absent for one character */
+  branches?: RegexPiece[][];
+}
+
+// Quantifier after a piece: *, +, ?, {n}, {n,}, {n,m}, each maybe lazy
+const QUANTIFIER = /^(?:([*+?])|\{(\d+)(?:(,)(\d*))?\})\??/;
+
+/**
+ * Split a pattern (already known to compile) into its alternatives and
+ * pieces. Anchors, word boundaries and lookarounds match no characters and
+ * are left out.
+ */
+function regexBranches(pattern: string, flags: string): RegexPiece[][] {
+  let i = 0;
+  const charsOf = (source: string): Set<string> => {
+    const single = new RegExp(`^(?:${source})$`, flags);
+    return new Set(REGEX_SAMPLE.filter(c => single.test(c)));
+  };
+
+  const alternatives = (): RegexPiece[][] => {
+    const branches: RegexPiece[][] = [[]];
+    while (i < pattern.length && pattern[i] !== ')') {
+      const c = pattern[i];
+      let piece: RegexPiece | null = null;
+      if (c === '|') {
+        i++;
+        branches.push([]);
+        continue;
+      } else if (c === '(') {
+        const opening = pattern.slice(i).match(/^\((?:\?(?:[:=!]|<[=!]|<[^>]*>))?/)![0];
+        i += opening.length;
+        const inner = alternatives();
+        i++;
+        if (!/[=!]$/.test(opening)) {
+          piece = { first: new Set(inner.flatMap(branch => [...firstChars(branch)])), min: 1, max: 1, branches: inner };
+        }
+      } else if (c === '[') {
+        let end = pattern[i + 1] === '^' ? i + 2 : i + 1;
+        while (pattern[end] !== ']') end += pattern[end] === '\\' ? 2 : 1;
+        piece = { first: charsOf(pattern.slice(i, end + 1)), min: 1, max: 1 };
+        i = end + 1;
+      } else if (c === '\\') {
+        const escape = pattern.slice(i).match(/^\\(?:[pP]\{[^}]*\}|u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[A-Za-z]|[\s\S])/)![0];
+        i += escape.length;
+        if (escape !== '\\b' && escape !== '\\B') piece = { first: charsOf(escape), min: 1, max: 1 };
+      } else if (c === '^' || c === '$') {
+        i++;
+      } else {
+        const char = String.fromCodePoint(pattern.codePointAt(i)!);
+        i += char.length;
+        piece = { first: charsOf(char === '.' ? '.' : char.replace(/[{}]/g, '\\$&')), min: 1, max: 1 };
+      }
+
+      const quantifier = pattern.slice(i).match(QUANTIFIER);
+      if (quantifier) {
+        i += quantifier[0].length;
+        if (piece) {
+          const [, symbol, low, comma, high] = quantifier;
+          piece.min = symbol ? (symbol === '+' ? 1 : 0) : parseInt(low, 10);
+          piece.max = symbol ? (symbol === '?' ? 1 : Infinity) : !comma ? piece.min : high ? parseInt(high, 10) : Infinity;
+        }
+      }
+      if (piece) branches[branches.length - 1].push(piece);
+    }
+    return branches;
+  };
+
+  return alternatives();
+}
+
+// Characters a sequence of pieces can start with
+function firstChars(pieces: RegexPiece[]): Set<string> {
+  const first = new Set<string>();
+  for (const piece of pieces) {
+    for (const c of piece.first) first.add(c);
+    if (piece.min > 0) break;
+  }
+  return first;
+}
+
+function overlaps(a: Set<string>, b: Set<string>): boolean {
+  for (const c of a) {
+    if (b.has(c)) return true;
+  }
+  return false;
+}
+
+// Could two alternatives match the same text, or one the start of the
+// other? Compared a character at a time while both are plain characters.
+function alternativesOverlap(a: RegexPiece[], b: RegexPiece[]): boolean {
+  for (let k = 0; ; k++) {
+    const pa = a[k];
+    const pb = b[k];
+    if (!pa || !pb) return true;
+    if (pa.branches || pb.branches || pa.min !== 1 || pa.max !== 1 || pb.min !== 1 || pb.max !== 1) {
+      return overlaps(firstChars(a.slice(k)), firstChars(b.slice(k)));
+    }
+    if (!overlaps(pa.first, pb.first)) return false;
+  }
+}
+
+/**
+ * The error for a sequence of pieces (and the groups in it) that can
+ * backtrack for ever, or null
+ */
+function backtrackRisk(pieces: RegexPiece[]): string | null {
+  for (let k = 0; k < pieces.length; k++) {
+    const piece = pieces[k];
+    const next = pieces[k + 1];
+    if (next && piece.min < piece.max && next.min < next.max &&
+        (piece.max === Infinity || next.max === Infinity) && overlaps(piece.first, next.first)) {
+      return 'Regex has overlapping repeated pieces side by side, e.g. \\s*\\s*, which can take too long to run';
+    }
+    if (!piece.branches) continue;
+    if (piece.max > 1) {
+      for (let x = 0; x < piece.branches.length; x++) {
+        for (let y = x + 1; y < piece.branches.length; y++) {
+          if (alternativesOverlap(piece.branches[x], piece.branches[y])) {
+            return 'Regex repeats a group whose alternatives overlap, e.g. (a|aa)+, which can take too long to run';
+          }
+        }
+      }
+    }
+    for (const branch of piece.branches) {
+      const risk = backtrackRisk(branch);
+      if (risk) return risk;
+    }
+  }
+  return null;
+}
+
+function parseRegex(pattern: string, flags: string): RegExp {
+  if (pattern.length > TEXT_QUERY_LIMITS.maxRegexLength) {
+    throw new TextQueryError(`Regex is too long (at most ${TEXT_QUERY_LIMITS.maxRegexLength} characters)`);
+  }
+  if (/[^imsu]/.test(flags)) {
+    throw new TextQueryError(`Unsupported regex flags "${flags}" (use i, m, s or u)`);
+  }
+  if (NESTED_QUANTIFIER.test(pattern)) {
+    throw new TextQueryError('Regex has a nested quantifier, which can take too long to run');
+  }
+  if (/\\[1-9]|\\k</.test(pattern)) {
+    throw new TextQueryError('Regex backreferences are not supported');
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, flags + 'g');
+  } catch (err) {
+    throw new TextQueryError(`Invalid regex: ${(err as Error).message}`);
+  }
+  if (regex.test('')) {
+    throw new TextQueryError('Regex matches empty text');
+  }
+  const risk = backtrackRisk([{ first: new Set(), min: 1, max: 1, branches: regexBranches(pattern, flags) }]);
+  if (risk) {
+    throw new TextQueryError(risk);
+  }
+  regex.lastIndex = 0;
+  return regex;
+}
+
+type Token =
+  | { type: 'open' | 'close' | 'and' | 'or' | 'not' }
+  | { type: 'near'; distance: number }
+  | { type: 'term'; words: string[] };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  const tokenPattern = /\s*(?:(\()|(\))|"([^"]*)"?|([^\s()"]+))/g;
+
+  for (const match of query.matchAll(tokenPattern)) {
+    const [, open, close, quoted, bare] = match;
+    if (open) {
+      tokens.push({ type: 'open' });
+    } else if (close) {
+      tokens.push({ type: 'close' });
+    } else if (bare === 'AND' || bare === 'OR' || bare === 'NOT') {
+      tokens.push({ type: bare.toLowerCase() as 'and' | 'or' | 'not' });
+    } else if (bare !== undefined && /^NEAR(\/\d+)?$/.test(bare)) {
+      const distance = bare.length > 4 ? parseInt(bare.slice(5), 10) : DEFAULT_NEAR_DISTANCE;
+      if (distance > TEXT_QUERY_LIMITS.maxNearDistance) {
+        throw new TextQueryError(`NEAR distance is at most ${TEXT_QUERY_LIMITS.maxNearDistance} words`);
+      }
+      tokens.push({ type: 'near', distance });
+    } else {
+      const words = foldWords(quoted ?? bare ?? '');
+      if (words.length > 0) tokens.push({ type: 'term', words });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent over the tokens: OR binds loosest, then AND (explicit
+ * or implied), then NOT, then NEAR
+ */
+class BooleanParser {
+  private position = 0;
+  terms = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): TextQueryNode {
+    const root = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new TextQueryError(this.tokens[this.position].type === 'close'
+        ? 'Unbalanced ")" in query'
+        : `Unexpected ${this.tokens[this.position].type.toUpperCase()} in query`);
+    }
+    return root;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(): TextQueryNode {
+    let left = this.parseAnd();
+    while (this.peek()?.type === 'or') {
+      this.position++;
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): TextQueryNode {
+    let left = this.parseNot();
+    for (let next = this.peek(); next && next.type !== 'or' && next.type !== 'close'; next = this.peek()) {
+      if (next.type === 'and') this.position++;
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): TextQueryNode {
+    if (this.peek()?.type === 'not') {
+      this.position++;
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parseNear();
+  }
+
+  private parseNear(): TextQueryNode {
+    let left = this.parsePrimary();
+    for (let next = this.peek(); next?.type === 'near'; next = this.peek()) {
+      this.position++;
+      const right = this.parsePrimary();
+      if (left.type !== 'term' || right.type !== 'term') {
+        throw new TextQueryError('NEAR joins two terms, e.g. "whale" NEAR/10 "ship"');
+      }
+      left = { type: 'near', left, right, distance: next.distance };
+    }
+    return left;
+  }
+
+  private parsePrimary(): TextQueryNode {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new TextQueryError('Query ends with an operator');
+    }
+    if (token.type === 'term') {
+      if (++this.terms > TEXT_QUERY_LIMITS.maxTerms) {
+        throw new TextQueryError(`Too many terms (at most ${TEXT_QUERY_LIMITS.maxTerms})`);
+      }
+      return { type: 'term', words: token.words };
+    }
+    if (token.type === 'open') {
+      const inner = this.parseOr();
+      if (this.tokens[this.position++]?.type !== 'close') {
+        throw new TextQueryError('Missing ")" in query');
+      }
+      return inner;
+    }
+    throw new TextQueryError(`Unexpected ${token.type === 'close' ? '")"' : token.type.toUpperCase()} in query`);
+  }
+}
+
+/**
+ * Tell a plain phrase from a regex (/.../flags) or a boolean query (quotes,
+ * parentheses, or AND/OR/NOT/NEAR in capitals) and parse it. Text that
+ * looks boolean but doesn't parse as a boolean query is kept as a phrase.
+ */
+export function parseTextQuery(query: string): TextQuery {
+  const trimmed = query.trim();
+  if (trimmed.length > TEXT_QUERY_LIMITS.maxQueryLength) {
+    throw new TextQueryError(`Query is too long (at most ${TEXT_QUERY_LIMITS.maxQueryLength} characters)`);
+  }
+
+  const regexMatch = trimmed.match(/^\/(.+)\/([a-z]*)$/s);
+  if (regexMatch) {
+    return { kind: 'regex', regex: parseRegex(regexMatch[1], regexMatch[2]) };
+  }
+
+  if (!/["()]|(^|\s)(AND|OR|NOT|NEAR(\/\d+)?)(\s|$)/.test(trimmed)) {
+    return { kind: 'phrase', text: trimmed };
+  }
+
+  try {
+    return { kind: 'boolean', root: parseBoolean(trimmed) };
+  } catch (err) {
+    if (err instanceof TextQueryError) return { kind: 'phrase', text: trimmed };
+    throw err;
+  }
+}
+
+/**
+ * Parse a boolean query, or throw TextQueryError saying why it isn't one
+ */
+export function parseBoolean(query: string): TextQueryNode {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    throw new TextQueryError('Query has no terms');
+  }
+  const root = new BooleanParser(tokens).parse();
+  if (evaluate(root, () => []) !== null) {
+    throw new TextQueryError('Query needs at least one term that must appear');
+  }
+  return root;
+}
+
+// ============================================================
+// Passage matching
+// ============================================================
+
+/** Word indexes (inclusive) a satisfied node points at */
+interface Hit {
+  first: number;
+  last: number;
+}
+
+// Satisfied without pointing at any words, e.g. NOT x when x is absent
+const ANYWHERE: Hit = { first: Infinity, last: -Infinity };
+
+function earliest(a: Hit, b: Hit): Hit {
+  return a.first <= b.first ? a : b;
+}
+
+/**
+ * Evaluate a query over one passage; null if it doesn't match
+ *
+ * @param occurrences - Word index of each occurrence of a term, in order
+ */
+function evaluate(node: TextQueryNode, occurrences: (words: string[]) => number[]): Hit | null {
+  switch (node.type) {
+    case 'term': {
+      const [first] = occurrences(node.words);
+      return first === undefined ? null : { first, last: first + node.words.length - 1 };
+    }
+    case 'and': {
+      const left = evaluate(node.left, occurrences);
+      const right = left && evaluate(node.right, occurrences);
+      return left && right ? earliest(left, right) : null;
+    }
+    case 'or': {
+      const left = evaluate(node.left, occurrences);
+      const right = evaluate(node.right, occurrences);
+      return left && right ? earliest(left, right) : left || right;
+    }
+    case 'not':
+      return evaluate(node.operand, occurrences) ? null : ANYWHERE;
+    case 'near': {
+      const left = node.left as { type: 'term'; words: string[] };
+      const right = node.right as { type: 'term'; words: string[] };
+      const rightStarts = occurrences(right.words);
+      for (const a of occurrences(left.words)) {
+        for (const b of rightStarts) {
+          // Words strictly between the two terms
+          const gap = a < b ? b - (a + left.words.length) : a - (b + right.words.length);
+          if (gap <= node.distance) {
+            return { first: Math.min(a, b), last: Math.max(a + left.words.length, b + right.words.length) - 1 };
+          }
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Match a query against one passage: the first and last word index of what
+ * it matched, or null if the passage doesn't match
+ *
+ * @param occurrences - Word index of each occurrence of a term, in order
+ */
+export function matchPassageWords(
+  root: TextQueryNode,
+  occurrences: (words: string[]) => number[]
+): { first: number; last: number } | null {
+  const hit = evaluate(root, occurrences);
+  return !hit || hit === ANYWHERE ? null : hit;
+}
+
+/**
+ * A paragraph that matched, with character offsets into its text
+ */
+export interface PassageMatch {
+  /** Byte offset of the paragraph in the file */
+  byteStart: number;
+  text: string;
+  /** Matched words: characters start (inclusive) to end (exclusive) */
+  start: number;
+  end: number;
+}
+
+const PARAGRAPH_BREAK = /\n[ \t]*\r?\n/g;
+
+/**
+ * Character offset where each paragraph after the first begins
+ */
+export function paragraphStarts(text: string): number[] {
+  return [...text.matchAll(PARAGRAPH_BREAK)].map(match => match.index! + match[0].length);
+}
+
+/**
+ * Feeds text through a boolean query paragraph by paragraph. Only the
+ * paragraph in progress is held.
+ */
+export class PassageMatcher {
+  private root: TextQueryNode;
+  private passage = '';
+  private passageByte = 0;
+
+  constructor(root: TextQueryNode) {
+    this.root = root;
+  }
+
+  /**
+   * Add text that follows on from what came before; returns the
+   * paragraphs it completed that match
+   */
+  push(text: string): PassageMatch[] {
+    const matches: PassageMatch[] = [];
+    const buffered = this.passage + text;
+    const limit = TEXT_QUERY_LIMITS.maxPassageChars;
+    let offset = 0;
+
+    for (;;) {
+      PARAGRAPH_BREAK.lastIndex = offset;
+      const paragraphBreak = PARAGRAPH_BREAK.exec(buffered);
+      let cut: number;
+      let next: number;
+      if (paragraphBreak && paragraphBreak.index - offset <= limit) {
+        cut = paragraphBreak.index;
+        next = paragraphBreak.index + paragraphBreak[0].length;
+      } else if (buffered.length - offset > limit) {
+        // Overlong paragraph: match it in pieces, split at a space
+        const space = buffered.lastIndexOf(' ', offset + limit);
+        cut = next = space > offset ? space + 1 : offset + limit;
+      } else {
+        break;
+      }
+      this.emit(buffered.slice(offset, cut), matches);
+      this.passageByte += Buffer.byteLength(buffered.slice(offset, next), 'utf-8');
+      offset = next;
+    }
+
+    this.passage = buffered.slice(offset);
+    return matches;
+  }
+
+  /**
+   * Finish the current paragraph, e.g. at the end of the text or before a
+   * gap; the next text starts a paragraph at byteStart
+   */
+  end(byteStart: number): PassageMatch[] {
+    const matches: PassageMatch[] = [];
+    this.emit(this.passage, matches);
+    this.passage = '';
+    this.passageByte = byteStart;
+    return matches;
+  }
+
+  private emit(text: string, matches: PassageMatch[]): void {
+    const words = textWords(text);
+    if (words.length === 0) return;
+
+    const found = new Map<string, number[]>();
+    const occurrences = (terms: string[]): number[] => {
+      const key = terms.join(' ');
+      let starts = found.get(key);
+      if (!starts) {
+        starts = [];
+        for (let i = 0; i + terms.length <= words.length; i++) {
+          if (terms.every((term, j) => words[i + j].folded === term)) starts.push(i);
+        }
+        found.set(key, starts);
+      }
+      return starts;
+    };
+
+    const hit = matchPassageWords(this.root, occurrences);
+    if (!hit) return;
+    matches.push({
+      byteStart: this.passageByte,
+      text,
+      start: words[hit.first].start,
+      end: words[hit.last].end
+    });
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Text Source Module
+ * Byte-range access to non-Gutenberg texts (local files, directories, plain URLs)
+ *
+ * A TextSource is wrapped in a SourceFetcher, which exposes the same
+ * getFileSize/fetchRange surface as Fetcher, so Navigator and Cleaner can
+ * read it without knowing where the bytes come from.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import https from 'https';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Cleaner } from './cleaner.js';
+import type {
+  Boundaries,
+  FetcherStats,
+  Mirror,
+  TextSource,
+  TextSourceInfo,
+  TextSourceKind,
+  TextSourceOptions,
+} from './types.js';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Turn a file name or URL path into a URL-safe source id.
+ * Purely numeric ids are prefixed so they never collide with Gutenberg IDs.
+ */
+function slugify(name: string): string {
+  const base = name.replace(/\.[^./]+$/, '');
+  const slug = base
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  if (!slug) return 'text';
+  return /^\d+$/.test(slug) ? `local-${slug}` : slug;
+}
+
+/**
+ * Whether a CLI/API argument names a URL rather than a path
+ */
+function isUrl(spec: string): boolean {
+  return /^https?:\/\//i.test(spec) || /^file:\/\//i.test(spec);
+}
+
+/**
+ * Whether an argument looks like a text source (URL or existing file)
+ * rather than a Gutenberg book ID
+ */
+export function isSourceSpec(spec: string): boolean {
+  if (/^\d+$/.test(spec)) return false;
+  if (isUrl(spec)) return true;
+  try {
+    return fs.statSync(spec).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Local File Source
+// ============================================================================
+
+export class LocalFileSource implements TextSource {
+  readonly id: string;
+  readonly kind: TextSourceKind = 'file';
+  readonly title: string;
+  readonly author: string | null;
+  readonly location: string;
+  readonly useCleaner: boolean;
+  readonly filePath: string;
+  private size: number | null = null;
+
+  constructor(filePath: string, options: TextSourceOptions = {}) {
+    this.filePath = path.resolve(filePath);
+    const fileName = path.basename(this.filePath);
+    this.id = options.id || slugify(fileName);
+    this.title = options.title || fileName.replace(/\.[^.]+$/, '');
+    this.author = options.author ?? null;
+    this.location = pathToFileURL(this.filePath).toString();
+    this.useCleaner = options.clean !== false;
+  }
+
+  async getSize(): Promise<number> {
+    if (this.size !== null) return this.size;
+    const stat = await fs.promises.stat(this.filePath);
+    if (!stat.isFile()) {
+      throw new Error(`Not a file: ${this.filePath}`);
+    }
+    this.size = stat.size;
+    return this.size;
+  }
+
+  /**
+   * Read bytes [start, end] inclusive, clamped to the file size
+   */
+  async readRange(start: number, end: number): Promise<Buffer> {
+    const size = await this.getSize();
+    const from = Math.max(0, start);
+    const to = Math.min(end, size - 1);
+    if (to < from) return Buffer.alloc(0);
+
+    const length = to - from + 1;
+    const buffer = Buffer.alloc(length);
+    const handle = await fs.promises.open(this.filePath, 'r');
+    try {
+      const { bytesRead } = await handle.read(buffer, 0, length, from);
+      return bytesRead < length ? buffer.subarray(0, bytesRead) : buffer;
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+// ============================================================================
+// HTTP Source
+// ============================================================================
+
+export class HttpTextSource implements TextSource {
+  readonly id: string;
+  readonly kind: TextSourceKind = 'url';
+  readonly title: string;
+  readonly author: string | null;
+  readonly location: string;
+  readonly useCleaner: boolean;
+  private resolvedUrl: string | null = null;
+  private size: number | null = null;
+  private debug: boolean;
+  private maxRedirects = 5;
+  private timeoutMs = 10000;
+
+  constructor(url: string, options: TextSourceOptions = {}) {
+    const parsed = new URL(url);
+    const fileName = decodeURIComponent(path.posix.basename(parsed.pathname)) || parsed.hostname;
+    this.location = parsed.toString();
+    this.id = options.id || slugify(fileName);
+    this.title = options.title || fileName.replace(/\.[^.]+$/, '');
+    this.author = options.author ?? null;
+    this.useCleaner = options.clean !== false;
+    this.debug = options.debug || false;
+  }
+
+  private _log(message: string): void {
+    if (this.debug) {
+      console.error(`[TextSource ${this.id}] ${message}`);
+    }
+  }
+
+  async getSize(): Promise<number> {
+    if (this.size !== null) return this.size;
+
+    const head = await this._request('HEAD', this.location, {});
+    const length = parseInt(String(head.headers['content-length'] || ''), 10);
+    if (head.statusCode === 200 && !isNaN(length)) {
+      this.resolvedUrl = head.url;
+      this.size = length;
+      return this.size;
+    }
+
+    // Some servers refuse HEAD or omit Content-Length; ask for one byte instead
+    this._log(`HEAD gave HTTP ${head.statusCode}, probing with Range`);
+    const probe = await this._request('GET', this.location, { Range: 'bytes=0-0' });
+    const total = this._parseContentRangeTotal(probe.headers['content-range']);
+    if (probe.statusCode === 206 && total !== null) {
+      this.resolvedUrl = probe.url;
+      this.size = total;
+      return this.size;
+    }
+    if (probe.statusCode === 200 && probe.body) {
+      this.resolvedUrl = probe.url;
+      this.size = probe.body.length;
+      return this.size;
+    }
+
+    throw new Error(`Text source ${this.location} unavailable (HTTP ${probe.statusCode})`);
+  }
+
+  /**
+   * Read bytes [start, end] inclusive. Servers that ignore Range get their
+   * full response sliced down to the requested window.
+   */
+  async readRange(start: number, end: number): Promise<Buffer> {
+    const size = await this.getSize();
+    const from = Math.max(0, start);
+    const to = Math.min(end, size - 1);
+    if (to < from) return Buffer.alloc(0);
+
+    const res = await this._request('GET', this.resolvedUrl || this.location, { Range: `bytes=${from}-${to}` });
+    if (res.statusCode === 206) {
+      return res.body || Buffer.alloc(0);
+    }
+    if (res.statusCode === 200 && res.body) {
+      this._log('Server ignored Range header, slicing full body');
+      return res.body.subarray(from, to + 1);
+    }
+    throw new Error(`HTTP ${res.statusCode}`);
+  }
+
+  private _parseContentRangeTotal(header: string | string[] | undefined): number | null {
+    const value = Array.isArray(header) ? header[0] : header;
+    const match = value ? value.match(/\/(\d+)\s*$/) : null;
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  private _request(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    redirectCount = 0
+  ): Promise<{ statusCode: number; headers: http.IncomingHttpHeaders; body?: Buffer; url: string }> {
+    return new Promise((resolve, reject) => {
+      if (redirectCount > this.maxRedirects) {
+        reject(new Error(`Too many redirects for ${this.location}`));
+        return;
+      }
+
+      const client = url.startsWith('https:') ? https : http;
+      const req = client.request(url, { method, headers }, (res) => {
+        if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
+          res.resume();
+          const newUrl = new URL(res.headers.location, url).toString();
+          this._log(`Redirect ${res.statusCode}: ${url} -> ${newUrl}`);
+          this._request(method, newUrl, headers, redirectCount + 1).then(resolve, reject);
+          return;
+        }
+
+        if (method === 'HEAD') {
+          res.resume();
+          resolve({ statusCode: res.statusCode || 0, headers: res.headers, url });
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve({ statusCode: res.statusCode || 0, headers: res.headers, body: Buffer.concat(chunks), url }));
+        res.on('error', reject);
+      });
+
+      req.on('error', reject);
+      req.setTimeout(this.timeoutMs, () => {
+        req.destroy();
+        reject(new Error('Request timeout'));
+      });
+      req.end();
+    });
+  }
+}
+
+// ============================================================================
+// Factory & Registry
+// ============================================================================
+
+/**
+ * Create a source from a file path, file:// URL or http(s) URL
+ */
+export function createTextSource(spec: string, options: TextSourceOptions = {}): TextSource {
+  if (/^file:\/\//i.test(spec)) {
+    return new LocalFileSource(fileURLToPath(spec), options);
+  }
+  if (isUrl(spec)) {
+    return new HttpTextSource(spec, options);
+  }
+  return new LocalFileSource(spec, options);
+}
+
+/**
+ * Registry of named sources served alongside Gutenberg books
+ */
+export class TextSourceRegistry {
+  private sources = new Map<string, TextSource>();
+
+  /**
+   * Register a source. Colliding ids get a numeric suffix.
+   */
+  register(source: TextSource): TextSource {
+    if (!this.sources.has(source.id)) {
+      this.sources.set(source.id, source);
+      return source;
+    }
+
+    let n = 2;
+    while (this.sources.has(`${source.id}-${n}`)) n++;
+    const id = `${source.id}-${n}`;
+    const renamed = createTextSource(source.location, {
+      id,
+      title: source.title,
+      author: source.author,
+      clean: source.useCleaner,
+    });
+    this.sources.set(id, renamed);
+    return renamed;
+  }
+
+  /**
+   * Register every .txt file in a directory (non-recursive)
+   */
+  registerDirectory(dir: string, options: TextSourceOptions = {}): TextSource[] {
+    const added: TextSource[] = [];
+    const entries = fs.readdirSync(dir, { withFileTypes: true })
+      .filter(e => e.isFile() && /\.txt$/i.test(e.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      added.push(this.register(new LocalFileSource(path.join(dir, entry.name), { clean: options.clean })));
+    }
+    return added;
+  }
+
+  get(id: string): TextSource | null {
+    return this.sources.get(id) || null;
+  }
+
+  has(id: string): boolean {
+    return this.sources.has(id);
+  }
+
+  all(): TextSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  list(): TextSourceInfo[] {
+    return this.all().map(s => ({
+      id: s.id,
+      kind: s.kind,
+      title: s.title,
+      author: s.author,
+      location: s.location,
+      useCleaner: s.useCleaner,
+    }));
+  }
+
+  get size(): number {
+    return this.sources.size;
+  }
+}
+
+// ============================================================================
+// Fetcher Adapter
+// ============================================================================
+
+/**
+ * Adapts a TextSource to the Fetcher interface used by Navigator and Cleaner
+ */
+export class SourceFetcher {
+  public source: TextSource;
+  public totalBytes: number | null = null;
+  public requestCount = 0;
+  public totalBytesDownloaded = 0;
+  private debug: boolean;
+
+  constructor(source: TextSource, debug = false) {
+    this.source = source;
+    this.debug = debug;
+  }
+
+  async getFileSize(): Promise<number> {
+    if (this.totalBytes !== null) return this.totalBytes;
+    this.totalBytes = await this.source.getSize();
+    return this.totalBytes;
+  }
+
+  async fetchRange(startByte: number, endByte: number): Promise<Buffer> {
+    this.requestCount++;
+    const buffer = await this.source.readRange(startByte, endByte);
+    this.totalBytesDownloaded += buffer.length;
+
+    if (this.debug) {
+      console.error(`[SourceFetcher ${this.source.id}] bytes ${startByte}-${endByte} (${buffer.length} bytes)`);
+    }
+    return buffer;
+  }
+
+  getStats(): FetcherStats {
+    return {
+      requests: this.requestCount,
+      bytesDownloaded: this.totalBytesDownloaded,
+      totalBytes: this.totalBytes,
+      efficiency: this.totalBytes ? ((this.totalBytesDownloaded / this.totalBytes) * 100).toFixed(2) + '%' : 'N/A',
+      mirror: this.source.kind === 'file' ? 'local file' : new URL(this.source.location).host
+    };
+  }
+
+  getCurrentMirror(): Mirror | null {
+    return null;
+  }
+}
+
+/**
+ * Find readable boundaries for a source. Sources that opt out of cleaning
+ * are read end to end.
+ */
+export async function findSourceBoundaries(source: TextSource, fetcher: SourceFetcher): Promise<Boundaries> {
+  if (source.useCleaner) {
+    return Cleaner.findCleanBoundaries(fetcher);
+  }
+  const size = await fetcher.getFileSize();
+  return { startByte: 0, endByte: size, cleanLength: size };
+}
+
+export const _internal = {
+  slugify,
+  isUrl,
+};
@@ -16,6 +16,8 @@ export interface Position {
   formattedText?: string;
   /** Index of first word in this chunk */
   wordIndex: number;
+  /** wordIndex is counted from the book's word map, not estimated */
+  wordIndexExact?: boolean;
   /** Actual number of words returned */
   actualCount: number;
   /** Position as percentage through the book */
@@ -87,6 +89,45 @@ export interface WordPosition {
   endBytes: number;
 }
 
+/**
+ * How Navigator cuts text into chunks: a fixed number of words, whole
+ * sentences or paragraphs up to about that many words, or one screen
+ */
+export type ChunkMode = 'words' | 'sentences' | 'paragraphs' | 'screenful';
+
+/**
+ * Text area measured in monospace character cells, for screenful chunks
+ */
+export interface ScreenSize {
+  columns: number;
+  rows: number;
+}
+
+/**
+ * A heading found in a book's clean text
+ */
+export interface TocEntry {
+  /** The heading as it appears, e.g. "CHAPTER IV." */
+  label: string;
+  /** Chapter title from the heading or the book's CONTENTS list */
+  title: string | null;
+  /** 1 = part, book, volume or act; 2 = chapter; 3 = other all-caps heading */
+  level: number;
+  /** Byte offset of the heading line */
+  byteStart: number;
+  /** Position as percentage through the book */
+  percent: number;
+}
+
+/**
+ * Table of contents of a book, in reading order
+ */
+export interface BookOutline {
+  entries: TocEntry[];
+  /** The book has a CONTENTS list (its entries are not headings) */
+  hasContents: boolean;
+}
+
 // ============================================================================
 // Mirror/Network Types
 // ============================================================================
@@ -100,17 +141,97 @@ export interface Mirror {
   location: string;
   note?: string;
   continent?: string;
+  /** Higher is tried first, ahead of latency (default 0; user mirrors 10) */
+  priority?: number;
+  /** Added by the user rather than listed in MIRRORS.ALL */
+  custom?: boolean;
+}
+
+/**
+ * A user-added mirror: http(s):// (e.g. a local stand-in) or file:// (an
+ * rsync copy laid out as cache/epub/<id>/pg<id>.txt)
+ */
+export interface CustomMirrorConfig {
+  url: string;
+  provider?: string;
+  location?: string;
+  priority?: number;
 }
 
+/**
+ * Mirror preferences from ~/.gutex_mirrors.json and --mirror flags
+ */
+export interface MirrorConfig {
+  mirrors?: CustomMirrorConfig[];
+  /** Use only MIRRORS.ALL entries from these providers/continents */
+  pin?: { providers?: string[]; continents?: string[] };
+  /** Never use these providers, continents or base URLs */
+  exclude?: { providers?: string[]; continents?: string[]; urls?: string[] };
+  /** Priority by base URL or provider name */
+  priority?: Record<string, number>;
+}
+
+/**
+ * Circuit-breaker state for a mirror: closed (in use), open (skipped until
+ * its cooldown ends), half-open (one probe request allowed)
+ */
+export type MirrorBreakerState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Coarse classification of a failed mirror request
+ */
+export type MirrorErrorClass = 'timeout' | 'dns' | 'connection' | 'tls' | 'http-4xx' | 'http-5xx' | 'other';
+
 /**
  * Statistics for a mirror's performance
  */
 export interface MirrorStats {
   successes: number;
   failures: number;
+  /** Attempts aborted because another mirror answered first (not failures) */
+  cancelled: number;
+  /** Response time average in which older samples decay exponentially */
   avgResponseTime: number | null;
+  /** Decayed weight behind avgResponseTime */
+  sampleWeight: number;
+  lastSampleAt: number | null;
+  /** Most recent successful response times, used for hedging */
+  responseTimes: number[];
   lastSuccess: number | null;
   lastFailure: number | null;
+  lastCancelled: number | null;
+  breaker: MirrorBreakerState;
+  consecutiveFailures: number;
+  /** Times the breaker has opened since the last success (sets the cooldown) */
+  breakerTrips: number;
+  /** When an open breaker allows a probe */
+  openUntil: number | null;
+  recentErrors: Array<{ errorClass: MirrorErrorClass; message: string; at: number }>;
+}
+
+/**
+ * Identity of a served pg<id>.txt: size, ETag and a hash of sampled byte windows
+ */
+export interface ContentFingerprint {
+  size: number;
+  etag: string | null;
+  sampleHash: string;
+}
+
+/**
+ * Outcome of checking one mirror's copy of a book against gutenberg.org
+ */
+export interface MirrorVerification {
+  bookId: number;
+  baseUrl: string;
+  status: 'pending' | 'verified' | 'quarantined' | 'unverified';
+  /** Why a mirror was quarantined: wrong size, or same size but different bytes */
+  reason: 'size' | 'content' | null;
+  expected: ContentFingerprint | null;
+  actual: ContentFingerprint | null;
+  /** Set when the check could not run (e.g. gutenberg.org unreachable) */
+  error: string | null;
+  checkedAt: number | null;
 }
 
 /**
@@ -212,14 +333,72 @@ export interface MirrorStatus {
   initialized: boolean;
   mirrorCount: number;
   stickyBooks: number;
+  breakers: Record<MirrorBreakerState, number>;
+  /** Mirrors whose copy of a book differs from gutenberg.org's */
+  quarantined: Array<MirrorVerification & { provider: string }>;
   mirrors: Array<{
     provider: string;
     location: string;
     baseUrl: string;
     stats: MirrorStats;
+    /** Books this mirror is not used for */
+    quarantinedBooks: number[];
   }>;
 }
 
+// ============================================================================
+// Text Source Types
+// ============================================================================
+
+/**
+ * Kind of backing store for a non-Gutenberg text
+ */
+export type TextSourceKind = 'file' | 'url';
+
+/**
+ * A readable text that supports byte-range access.
+ * Sources sit behind FetcherInterface via SourceFetcher, so Navigator and
+ * Cleaner work the same on local files and arbitrary URLs as on Gutenberg IDs.
+ */
+export interface TextSource {
+  /** Stable identifier used in /api/book/<id>/... (never purely numeric) */
+  readonly id: string;
+  readonly kind: TextSourceKind;
+  /** Display title (defaults to the file name) */
+  readonly title: string;
+  readonly author: string | null;
+  /** file:// or http(s):// location of the raw bytes */
+  readonly location: string;
+  /** Whether Gutenberg header/footer detection applies to this text */
+  readonly useCleaner: boolean;
+  getSize(): Promise<number>;
+  readRange(start: number, end: number): Promise<Buffer>;
+}
+
+/**
+ * Options shared by TextSource implementations
+ */
+export interface TextSourceOptions {
+  id?: string;
+  title?: string;
+  author?: string | null;
+  /** Run Gutenberg boundary detection (default: true) */
+  clean?: boolean;
+  debug?: boolean;
+}
+
+/**
+ * Public description of a registered source
+ */
+export interface TextSourceInfo {
+  id: string;
+  kind: TextSourceKind;
+  title: string;
+  author: string | null;
+  location: string;
+  useCleaner: boolean;
+}
+
 // ============================================================================
 // Catalog Types
 // ============================================================================
@@ -233,12 +412,161 @@ export interface CatalogRecord {
   author: string | null;
   year: string | null;
   language: string | null;
+  /** Text, Sound, Image, Dataset, ... */
+  type: string;
+  subjects: string[];
+  /** Library of Congress classification codes, e.g. PR */
+  locc: string[];
+  bookshelves: string[];
 }
 
 /**
  * Search result from the catalog
  */
-export interface SearchResult extends CatalogRecord {}
+export interface SearchResult extends CatalogRecord {
+  /** Relevance; higher ranks first */
+  score?: number;
+}
+
+/**
+ * A term from a catalog query; phrases came from "quoted text"
+ */
+export interface CatalogQueryTerm {
+  text: string;
+  phrase: boolean;
+}
+
+/**
+ * Parsed catalog query, e.g. `author:austen title:"pride" lang:en year:1800..1850`
+ */
+export interface CatalogQuery {
+  /** Free terms, matched against title and author */
+  terms: CatalogQueryTerm[];
+  title: CatalogQueryTerm[];
+  author: CatalogQueryTerm[];
+  subject: CatalogQueryTerm[];
+  bookshelf: CatalogQueryTerm[];
+  /** LoCC code prefixes, e.g. PR */
+  locc: string[];
+  /** Lowercased types; empty means Text only, 'all' means any */
+  types: string[];
+  /** Language codes; any may match */
+  languages: string[];
+  /** Inclusive range of years the authors lived in; either end may be open */
+  year: { from: number | null; to: number | null } | null;
+  /** A bare number or id:N */
+  id: string | null;
+}
+
+/**
+ * Options for a paginated catalog search
+ */
+export interface CatalogSearchOptions {
+  /** Used when the query has no lang: field */
+  languageFilter?: string | null;
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * A facet value with the number of books that have it
+ */
+export interface CatalogFacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Facet counts over every match of a search, most books first
+ */
+export interface CatalogFacets {
+  languages: CatalogFacetCount[];
+  types: CatalogFacetCount[];
+  subjects: CatalogFacetCount[];
+  bookshelves: CatalogFacetCount[];
+}
+
+/**
+ * One page of ranked catalog results
+ */
+export interface CatalogSearchPage<T extends CatalogRecord = SearchResult> {
+  total: number;
+  offset: number;
+  limit: number;
+  results: T[];
+  /** Present for searches (not bookshelf or author listings) */
+  facets?: CatalogFacets;
+}
+
+/**
+ * One author from a catalog Authors field, e.g.
+ * "Wells, H. G. (Herbert George), 1866-1946 [Illustrator]"
+ */
+export interface AuthorCredit {
+  /** Name as written, without dates or role: "Wells, H. G. (Herbert George)" */
+  name: string;
+  /** Given names first, without the parenthetical: "H. G. Wells" */
+  displayName: string;
+  /** Dates as written: "1866-1946", "384? BCE-322 BCE", "fl. 1350" */
+  dates: string | null;
+  /** Negative for BCE; null when unknown */
+  birthYear: number | null;
+  deathYear: number | null;
+  /** Bracketed role, e.g. "Translator"; null for the author proper */
+  role: string | null;
+  /** URL-safe id from the name and dates: "wells-h-g-herbert-george-1866-1946" */
+  slug: string;
+}
+
+/**
+ * A book listed on an author page, with the author's role in it
+ */
+export interface AuthorWork extends CatalogRecord {
+  role: string | null;
+}
+
+/**
+ * One page of an author's books, sorted by title
+ */
+export interface CatalogAuthorPage extends CatalogSearchPage<AuthorWork> {
+  /** The credit without a role */
+  author: AuthorCredit;
+}
+
+/**
+ * A catalog CSV row that was skipped, with the line it starts on
+ */
+export interface CatalogCsvProblem {
+  line: number;
+  message: string;
+}
+
+/**
+ * Records that differ between two downloads of the catalog
+ */
+export interface CatalogDiff {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+/**
+ * One catalog update in the changelog
+ */
+export interface CatalogChangelogEntry extends CatalogDiff {
+  /** When the new catalog was installed (ISO 8601) */
+  date: string;
+  sha256: string | null;
+}
+
+/**
+ * A book added or changed since some date, with its latest change
+ */
+export interface CatalogArrival extends CatalogRecord {
+  change: 'added' | 'changed';
+  /** Changelog date of the change (ISO 8601) */
+  date: string;
+}
 
 /**
  * Catalog metadata stored on disk
@@ -260,6 +588,14 @@ export interface CliOptionsData {
   snapshot: boolean;
   raw: boolean;
   bookId: number | null;
+  /** Local file path or URL when reading a non-Gutenberg text */
+  source: string | null;
+  /** Apply Gutenberg boundary detection to non-Gutenberg sources */
+  clean: boolean;
+  /** Read only from the sparse cache and on-disk catalog */
+  offline: boolean;
+  /** How text is cut into chunks (--sentences, --paragraphs, --screenful) */
+  chunkMode: ChunkMode;
   chunkSize: number | null;
   startPercent: number | null;
   errors: string[];
@@ -300,6 +636,18 @@ export interface WebServerOptions {
   useLocalCache?: boolean;
   /** Cache directory path (default: .cache/sparse in project root) */
   cacheDir?: string;
+  /** Non-Gutenberg texts served under /api/book/<sourceId>/... */
+  sources?: TextSource[];
+  /** Serve only cached ranges and the on-disk catalog (implies useLocalCache) */
+  offline?: boolean;
+  /** Sparse cache byte quota across all books (default: unlimited) */
+  cacheMaxBytes?: number;
+  /** Sparse cache cap for any one unpinned book (default: unlimited) */
+  cacheMaxBytesPerBook?: number;
+  /** Extra mirror URLs (http(s):// or file://), tried before MIRRORS.ALL */
+  mirrors?: string[];
+  /** Mirror config file (default: ~/.gutex_mirrors.json) */
+  mirrorConfigPath?: string;
 }
 
 /**
@@ -307,7 +655,7 @@ export interface WebServerOptions {
  */
 export interface RequestLogEntry {
   type: string;
-  bookId: number;
+  bookId: number | string;
   start?: number;
   end?: number;
   bytes?: number;
@@ -334,9 +682,10 @@ export interface EventLogEntry {
  * API response for book chunk
  */
 export interface ChunkResponse extends Position {
-  bookId: number;
+  bookId: number | string;
   requestedBookId?: number;
   chunkSize: number;
+  chunkMode: ChunkMode;
   totalBytes: number;
   docStart: number;
   docEnd: number;
@@ -406,6 +755,10 @@ export interface KeyboardCallbacks {
   debug: (() => void) | null;
   pageUp: (() => void) | null;
   pageDown: (() => void) | null;
+  nextChapter: (() => void) | null;
+  previousChapter: (() => void) | null;
+  trailBack: (() => void) | null;
+  trailForward: (() => void) | null;
   escape: (() => void) | null;
   excerpt: (() => void) | null;
 }
@@ -422,6 +775,8 @@ export interface BookmarkInfo {
   position: number;
   percent: string;
   timestamp: number;
+  /** Text anchor token for position, found again if the book is revised */
+  anchor?: string;
   [key: string]: unknown;
 }
 
@@ -441,6 +796,12 @@ export interface BookmarksData {
  */
 export interface GutexEnhancedOptions {
   showChrome?: boolean;
+  /** Read a local file or URL instead of a Gutenberg book */
+  source?: TextSource | null;
+  /** Read only from the sparse cache and on-disk catalog */
+  offline?: boolean;
+  /** How text is cut into chunks (default 'words') */
+  chunkMode?: ChunkMode;
 }
 
 // ============================================================================
@@ -4,6 +4,8 @@ interface SearchResult {
   id: string;
   title: string;
   author?: string;
+  /** On author pages: the author's role, e.g. Translator */
+  role?: string | null;
 }
 
 interface FulltextMatch {
@@ -25,6 +27,8 @@ interface FulltextState {
   wordBytePositions: number[];
   results: FulltextMatch[];
   loading: boolean;
+  /** Whole book cached: short phrases, regex and boolean queries are allowed */
+  fullyCached: boolean;
 }
 
 let selectedIndex = -1;
@@ -39,7 +43,8 @@ const fulltextState: FulltextState = {
   words: [],
   wordBytePositions: [],
   results: [],
-  loading: false
+  loading: false,
+  fullyCached: false
 };
 
 // Context view state
@@ -33,6 +33,7 @@ function renderResults(results: SearchResult[], query: string): void {
           '<span class="book-id">#' + book.id + '</span>' +
           '<span class="book-title">' + escapeHtml(book.title) + '</span>' +
           (author ? '<span class="book-author"> — ' + escapeHtml(author) + '</span>' : '') +
+          (book.role ? '<span class="book-role">' + escapeHtml(book.role) + '</span>' : '') +
         '</a>' +
       '</div>' +
       '<button class="search-inside-btn" data-book-id="' + book.id + '" data-book-title="' + escapeHtml(book.title) + '" data-book-author="' + escapeHtml(author || '') + '" title="Search inside the book">🔎</button>' +
@@ -55,6 +56,34 @@ function renderResults(results: SearchResult[], query: string): void {
   broadcastState();
 }
 
+// Subject chips for the current results; clicking one narrows the search to it
+function renderFacets(facets: { subjects: { value: string; count: number }[] } | null): void {
+  const facetsEl = $('facets');
+  if (!facetsEl) return;
+
+  const subjects = facets ? facets.subjects : [];
+  if (subjects.length === 0) {
+    facetsEl.innerHTML = '';
+    return;
+  }
+
+  facetsEl.innerHTML = '<span class="facets-label">Subjects:</span>' + subjects.map((s: { value: string; count: number }) =>
+    '<button class="facet-chip" data-subject="' + escapeHtml(s.value) + '" title="Search this subject">' +
+      escapeHtml(s.value) + ' <span class="facet-count">' + s.count + '</span>' +
+    '</button>'
+  ).join('');
+
+  facetsEl.querySelectorAll('.facet-chip').forEach((chip: Element) => {
+    chip.addEventListener('click', () => {
+      const subject = (chip as HTMLElement).dataset.subject || '';
+      const query = 'subject:"' + subject.replace(/"/g, '') + '"';
+      const input = $('query') as HTMLInputElement | null;
+      if (input) input.value = query;
+      search(query);
+    });
+  });
+}
+
 function updateSelection(): void {
   const resultsEl = $('results');
   if (!resultsEl) return;
@@ -76,14 +105,19 @@ async function search(query: string): Promise<void> {
   if (!query || query.length < 2) {
     if (status) status.textContent = 'Enter at least 2 characters';
     if (resultsEl) resultsEl.innerHTML = '';
+    renderFacets(null);
     currentResults = [];
     selectedIndex = -1;
     broadcastState();
     return;
   }
   
+  // A search leaves the author or bookshelf page
+  if (authorSlugFromHash() || bookshelfFromHash()) history.replaceState(null, '', window.location.pathname);
+
   if (status) status.textContent = 'Searching...';
   if (resultsEl) resultsEl.innerHTML = '';
+  renderFacets(null);
   currentResults = [];
   selectedIndex = -1;
   
@@ -106,6 +140,7 @@ async function search(query: string): Promise<void> {
     }
     
     renderResults(data.results, query);
+    renderFacets(data.facets || null);
     saveSearchCache(query, data.results);
     
   } catch (err) {
@@ -1,6 +1,7 @@
 // @ts-nocheck
 // ========== Network-efficient fulltext search ==========
-// Uses server-side range-based search to avoid downloading entire books
+// Uses server-side range-based search to avoid downloading entire books.
+// Results stream in over Server-Sent Events as the server finds them.
 
 interface NetworkSearchMatch {
   position: number;
@@ -16,7 +17,7 @@ interface NetworkSearchResult {
   bytesDownloaded: number;
   chunksRequested: number;
   searchTimeMs: number;
-  strategy: 'full-download' | 'range-search';
+  strategy: 'full-download' | 'range-search' | 'index';
   bookId: number;
   phrase: string;
   fuzzy: boolean;
@@ -40,34 +41,72 @@ const excerptBuilder = {
   endWordIdx: 0
 };
 
-async function performNetworkSearch(
-  bookId: number, 
-  phrase: string, 
-  fuzzy: boolean = false
-): Promise<NetworkSearchResult> {
+interface NetworkSearchProgress {
+  bytesDownloaded: number;
+  chunksRequested: number;
+  chunkSize: number;
+  position: number;
+  fileSize: number;
+  strategy: 'full-download' | 'range-search';
+}
+
+// The search in flight; replaced (and closed) when a new search starts
+let fulltextStream: EventSource | null = null;
+
+function stopNetworkSearch(): void {
+  if (fulltextStream) {
+    fulltextStream.close();
+    fulltextStream = null;
+  }
+}
+
+// Stream a search: matches arrive one by one, with progress after each chunk.
+// Closing the EventSource tells the server to stop scanning.
+function streamNetworkSearch(
+  bookId: number,
+  phrase: string,
+  fuzzy: boolean,
+  handlers: {
+    onMatch: (match: NetworkSearchMatch) => void;
+    onProgress: (progress: NetworkSearchProgress) => void;
+    onDone: (result: NetworkSearchResult & { matchCount: number }) => void;
+    onError: (message: string) => void;
+  }
+): void {
+  stopNetworkSearch();
+  
   const params = new URLSearchParams({
     q: phrase,
     fuzzy: fuzzy.toString(),
     max: '100'
   });
-  
-  const response = await fetch(`/api/textsearch/${bookId}?${params}`);
-  
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: response.statusText }));
-    throw new Error(error.error || `Search failed: ${response.status}`);
-  }
-  
-  return response.json();
+  const source = new EventSource(`/api/textsearch/${bookId}/stream?${params}`);
+  fulltextStream = source;
+  
+  source.addEventListener('match', (e: MessageEvent) => handlers.onMatch(JSON.parse(e.data)));
+  source.addEventListener('progress', (e: MessageEvent) => handlers.onProgress(JSON.parse(e.data)));
+  source.addEventListener('done', (e: MessageEvent) => {
+    stopNetworkSearch();
+    handlers.onDone(JSON.parse(e.data));
+  });
+  source.addEventListener('error', (e: MessageEvent) => {
+    // Server-sent error events carry a message; connection failures don't
+    if (fulltextStream !== source) return;
+    stopNetworkSearch();
+    const data = e.data ? JSON.parse(e.data) : null;
+    handlers.onError(data?.error || 'Search failed');
+  });
 }
 
 async function openFulltextSearch(bookId: number, bookTitle: string, bookAuthor: string): Promise<void> {
   // Reset state
+  stopNetworkSearch();
   fulltextState.bookId = bookId;
   fulltextState.bookTitle = bookTitle;
   fulltextState.bookAuthor = bookAuthor;
   fulltextState.results = [];
   fulltextState.loading = false;
+  fulltextState.fullyCached = false;
   
   // Update UI
   const overlay = $('fulltextOverlay');
@@ -94,15 +133,34 @@ async function openFulltextSearch(bookId: number, bookTitle: string, bookAuthor:
   
   // Hide excerpt builder if visible
   closeExcerptBuilder();
+  
+  // A fully cached book can be searched with any query
+  try {
+    const response = await fetch(`/api/cache/${bookId}`);
+    const stats = response.ok ? await response.json() : null;
+    if (fulltextState.bookId !== bookId || !stats || stats.coveragePercent < 100) return;
+    fulltextState.fullyCached = true;
+    if (status && !query?.value) status.innerHTML = `
+      <div class="search-hint">
+        This book is fully cached: search any phrase, a <strong>/regex/</strong>,
+        or terms with <strong>AND</strong>, <strong>OR</strong>, <strong>NOT</strong>
+        and <strong>NEAR/10</strong>.
+      </div>
+    `;
+    if (query) query.placeholder = 'Phrase, /regex/ or "whale" NEAR/10 "ship"...';
+  } catch {
+    // Cache status is only a hint
+  }
 }
 
 function closeFulltextSearch(): void {
+  stopNetworkSearch();
   const overlay = $('fulltextOverlay');
   if (overlay) overlay.classList.remove('visible');
   closeExcerptBuilder();
 }
 
-async function performFulltextSearch(): Promise<void> {
+function performFulltextSearch(): void {
   const queryEl = $('fulltextQuery') as HTMLInputElement | null;
   const fuzzyEl = $('fulltextFuzzy') as HTMLInputElement | null;
   const statusEl = $('fulltextStatus');
@@ -118,9 +176,12 @@ async function performFulltextSearch(): Promise<void> {
     return;
   }
   
-  // Check word count
+  // Check word count; a fully cached book, a regex or a boolean query is
+  // checked by the server instead
   const words = phrase.split(/\s+/).filter(w => w.length > 0);
-  if (words.length < 4) {
+  const advanced = /^\/.+\/[a-z]*$|["()]|(^|\s)(AND|OR|NOT|NEAR(\/\d+)?)(\s|$)/.test(phrase);
+  if (words.length === 0 || (words.length < 4 && !advanced && !fulltextState.fullyCached)) {
+    stopNetworkSearch();
     statusEl.innerHTML = `
       <div class="search-hint">
         Enter at least <strong>4 words</strong> (currently ${words.length}).<br>
@@ -134,91 +195,101 @@ async function performFulltextSearch(): Promise<void> {
   
   const fuzzy = fuzzyEl?.checked || false;
   
-  // Show loading state
+  // Show loading state; results are appended as they arrive
   statusEl.innerHTML = `<div class="searching">Searching...</div>`;
   resultsEl.innerHTML = '';
-  queryEl.disabled = true;
-  
-  try {
-    const result = await performNetworkSearch(bookId, phrase, fuzzy);
+  const matches: NetworkSearchMatch[] = [];
+  fulltextState.results = matches;
+  
+  streamNetworkSearch(bookId, phrase, fuzzy, {
+    onMatch(match) {
+      matches.push(match);
+      resultsEl.appendChild(renderNetworkMatch(match));
+    },
     
-    queryEl.disabled = false;
-    
-    if (!result.found || result.matches.length === 0) {
+    onProgress(progress) {
+      const percent = progress.fileSize > 0 ? Math.round((progress.position / progress.fileSize) * 100) : 100;
       statusEl.innerHTML = `
-        <div class="no-results">
-          No matches found.<br>
-          <small>Downloaded ${formatBytes(result.bytesDownloaded)} in ${result.chunksRequested} request(s)</small>
+        <div class="searching">
+          Searching... ${percent}% · <strong>${matches.length}</strong> match${matches.length !== 1 ? 'es' : ''}
+          <br>
+          <small>
+            ${formatBytes(progress.bytesDownloaded)} via ${progress.chunksRequested} request(s)
+            ${progress.strategy === 'range-search' ? ` · next chunk ${formatBytes(progress.chunkSize)}` : ''}
+          </small>
         </div>
       `;
-      fulltextState.results = [];
-      return;
-    }
+    },
     
-    // Store results
-    fulltextState.results = result.matches;
-    
-    // Show stats
-    const strategyLabel = result.strategy === 'full-download' 
-      ? 'full download' 
-      : `${result.chunksRequested} range request(s)`;
-    
-    statusEl.innerHTML = `
-      <div class="search-stats">
-        <strong>${result.matches.length}</strong> match${result.matches.length !== 1 ? 'es' : ''} found
-        ${fuzzy ? `<span class="fuzzy-badge">fuzzy</span>` : ''}
-        <br>
-        <small>
-          ${formatBytes(result.bytesDownloaded)} via ${strategyLabel} · ${result.searchTimeMs}ms
-        </small>
-      </div>
-    `;
-    
-    // Render results with excerpt button
-    resultsEl.innerHTML = result.matches.map((m, idx) => `
-      <div class="result-item" data-idx="${idx}">
-        <div class="match-context">
-          ${escapeHtml(m.context.slice(0, m.context.toLowerCase().indexOf(m.matchedText.toLowerCase())))}
-          <span class="match-highlight">${escapeHtml(m.matchedText)}</span>
-          ${escapeHtml(m.context.slice(m.context.toLowerCase().indexOf(m.matchedText.toLowerCase()) + m.matchedText.length))}
-        </div>
-        <div class="match-actions">
-          <span class="match-position">Byte ${m.byteStart.toLocaleString()}</span>
-          ${m.editDistance > 0 ? `<span class="edit-distance">~${m.editDistance} edits</span>` : ''}
-          <button class="excerpt-btn" data-idx="${idx}" title="Create excerpt link">✂️ Excerpt</button>
+    onDone(result) {
+      if (result.matchCount === 0) {
+        statusEl.innerHTML = `
+          <div class="no-results">
+            No matches found.<br>
+            <small>Downloaded ${formatBytes(result.bytesDownloaded)} in ${result.chunksRequested} request(s)</small>
+          </div>
+        `;
+        return;
+      }
+      
+      const strategyLabel = result.strategy === 'full-download' 
+        ? 'full download' 
+        : result.strategy === 'index'
+          ? 'word index'
+          : `${result.chunksRequested} range request(s)`;
+      
+      statusEl.innerHTML = `
+        <div class="search-stats">
+          <strong>${result.matchCount}</strong> match${result.matchCount !== 1 ? 'es' : ''} found
+          ${fuzzy ? `<span class="fuzzy-badge">fuzzy</span>` : ''}
+          <br>
+          <small>
+            ${formatBytes(result.bytesDownloaded)} via ${strategyLabel} · ${result.searchTimeMs}ms
+          </small>
         </div>
-      </div>
-    `).join('');
-    
-    // Add click handlers
-    resultsEl.querySelectorAll('.result-item').forEach((item: Element) => {
-      // Click on result (not button) jumps to position
-      item.addEventListener('click', (e) => {
-        if ((e.target as HTMLElement).classList.contains('excerpt-btn')) return;
-        const idx = parseInt((item as HTMLElement).dataset.idx || '0', 10);
-        const match = result.matches[idx];
-        if (match) jumpToBytePosition(match.byteStart);
-      });
-    });
-    
-    // Excerpt button handlers
-    resultsEl.querySelectorAll('.excerpt-btn').forEach((btn: Element) => {
-      btn.addEventListener('click', (e) => {
-        e.stopPropagation();
-        const idx = parseInt((btn as HTMLElement).dataset.idx || '0', 10);
-        const match = result.matches[idx];
-        if (match) openExcerptBuilder(match);
-      });
-    });
+      `;
+    },
     
-  } catch (err) {
-    queryEl.disabled = false;
-    statusEl.innerHTML = `
-      <div class="search-error">
-        ${escapeHtml((err as Error).message)}
-      </div>
-    `;
-  }
+    onError(message) {
+      statusEl.innerHTML = `
+        <div class="search-error">
+          ${escapeHtml(message)}
+        </div>
+      `;
+    }
+  });
+}
+
+// One search result, with a click to jump there and an excerpt button
+function renderNetworkMatch(m: NetworkSearchMatch): HTMLElement {
+  const matchIdx = m.context.toLowerCase().indexOf(m.matchedText.toLowerCase());
+  const item = document.createElement('div');
+  item.className = 'result-item';
+  item.innerHTML = `
+    <div class="match-context">
+      ${escapeHtml(m.context.slice(0, matchIdx))}
+      <span class="match-highlight">${escapeHtml(m.matchedText)}</span>
+      ${escapeHtml(m.context.slice(matchIdx + m.matchedText.length))}
+    </div>
+    <div class="match-actions">
+      <span class="match-position">Byte ${m.byteStart.toLocaleString()}</span>
+      ${m.editDistance > 0 ? `<span class="edit-distance">~${m.editDistance} edits</span>` : ''}
+      <button class="excerpt-btn" title="Create excerpt link">✂️ Excerpt</button>
+    </div>
+  `;
+  
+  // Click on result (not button) jumps to position
+  item.addEventListener('click', (e) => {
+    if ((e.target as HTMLElement).classList.contains('excerpt-btn')) return;
+    jumpToBytePosition(m.byteStart);
+  });
+  
+  item.querySelector('.excerpt-btn')?.addEventListener('click', (e) => {
+    e.stopPropagation();
+    openExcerptBuilder(m);
+  });
+  
+  return item;
 }
 
 async function openExcerptBuilder(match: NetworkSearchMatch): Promise<void> {
@@ -0,0 +1,59 @@
+// @ts-nocheck
+// ========== Author pages ==========
+// /#author/<slug> lists an author's books; the reader links here from the
+// book info popup
+
+const AUTHOR_HASH = /^#author\/(.+)$/;
+
+function authorSlugFromHash(): string | null {
+  const match = window.location.hash.match(AUTHOR_HASH);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+function formatLifespan(author: { birthYear: number | null; deathYear: number | null; dates: string | null }): string {
+  const year = (y: number | null): string => y === null ? '?' : (y < 0 ? -y + ' BCE' : String(y));
+  if (author.birthYear !== null || author.deathYear !== null) {
+    return year(author.birthYear) + '–' + year(author.deathYear);
+  }
+  return author.dates || '';
+}
+
+async function showAuthor(slug: string): Promise<void> {
+  const status = $('status');
+  const resultsEl = $('results');
+
+  if (status) status.textContent = 'Loading author...';
+  if (resultsEl) resultsEl.innerHTML = '';
+  renderFacets(null);
+  currentResults = [];
+  selectedIndex = -1;
+
+  try {
+    const res = await fetch('/api/author/' + encodeURIComponent(slug) + '?limit=200');
+    const data = await res.json();
+
+    if (data.error) {
+      if (status) status.textContent = data.error;
+      broadcastState();
+      return;
+    }
+
+    renderResults(data.results, data.author.displayName);
+
+    if (status) {
+      const lifespan = formatLifespan(data.author);
+      const shown = data.results.length < data.total ? ' (first ' + data.results.length + ')' : '';
+      status.innerHTML = '<span class="author-heading">' + escapeHtml(data.author.displayName) + '</span>' +
+        (lifespan ? ' <span class="author-dates">' + escapeHtml(lifespan) + '</span>' : '') +
+        ' — ' + data.total + ' book' + (data.total !== 1 ? 's' : '') + shown;
+    }
+  } catch (err) {
+    if (status) status.textContent = 'Error: ' + (err as Error).message;
+    broadcastState();
+  }
+}
+
+window.addEventListener('hashchange', () => {
+  const slug = authorSlugFromHash();
+  if (slug) showAuthor(slug);
+});
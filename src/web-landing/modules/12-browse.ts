@@ -0,0 +1,140 @@
+// @ts-nocheck
+// ========== Browse subjects and bookshelves ==========
+// The Browse section lists subjects (/api/subjects) and bookshelves
+// (/api/bookshelves). A subject searches for its books; a bookshelf opens
+// /#bookshelf/<name>, which lists the books on it.
+
+const BOOKSHELF_HASH = /^#bookshelf\/(.+)$/;
+
+// Subjects shown at once; the filter narrows them on the server
+const BROWSE_SUBJECT_LIMIT = 100;
+const BROWSE_FILTER_DELAY = 200;
+
+let browseKind: 'subjects' | 'bookshelves' = 'subjects';
+let browseFilterTimer: ReturnType<typeof setTimeout> | null = null;
+// Bookshelves come as one list, filtered here
+let bookshelves: { value: string; count: number }[] | null = null;
+
+function bookshelfFromHash(): string | null {
+  const match = window.location.hash.match(BOOKSHELF_HASH);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+function renderBrowseList(items: { value: string; count: number }[], total: number): void {
+  const listEl = $('browseList');
+  if (!listEl) return;
+
+  if (items.length === 0) {
+    listEl.innerHTML = '<span class="browse-empty">Nothing found</span>';
+    return;
+  }
+
+  const more = total > items.length ? '<span class="browse-more">' + (total - items.length) + ' more — filter to narrow</span>' : '';
+  listEl.innerHTML = items.map((item: { value: string; count: number }) =>
+    '<button class="facet-chip" data-value="' + escapeHtml(item.value) + '">' +
+      escapeHtml(item.value) + ' <span class="facet-count">' + item.count + '</span>' +
+    '</button>'
+  ).join('') + more;
+
+  listEl.querySelectorAll('.facet-chip').forEach((chip: Element) => {
+    chip.addEventListener('click', () => {
+      const value = (chip as HTMLElement).dataset.value || '';
+      if (browseKind === 'bookshelves') {
+        window.location.hash = '#bookshelf/' + encodeURIComponent(value);
+      } else {
+        const query = 'subject:"' + value.replace(/"/g, '') + '"';
+        const input = $('query') as HTMLInputElement | null;
+        if (input) input.value = query;
+        search(query);
+      }
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    });
+  });
+}
+
+async function loadBrowseList(): Promise<void> {
+  const listEl = $('browseList');
+  const filterInput = $('browseFilter') as HTMLInputElement | null;
+  const filter = filterInput ? filterInput.value.trim() : '';
+  if (listEl && !listEl.innerHTML) listEl.textContent = 'Loading...';
+
+  try {
+    if (browseKind === 'subjects') {
+      const res = await fetch('/api/subjects?limit=' + BROWSE_SUBJECT_LIMIT + (filter ? '&q=' + encodeURIComponent(filter) : ''));
+      const data = await res.json();
+      if (data.error) throw new Error(data.error);
+      renderBrowseList(data.subjects, data.total);
+    } else {
+      if (!bookshelves) {
+        const res = await fetch('/api/bookshelves');
+        const data = await res.json();
+        if (data.error) throw new Error(data.error);
+        bookshelves = data.bookshelves;
+      }
+      const needle = filter.toLowerCase();
+      const shelves = bookshelves!.filter((shelf: { value: string }) => shelf.value.toLowerCase().includes(needle));
+      renderBrowseList(shelves, shelves.length);
+    }
+  } catch (err) {
+    if (listEl) listEl.textContent = 'Error: ' + (err as Error).message;
+  }
+}
+
+async function showBookshelf(name: string): Promise<void> {
+  const status = $('status');
+  const resultsEl = $('results');
+
+  if (status) status.textContent = 'Loading bookshelf...';
+  if (resultsEl) resultsEl.innerHTML = '';
+  renderFacets(null);
+  currentResults = [];
+  selectedIndex = -1;
+
+  try {
+    const res = await fetch('/api/bookshelves/' + encodeURIComponent(name) + '?limit=200');
+    const data = await res.json();
+
+    if (data.error) {
+      if (status) status.textContent = data.error;
+      broadcastState();
+      return;
+    }
+
+    renderResults(data.results, data.name);
+
+    if (status) {
+      const shown = data.results.length < data.total ? ' (first ' + data.results.length + ')' : '';
+      status.innerHTML = '<span class="author-heading">' + escapeHtml(data.name) + '</span>' +
+        ' — ' + data.total + ' book' + (data.total !== 1 ? 's' : '') + shown;
+    }
+  } catch (err) {
+    if (status) status.textContent = 'Error: ' + (err as Error).message;
+    broadcastState();
+  }
+}
+
+// Lists load when the section is first opened
+$('browse')?.addEventListener('toggle', () => {
+  const listEl = $('browseList');
+  if (($('browse') as HTMLDetailsElement).open && listEl && !listEl.innerHTML) loadBrowseList();
+});
+
+document.querySelectorAll('.browse-tab').forEach((tab: Element) => {
+  tab.addEventListener('click', () => {
+    browseKind = (tab as HTMLElement).dataset.browse as 'subjects' | 'bookshelves';
+    document.querySelectorAll('.browse-tab').forEach((t: Element) => t.classList.toggle('active', t === tab));
+    const listEl = $('browseList');
+    if (listEl) listEl.innerHTML = '';
+    loadBrowseList();
+  });
+});
+
+$('browseFilter')?.addEventListener('input', () => {
+  if (browseFilterTimer) clearTimeout(browseFilterTimer);
+  browseFilterTimer = setTimeout(loadBrowseList, BROWSE_FILTER_DELAY);
+});
+
+window.addEventListener('hashchange', () => {
+  const name = bookshelfFromHash();
+  if (name) showBookshelf(name);
+});
@@ -1,9 +1,15 @@
 // @ts-nocheck
 // ========== Initialization ==========
 
-// Restore last search
-const cached = loadSearchCache();
-if (cached && cached.results && cached.results.length > 0) {
+// Open an author or bookshelf page, or restore the last search
+const authorSlug = authorSlugFromHash();
+const shelfName = bookshelfFromHash();
+const cached = authorSlug || shelfName ? null : loadSearchCache();
+if (authorSlug) {
+  showAuthor(authorSlug);
+} else if (shelfName) {
+  showBookshelf(shelfName);
+} else if (cached && cached.results && cached.results.length > 0) {
   const queryInput = $('query') as HTMLInputElement | null;
   if (queryInput) queryInput.value = cached.query || '';
   renderResults(cached.results, cached.query);
@@ -9,38 +9,85 @@ import https from 'https';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import type { Readable, Writable } from 'stream';
 import { Fetcher } from './fetcher.js';
 import { CachedFetcher } from './cached-fetcher.js';
-import { SparseCache, getSharedSparseCache } from './sparse-cache.js';
+import { SparseCache, NotCachedError, getSharedSparseCache } from './sparse-cache.js';
 import { Cleaner } from './cleaner.js';
 import { Navigator } from './navigator.js';
 import { CatalogManager } from './catalog-manager.js';
+import { CatalogQueryError } from './catalog-query.js';
+import { parseAuthors } from './catalog-author.js';
+import { renderArrivalsFeed } from './catalog-changelog.js';
 import { getSharedMirrorManager } from './mirror-manager.js';
+import { loadMirrorConfig, withExtraMirrors } from './mirror-config.js';
 import { P2PSignalingServer } from './p2p-signaling.js';
 import { saveBookmark, loadBookmark, listBookmarks, deleteBookmark } from './bookmarks.js';
 import { NetworkSearcher } from './network-search.js';
 import { saveLastPosition, loadLastPosition, clearLastPosition } from './last-position.js';
+import { TextSourceRegistry, SourceFetcher, findSourceBoundaries } from './text-source.js';
+import { PinJobManager } from './pin-jobs.js';
+import { BookIndexManager } from './book-index.js';
+import { OutlineStore } from './book-structure.js';
+import { WordMapStore, SMALL_BOOK_BYTES } from './word-map.js';
+import { isChunkMode } from './chunking.js';
+import { encodeAnchor, decodeAnchor, type AnchorMatch } from './text-anchor.js';
+import { ReadingTrail, isTrailKind, type TrailEntry } from './reading-trail.js';
+import {
+  exportCacheArchive,
+  exportCacheArchiveToFile,
+  importCacheArchive,
+  importCacheArchiveFromFile,
+  type CacheArchiveManifest,
+  type CacheImportSummary
+} from './cache-archive.js';
 import type {
   WebServerOptions,
   RequestLogEntry,
   EventLogEntry,
   ChunkResponse,
+  ChunkMode,
+  ScreenSize,
   CatalogRecord,
   BookmarkInfo
 } from './types.js';
 import type { LastPosition } from './last-position.js';
+import type { SearchOptions } from './network-search.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+/** Navigator's UTF-8 safety margin; reads reach this far past their bounds */
+const NOT_CACHED_MARGIN = 4;
+/** Below this, a cached run before a gap isn't worth a chunk of its own */
+const MIN_READABLE_BYTES = 64;
+/** Entries in the new arrivals feed */
+const FEED_ENTRIES = 100;
+/** Bytes read per book by a library search, unless ?budget= says otherwise */
+const LIBRARY_SEARCH_BUDGET = 1024 * 1024;
+const LIBRARY_SEARCH_MAX_BUDGET = 16 * 1024 * 1024;
+/** Books named in one library search */
+const LIBRARY_SEARCH_MAX_BOOKS = 100;
+/** Largest cols or rows a screenful chunk request may ask for */
+const MAX_SCREEN_CELLS = 500;
+
 type NavigatorWithMeta = Navigator & {
   actualBookId?: number;
   requestedBookId?: number;
 };
 
+/** How a chunk request wants its text cut */
+interface ChunkOptions {
+  chunkSize: number;
+  chunkMode: ChunkMode;
+  screen: ScreenSize | null;
+}
+
 export class WebServer {
   private port: number;
   private chunkSize: number;
   private navigators = new Map<number, NavigatorWithMeta>();
+  private sourceNavigators = new Map<string, NavigatorWithMeta>();
+  public sources = new TextSourceRegistry();
   public catalog = new CatalogManager();
   private mirrorManager = getSharedMirrorManager({ debug: false });
   private p2pSignaling = new P2PSignalingServer();
@@ -49,24 +96,67 @@ export class WebServer {
   public maxLogSize = 50;
   private debug: boolean;
   private useLocalCache: boolean;
+  private offline: boolean;
   private sparseCache: SparseCache | null = null;
+  private pinJobs: PinJobManager | null = null;
+  private bookIndexes: BookIndexManager | null = null;
+  private outlines = new OutlineStore();
+  private wordMaps = new WordMapStore();
+  private trail = new ReadingTrail();
+  // Books whose words couldn't be counted; they keep estimated word indexes
+  private wordMapFailures = new Set<number | string>();
+  // Set up by the constructor and start(), undone by stop()
+  private stopQuarantineListener: () => void;
+  private catalogTimer: ReturnType<typeof setInterval> | null = null;
+  private httpServer: http.Server | null = null;
 
   constructor(options: WebServerOptions = {}) {
     this.port = options.port || 3000;
     this.chunkSize = options.chunkSize || 200;
     this.debug = options.debug || false;
-    this.useLocalCache = options.useLocalCache !== false;  // Default to true
+    this.offline = options.offline || false;
+    // Offline mode reads everything from the sparse cache
+    this.useLocalCache = this.offline || options.useLocalCache !== false;  // Default to true
     
     if (this.debug) {
       this.mirrorManager = getSharedMirrorManager({ debug: true });
     }
+
+    // The shared manager already read the default config; an explicit path or
+    // --mirror URLs replace it (an invalid config file throws)
+    if (options.mirrorConfigPath || options.mirrors?.length) {
+      this.mirrorManager.configure(withExtraMirrors(loadMirrorConfig(options.mirrorConfigPath), options.mirrors ?? []));
+    }
     
     if (this.useLocalCache) {
       this.sparseCache = getSharedSparseCache({
         cacheDir: options.cacheDir,
-        debug: this.debug
+        debug: this.debug,
+        offline: this.offline,
+        maxBytes: options.cacheMaxBytes,
+        maxBytesPerBook: options.cacheMaxBytesPerBook
+      });
+      this.sparseCache.setOffline(this.offline);
+      this.bookIndexes = new BookIndexManager(this.sparseCache, { debug: this.debug });
+      // A book that has just been pinned in full gets its word index right away
+      this.pinJobs = new PinJobManager(this.sparseCache, {
+        debug: this.debug,
+        onProgress: status => {
+          if (status.state === 'done') this.bookIndexes!.schedule(status.bookId);
+        }
       });
     }
+    
+    // Text read from a mirror that turns out to serve a different copy
+    this.stopQuarantineListener = this.mirrorManager.onQuarantine(verification => {
+      void this._dropQuarantinedBook(verification.bookId, verification.baseUrl);
+    });
+
+    this.catalog.setOffline(this.offline);
+
+    for (const source of options.sources || []) {
+      this.sources.register(source);
+    }
   }
 
   public logRequest(info: Omit<RequestLogEntry, 'timestamp'>): void {
@@ -137,6 +227,9 @@ export class WebServer {
         this.logEvent('cache', `Book ${bookId}: local caching enabled`);
       }
     } catch (err) {
+      // Alternative lookup needs the network
+      if (this.offline) throw err;
+
       // Book ID doesn't have a text file - try to find an alternative
       const book = this.catalog.getBookById(bookId);
       if (book?.title) {
@@ -212,6 +305,65 @@ export class WebServer {
     return navigator;
   }
 
+  /**
+   * Forget a book partly read from a quarantined mirror: its navigator and
+   * cached blocks hold the mirror's copy, whose byte offsets may not match
+   */
+  private async _dropQuarantinedBook(bookId: number, baseUrl: string): Promise<void> {
+    for (const [key, navigator] of this.navigators) {
+      if (key === bookId || navigator.actualBookId === bookId) {
+        this.navigators.delete(key);
+      }
+    }
+    if (this.sparseCache) {
+      this.pinJobs?.cancel(bookId);
+      await this.sparseCache.invalidate(bookId);
+    }
+    this.logEvent('mirror_quarantine', `Book ${bookId}: dropped text read from ${baseUrl}`);
+  }
+
+  /**
+   * Get a navigator for a registered local/URL text source
+   */
+  public async getSourceNavigator(sourceId: string): Promise<NavigatorWithMeta> {
+    if (this.sourceNavigators.has(sourceId)) {
+      return this.sourceNavigators.get(sourceId)!;
+    }
+
+    const source = this.sources.get(sourceId);
+    if (!source) {
+      throw new Error(`Text source ${sourceId} not found.`);
+    }
+
+    const fetcher = new SourceFetcher(source, this.debug);
+    await fetcher.getFileSize();
+    this.logEvent('source', `${sourceId}: ${source.location}`);
+
+    const originalFetchRange = fetcher.fetchRange.bind(fetcher);
+    fetcher.fetchRange = async (start: number, end: number): Promise<Buffer> => {
+      const startTime = Date.now();
+      const result = await originalFetchRange(start, end);
+      this.logRequest({
+        type: 'range',
+        bookId: sourceId,
+        start,
+        end,
+        bytes: end - start,
+        duration: Date.now() - startTime,
+        mirror: source.kind === 'file' ? 'local file' : source.location,
+        cached: false
+      });
+      return result;
+    };
+
+    const boundaries = await findSourceBoundaries(source, fetcher);
+    const navigator = new Navigator(fetcher, boundaries, this.chunkSize) as NavigatorWithMeta;
+    await navigator._calibrateWordDensity();
+
+    this.sourceNavigators.set(sourceId, navigator);
+    return navigator;
+  }
+
   private async _findAlternativeTextVersion(title: string, excludeId: number): Promise<number | null> {
     const searchUrl = `https://gutendex.com/books/?search=${encodeURIComponent(title)}`;
 
@@ -297,11 +449,14 @@ export class WebServer {
       return false;
     }
 
-    // GET /api/search?q=query&lang=en
+    // GET /api/search?q=query&lang=en&offset=0&limit=50
+    // q supports author: title: subject: shelf: locc: type: lang: year: id: fields and "quoted phrases"
     if (pathParts[1] === 'search') {
       const query = url.searchParams.get('q');
       const lang = url.searchParams.get('lang');
       const languageFilter = lang === 'all' ? null : (lang || null);
+      const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+      const limit = parseInt(url.searchParams.get('limit') || '50', 10);
       
       if (!query || query.length < 2) {
         this.sendJson(res, 400, { error: 'Query too short' });
@@ -310,78 +465,357 @@ export class WebServer {
 
       try {
         const startTime = Date.now();
-        const results = this.catalog.searchCatalog(query, languageFilter).slice(0, 50);
-        this.logEvent('search', `query="${query}" lang=${lang || 'all'} results=${results.length}`, Date.now() - startTime);
-        this.sendJson(res, 200, { query, results });
+        const page = this.catalog.searchCatalogPage(query, {
+          languageFilter,
+          offset: isNaN(offset) ? 0 : offset,
+          limit: isNaN(limit) ? undefined : limit
+        });
+        this.logEvent('search', `query="${query}" lang=${lang || 'all'} results=${page.results.length}/${page.total}`, Date.now() - startTime);
+        this.sendJson(res, 200, { query, ...page });
       } catch (err) {
+        if (err instanceof CatalogQueryError) {
+          this.sendJson(res, 400, { error: err.message });
+          return true;
+        }
         this.logEvent('error', `search failed: ${(err as Error).message}`);
         this.sendJson(res, 500, { error: (err as Error).message });
       }
       return true;
     }
 
-    // GET /api/textsearch/:bookId?q=phrase&fuzzy=true
-    // Network-efficient fulltext search within a book
-    if (pathParts[1] === 'textsearch' && pathParts[2]) {
+    // GET /api/subjects?q=filter&limit=100
+    if (pathParts[1] === 'subjects' && !pathParts[2]) {
+      const filter = url.searchParams.get('q');
+      const limit = parseInt(url.searchParams.get('limit') || '100', 10);
+
+      try {
+        const subjects = this.catalog.getSubjects(filter);
+        this.sendJson(res, 200, {
+          total: subjects.length,
+          subjects: subjects.slice(0, isNaN(limit) || limit < 1 ? 100 : limit)
+        });
+      } catch (err) {
+        this.logEvent('error', `subjects failed: ${(err as Error).message}`);
+        this.sendJson(res, 500, { error: (err as Error).message });
+      }
+      return true;
+    }
+
+    // GET /api/bookshelves
+    // GET /api/bookshelves/:name?offset=0&limit=50
+    if (pathParts[1] === 'bookshelves') {
+      const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+      const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+
+      try {
+        if (!pathParts[2]) {
+          this.sendJson(res, 200, { bookshelves: this.catalog.getBookshelves() });
+          return true;
+        }
+
+        const name = decodeURIComponent(pathParts[2]);
+        const shelf = this.catalog.getBookshelf(name, {
+          offset: isNaN(offset) ? 0 : offset,
+          limit: isNaN(limit) ? undefined : limit
+        });
+        if (!shelf) {
+          this.sendJson(res, 404, { error: `No bookshelf named "${name}"` });
+          return true;
+        }
+        this.sendJson(res, 200, shelf);
+      } catch (err) {
+        this.logEvent('error', `bookshelves failed: ${(err as Error).message}`);
+        this.sendJson(res, 500, { error: (err as Error).message });
+      }
+      return true;
+    }
+
+    // GET /api/catalog/new?since=2026-01-01&offset=0&limit=50
+    // Books added or changed by catalog updates (default: last 30 days)
+    if (pathParts[1] === 'catalog' && pathParts[2] === 'new') {
+      const since = this._parseSince(url.searchParams.get('since'));
+      const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+      const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+
+      if (since === undefined) {
+        this.sendJson(res, 400, { error: 'Invalid since date (use ISO 8601, e.g. 2026-01-01)' });
+        return true;
+      }
+
+      try {
+        this.sendJson(res, 200, this.catalog.getNewArrivals(since, {
+          offset: isNaN(offset) ? 0 : offset,
+          limit: isNaN(limit) ? undefined : limit
+        }));
+      } catch (err) {
+        this.logEvent('error', `new arrivals failed: ${(err as Error).message}`);
+        this.sendJson(res, 500, { error: (err as Error).message });
+      }
+      return true;
+    }
+
+    // GET /api/author/:slug?offset=0&limit=50
+    if (pathParts[1] === 'author' && pathParts[2]) {
+      const slug = decodeURIComponent(pathParts[2]);
+      const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+      const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+
+      try {
+        const page = this.catalog.getAuthor(slug, {
+          offset: isNaN(offset) ? 0 : offset,
+          limit: isNaN(limit) ? undefined : limit
+        });
+        if (!page) {
+          this.sendJson(res, 404, { error: `No author "${slug}"` });
+          return true;
+        }
+        this.logEvent('author', `${page.author.displayName}: ${page.total} books`);
+        this.sendJson(res, 200, page);
+      } catch (err) {
+        this.logEvent('error', `author failed: ${(err as Error).message}`);
+        this.sendJson(res, 500, { error: (err as Error).message });
+      }
+      return true;
+    }
+
+    // GET /api/textsearch?q=phrase&books=1,2,3&fuzzy=true&max=N&budget=bytes&fetch=1
+    // Search several books, or every cached book when books is left out.
+    // Streams one JSON line per book as each finishes, then a summary line.
+    if (pathParts[1] === 'textsearch' && !pathParts[2]) {
+      const phrase = url.searchParams.get('q');
+      const fuzzy = url.searchParams.get('fuzzy') === 'true';
+      const maxResults = parseInt(url.searchParams.get('max') || '20', 10);
+      const budgetParam = parseInt(url.searchParams.get('budget') || '', 10);
+      const budget = isNaN(budgetParam)
+        ? LIBRARY_SEARCH_BUDGET
+        : Math.min(Math.max(budgetParam, 64 * 1024), LIBRARY_SEARCH_MAX_BUDGET);
+      const booksParam = url.searchParams.get('books');
+
+      if (!phrase) {
+        this.sendJson(res, 400, { error: 'Missing search phrase (q parameter)' });
+        return true;
+      }
+
+      const requested = booksParam ? [...new Set(booksParam.split(',').map(id => parseInt(id, 10)))] : null;
+      if (requested && requested.some(id => isNaN(id))) {
+        this.sendJson(res, 400, { error: 'Invalid book ID in books parameter' });
+        return true;
+      }
+      if (requested && requested.length > LIBRARY_SEARCH_MAX_BOOKS) {
+        this.sendJson(res, 400, { error: `At most ${LIBRARY_SEARCH_MAX_BOOKS} books per search` });
+        return true;
+      }
+      if (!requested && !this.sparseCache) {
+        this.sendJson(res, 400, { error: 'Searching cached books needs the local cache' });
+        return true;
+      }
+
+      const searcher = new NetworkSearcher(this.debug);
+      const validation = searcher.validatePhrase(phrase);
+      if (!validation.valid) {
+        this.sendJson(res, 400, { error: validation.error });
+        return true;
+      }
+
+      // Cached books are searched in their cached blocks only, unless fetch=1
+      const cache = this.sparseCache;
+      const cachedOnly = cache !== null && (this.offline || (!requested && url.searchParams.get('fetch') !== '1'));
+      const bookIds = requested ?? cache!.listReadableBooks();
+
+      const open = async (bookId: number) => {
+        const bookUrl = `https://www.gutenberg.org/cache/epub/${bookId}/pg${bookId}.txt`;
+        if (!cache) return { url: bookUrl };
+        // A fully cached book with a word index needs no scan at all
+        const wordIndex = await this.bookIndexes!.get(bookId);
+        if (wordIndex) {
+          return {
+            url: bookUrl,
+            fileSize: cache.getBookStats(bookId)!.fileSize,
+            wordIndex,
+            rangeFetcher: async (start: number, end: number) => cache.readCachedRange(bookId, start, end)
+          };
+        }
+        if (cachedOnly) {
+          const stats = cache.getBookStats(bookId);
+          if (!stats) throw new NotCachedError(bookId);
+          return {
+            url: bookUrl,
+            fileSize: stats.fileSize,
+            ranges: cache.getCachedRanges(bookId),
+            rangeFetcher: async (start: number, end: number) => cache.readCachedRange(bookId, start, end)
+          };
+        }
+        return { url: bookUrl, rangeFetcher: (start: number, end: number) => cache.getRange(bookId, start, end) };
+      };
+
+      const startTime = Date.now();
+      const summary = { done: true, books: 0, booksFound: 0, matches: 0, bytesDownloaded: 0, errors: 0, searchTimeMs: 0 };
+      res.writeHead(200, {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+        'Access-Control-Allow-Origin': '*'
+      });
+
+      try {
+        for await (const result of searcher.searchLibrary(bookIds, phrase, open, {
+          fuzzy,
+          maxMatches: Math.min(maxResults, 100),
+          maxEditDistance: fuzzy ? 2 : 0,
+          contextSize: 150,
+          debug: this.debug,
+          maxBytes: budget
+        })) {
+          // Client went away: stop starting new books
+          if (res.destroyed) break;
+
+          summary.books++;
+          if (result.found) summary.booksFound++;
+          if (result.error) summary.errors++;
+          summary.matches += result.matches.length;
+          summary.bytesDownloaded += result.bytesDownloaded;
+          res.write(JSON.stringify(result) + '\n');
+        }
+
+        summary.searchTimeMs = Date.now() - startTime;
+        this.logEvent('textsearch',
+          `library books=${summary.books}/${bookIds.length} phrase="${phrase.slice(0, 30)}..." ` +
+          `cachedOnly=${cachedOnly} found=${summary.booksFound} matches=${summary.matches} ` +
+          `bytes=${summary.bytesDownloaded} errors=${summary.errors}`,
+          summary.searchTimeMs
+        );
+        res.end(JSON.stringify(summary) + '\n');
+      } catch (err) {
+        this.logError('textsearch library', err as Error);
+        res.end(JSON.stringify({ error: (err as Error).message }) + '\n');
+      }
+      return true;
+    }
+
+    // GET /api/textsearch/:bookId?q=query&fuzzy=true
+    // GET /api/textsearch/:bookId/stream?q=query&fuzzy=true
+    // Network-efficient fulltext search within a book. The stream variant
+    // sends Server-Sent Events: each match as it is found, progress after
+    // every chunk, then done (or error). Closing the connection stops the scan.
+    if (pathParts[1] === 'textsearch' && pathParts[2] && (!pathParts[3] || pathParts[3] === 'stream')) {
       const bookId = parseInt(pathParts[2], 10);
       const phrase = url.searchParams.get('q');
       const fuzzy = url.searchParams.get('fuzzy') === 'true';
       const maxResults = parseInt(url.searchParams.get('max') || '50', 10);
+      const stream = pathParts[3] === 'stream';
+      
+      // EventSource can't read an error response, so the stream reports
+      // bad requests as error events too
+      if (stream) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'Access-Control-Allow-Origin': '*'
+        });
+      }
+      const reject = (error: string) => {
+        if (stream) {
+          this.sendEvent(res, 'error', { error });
+          res.end();
+        } else {
+          this.sendJson(res, 400, { error });
+        }
+      };
       
       if (isNaN(bookId)) {
-        this.sendJson(res, 400, { error: 'Invalid book ID' });
+        reject('Invalid book ID');
         return true;
       }
       
       if (!phrase) {
-        this.sendJson(res, 400, { error: 'Missing search phrase (q parameter)' });
+        reject('Missing search phrase (q parameter)');
+        return true;
+      }
+      
+      const searcher = new NetworkSearcher(this.debug);
+      
+      // A fully cached book costs nothing to scan, so it also takes short
+      // phrases, regex and boolean queries; otherwise 4+ words are required
+      const cacheStats = this.sparseCache?.getBookStats(bookId) ?? null;
+      const fullyCached = cacheStats !== null && cacheStats.blocksCached >= cacheStats.totalBlocks;
+      const validation = searcher.validateQuery(phrase, fullyCached);
+      if (!validation.valid) {
+        reject(validation.error!);
         return true;
       }
       
+      // Build URL for the book
+      const bookUrl = `https://www.gutenberg.org/cache/epub/${bookId}/pg${bookId}.txt`;
+      
+      // Create cached range fetcher if SparseCache is available
+      const rangeFetcher = this.sparseCache 
+        ? (start: number, end: number) => this.sparseCache!.getRange(bookId, start, end)
+        : undefined;
+      
+      const abort = new AbortController();
+      const options: SearchOptions = {
+        fuzzy,
+        maxMatches: Math.min(maxResults, 100),
+        maxEditDistance: fuzzy ? 2 : 0,
+        contextSize: 150,
+        debug: this.debug,
+        rangeFetcher,
+        offline: this.offline,
+        fullyCached,
+        // Built in the background the first time a fully cached book is searched
+        wordIndex: fullyCached ? await this.bookIndexes?.get(bookId) ?? undefined : undefined
+      };
+      
+      if (stream) {
+        res.on('close', () => abort.abort());
+        options.signal = abort.signal;
+        options.onMatch = match => this.sendEvent(res, 'match', match);
+        options.onProgress = progress => this.sendEvent(res, 'progress', progress);
+      }
+      
       try {
-        const searcher = new NetworkSearcher(this.debug);
-        
-        // Validate phrase (must be 4+ words)
-        const validation = searcher.validatePhrase(phrase);
-        if (!validation.valid) {
-          this.sendJson(res, 400, { error: validation.error });
-          return true;
-        }
-        
-        // Build URL for the book
-        const bookUrl = `https://www.gutenberg.org/cache/epub/${bookId}/pg${bookId}.txt`;
-        
-        // Create cached range fetcher if SparseCache is available
-        const rangeFetcher = this.sparseCache 
-          ? (start: number, end: number) => this.sparseCache!.getRange(bookId, start, end)
-          : undefined;
+        // Offline or fully cached: size comes from cache metadata, ranges only from cached blocks
+        options.fileSize = fullyCached
+          ? cacheStats!.fileSize
+          : this.offline ? await this.sparseCache!.getFileSize(bookId) : undefined;
         
         const startTime = Date.now();
-        const result = await searcher.search(bookUrl, phrase, {
-          fuzzy,
-          maxMatches: Math.min(maxResults, 100),
-          maxEditDistance: fuzzy ? 2 : 0,
-          contextSize: 150,
-          debug: this.debug,
-          rangeFetcher
-        });
+        const result = await searcher.search(bookUrl, phrase, options);
         
         this.logEvent('textsearch', 
           `book=${bookId} phrase="${phrase.slice(0, 30)}..." fuzzy=${fuzzy} ` +
           `matches=${result.matches.length} bytes=${result.bytesDownloaded} ` +
-          `chunks=${result.chunksRequested} strategy=${result.strategy}`,
+          `chunks=${result.chunksRequested} strategy=${result.strategy}` +
+          (stream ? ` stream${result.cancelled ? ' cancelled' : ''}` : ''),
           Date.now() - startTime
         );
         
-        this.sendJson(res, 200, {
-          bookId,
-          phrase,
-          fuzzy,
-          ...result
-        });
+        if (stream) {
+          // Matches were already sent one by one
+          const { matches, ...summary } = result;
+          this.sendEvent(res, 'done', { bookId, phrase, fuzzy, ...summary, matchCount: matches.length });
+          res.end();
+        } else {
+          this.sendJson(res, 200, {
+            bookId,
+            phrase,
+            fuzzy,
+            ...result
+          });
+        }
       } catch (err) {
         this.logError(`textsearch book ${bookId}`, err as Error);
-        this.sendJson(res, 500, { error: (err as Error).message });
+        if (stream) {
+          this.sendEvent(res, 'error', {
+            error: (err as Error).message,
+            code: err instanceof NotCachedError ? err.code : undefined
+          });
+          res.end();
+        } else if (err instanceof NotCachedError) {
+          this.sendNotCached(res, err);
+        } else {
+          this.sendJson(res, 500, { error: (err as Error).message });
+        }
       }
       return true;
     }
@@ -389,6 +823,18 @@ export class WebServer {
     // GET /api/random
     if (pathParts[1] === 'random') {
       const languageFilter = url.searchParams.get('lang') || 'en';
+      
+      if (this.offline) {
+        const book = this._getRandomCachedBook(languageFilter === 'all' ? null : languageFilter);
+        if (!book) {
+          this.sendJson(res, 404, { error: 'No cached books available offline', code: 'NOT_CACHED' });
+          return true;
+        }
+        this.logEvent('random', `selected cached book ${book.id} (offline, lang=${languageFilter})`);
+        this.sendJson(res, 200, book);
+        return true;
+      }
+      
       const MAX_ATTEMPTS = 20;
       let attempts = 0;
 
@@ -433,6 +879,12 @@ export class WebServer {
         return true;
       }
 
+      const source = this.sources.get(decodeURIComponent(bookId));
+      if (source) {
+        this.sendJson(res, 200, { id: source.id, title: source.title, author: source.author });
+        return true;
+      }
+
       try {
         const book = this.catalog.getBookById(bookId);
         if (book) {
@@ -440,7 +892,8 @@ export class WebServer {
           this.sendJson(res, 200, {
             id: book.id,
             title: book.title,
-            author: book.author
+            author: book.author,
+            authors: parseAuthors(book.author)
           });
         } else {
           this.sendJson(res, 200, {
@@ -455,6 +908,12 @@ export class WebServer {
       return true;
     }
 
+    // GET /api/sources - Registered local/URL texts
+    if (pathParts[1] === 'sources') {
+      this.sendJson(res, 200, this.sources.list());
+      return true;
+    }
+
     // GET /api/debug
     if (pathParts[1] === 'debug') {
       this.sendJson(res, 200, { requests: this.requestLog, events: this.eventLog });
@@ -480,6 +939,7 @@ export class WebServer {
       
       this.sendJson(res, 200, {
         enabled: true,
+        offline: this.offline,
         stats,
         cachedBooks: books.length,
         books
@@ -487,6 +947,139 @@ export class WebServer {
       return true;
     }
 
+    // GET /api/cache/export?books=1,2 - Download cached books and the catalog as a .tar.gz
+    if (req.method === 'GET' && pathParts[1] === 'cache' && pathParts[2] === 'export') {
+      if (!this.sparseCache) {
+        this.sendJson(res, 400, { error: 'Cache not enabled' });
+        return true;
+      }
+
+      const booksParam = url.searchParams.get('books');
+      const bookIds = booksParam ? booksParam.split(',').map(id => parseInt(id, 10)) : null;
+      if (bookIds && bookIds.some(id => isNaN(id))) {
+        this.sendJson(res, 400, { error: 'Invalid book ID in books parameter' });
+        return true;
+      }
+
+      const startTime = Date.now();
+      res.writeHead(200, {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="gutex-cache-${new Date().toISOString().slice(0, 10)}.tar.gz"`,
+        'Access-Control-Allow-Origin': '*'
+      });
+      try {
+        const manifest = await this.exportCache(res, bookIds);
+        this.logEvent('cache', `Exported ${manifest.books.length} book(s)${manifest.catalog ? ' and catalog' : ''}`, Date.now() - startTime);
+      } catch (err) {
+        // Headers are already sent; the client sees a truncated download
+        this.logError('Cache export', err as Error);
+      }
+      return true;
+    }
+
+    // POST /api/cache/import - Merge an exported .tar.gz (request body) into the cache
+    if (req.method === 'POST' && pathParts[1] === 'cache' && pathParts[2] === 'import') {
+      if (!this.sparseCache) {
+        this.sendJson(res, 400, { error: 'Cache not enabled' });
+        return true;
+      }
+
+      const startTime = Date.now();
+      let summary: CacheImportSummary;
+      try {
+        summary = await this.importCache(req);
+      } catch (err) {
+        this.sendJson(res, 400, { error: (err as Error).message });
+        return true;
+      }
+
+      const added = summary.books.filter(b => b.action !== 'skipped').length;
+      this.logEvent('cache', `Imported ${added} of ${summary.books.length} book(s), catalog ${summary.catalog}`, Date.now() - startTime);
+      this.sendJson(res, 200, summary);
+      return true;
+    }
+
+    // POST /api/cache/:bookId/pin - Download the whole book and keep it for offline use
+    if (req.method === 'POST' && pathParts[1] === 'cache' && pathParts[2] && pathParts[3] === 'pin') {
+      const pinBookId = parseInt(pathParts[2], 10);
+      if (isNaN(pinBookId)) {
+        this.sendJson(res, 400, { error: 'Invalid book ID' });
+        return true;
+      }
+      if (!this.sparseCache || !this.pinJobs) {
+        this.sendJson(res, 400, { error: 'Cache not enabled' });
+        return true;
+      }
+      if (this.offline) {
+        this.sendJson(res, 409, { error: 'Cannot pin books while offline' });
+        return true;
+      }
+
+      // Opening the book resolves alternatives and wires mirrors up as the cache upstream
+      let navigator: NavigatorWithMeta;
+      try {
+        navigator = await this.getNavigator(pinBookId);
+      } catch (err) {
+        this.sendJson(res, 404, { error: (err as Error).message });
+        return true;
+      }
+
+      const status = this.pinJobs.pin(navigator.actualBookId ?? pinBookId);
+      this.logEvent('cache', `Pinning book ${status.bookId} for offline use`);
+      this.sendJson(res, 202, status);
+      return true;
+    }
+
+    // DELETE /api/cache/:bookId/pin - Cancel any pin job and unpin
+    if (req.method === 'DELETE' && pathParts[1] === 'cache' && pathParts[2] && pathParts[3] === 'pin') {
+      const pinBookId = parseInt(pathParts[2], 10);
+      if (isNaN(pinBookId)) {
+        this.sendJson(res, 400, { error: 'Invalid book ID' });
+        return true;
+      }
+      if (!this.pinJobs) {
+        this.sendJson(res, 400, { error: 'Cache not enabled' });
+        return true;
+      }
+
+      const { cancelled, unpinned } = this.pinJobs.unpin(pinBookId);
+      if (cancelled || unpinned) {
+        this.logEvent('cache', `Unpinned book ${pinBookId}${cancelled ? ' (download cancelled)' : ''}`);
+      }
+      this.sendJson(res, 200, { bookId: pinBookId, pinned: false, cancelled });
+      return true;
+    }
+
+    // POST /api/cache/:bookId/verify - Check cached blocks against their checksums (?repair=1 to fix)
+    if (req.method === 'POST' && pathParts[1] === 'cache' && pathParts[2] && pathParts[3] === 'verify') {
+      const verifyBookId = parseInt(pathParts[2], 10);
+      if (isNaN(verifyBookId)) {
+        this.sendJson(res, 400, { error: 'Invalid book ID' });
+        return true;
+      }
+      if (!this.sparseCache) {
+        this.sendJson(res, 400, { error: 'Cache not enabled' });
+        return true;
+      }
+
+      const startTime = Date.now();
+      const repair = url.searchParams.get('repair') === '1' || url.searchParams.get('repair') === 'true';
+      const report = repair
+        ? await this.sparseCache.repair(verifyBookId)
+        : this.sparseCache.verify(verifyBookId);
+      if (!report) {
+        this.sendJson(res, 404, { error: `Book ${verifyBookId} is not cached`, bookId: verifyBookId });
+        return true;
+      }
+
+      const summary = report.ok
+        ? `${report.blocksChecked} blocks OK`
+        : `${report.corruptBlocks} of ${report.blocksChecked} blocks corrupt`;
+      this.logEvent('cache', `Verified book ${verifyBookId}: ${summary}${repair ? `, ${report.repairedBlocks} repaired` : ''}`, Date.now() - startTime);
+      this.sendJson(res, 200, report);
+      return true;
+    }
+
     // GET /api/cache/:bookId - Get cache status for specific book
     if (pathParts[1] === 'cache' && pathParts[2] && req.method === 'GET') {
       const cacheBookId = parseInt(pathParts[2], 10);
@@ -501,11 +1094,13 @@ export class WebServer {
       }
       
       const bookStats = this.sparseCache.getBookStats(cacheBookId);
+      const pinJob = this.pinJobs ? this.pinJobs.getStatus(cacheBookId) : null;
       if (!bookStats) {
         this.sendJson(res, 200, { 
           enabled: true, 
           bookId: cacheBookId, 
-          cached: false 
+          cached: false,
+          pinJob
         });
         return true;
       }
@@ -513,13 +1108,14 @@ export class WebServer {
       this.sendJson(res, 200, {
         enabled: true,
         cached: true,
-        ...bookStats
+        ...bookStats,
+        pinJob
       });
       return true;
     }
 
     // DELETE /api/cache/:bookId - Invalidate cache for specific book
-    if (req.method === 'DELETE' && pathParts[1] === 'cache' && pathParts[2]) {
+    if (req.method === 'DELETE' && pathParts[1] === 'cache' && pathParts[2] && !pathParts[3]) {
       const cacheBookId = parseInt(pathParts[2], 10);
       if (isNaN(cacheBookId)) {
         this.sendJson(res, 400, { error: 'Invalid book ID' });
@@ -531,6 +1127,7 @@ export class WebServer {
         return true;
       }
       
+      this.pinJobs?.cancel(cacheBookId);
       await this.sparseCache.invalidate(cacheBookId);
       this.logEvent('cache', `Invalidated cache for book ${cacheBookId}`);
       
@@ -556,13 +1153,16 @@ export class WebServer {
     if (pathParts[1] === 'bookmarks' && req.method === 'POST') {
       let body = '';
       req.on('data', chunk => { body += chunk; });
-      req.on('end', () => {
+      req.on('end', async () => {
         try {
           const { name, info } = JSON.parse(body);
           if (!name || !info || !info.bookId) {
             this.sendJson(res, 400, { error: 'Missing name or bookmark info' });
             return;
           }
+          if (!info.anchor && Number.isInteger(info.position)) {
+            info.anchor = await this._anchorToken(info.bookId, info.position).catch(() => undefined);
+          }
           saveBookmark(name, info as BookmarkInfo);
           this.logEvent('bookmark', `Saved bookmark "${name}" for book ${info.bookId}`);
           this.sendJson(res, 200, { success: true, name });
@@ -585,9 +1185,20 @@ export class WebServer {
       return true;
     }
 
-    // GET /api/lastpos - Get last reading position
+    // GET /api/lastpos - Get last reading position, found again by its
+    // anchor if the book has been revised since
     if (pathParts[1] === 'lastpos' && req.method === 'GET') {
       const lastPos = loadLastPosition();
+      if (lastPos?.anchor) {
+        const match = await this._findAnchor(lastPos.bookId, lastPos.anchor).catch(() => null);
+        if (match?.status === 'moved') {
+          this.logEvent('lastpos', `Book ${lastPos.bookId}: byte ${lastPos.byteStart} moved to ${match.byteStart}`);
+          lastPos.byteStart = match.byteStart;
+          // Saved where it moved to, so the search isn't repeated next time
+          lastPos.anchor = await this._anchorToken(lastPos.bookId, match.byteStart).catch(() => lastPos.anchor);
+          saveLastPosition(lastPos);
+        }
+      }
       this.sendJson(res, 200, lastPos);
       return true;
     }
@@ -596,7 +1207,7 @@ export class WebServer {
     if (pathParts[1] === 'lastpos' && req.method === 'POST') {
       let body = '';
       req.on('data', chunk => { body += chunk; });
-      req.on('end', () => {
+      req.on('end', async () => {
         try {
           const pos = JSON.parse(body) as LastPosition;
           if (!pos.bookId) {
@@ -604,6 +1215,9 @@ export class WebServer {
             return;
           }
           pos.timestamp = Date.now();
+          if (!pos.anchor && Number.isInteger(pos.byteStart)) {
+            pos.anchor = await this._anchorToken(pos.bookId, pos.byteStart).catch(() => undefined);
+          }
           saveLastPosition(pos);
           this.logEvent('lastpos', `Saved position: book ${pos.bookId} at byte ${pos.byteStart}`);
           this.sendJson(res, 200, { success: true });
@@ -621,35 +1235,94 @@ export class WebServer {
       return true;
     }
 
+    // GET /api/history - The reading trail: entries and the cursor
+    if (pathParts[1] === 'history' && !pathParts[2] && req.method === 'GET') {
+      this.sendJson(res, 200, this.trail.state);
+      return true;
+    }
+
+    // POST /api/history - Add a teleport destination {bookId, byteStart, kind, ...}
+    // POST /api/history/here - Move the current entry to {bookId, byteStart, percent}
+    if (pathParts[1] === 'history' && (!pathParts[2] || pathParts[2] === 'here') && req.method === 'POST') {
+      const body = await this._readJson(req);
+      const entry = body && this._trailEntry(body);
+      if (!entry) {
+        this.sendJson(res, 400, { error: 'Missing or invalid bookId, byteStart or kind' });
+        return true;
+      }
+      const inCurrentBook = this.trail.current?.bookId === entry.bookId;
+      if (pathParts[2] === 'here' && !inCurrentBook) {
+        this.sendJson(res, 200, { moved: false });
+        return true;
+      }
+      // Anchored, so back and forward find the passage after a revision
+      const anchor = await this._anchorToken(entry.bookId, entry.byteStart).catch(() => undefined);
+      if (pathParts[2] === 'here') {
+        this.trail.here(entry.bookId, entry.byteStart, { anchor, percent: entry.percent });
+        this.sendJson(res, 200, { moved: true });
+      } else {
+        this.logEvent('history', `${entry.kind}: book ${entry.bookId} at byte ${entry.byteStart}`);
+        this.sendJson(res, 200, this.trail.visit({ ...entry, anchor }));
+      }
+      return true;
+    }
+
+    // POST /api/history/back, /api/history/forward - Move through the trail (?steps=N)
+    if (pathParts[1] === 'history' && (pathParts[2] === 'back' || pathParts[2] === 'forward') && req.method === 'POST') {
+      const steps = Math.max(1, parseInt(url.searchParams.get('steps') || '1', 10) || 1);
+      const entry = pathParts[2] === 'back' ? this.trail.back(steps) : this.trail.forward(steps);
+      if (entry?.anchor) {
+        const match = await this._findAnchor(entry.bookId, entry.anchor).catch(() => null);
+        if (match) entry.byteStart = match.byteStart;
+      }
+      this.sendJson(res, 200, { entry, cursor: this.trail.state.cursor });
+      return true;
+    }
+
+    // DELETE /api/history - Clear the reading trail
+    if (pathParts[1] === 'history' && !pathParts[2] && req.method === 'DELETE') {
+      this.trail.clear();
+      this.sendJson(res, 200, { success: true });
+      return true;
+    }
+
     // Book endpoints: /api/book/:id/...
     if (pathParts[1] !== 'book') {
       return false;
     }
 
-    const bookId = parseInt(pathParts[2], 10);
-    if (isNaN(bookId)) {
+    // Registered text sources share the book endpoints under their string ID
+    const sourceId = decodeURIComponent(pathParts[2] || '');
+    const source = this.sources.get(sourceId);
+    const bookId: number | string = source ? sourceId : parseInt(pathParts[2], 10);
+    if (typeof bookId === 'number' && isNaN(bookId)) {
       this.sendJson(res, 400, { error: 'Invalid book ID' });
       return true;
     }
 
     try {
       const startTime = Date.now();
-      const navigator = await this.getNavigator(bookId);
+      const navigator = typeof bookId === 'number'
+        ? await this.getNavigator(bookId)
+        : await this.getSourceNavigator(bookId);
       const action = pathParts[3];
 
+      let chunking: ChunkOptions | null = null;
+      if (action === 'init' || action === 'chunk') {
+        chunking = this._chunkOptions(url);
+        if (!chunking) {
+          this.sendJson(res, 400, { error: 'Invalid chunkMode' });
+          return true;
+        }
+        await this._ensureWordMap(navigator, bookId, source !== null);
+      }
+
       if (action === 'init') {
-        const chunkSize = parseInt(url.searchParams.get('chunkSize') || '', 10) || this.chunkSize;
-        const originalChunkSize = navigator.chunkSize;
-        navigator.chunkSize = chunkSize;
-
-        const position = await navigator._fetchChunkAt(
-          navigator.boundaries.startByte,
-          0,
-          'forward'
+        const { chunkSize, chunkMode } = chunking!;
+        const position = await this._withChunking(navigator, chunking!, () =>
+          navigator._fetchChunkAt(navigator.boundaries.startByte, 0, 'forward')
         );
 
-        navigator.chunkSize = originalChunkSize;
-
         const actualId = navigator.actualBookId || bookId;
         const duration = Date.now() - startTime;
         if (actualId !== bookId) {
@@ -660,9 +1333,38 @@ export class WebServer {
 
         const response: ChunkResponse = {
           bookId: actualId,
-          requestedBookId: bookId,
+          requestedBookId: typeof bookId === 'number' ? bookId : undefined,
+          ...position,
+          chunkSize,
+          chunkMode,
+          totalBytes: navigator.boundaries.cleanLength,
+          docStart: navigator.boundaries.startByte,
+          docEnd: navigator.boundaries.endByte
+        };
+
+        this.sendJson(res, 200, response);
+        return true;
+      }
+
+      // Word addressing: /chunk?word=N starts at word N (exact with a word map)
+      if (action === 'chunk' && url.searchParams.has('word')) {
+        const wordIndex = parseInt(url.searchParams.get('word') || '', 10);
+        if (isNaN(wordIndex) || wordIndex < 0) {
+          this.sendJson(res, 400, { error: 'Invalid word' });
+          return true;
+        }
+
+        const { chunkSize, chunkMode } = chunking!;
+        const position = await this._withChunking(navigator, chunking!, () => navigator.goToWord(wordIndex));
+
+        const exactness = position.wordIndexExact ? 'exact' : 'estimated';
+        this.logEvent('chunk', `book ${bookId} word ${wordIndex} (${exactness}), ${position.actualCount}w`, Date.now() - startTime);
+
+        const response: ChunkResponse = {
+          bookId,
           ...position,
           chunkSize,
+          chunkMode,
           totalBytes: navigator.boundaries.cleanLength,
           docStart: navigator.boundaries.startByte,
           docEnd: navigator.boundaries.endByte
@@ -679,13 +1381,17 @@ export class WebServer {
           return true;
         }
 
-        const chunkSize = parseInt(url.searchParams.get('chunkSize') || '', 10) || this.chunkSize;
+        const { chunkSize, chunkMode } = chunking!;
         const exact = url.searchParams.get('exact') === '1';
         
         // Exact mode: return raw bytes without word alignment (for excerpts)
         if (exact) {
-          const fetcher = new Fetcher(bookId, false, { mirrorManager: this.mirrorManager });
-          const rawBytes = await fetcher.fetchRange(byteStart, byteStart + chunkSize - 1);
+          const fetcher = source
+            ? new SourceFetcher(source)
+            : new Fetcher(bookId as number, false, { mirrorManager: this.mirrorManager });
+          const rawBytes = this.offline && !source
+            ? await this.sparseCache!.getRange(bookId as number, byteStart, byteStart + chunkSize - 1)
+            : await fetcher.fetchRange(byteStart, byteStart + chunkSize - 1);
           const text = rawBytes.toString('utf-8');
           
           this.logEvent('chunk-exact', `book ${bookId} @${byteStart}, ${chunkSize}B`, Date.now() - startTime);
@@ -700,12 +1406,21 @@ export class WebServer {
           return true;
         }
         
-        const originalChunkSize = navigator.chunkSize;
-        navigator.chunkSize = chunkSize;
+        // ?align=1 for a byte that isn't a chunk start (a seek or an estimate):
+        // sentence and paragraph chunks then begin at the next sentence or paragraph
+        const align = url.searchParams.get('align') === '1';
 
-        const position = await navigator._fetchChunkAt(byteStart, 0, 'forward');
-
-        navigator.chunkSize = originalChunkSize;
+        let position;
+        try {
+          position = await this._withChunking(navigator, chunking!, () =>
+            this._fetchChunkUpToGap(navigator, byteStart, align)
+          );
+        } catch (err) {
+          if (!(err instanceof NotCachedError)) throw err;
+          this.logEvent('chunk', `book ${bookId} @${byteStart}: not cached`, Date.now() - startTime);
+          this.sendNotCached(res, err, navigator, byteStart);
+          return true;
+        }
 
         this.logEvent('chunk', `book ${bookId} @${byteStart}, ${position.actualCount}w, ${position.percent}%`, Date.now() - startTime);
 
@@ -713,6 +1428,7 @@ export class WebServer {
           bookId,
           ...position,
           chunkSize,
+          chunkMode,
           totalBytes: navigator.boundaries.cleanLength,
           docStart: navigator.boundaries.startByte,
           docEnd: navigator.boundaries.endByte
@@ -722,17 +1438,290 @@ export class WebServer {
         return true;
       }
 
+      if (action === 'toc') {
+        // Text sources can change under the same ID, so only books are saved
+        const actualId = navigator.actualBookId || bookId;
+        const outline = await navigator.getOutline(source ? null : this.outlines, actualId);
+        this.logEvent('toc', `book ${bookId}, ${outline.entries.length} headings`, Date.now() - startTime);
+        this.sendJson(res, 200, { bookId: actualId, ...outline });
+        return true;
+      }
+
+      // Text anchors: /anchor?byteStart=N makes one, /resolve?anchor=TOKEN
+      // finds its passage in the text as it is now
+      if (action === 'anchor') {
+        const byteStart = parseInt(url.searchParams.get('byteStart') || '', 10);
+        if (isNaN(byteStart) || byteStart < navigator.boundaries.startByte || byteStart >= navigator.boundaries.endByte) {
+          this.sendJson(res, 400, { error: 'Invalid byteStart' });
+          return true;
+        }
+        const anchor = encodeAnchor(await navigator.anchorAt(byteStart));
+        this.sendJson(res, 200, { bookId, byteStart, anchor });
+        return true;
+      }
+
+      if (action === 'resolve') {
+        const anchor = decodeAnchor(url.searchParams.get('anchor') || '');
+        if (!anchor) {
+          this.sendJson(res, 400, { error: 'Invalid anchor' });
+          return true;
+        }
+        const match = await navigator.resolveAnchor(anchor);
+        const found = match ? `${match.status} at ${match.byteStart}` : 'not found';
+        this.logEvent('resolve', `book ${bookId} @${anchor.byteStart}: ${found}`, Date.now() - startTime);
+        // A lost passage keeps its old offset, so the reader still opens near it
+        this.sendJson(res, 200, match
+          ? { bookId, ...match }
+          : { bookId, byteStart: anchor.byteStart, status: 'lost', score: 0 });
+        return true;
+      }
+
       this.sendJson(res, 404, { error: 'Unknown action' });
       return true;
 
     } catch (err) {
       this.logError(`book ${bookId}`, err as Error);
+      if (err instanceof NotCachedError) {
+        this.sendNotCached(res, err);
+        return true;
+      }
       console.error(`API Error: ${(err as Error).message}`);
       this.sendJson(res, 500, { error: (err as Error).message });
       return true;
     }
   }
 
+  /**
+   * Count a book's words when that's cheap, so its positions carry exact
+   * word indexes: fully cached books, and small ones that take a few range
+   * requests to read (not offline). Other books keep estimated indexes.
+   */
+  private async _ensureWordMap(navigator: NavigatorWithMeta, bookId: number | string, isSource: boolean): Promise<void> {
+    if (navigator.hasWordMap || this.wordMapFailures.has(bookId)) return;
+
+    const actualId = navigator.actualBookId || bookId;
+    const stats = typeof actualId === 'number' ? this.sparseCache?.getBookStats(actualId) ?? null : null;
+    const fullyCached = stats !== null && stats.blocksCached >= stats.totalBlocks;
+    const small = navigator.boundaries.cleanLength <= SMALL_BOOK_BYTES && (isSource || !this.offline);
+    if (!fullyCached && !small) return;
+
+    try {
+      // Text sources can change under the same ID, so only books are saved
+      await navigator.loadWordMap(isSource ? null : this.wordMaps, actualId);
+    } catch (err) {
+      this.wordMapFailures.add(bookId);
+      this.logError(`word map ${bookId}`, err as Error);
+    }
+  }
+
+  /**
+   * Navigator for a book or a registered text source, or null for a source
+   * that is no longer registered
+   */
+  private async _navigatorFor(bookId: number | string): Promise<NavigatorWithMeta | null> {
+    if (typeof bookId === 'number') return await this.getNavigator(bookId);
+    return this.sources.get(bookId) ? await this.getSourceNavigator(bookId) : null;
+  }
+
+  private async _anchorToken(bookId: number | string, byteStart: number): Promise<string | undefined> {
+    const navigator = await this._navigatorFor(bookId);
+    return navigator ? encodeAnchor(await navigator.anchorAt(byteStart)) : undefined;
+  }
+
+  private _readJson(req: http.IncomingMessage): Promise<Record<string, unknown> | null> {
+    return new Promise(resolve => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        try {
+          const parsed = JSON.parse(body);
+          resolve(parsed && typeof parsed === 'object' ? parsed : null);
+        } catch {
+          resolve(null);
+        }
+      });
+      req.on('error', () => resolve(null));
+    });
+  }
+
+  /**
+   * A trail entry from a request body, or null if it doesn't name a book
+   * and position. Text sources are named by their (non-numeric) ID.
+   */
+  private _trailEntry(body: Record<string, unknown>): Omit<TrailEntry, 'timestamp'> | null {
+    const { bookId, byteStart, kind = 'jump', chunkSize, title, percent } = body;
+    const validId = (typeof bookId === 'number' && Number.isInteger(bookId) && bookId > 0) ||
+      (typeof bookId === 'string' && /^[a-z0-9][a-z0-9-]*$/i.test(bookId) && !/^\d+$/.test(bookId));
+    if (!validId || !Number.isInteger(byteStart) || (byteStart as number) < 0 || !isTrailKind(kind)) {
+      return null;
+    }
+    return {
+      bookId: bookId as number | string,
+      byteStart: byteStart as number,
+      kind,
+      chunkSize: Number.isInteger(chunkSize) ? chunkSize as number : undefined,
+      title: typeof title === 'string' ? title : undefined,
+      percent: typeof percent === 'number' ? percent : undefined
+    };
+  }
+
+  private async _findAnchor(bookId: number | string, token: string): Promise<AnchorMatch | null> {
+    const anchor = decodeAnchor(token);
+    const navigator = anchor && await this._navigatorFor(bookId);
+    return navigator ? await navigator.resolveAnchor(anchor!) : null;
+  }
+
+  /**
+   * Chunking asked for by a request: chunkSize, chunkMode and, for screenful
+   * chunks, the reader's cols and rows. Null when chunkMode is unknown.
+   */
+  private _chunkOptions(url: URL): ChunkOptions | null {
+    const chunkSize = parseInt(url.searchParams.get('chunkSize') || '', 10) || this.chunkSize;
+    const chunkMode = url.searchParams.get('chunkMode') || 'words';
+    if (!isChunkMode(chunkMode)) return null;
+
+    const columns = parseInt(url.searchParams.get('cols') || '', 10);
+    const rows = parseInt(url.searchParams.get('rows') || '', 10);
+    const screen = columns > 0 && rows > 0
+      ? { columns: Math.min(columns, MAX_SCREEN_CELLS), rows: Math.min(rows, MAX_SCREEN_CELLS) }
+      : null;
+    return { chunkSize, chunkMode, screen };
+  }
+
+  /**
+   * Read with the navigator set to a request's chunking. Navigators are
+   * shared between requests, so their own settings are put back after.
+   */
+  private async _withChunking<T>(navigator: NavigatorWithMeta, options: ChunkOptions, read: () => Promise<T>): Promise<T> {
+    const { chunkSize, chunkMode, screen } = navigator;
+    navigator.chunkSize = options.chunkSize;
+    navigator.chunkMode = options.chunkMode;
+    navigator.screen = options.screen;
+    try {
+      return await read();
+    } finally {
+      navigator.chunkSize = chunkSize;
+      navigator.chunkMode = chunkMode;
+      navigator.screen = screen;
+    }
+  }
+
+  /**
+   * Fetch a chunk, stopping short of the first uncached block when offline.
+   * Throws NotCachedError when the chunk starts inside (or right before) a gap.
+   */
+  private async _fetchChunkUpToGap(navigator: NavigatorWithMeta, byteStart: number, align = false) {
+    try {
+      return await navigator._fetchChunkAt(byteStart, 0, 'forward', null, align);
+    } catch (err) {
+      if (!(err instanceof NotCachedError) || err.ranges.length === 0) throw err;
+
+      // Read whatever is cached before the gap, if that's worth showing
+      const readableEnd = err.ranges[0].start - NOT_CACHED_MARGIN - 1;
+      if (readableEnd - byteStart < MIN_READABLE_BYTES) throw err;
+
+      const position = await navigator._fetchChunkAt(byteStart, 0, 'forward', readableEnd, align);
+      if (position.actualCount === 0) throw err;
+      return position;
+    }
+  }
+
+  /**
+   * Send a structured "not cached" error. With a navigator, the response
+   * describes the gap so the reader can render it and skip past.
+   */
+  private sendNotCached(
+    res: http.ServerResponse,
+    err: NotCachedError,
+    navigator?: NavigatorWithMeta,
+    byteStart?: number
+  ): void {
+    const body: Record<string, unknown> = {
+      error: err.message,
+      code: err.code,
+      bookId: err.bookId,
+      ranges: err.ranges
+    };
+
+    if (navigator && byteStart !== undefined) {
+      const { startByte, endByte, cleanLength } = navigator.boundaries;
+      const gapEnd = err.nextCachedByte !== null ? err.nextCachedByte - 1 : endByte;
+      // Resume past the UTF-8 safety margin so the next read stays in cached blocks
+      const resume = err.nextCachedByte !== null ? err.nextCachedByte + NOT_CACHED_MARGIN : null;
+      Object.assign(body, {
+        byteStart,
+        gapEnd,
+        nextByteStart: resume !== null && resume < endByte ? resume : undefined,
+        percent: ((byteStart - startByte) / cleanLength * 100).toFixed(1),
+        docStart: startByte,
+        docEnd: endByte,
+        totalBytes: cleanLength
+      });
+    }
+
+    this.sendJson(res, 404, body);
+  }
+
+  /**
+   * Write cached books (default: all) and the catalog as an archive, to a
+   * stream or a file path
+   */
+  public async exportCache(target: string | Writable, bookIds: number[] | null = null): Promise<CacheArchiveManifest> {
+    if (!this.sparseCache) {
+      throw new Error('Cache not enabled');
+    }
+    const options = { cache: this.sparseCache, catalog: this.catalog, bookIds };
+    return typeof target === 'string'
+      ? exportCacheArchiveToFile(target, options)
+      : exportCacheArchive(target, options);
+  }
+
+  /**
+   * Merge an exported archive (stream or file path) into the cache and catalog
+   */
+  public async importCache(source: string | Readable): Promise<CacheImportSummary> {
+    if (!this.sparseCache) {
+      throw new Error('Cache not enabled');
+    }
+    const options = { cache: this.sparseCache, catalog: this.catalog };
+    const summary = typeof source === 'string'
+      ? await importCacheArchiveFromFile(source, options)
+      : await importCacheArchive(source, options);
+
+    // Imported pins may be partial; carry on downloading them
+    if (!this.offline && this.pinJobs) {
+      this.pinJobs.resumePinned();
+    }
+    return summary;
+  }
+
+  /**
+   * Pick a random book that has cached content, optionally filtered by language
+   */
+  private _getRandomCachedBook(languageFilter: string | null): CatalogRecord | null {
+    if (!this.sparseCache) return null;
+
+    const candidates = this.sparseCache.listReadableBooks()
+      .map((id): CatalogRecord => this.catalog.getBookById(id) || {
+        id: String(id), title: `Book ${id}`, author: null, year: null, language: null,
+        type: 'Text', subjects: [], locc: [], bookshelves: []
+      })
+      .filter(book => book.type === 'Text')
+      .filter(book => !languageFilter || book.language === languageFilter || book.language === null);
+
+    if (candidates.length === 0) return null;
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+
+  /**
+   * A since= parameter: null if absent, undefined if it isn't a date
+   */
+  private _parseSince(value: string | null): Date | null | undefined {
+    if (!value) return null;
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : new Date(time);
+  }
+
   private sendJson(res: http.ServerResponse, status: number, data: unknown): void {
     res.writeHead(status, {
       'Content-Type': 'application/json',
@@ -741,6 +1730,14 @@ export class WebServer {
     res.end(JSON.stringify(data));
   }
 
+  /**
+   * Write one Server-Sent Event; a no-op once the client has gone
+   */
+  private sendEvent(res: http.ServerResponse, event: string, data: unknown): void {
+    if (res.destroyed || res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
   private serveStatic(req: http.IncomingMessage, res: http.ServerResponse): boolean {
     // Landing page with search
     if (req.url === '/' || req.url === '/index.html') {
@@ -772,23 +1769,51 @@ export class WebServer {
       return true;
     }
 
+    // Atom feed of new arrivals (?since= as for /api/catalog/new)
+    if (req.url === '/feeds/new.xml' || req.url?.startsWith('/feeds/new.xml?')) {
+      const url = new URL(req.url, `http://localhost:${this.port}`);
+      const since = this._parseSince(url.searchParams.get('since'));
+      if (since === undefined) {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end('Invalid since date');
+        return true;
+      }
+
+      try {
+        const page = this.catalog.getNewArrivals(since, { limit: FEED_ENTRIES });
+        const baseUrl = `http://${req.headers.host || `localhost:${this.port}`}`;
+        res.writeHead(200, { 'Content-Type': 'application/atom+xml; charset=utf-8' });
+        res.end(renderArrivalsFeed(page.results, baseUrl));
+      } catch (err) {
+        this.logError('feed', err as Error);
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end('Error building feed');
+      }
+      return true;
+    }
+
     return false;
   }
 
   async start(): Promise<http.Server> {
-    // Initialize mirror manager
-    console.log('🌐 Initializing mirror manager...');
-    try {
-      const mirrorStatus = await this.mirrorManager.initialize();
-      console.log(`✓ ${mirrorStatus.mirrorCount} mirrors available`);
-      this.logEvent('mirrors', `Initialized ${mirrorStatus.mirrorCount} mirrors`);
-      if (mirrorStatus.mirrors.length > 0) {
-        console.log(`   Primary: ${mirrorStatus.mirrors[0].provider}`);
+    // Initialize mirror manager (skipped offline - MIRRORS.ALL is a download)
+    if (this.offline) {
+      console.log('📴 Offline mode: serving cached books and the local catalog only');
+      this.logEvent('offline', 'Offline mode enabled');
+    } else {
+      console.log('🌐 Initializing mirror manager...');
+      try {
+        const mirrorStatus = await this.mirrorManager.initialize();
+        console.log(`✓ ${mirrorStatus.mirrorCount} mirrors available`);
+        this.logEvent('mirrors', `Initialized ${mirrorStatus.mirrorCount} mirrors`);
+        if (mirrorStatus.mirrors.length > 0) {
+          console.log(`   Primary: ${mirrorStatus.mirrors[0].provider}`);
+        }
+      } catch (err) {
+        console.log(`⚠️  Mirror init warning: ${(err as Error).message}`);
+        console.log('   Will use gutenberg.org directly');
+        this.logEvent('mirrors', `Init warning: ${(err as Error).message}`);
       }
-    } catch (err) {
-      console.log(`⚠️  Mirror init warning: ${(err as Error).message}`);
-      console.log('   Will use gutenberg.org directly');
-      this.logEvent('mirrors', `Init warning: ${(err as Error).message}`);
     }
 
     // Initialize local cache
@@ -799,6 +1824,14 @@ export class WebServer {
         console.log(`   ${cachedBooks.length} books already cached`);
       }
       this.logEvent('cache', `Local sparse cache enabled, ${cachedBooks.length} books cached`);
+
+      if (!this.offline && this.pinJobs) {
+        const resumed = this.pinJobs.resumePinned();
+        if (resumed.length > 0) {
+          console.log(`   Resuming download of ${resumed.length} pinned book(s)`);
+          this.logEvent('cache', `Resumed pin jobs for ${resumed.join(', ')}`);
+        }
+      }
     } else {
       console.log('💾 Local cache disabled');
     }
@@ -820,15 +1853,17 @@ export class WebServer {
     
     // Schedule hourly catalog refresh checks
     const CATALOG_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
-    setInterval(async () => {
-      try {
-        await this.catalog.ensureCatalog();
-      } catch (err) {
-        this.logEvent('catalog', `Scheduled refresh failed: ${(err as Error).message}`);
-      }
-    }, CATALOG_CHECK_INTERVAL);
+    if (!this.offline) {
+      this.catalogTimer = setInterval(async () => {
+        try {
+          await this.catalog.ensureCatalog();
+        } catch (err) {
+          this.logEvent('catalog', `Scheduled refresh failed: ${(err as Error).message}`);
+        }
+      }, CATALOG_CHECK_INTERVAL);
+    }
 
-    const server = http.createServer(async (req, res) => {
+    const server = this.httpServer = http.createServer(async (req, res) => {
       if (req.method === 'OPTIONS') {
         res.writeHead(204, {
           'Access-Control-Allow-Origin': '*',
@@ -856,10 +1891,24 @@ export class WebServer {
       console.log(`\nPages:`);
       console.log(`  http://localhost:${this.port}/           Search for books`);
       console.log(`  http://localhost:${this.port}/read#1342  Read a specific book`);
+      console.log(`\nCatalog API:`);
+      console.log(`  GET  /api/search        - Ranked search with facet counts`);
+      console.log(`  GET  /api/subjects      - Subjects with book counts (?q=filter)`);
+      console.log(`  GET  /api/bookshelves/:name - Books on a bookshelf`);
+      console.log(`  GET  /api/author/:slug  - Books by an author`);
+      console.log(`  GET  /api/catalog/new   - Books added or changed since ?since=`);
+      console.log(`  GET  /feeds/new.xml     - Atom feed of new arrivals`);
       console.log(`\nCache API:`);
       console.log(`  GET  /api/cache         - Cache status`);
       console.log(`  GET  /api/cache/:id     - Book cache status`);
       console.log(`  DELETE /api/cache/:id   - Invalidate book cache`);
+      console.log(`  POST /api/cache/:id/pin - Download whole book for offline use`);
+      console.log(`  POST /api/cache/:id/verify - Check (and ?repair=1) cached blocks`);
+      console.log(`  GET  /api/cache/export  - Download cached books as .tar.gz (?books=1,2)`);
+      console.log(`  POST /api/cache/import  - Merge an exported .tar.gz into the cache`);
+      console.log(`\nReading trail API:`);
+      console.log(`  GET  /api/history       - Back/forward trail across books`);
+      console.log(`  POST /api/history/back  - Step back (/forward to step forward, ?steps=N)`);
       console.log(`\nP2P Multiplayer:`);
       console.log(`  WebSocket signaling at ws://localhost:${this.port}/ws/signaling`);
       console.log(`\nPress Ctrl+C to stop\n`);
@@ -871,6 +1920,26 @@ export class WebServer {
     return server;
   }
 
+  /**
+   * Stop listening and let go of the shared mirror manager, so a stopped
+   * server can be garbage collected
+   */
+  async stop(): Promise<void> {
+    this.stopQuarantineListener();
+    if (this.catalogTimer) clearInterval(this.catalogTimer);
+    this.catalogTimer = null;
+    this.p2pSignaling.close();
+    this.bookIndexes?.close();
+    const server = this.httpServer;
+    this.httpServer = null;
+    if (server?.listening) {
+      const closed = new Promise<void>(resolve => server.close(() => resolve()));
+      // Open event streams would otherwise hold close() up
+      server.closeAllConnections();
+      await closed;
+    }
+  }
+
   /**
    * Get active P2P rooms (for debug/admin)
    */
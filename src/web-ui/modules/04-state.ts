@@ -1,14 +1,25 @@
 // @ts-nocheck
+// Where the server ends chunks (see chunkModeParams); remembered between visits
+const CHUNK_MODES = ['words', 'sentences', 'paragraphs', 'screenful'];
+const CHUNK_MODE_KEY = 'gutex-chunk-mode';
+
+function loadChunkMode() {
+  const saved = localStorage.getItem(CHUNK_MODE_KEY);
+  return CHUNK_MODES.includes(saved) ? saved : 'words';
+}
+
 const state = {
   bookId: null,
   bookTitle: null,
   bookAuthor: null,
+  bookAuthors: [],   // Parsed credits from /api/bookinfo, for author links
   byteStart: 0,
   byteEnd: 0,
   nextByteStart: null,
   docStart: 0,       // Start of document content (for backward boundary check)
   docEnd: 0,         // End of document content
   chunkSize: 200,
+  chunkMode: loadChunkMode(),
   loading: false,
   lastFetchDuration: null
 };
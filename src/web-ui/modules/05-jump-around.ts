@@ -91,10 +91,11 @@ async function goToRandomLocationInSameBook() {
   const targetByte = Math.floor(docStart + docLength * randomPercent);
   
   try {
-    const data = await fetchChunk(state.bookId, targetByte, state.chunkSize);
+    const data = await fetchChunk(state.bookId, targetByte, state.chunkSize, true);
     
     // Abort if Jump Around was stopped during fetch
     if (!jumpAround.active) return;
+    pendingTeleport = 'jump';
     
     if (rope3d.active) {
       // 3D mode: Fade out, swap words, fade in
@@ -129,8 +130,9 @@ async function goToRandomLocationInSameBook() {
     // Clear history since we jumped
     navHistoryStack.length = 0;
     
-    recordNavigation(); // Log in history
+    recordTeleport(data); // New entry in the reading trail
   } catch (err) {
+    pendingTeleport = null;
     console.error('Error jumping in same book:', err);
   }
 }
@@ -116,7 +116,8 @@ function startAutoRead() {
   const direction = $('autoDirection').value;
   const chunkSize = parseInt($('autoChunkSize').value, 10);
 
-  if (chunkSize !== state.chunkSize) {
+  // NaN when the dropdown shows a chunk mode rather than a size
+  if (!isNaN(chunkSize) && chunkSize !== state.chunkSize) {
     state.chunkSize = chunkSize;
     initBook(state.bookId, state.byteStart, chunkSize, false, false);
   }
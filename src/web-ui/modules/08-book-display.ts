@@ -57,7 +57,7 @@ function isAutoModeActive() {
 
 async function fetchBookInfo(bookId) {
   try {
-    const res = await fetch(`/api/bookinfo/${bookId}`);
+    const res = await fetch(`/api/bookinfo/${encodeURIComponent(bookId)}`);
     const data = await res.json();
 
     const parts = [];
@@ -77,10 +77,11 @@ async function fetchBookInfo(bookId) {
       state.bookAuthor = formatted;
       parts.push(`<span class="author">by ${escapeHtml(formatted)}</span>`);
     }
+    state.bookAuthors = data.authors || [];
 
     // Update title bar
     $('titleBarTitle').textContent = state.bookTitle || `Book ${state.bookId}`;
-    $('titleBarAuthor').textContent = state.bookAuthor || '';
+    renderTitleBarAuthor();
 
     // Update teleport modal if visible (for direct URL navigation)
     const modal = $('teleportModal');
@@ -96,6 +97,18 @@ async function fetchBookInfo(bookId) {
   } catch (err) {}
 }
 
+// Author names in the book info popup link to their author pages
+function renderTitleBarAuthor() {
+  const el = $('titleBarAuthor');
+  if (!state.bookAuthors || state.bookAuthors.length === 0) {
+    el.textContent = state.bookAuthor || '';
+    return;
+  }
+  el.innerHTML = state.bookAuthors.map(a =>
+    `<span class="author-link" data-slug="${escapeHtml(a.slug)}" title="Other books by ${escapeHtml(a.displayName)}">${escapeHtml(a.displayName)}</span>`
+  ).join(', ');
+}
+
 function escapeHtml(str) {
   return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 }
@@ -232,8 +245,15 @@ function parseHash() {
   if (!hash) return null;
 
   const parts = hash.split(',').map(p => p.trim());
-  const bookId = parseInt(parts[0], 10);
-  if (isNaN(bookId)) return null;
+  // Gutenberg IDs are numeric; local/URL text sources use slug IDs, which
+  // may start with digits ("1984-orwell")
+  let bookId;
+  if (/^\d+$/.test(parts[0])) {
+    bookId = parseInt(parts[0], 10);
+  } else {
+    if (!/^[a-z0-9][a-z0-9-]*$/i.test(parts[0])) return null;
+    bookId = parts[0];
+  }
 
   const byteStart = parts[1] ? parseInt(parts[1], 10) : null;
   const chunkSize = parts[2] ? parseInt(parts[2], 10) : 200;
@@ -278,7 +298,7 @@ function updateHash(force = false) {
     const byteStart = state.byteStart ?? 0;
     const newHash = buildHash(state.bookId, byteStart, state.chunkSize, rope3d.active);
     if (window.location.hash !== newHash) {
-      window.history.replaceState(null, '', newHash);
+      window.history.replaceState(window.history.state, '', newHash);
       lastHashUpdate = now;
     }
   } catch (e) {
@@ -308,6 +328,10 @@ function updateButtonStates() {
 
 function syncChunkSizeDropdown() {
   const select = $('autoChunkSize');
+  if (state.chunkMode !== 'words') {
+    select.value = state.chunkMode;
+    return;
+  }
   const options = Array.from(select.options).map(o => parseInt(o.value, 10));
 
   if (options.includes(state.chunkSize)) {
@@ -341,7 +365,7 @@ function updateUI(data) {
 
   // Update title bar
   $('titleBarTitle').textContent = state.bookTitle || `Book ${data.bookId}`;
-  $('titleBarAuthor').textContent = state.bookAuthor || '';
+  renderTitleBarAuthor();
   $('percent').textContent = `${data.percent}%`;
   $('progressFill').style.width = `${data.percent}%`;
   $('progress').style.width = `${data.percent}%`;
@@ -351,7 +375,8 @@ function updateUI(data) {
   // Process italics (underscore-wrapped text) and then handle paragraph breaks
   $('content').innerHTML = processItalics(displayText).replace(/\n\n/g, '<br><br>');
 
-  $('stats').textContent = `${data.totalBytes.toLocaleString()} bytes | ${state.chunkSize}w`;
+  const sizeLabel = state.chunkMode === 'words' ? `${state.chunkSize}w` : state.chunkMode;
+  $('stats').textContent = `${data.totalBytes.toLocaleString()} bytes | ${sizeLabel}`;
   
   // Update footer location display
   updateFooterLocation();
@@ -373,6 +398,29 @@ function updateUI(data) {
   recordNavigation();
 }
 
+// Render an uncached stretch of an offline book as a gap the reader can step over
+function showNotCachedGap(info) {
+  const gapEnd = info.gapEnd ?? info.byteStart;
+  state.byteStart = info.byteStart;
+  state.byteEnd = gapEnd;
+  state.nextByteStart = info.nextByteStart ?? null;
+  if (info.docStart !== undefined) state.docStart = info.docStart;
+  if (info.docEnd !== undefined) state.docEnd = info.docEnd;
+
+  if (info.percent !== undefined) {
+    $('percent').textContent = `${info.percent}%`;
+    $('progressFill').style.width = `${info.percent}%`;
+    $('progress').style.width = `${info.percent}%`;
+  }
+
+  const missing = Math.max(0, gapEnd - info.byteStart + 1);
+  $('content').className = 'gap';
+  $('content').textContent = `[ ${missing.toLocaleString()} bytes not cached — unavailable offline ]`;
+
+  updateFooterLocation();
+  updateButtonStates();
+}
+
 // Update the footer location display with current position in hash format
 function updateFooterLocation() {
   const locationEl = $('footerLocation');
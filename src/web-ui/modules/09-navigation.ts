@@ -1,15 +1,50 @@
 // @ts-nocheck
 // ========== Fetch and navigate ==========
-async function fetchChunk(bookId, byteStart, chunkSize) {
+function setChunkMode(mode) {
+  state.chunkMode = mode;
+  localStorage.setItem(CHUNK_MODE_KEY, mode);
+}
+
+// Reading area in characters, for screenful chunks. Text is proportional,
+// so columns assume an average glyph of half the font size.
+function measureReadingArea() {
+  const content = $('content');
+  const style = getComputedStyle(content);
+  const fontSize = parseFloat(style.fontSize) || 16;
+  const lineHeight = parseFloat(style.lineHeight) || fontSize * 1.6;
+  const width = content.clientWidth - parseFloat(style.paddingLeft || 0) - parseFloat(style.paddingRight || 0);
+  // Leave room below the text for the footer controls
+  const height = window.innerHeight - Math.max(0, content.getBoundingClientRect().top) - 96;
+  return {
+    cols: Math.max(20, Math.floor(width / (fontSize * 0.5))),
+    rows: Math.max(3, Math.floor(height / lineHeight))
+  };
+}
+
+function chunkModeParams(params) {
+  if (state.chunkMode === 'words') return;
+  params.set('chunkMode', state.chunkMode);
+  if (state.chunkMode === 'screenful') {
+    const area = measureReadingArea();
+    params.set('cols', area.cols);
+    params.set('rows', area.rows);
+  }
+}
+
+// align: byteStart is a seek or an estimate, not the start of a chunk, so
+// sentence and paragraph chunks should begin at the next sentence or paragraph
+async function fetchChunk(bookId, byteStart, chunkSize, align = false) {
   const params = new URLSearchParams();
   if (chunkSize) params.set('chunkSize', chunkSize);
+  chunkModeParams(params);
+  if (align) params.set('align', '1');
 
   let url;
   if (byteStart !== null && byteStart !== undefined && !isNaN(byteStart)) {
     params.set('byteStart', byteStart);
-    url = `/api/book/${bookId}/chunk?${params}`;
+    url = `/api/book/${encodeURIComponent(bookId)}/chunk?${params}`;
   } else {
-    url = `/api/book/${bookId}/init?${params}`;
+    url = `/api/book/${encodeURIComponent(bookId)}/init?${params}`;
   }
 
   const startTime = performance.now();
@@ -24,7 +59,10 @@ async function fetchChunk(bookId, byteStart, chunkSize) {
 
   if (!res.ok) {
     const data = await res.json().catch(() => ({}));
-    throw new Error(data.error || `HTTP ${res.status}`);
+    const err = new Error(data.error || `HTTP ${res.status}`);
+    // Offline server: the requested bytes are not in the local cache
+    if (data.code === 'NOT_CACHED') err.notCached = data;
+    throw err;
   }
 
   const data = await res.json();
@@ -39,7 +77,7 @@ let searchInitiatedLoad = false;
 // Track pending book info for interstitial modal
 let pendingBookInfo = null;
 
-async function initBook(bookId, byteStart = null, chunkSize = 200, clearHistory = true, updateHash = true) {
+async function initBook(bookId, byteStart = null, chunkSize = 200, clearHistory = true, updateHash = true, align = false) {
   state.loading = true;
   updateButtonStates();
   $('content').className = 'loading';
@@ -64,20 +102,24 @@ async function initBook(bookId, byteStart = null, chunkSize = 200, clearHistory
     
     state.bookTitle = null;
     state.bookAuthor = null;
+    state.bookAuthors = [];
     $('titleBarTitle').textContent = `Book ${bookId}`;
     $('titleBarAuthor').textContent = '';
     fetchBookInfo(bookId);
   }
 
   try {
-    const data = await fetchChunk(bookId, byteStart, chunkSize);
+    const data = await fetchChunk(bookId, byteStart, chunkSize, align);
     updateUI(data);
     searchInitiatedLoad = false; // Clear flag on success
     
-    // Update URL after data is loaded (prevents URL/content mismatch)
-    if (updateHash) {
+    // Update URL after data is loaded (prevents URL/content mismatch);
+    // a teleport gets a browser history entry of its own
+    if (pendingTeleport) {
+      recordTeleport(data);
+    } else if (updateHash) {
       const newHash = buildHash(data.bookId, data.byteStart, state.chunkSize, rope3d.active);
-      window.history.replaceState(null, '', newHash);
+      window.history.replaceState(window.history.state, '', newHash);
     }
     
     // Auto-hide modal after successful load, re-enable buttons when modal hides
@@ -94,11 +136,18 @@ async function initBook(bookId, byteStart = null, chunkSize = 200, clearHistory
     
     return data; // Return data for 3D mode handling
   } catch (err) {
+    pendingTeleport = null;
     // Hide modal on error
     hideBookChangeModal();
     state.loading = false;
     updateButtonStates();
     
+    if (err.notCached && err.notCached.byteStart !== undefined) {
+      state.bookId = bookId;
+      showNotCachedGap(err.notCached);
+      return null;
+    }
+    
     // Check if this is a "no plain text" error
     if (err.message && err.message.includes('No plain text')) {
       // If this was initiated from search, show a modal so user can continue searching
@@ -154,6 +203,11 @@ async function navigate(direction) {
       updateUI(data);
       showHint('→');
     } catch (err) {
+      if (err.notCached && err.notCached.byteStart !== undefined) {
+        // Keep the history entry so Back returns to the last readable chunk
+        showNotCachedGap(err.notCached);
+        return;
+      }
       navHistoryStack.pop();
       $('content').className = 'error';
       $('content').textContent = `Error: ${err.message}`;
@@ -196,7 +250,7 @@ async function navigate(direction) {
       
       state.loading = true;
       try {
-        const data = await fetchChunk(state.bookId, prevByteStart, state.chunkSize);
+        const data = await fetchChunk(state.bookId, prevByteStart, state.chunkSize, true);
         
         // If we got 0 words, at start of book
         if (data.actualCount === 0 || (data.words && data.words.length === 0)) {
@@ -226,6 +280,10 @@ async function navigate(direction) {
         updateUI(data);
         showHint('←');
       } catch (err) {
+        if (err.notCached && err.notCached.byteStart !== undefined) {
+          showNotCachedGap(err.notCached);
+          return;
+        }
         $('content').className = 'error';
         $('content').textContent = `Error: ${err.message}`;
       } finally {
@@ -254,6 +312,10 @@ async function navigate(direction) {
       updateUI(data);
       showHint('←');
     } catch (err) {
+      if (err.notCached && err.notCached.byteStart !== undefined) {
+        showNotCachedGap(err.notCached);
+        return;
+      }
       $('content').className = 'error';
       $('content').textContent = `Error: ${err.message}`;
     } finally {
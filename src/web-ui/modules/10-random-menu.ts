@@ -40,6 +40,7 @@ async function goToRandomBook() {
       showBookChangeModal(book.title, book.author, false);
       
       // Random Book always starts at the BEGINNING of the book (null = docStart)
+      pendingTeleport = 'random';
       const data = await initBook(parseInt(book.id, 10), null, state.chunkSize, true, true);
 
       // If initBook failed, try another book
@@ -50,7 +51,7 @@ async function goToRandomBook() {
 
       // Update URL AFTER successful content load to prevent URL/content mismatch
       const newHash = buildHash(data.bookId, data.byteStart, state.chunkSize, rope3d.active);
-      window.history.replaceState(null, '', newHash);
+      window.history.replaceState(window.history.state, '', newHash);
 
       // CRITICAL: Re-set loading state to prevent animation loop from processing
       // with stale rope3d data. initBook's finally block sets state.loading = false,
@@ -178,7 +179,8 @@ async function goToRandomLocation() {
       const randomByteOffset = Math.floor(totalCleanBytes * (randomPercent / 100));
       const randomByteStart = initData.docStart + randomByteOffset;
       
-      const data = await initBook(parseInt(book.id, 10), randomByteStart, currentChunkSize, true, true);
+      pendingTeleport = 'random';
+      const data = await initBook(parseInt(book.id, 10), randomByteStart, currentChunkSize, true, true, true);
 
       // If initBook failed, try another book
       if (!data) {
@@ -188,7 +190,7 @@ async function goToRandomLocation() {
 
       // Update URL AFTER successful content load to prevent URL/content mismatch
       const newHash = buildHash(data.bookId, data.byteStart, currentChunkSize, rope3d.active);
-      window.history.replaceState(null, '', newHash);
+      window.history.replaceState(window.history.state, '', newHash);
 
       // CRITICAL: Re-set loading state to prevent animation loop from processing
       // with stale rope3d data. initBook's finally block sets state.loading = false,
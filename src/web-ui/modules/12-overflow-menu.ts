@@ -33,6 +33,16 @@ document.addEventListener('click', (e) => {
 });
 
 // Overflow menu actions
+$('overflowPrevChapter').addEventListener('click', () => {
+  closeOverflowMenu();
+  goToChapter('backward');
+});
+
+$('overflowNextChapter').addEventListener('click', () => {
+  closeOverflowMenu();
+  goToChapter('forward');
+});
+
 $('overflowExcerpt').addEventListener('click', () => {
   closeOverflowMenu();
   openExcerptView();
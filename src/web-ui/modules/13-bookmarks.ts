@@ -2,23 +2,6 @@
 // ========== Bookmarks ==========
 const BOOKMARKS_KEY = 'gutex_bookmarks';
 
-// Navigation history (in-memory, per session)
-const navHistory = [];
-const MAX_NAV_HISTORY = 100;
-
-function recordNavigation() {
-  if (!state.bookId) return;
-  navHistory.unshift({
-    timestamp: Date.now(),
-    bookId: state.bookId,
-    byteStart: state.byteStart,
-    chunkSize: state.chunkSize,
-    title: state.bookTitle || `Book ${state.bookId}`,
-    percent: $('percent').textContent
-  });
-  if (navHistory.length > MAX_NAV_HISTORY) navHistory.pop();
-}
-
 // Storage abstraction with fallbacks: localStorage -> sessionStorage -> memory
 const storage = (function() {
   let memoryStore = {};
@@ -196,7 +179,31 @@ function renderBookmarkList() {
   });
 }
 
-function saveCurrentBookmark() {
+// Text anchors let a bookmark find its passage again after the book's text
+// is revised. The server makes and resolves them; here they are opaque.
+async function fetchAnchor(bookId, byteStart) {
+  try {
+    const res = await fetch(`/api/book/${bookId}/anchor?byteStart=${byteStart}`);
+    if (!res.ok) return null;
+    return (await res.json()).anchor;
+  } catch {
+    return null;
+  }
+}
+
+// Where an anchored position is now: { byteStart, status }, or null if the
+// anchor couldn't be checked
+async function resolveAnchor(bookId, anchor) {
+  try {
+    const res = await fetch(`/api/book/${bookId}/resolve?anchor=${encodeURIComponent(anchor)}`);
+    if (!res.ok) return null;
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
+
+async function saveCurrentBookmark() {
   if (!state.bookId) return;
 
   let name = $('bookmarkName').value.trim();
@@ -226,19 +233,32 @@ function saveCurrentBookmark() {
     timestamp: Date.now(),
     mode: rope3d.active ? '3d' : '2d'
   };
+  $('bookmarkName').value = '';
+
+  const anchor = await fetchAnchor(info.bookId, info.byteStart);
+  if (anchor) info.anchor = anchor;
 
   saveBookmarkToStorage(name, info);
-  $('bookmarkName').value = '';
   renderBookmarkList();
   showHint(`Saved bookmark: ${name}`, 1500);
 }
 
-function goToBookmark(name) {
+async function goToBookmark(name) {
   const bookmarks = loadBookmarks();
   const info = bookmarks[name];
   if (!info) return;
 
   closeBookmarkModal();
+
+  if (info.anchor) {
+    const match = await resolveAnchor(info.bookId, info.anchor);
+    if (match && match.status === 'moved') {
+      info.byteStart = match.byteStart;
+      showHint('Book revised: bookmark moved to its passage', 2000);
+    } else if (match && match.status === 'lost') {
+      showHint('Book revised: bookmarked passage not found', 2000);
+    }
+  }
   
   // Set pending book info for interstitial modal
   if (info.bookTitle) {
@@ -261,6 +281,7 @@ function goToBookmark(name) {
     
     // Preserve auto-read state - don't stop in 3D mode, let the content load smoothly
     const wasAutoActive = autoRead.active;
+    pendingTeleport = 'bookmark';
     initBook(info.bookId, info.byteStart, info.chunkSize).then(data => {
       if (data) {
         // Sync 3D rope with new data
@@ -285,13 +306,10 @@ function goToBookmark(name) {
       // Fade back in
       fadeCanvas(1, 100);
     });
-    
-    // Update hash without triggering hashchange
-    const newHash = buildHash(info.bookId, info.byteStart, info.chunkSize, true);
-    window.history.replaceState(null, '', newHash);
   } else {
     // 2D mode - use hash navigation
     const newHash = buildHash(info.bookId, info.byteStart, info.chunkSize, false);
+    if (window.location.hash !== newHash) pendingTeleport = 'bookmark';
     window.location.hash = newHash;
   }
 }
@@ -322,8 +340,16 @@ function switchBookmarkTab(tabName) {
   $('bookmarkActions').style.display = tabName === 'bookmarks' ? 'flex' : 'none';
 }
 
-function renderHistoryList() {
+// The reading trail (see 25-reading-trail.ts), newest first
+async function renderHistoryList() {
   const list = $('historyList');
+  let trail = { entries: [], cursor: -1 };
+  try {
+    const res = await fetch('/api/history');
+    if (res.ok) trail = await res.json();
+  } catch (e) {}
+
+  const navHistory = trail.entries.map((h, idx) => ({ ...h, current: idx === trail.cursor })).reverse();
   if (navHistory.length === 0) {
     list.innerHTML = '<div class="empty">No history yet</div>';
     return;
@@ -332,11 +358,14 @@ function renderHistoryList() {
     const d = new Date(h.timestamp);
     const time = d.toLocaleTimeString();
     const date = d.toLocaleDateString();
+    const percent = h.percent !== undefined ? ` · ${h.percent}%` : '';
+    const size = h.chunkSize ? ` · ${h.chunkSize}w` : '';
+    const here = h.current ? ' (here)' : '';
     return `
       <div class="history-item" data-idx="${idx}">
-        <div class="history-item-time">${date} ${time}</div>
-        <div class="history-item-title">${escapeHtml(h.title)}</div>
-        <div class="history-item-meta">Book #${h.bookId} · ${h.percent} · ${h.chunkSize}w</div>
+        <div class="history-item-time">${date} ${time} · ${h.kind}${here}</div>
+        <div class="history-item-title">${escapeHtml(h.title || `Book ${h.bookId}`)}</div>
+        <div class="history-item-meta">Book #${escapeHtml(String(h.bookId))}${percent}${size}</div>
       </div>
     `;
   }).join('');
@@ -350,7 +379,8 @@ function renderHistoryList() {
       closeBookmarkModal();
       // Set pending book info for interstitial modal
       pendingBookInfo = { bookId: h.bookId, title: h.title, author: '' };
-      await initBook(h.bookId, h.byteStart, h.chunkSize, true);
+      pendingTeleport = 'jump';
+      await initBook(h.bookId, h.byteStart, h.chunkSize || state.chunkSize, true);
     };
     el.addEventListener('click', handler);
     // Add touch support for mobile
@@ -87,6 +87,14 @@ document.addEventListener('keydown', (e) => {
     return;
   }
 
+  // Next/previous chapter (n/p)
+  if ((key === 'n' || key === 'p') && !modalOpen && !rope3d.active) {
+    e.preventDefault();
+    if (autoRead.active) return;
+    goToChapter(key === 'n' ? 'forward' : 'backward');
+    return;
+  }
+
   // Toggle fullscreen (z)
   if (key === 'z') {
     e.preventDefault();
@@ -299,6 +307,14 @@ $('titleBarTitle').addEventListener('click', () => {
   }
 });
 
+// Author names open the author's page on the landing page
+$('titleBarAuthor').addEventListener('click', (e) => {
+  const link = e.target.closest('.author-link');
+  if (!link) return;
+  e.stopPropagation();
+  window.location.href = '/#author/' + encodeURIComponent(link.dataset.slug);
+});
+
 // Click on main content to restore keyboard focus
 $('mainContent').addEventListener('click', () => $('mainContent').focus());
 
@@ -377,7 +393,7 @@ function populateCustomChunks() {
   if (customOptIdx < 0) return;
   
   // Remove any existing custom options (between last standard and 'custom')
-  const standardVals = ['1','2','3','5','8','10','50','100','150','175','200','250','300','400','500'];
+  const standardVals = ['1','2','3','5','8','10','50','100','150','175','200','250','300','400','500', ...CHUNK_MODES];
   Array.from(select.options).forEach(opt => {
     if (!standardVals.includes(opt.value) && opt.value !== 'custom') {
       opt.remove();
@@ -414,6 +430,7 @@ $('autoChunkSize').addEventListener('change', (e) => {
         saveCustomChunk(size);
         populateCustomChunks();
         e.target.value = String(size);
+        setChunkMode('words');
         
         if (state.bookId) {
           state.chunkSize = size;
@@ -425,20 +442,37 @@ $('autoChunkSize').addEventListener('change', (e) => {
         }
       } else {
         showHint('Invalid chunk size (1-2000)');
-        e.target.value = String(state.chunkSize);
+        syncChunkSizeDropdown();
       }
     } else {
-      e.target.value = String(state.chunkSize);
+      syncChunkSizeDropdown();
     }
     refocusAfterButton();
     return;
   }
   
   e.target.blur();
+
+  // Sentences, paragraphs or screenful: keep the word count as a rough limit
+  if (CHUNK_MODES.includes(val)) {
+    if (val !== state.chunkMode) {
+      setChunkMode(val);
+      if (state.bookId) {
+        initBook(state.bookId, state.byteStart, state.chunkSize, false, false);
+      }
+    }
+    refocusAfterButton();
+    return;
+  }
+
+  // A word count switches back to plain word chunks
+  const modeChanged = state.chunkMode !== 'words';
+  setChunkMode('words');
+
   // Auto mode continues uninterrupted
   if (state.bookId) {
     const newChunkSize = parseInt(val, 10);
-    if (newChunkSize !== state.chunkSize) {
+    if (newChunkSize !== state.chunkSize || modeChanged) {
       state.chunkSize = newChunkSize;
       
       if (rope3d.active) {
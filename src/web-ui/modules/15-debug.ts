@@ -137,21 +137,41 @@ async function pollDebug() {
           const total = (stats.successes || 0) + (stats.failures || 0);
           const successRate = total > 0 ? Math.round((stats.successes / total) * 100) : '-';
           const avgTime = stats.avgResponseTime ? Math.round(stats.avgResponseTime) + 'ms' : '-';
-          const statusColor = total === 0 ? '#666' : (successRate >= 80 ? '#0f0' : successRate >= 50 ? '#fa0' : '#f00');
+          const cancelled = stats.cancelled ? ` · ${stats.cancelled} cancelled` : '';
+          const lastError = stats.recentErrors && stats.recentErrors.length > 0
+            ? stats.recentErrors[stats.recentErrors.length - 1].errorClass
+            : null;
+          const breaker = stats.breaker && stats.breaker !== 'closed'
+            ? ` · breaker ${stats.breaker}${lastError ? ` (${lastError})` : ''}`
+            : '';
+          const statusColor = stats.breaker === 'open' ? '#f00' : total === 0 ? '#666' : (successRate >= 80 ? '#0f0' : successRate >= 50 ? '#fa0' : '#f00');
 
           return `
             <div class="debug-entry">
               <span class="time" style="min-width:30px">#${idx + 1}</span>
               <span class="type" style="color:${statusColor};min-width:40px">${successRate}%</span>
-              <span class="message">${escapeHtml(m.provider)} (${escapeHtml(m.location)})</span>
+              <span class="message">${escapeHtml(m.provider)} (${escapeHtml(m.location)})${cancelled}${breaker}</span>
               <span class="duration">${avgTime}</span>
             </div>
           `;
         }).join('');
+        // Mirrors serving a different copy of a book than gutenberg.org
+        const quarantineHtml = (mirrorsData.quarantined || []).map(q => {
+          const detail = q.reason === 'size' && q.expected && q.actual
+            ? `${q.actual.size.toLocaleString()} bytes, expected ${q.expected.size.toLocaleString()}`
+            : 'content differs from gutenberg.org';
+          return `
+            <div class="debug-entry">
+              <span class="type" style="color:#f00;min-width:70px">QUARANTINE</span>
+              <span class="message">${escapeHtml(q.provider)}: book ${q.bookId} (${detail})</span>
+            </div>
+          `;
+        }).join('');
         $('debugMirrors').innerHTML = `
           <div style="color:#0ff;padding:4px 0;border-bottom:1px solid #333;margin-bottom:4px">
-            ${mirrorsData.mirrorCount} mirrors available
+            ${mirrorsData.mirrorCount} mirrors available${mirrorsData.breakers && mirrorsData.breakers.open ? ` · ${mirrorsData.breakers.open} open breaker(s)` : ''}
           </div>
+          ${quarantineHtml}
           ${mirrorsHtml}
         `;
       }
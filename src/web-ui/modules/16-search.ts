@@ -96,12 +96,13 @@ async function navigateToResult(bookId, title, author) {
     $('titleBarAuthor').textContent = '';
   }
   
+  pendingTeleport = 'search';
   const data = await initBook(parseInt(bookId, 10), null, state.chunkSize, true);
   
   // Only update URL if content loaded successfully
   if (data) {
     const newHash = buildHash(bookId, data.byteStart, state.chunkSize, rope3d.active);
-    window.history.replaceState(null, '', newHash);
+    window.history.replaceState(window.history.state, '', newHash);
   }
   
   // Reset rope3d state if active and load succeeded
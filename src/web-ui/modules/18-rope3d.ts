@@ -472,6 +472,7 @@ async function teleportToRandomLocation() {
       
       // Fetch chunk at random position
       const data = await fetchChunk(randomBookId, randomByteStart, state.chunkSize);
+      pendingTeleport = 'random';
       
       // Update state
       state.bookId = randomBookId;
@@ -482,13 +483,14 @@ async function teleportToRandomLocation() {
       state.docEnd = initData.docEnd;
       state.bookTitle = book.title || '';
       state.bookAuthor = book.author || '';
+      state.bookAuthors = [];
       
       // Clear navigation history
       navHistoryStack.length = 0;
       
       // Update title bar
       $('titleBarTitle').textContent = state.bookTitle || `Book ${randomBookId}`;
-      $('titleBarAuthor').textContent = state.bookAuthor || '';
+      renderTitleBarAuthor();
       
       if (rope3d.active) {
         // 3D mode: fade out, reset rope, fade in
@@ -519,8 +521,7 @@ async function teleportToRandomLocation() {
         updateUI(data);
       }
       
-      updateHash(true); // Force after teleport
-      recordNavigation(); // Log in history
+      recordTeleport(data); // New entry in the reading trail
       
       // Fade out modal, re-enable buttons when modal hides
       setTimeout(() => {
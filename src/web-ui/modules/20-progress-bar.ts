@@ -46,7 +46,8 @@ function seekToPercent(percent) {
   
   // Debounce the actual navigation
   progressSeekTimeout = setTimeout(() => {
-    initBook(state.bookId, targetByte, state.chunkSize, false, false).catch(err => {
+    pendingTeleport = 'jump';
+    initBook(state.bookId, targetByte, state.chunkSize, false, false, true).catch(err => {
       console.error('Progress seek navigation failed:', err);
     });
   }, PROGRESS_SEEK_DEBOUNCE);
@@ -46,6 +46,21 @@ async function initExcerptMode() {
   }
   
   try {
+    // A link with an anchor (a=) follows its passage if the text was
+    // revised; one without gets an anchor added, so the link to share has one
+    const search = new URLSearchParams(window.location.search);
+    const anchor = search.get('a');
+    if (anchor) {
+      const match = await resolveAnchor(params.bookId, anchor);
+      if (match && match.status !== 'lost') params.byteStart = match.byteStart;
+    } else if (params.byteStart !== null) {
+      fetchAnchor(params.bookId, params.byteStart).then(token => {
+        if (!token) return;
+        search.set('a', token);
+        window.history.replaceState(null, '', `?${search}${window.location.hash}`);
+      });
+    }
+
     // Fetch EXACT bytes for excerpt (not word-aligned)
     const exactRes = await fetch(
       `/api/book/${params.bookId}/chunk?byteStart=${params.byteStart}&chunkSize=${params.chunkSize}&exact=1`
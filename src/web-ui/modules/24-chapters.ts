@@ -0,0 +1,64 @@
+// @ts-nocheck
+// ========== Chapters ==========
+// Next/previous chapter from the book's outline (/api/book/:id/toc). The
+// outline is fetched once per book; the server reads the whole book the
+// first time, so the first jump can take a moment.
+const chapterOutline = { bookId: null, entries: null, pending: null };
+
+async function loadChapterOutline() {
+  if (chapterOutline.bookId === state.bookId && chapterOutline.entries) {
+    return chapterOutline.entries;
+  }
+  if (chapterOutline.bookId !== state.bookId || !chapterOutline.pending) {
+    const bookId = state.bookId;
+    chapterOutline.bookId = bookId;
+    chapterOutline.entries = null;
+    chapterOutline.pending = fetch(`/api/book/${encodeURIComponent(bookId)}/toc`)
+      .then(async res => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        if (chapterOutline.bookId === bookId) chapterOutline.entries = data.entries;
+        return data.entries;
+      })
+      .finally(() => {
+        if (chapterOutline.bookId === bookId) chapterOutline.pending = null;
+      });
+  }
+  return chapterOutline.pending;
+}
+
+function chapterName(entry) {
+  return entry.title ? `${entry.label} ${entry.title}` : entry.label;
+}
+
+async function goToChapter(direction) {
+  if (!state.bookId || state.loading) return;
+
+  let entries;
+  try {
+    if (!chapterOutline.entries || chapterOutline.bookId !== state.bookId) {
+      showHint('Finding chapters...', 1500);
+    }
+    entries = await loadChapterOutline();
+  } catch (err) {
+    showHint(`Chapters unavailable: ${err.message}`, 2000);
+    return;
+  }
+
+  if (!entries.length) {
+    showHint('No chapters found in this book', 1500);
+    return;
+  }
+
+  const target = direction === 'forward'
+    ? entries.find(entry => entry.byteStart > state.byteStart)
+    : entries.filter(entry => entry.byteStart < state.byteStart).pop();
+  if (!target) {
+    showHint(direction === 'forward' ? 'No later chapter' : 'No earlier chapter', 1200);
+    return;
+  }
+
+  pendingTeleport = 'chapter';
+  const data = await initBook(state.bookId, target.byteStart, state.chunkSize, false, true);
+  if (data) showHint(chapterName(target), 1500);
+}
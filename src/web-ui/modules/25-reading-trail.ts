@@ -0,0 +1,116 @@
+// @ts-nocheck
+// ========== Reading trail ==========
+// Teleports (a random book, a search result, a bookmark, a chapter, a
+// jump-around or progress bar seek) are added to the server's reading trail
+// (/api/history) and pushed onto browser history, so the Back button returns
+// to the previous passage. Page turns only replace the current history
+// entry's hash, and move the trail's current entry along with the reader.
+
+// This tab's place in its browser history, kept in history.state
+let trailIndex = window.history.state?.trailIndex ?? 0;
+
+// Kind of teleport under way ('random', 'search', ...). Set it before
+// loading; initBook (or the caller) records the teleport once loaded.
+let pendingTeleport = null;
+
+// Reading position is sent to the trail once page turns pause
+const TRAIL_HERE_DELAY = 2000;
+let trailHereTimer = null;
+let trailHere = null;
+
+// Trail requests go one at a time, so they reach the server in order
+let trailQueue = Promise.resolve();
+
+function postTrail(path, body = null) {
+  const request = trailQueue.then(() => fetch(`/api/history${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined
+  })).then(res => res.ok ? res.json() : null).catch(() => null);
+  trailQueue = request;
+  return request;
+}
+
+// Send the reading position now if it's waiting
+function flushTrailHere() {
+  if (!trailHereTimer) return;
+  clearTimeout(trailHereTimer);
+  trailHereTimer = null;
+  postTrail('/here', trailHere);
+}
+
+// Called whenever a passage is shown: keep this history entry and the
+// trail's current entry at it (not while a teleport is landing, which gets
+// an entry of its own). The position is taken now, so a later teleport
+// doesn't send its destination as where the old entry was read to.
+function recordNavigation() {
+  if (!state.bookId || pendingTeleport) return;
+  updateHash(true);
+  trailHere = {
+    bookId: state.bookId,
+    byteStart: state.byteStart,
+    percent: parseFloat($('percent').textContent)
+  };
+  clearTimeout(trailHereTimer);
+  trailHereTimer = setTimeout(flushTrailHere, TRAIL_HERE_DELAY);
+}
+
+// Add the passage a teleport landed on. A browser entry made for this
+// navigation (a followed link, an edited hash) is claimed; otherwise a new
+// one is pushed, leaving the old entry at the old passage.
+function recordTeleport(data) {
+  const kind = pendingTeleport || 'jump';
+  pendingTeleport = null;
+  flushTrailHere();
+
+  const hash = buildHash(data.bookId, data.byteStart, state.chunkSize, rope3d.active);
+  try {
+    trailIndex++;
+    if (window.history.state?.trailIndex === undefined) {
+      window.history.replaceState({ trailIndex }, '', hash);
+    } else {
+      window.history.pushState({ trailIndex }, '', hash);
+    }
+  } catch (e) {
+    // Ignore security errors in sandboxed contexts
+  }
+
+  postTrail('', {
+    bookId: data.bookId,
+    byteStart: data.byteStart,
+    kind,
+    chunkSize: state.chunkSize,
+    title: state.bookTitle || undefined,
+    percent: parseFloat(data.percent)
+  });
+}
+
+// The passage where the trail left off (for a visit with no hash), or null
+async function loadTrailPosition() {
+  try {
+    const res = await fetch('/api/history');
+    if (!res.ok) return null;
+    const trail = await res.json();
+    return trail.entries[trail.cursor] ?? null;
+  } catch (e) {
+    return null;
+  }
+}
+
+// Back and Forward: the hashchange handler loads the passage; the trail's
+// cursor follows. An entry without a trailIndex is a new one (a link).
+window.addEventListener('popstate', (e) => {
+  const index = e.state?.trailIndex;
+  if (index === undefined) {
+    pendingTeleport = pendingTeleport || 'link';
+    return;
+  }
+
+  // The passage still shown is where the entry being left was read to
+  flushTrailHere();
+
+  const steps = index - trailIndex;
+  trailIndex = index;
+  if (steps < 0) postTrail(`/back?steps=${-steps}`);
+  if (steps > 0) postTrail(`/forward?steps=${steps}`);
+});
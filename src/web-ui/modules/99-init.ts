@@ -5,8 +5,11 @@ try {
     initExcerptMode();
   } else {
     const params = parseHash();
+    const isNewVisit = window.history.state?.trailIndex === undefined;
     if (params) {
       state.chunkSize = params.chunkSize;
+      // A followed link adds to the reading trail; a reload doesn't
+      if (isNewVisit) pendingTeleport = 'link';
       
       // Load content first, then switch mode if needed
       initBook(params.bookId, params.byteStart, params.chunkSize).then((data) => {
@@ -16,8 +19,9 @@ try {
         }
       });
     } else {
-      // No hash - check for last position
-      loadLastPosition().then(lastPos => {
+      // No hash - check for last position, then where the reading trail left off
+      if (isNewVisit) window.history.replaceState({ trailIndex }, '');
+      loadLastPosition().then(lastPos => lastPos || loadTrailPosition()).then(lastPos => {
         if (lastPos && lastPos.bookId) {
           // Resume from last position
           state.chunkSize = lastPos.chunkSize || 200;
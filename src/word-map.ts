@@ -0,0 +1,257 @@
+/**
+ * Word Map Module
+ * Exact byte ↔ word-index addressing for a book's clean text.
+ *
+ * Navigator estimates word positions from sampled word density, so word
+ * indexes and jumps drift. A word map instead records where every word
+ * starts, counted the way Navigator splits chunks (runs of non-whitespace,
+ * as /\S+/ does), so "word 48,210" names the same word in every session.
+ *
+ * WordCounter works on raw bytes fed in pieces of any size; readWordMap
+ * feeds it the whole clean range through a fetcher, so maps are only built
+ * where that is cheap (SMALL_BOOK_BYTES, or a book already in the cache).
+ * WordMapStore keeps maps between runs, keyed by the clean-text boundaries.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Boundaries } from './types.js';
+
+const WORD_MAP_DIR = path.join(os.homedir(), '.gutex_wordmaps');
+const FORMAT = 'gutex-word-map';
+const VERSION = 1;
+
+/** Books up to this size get a word map even when they must be downloaded */
+export const SMALL_BOOK_BYTES = 1024 * 1024;
+
+/** Bytes read at a time when counting a whole book */
+const READ_SIZE = 256 * 1024;
+
+interface SerializedWordMap {
+  format: string;
+  version: number;
+  startByte: number;
+  endByte: number;
+  /** Word start offsets as little-endian uint32, base64 */
+  starts: string;
+}
+
+// Multi-byte UTF-8 sequences of the characters /\s/ matches beyond ASCII:
+// U+00A0, U+1680, U+2000-200A, U+2028-2029, U+202F, U+205F, U+3000, U+FEFF
+function multiByteSpaceLength(bytes: Buffer, i: number): number {
+  const b0 = bytes[i];
+  const b1 = bytes[i + 1];
+  if (b0 === 0xc2) return b1 === 0xa0 ? 2 : 0;
+  const b2 = bytes[i + 2];
+  if (b0 === 0xe1) return b1 === 0x9a && b2 === 0x80 ? 3 : 0;
+  if (b0 === 0xe2) {
+    if (b1 === 0x80 && ((b2 >= 0x80 && b2 <= 0x8a) || b2 === 0xa8 || b2 === 0xa9 || b2 === 0xaf)) return 3;
+    return b1 === 0x81 && b2 === 0x9f ? 3 : 0;
+  }
+  if (b0 === 0xe3) return b1 === 0x80 && b2 === 0x80 ? 3 : 0;
+  if (b0 === 0xef) return b1 === 0xbb && b2 === 0xbf ? 3 : 0;
+  return 0;
+}
+
+// Lead bytes of those sequences, which may be split across pieces
+function mayStartSpace(byte: number): boolean {
+  return byte === 0xc2 || byte === 0xe1 || byte === 0xe2 || byte === 0xe3 || byte === 0xef;
+}
+
+function isAsciiSpace(byte: number): boolean {
+  return byte === 0x20 || (byte >= 0x09 && byte <= 0x0d);
+}
+
+export class WordMap {
+  private starts: Uint32Array;
+
+  constructor(starts: Uint32Array) {
+    this.starts = starts;
+  }
+
+  get totalWords(): number {
+    return this.starts.length;
+  }
+
+  /**
+   * Index of the word at a byte offset: the last word starting at or
+   * before it (0 before the first word)
+   */
+  wordAt(byte: number): number {
+    let low = 0;
+    let high = this.starts.length - 1;
+    let found = 0;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.starts[mid] <= byte) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Byte offset where a word starts; indexes past either end are clamped
+   */
+  byteOf(wordIndex: number): number {
+    if (this.starts.length === 0) return 0;
+    const index = Math.max(0, Math.min(this.starts.length - 1, Math.floor(wordIndex)));
+    return this.starts[index];
+  }
+
+  /**
+   * Load a saved map, or null if it is missing, unreadable or was counted
+   * over other boundaries
+   */
+  static load(filePath: string, boundaries: Boundaries): WordMap | null {
+    try {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SerializedWordMap;
+      if (saved.format !== FORMAT || saved.version !== VERSION ||
+          saved.startByte !== boundaries.startByte || saved.endByte !== boundaries.endByte) {
+        return null;
+      }
+      const bytes = Buffer.from(saved.starts, 'base64');
+      const starts = new Uint32Array(bytes.length / 4);
+      for (let i = 0; i < starts.length; i++) starts[i] = bytes.readUInt32LE(i * 4);
+      return new WordMap(starts);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write the map atomically (temp file, then rename)
+   */
+  save(filePath: string, boundaries: Boundaries): void {
+    const bytes = Buffer.alloc(this.starts.length * 4);
+    this.starts.forEach((start, i) => bytes.writeUInt32LE(start, i * 4));
+    const data: SerializedWordMap = {
+      format: FORMAT,
+      version: VERSION,
+      startByte: boundaries.startByte,
+      endByte: boundaries.endByte,
+      starts: bytes.toString('base64')
+    };
+    const tempPath = `${filePath}.tmp-${process.pid}`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, filePath);
+  }
+}
+
+/**
+ * Streaming word counter over raw bytes. Offsets are absolute, starting at
+ * the byte given to the constructor.
+ */
+export class WordCounter {
+  private offset: number;
+  private inWord = false;
+  // Start of a possible multi-byte space cut off at the end of a piece
+  private carry: Buffer = Buffer.alloc(0);
+  private starts: number[] = [];
+
+  constructor(startByte: number) {
+    this.offset = startByte;
+  }
+
+  /**
+   * Add bytes that follow on from what came before
+   */
+  push(piece: Buffer): void {
+    const bytes = this.carry.length > 0 ? Buffer.concat([this.carry, piece]) : piece;
+    const base = this.offset - this.carry.length;
+    this.carry = Buffer.alloc(0);
+
+    let i = 0;
+    while (i < bytes.length) {
+      const byte = bytes[i];
+      if (byte < 0x80) {
+        if (isAsciiSpace(byte)) {
+          this.inWord = false;
+        } else if (!this.inWord) {
+          this.starts.push(base + i);
+          this.inWord = true;
+        }
+        i++;
+        continue;
+      }
+
+      if (mayStartSpace(byte) && bytes.length - i < (byte === 0xc2 ? 2 : 3)) {
+        this.carry = Buffer.from(bytes.subarray(i));
+        break;
+      }
+      const spaceLength = multiByteSpaceLength(bytes, i);
+      if (spaceLength > 0) {
+        this.inWord = false;
+        i += spaceLength;
+      } else {
+        if (!this.inWord) {
+          this.starts.push(base + i);
+          this.inWord = true;
+        }
+        i++;
+      }
+    }
+    this.offset = base + bytes.length;
+  }
+
+  /**
+   * Finish the text and return the map
+   */
+  end(): WordMap {
+    if (this.carry.length > 0) {
+      const rest = this.carry;
+      this.carry = Buffer.alloc(0);
+      // Too short to be a space: whatever it is belongs to a word
+      if (!this.inWord) this.starts.push(this.offset - rest.length);
+      this.inWord = true;
+    }
+    return new WordMap(Uint32Array.from(this.starts));
+  }
+}
+
+/**
+ * Count the words of a book's clean text through fetchRange (inclusive end)
+ */
+export async function readWordMap(
+  fetchRange: (start: number, end: number) => Promise<Buffer>,
+  boundaries: Boundaries
+): Promise<WordMap> {
+  const counter = new WordCounter(boundaries.startByte);
+  for (let start = boundaries.startByte; start < boundaries.endByte; start += READ_SIZE) {
+    const end = Math.min(boundaries.endByte, start + READ_SIZE) - 1;
+    counter.push(await fetchRange(start, end));
+  }
+  return counter.end();
+}
+
+/**
+ * Word maps saved between runs, one file per book
+ */
+export class WordMapStore {
+  private dir: string;
+
+  constructor(dir: string = WORD_MAP_DIR) {
+    this.dir = dir;
+  }
+
+  load(bookId: number | string, boundaries: Boundaries): WordMap | null {
+    return WordMap.load(this.filePath(bookId), boundaries);
+  }
+
+  save(bookId: number | string, boundaries: Boundaries, map: WordMap): void {
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      map.save(this.filePath(bookId), boundaries);
+    } catch {
+      // Not saved; the words are counted again next time
+    }
+  }
+
+  private filePath(bookId: number | string): string {
+    return path.join(this.dir, `${encodeURIComponent(String(bookId))}.json`);
+  }
+}
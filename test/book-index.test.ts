@@ -0,0 +1,245 @@
+/**
+ * Tests for the word index of fully cached books
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { BookIndex, BookIndexManager } from '../src/book-index.js';
+import { SparseCache, type UpstreamFetcher } from '../src/sparse-cache.js';
+import { NetworkSearcher } from '../src/network-search.js';
+import { parseTextQuery, PassageMatcher } from '../src/text-query.js';
+import type { TextQueryNode } from '../src/text-query.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-book-index');
+
+const MOBY = [
+  'Call me Ishmael. Some years ago, never mind how long precisely, I thought',
+  'I would sail about a little and see the watery part of the world.',
+  '',
+  'The whale, the great white whale, was seen from the ship at dawn.',
+  '',
+  'Queequeg sharpened his harpoon; the whale was far from the ship.',
+  '',
+  'There was no ship in sight, and the naïve sea was calm.',
+  ''
+].join('\n');
+
+// Room for the header and footer a search skips
+const BOOK = 'Project Gutenberg header\n\n' + 'filler '.repeat(100) + '\n\n' + MOBY + '\n' + 'footer '.repeat(700);
+
+const KEY = { fileSize: 1, etag: '"a"', lastModified: null, createdAt: 1 };
+
+class MockUpstream implements UpstreamFetcher {
+  constructor(public content: Buffer, public etag = '"v1"') {}
+
+  async head(): Promise<{ size: number; etag: string | null; lastModified: string | null }> {
+    return { size: this.content.length, etag: this.etag, lastModified: null };
+  }
+
+  async getRange(_bookId: number, start: number, end: number): Promise<Buffer> {
+    return this.content.subarray(start, Math.min(end, this.content.length - 1) + 1);
+  }
+}
+
+function booleanRoot(query: string): TextQueryNode {
+  return (parseTextQuery(query) as { kind: 'boolean'; root: TextQueryNode }).root;
+}
+
+function slice(text: string, start: number, end: number): string {
+  return Buffer.from(text).subarray(start, end).toString('utf-8');
+}
+
+describe('Book index', () => {
+  const index = BookIndex.build(Buffer.from(MOBY));
+
+  it('finds phrases as whole words, ignoring case, accents and punctuation', () => {
+    const matches = index.findPhrase('White WHALE was');
+    assert.strictEqual(matches.length, 1);
+    assert.strictEqual(slice(MOBY, matches[0].start, matches[0].end), 'white whale, was');
+
+    assert.strictEqual(index.findPhrase('the whale').length, 2);
+    assert.deepStrictEqual(index.findPhrase('hale'), [], 'no partial words before the last');
+    assert.strictEqual(index.findPhrase('whal').length, 3, 'the last word may be partial');
+    assert.deepStrictEqual(index.findPhrase('whal the'), []);
+
+    const [naive] = index.findPhrase('naive sea');
+    assert.strictEqual(slice(MOBY, naive.start, naive.end), 'naïve sea', 'byte offsets count multi-byte characters');
+  });
+
+  it('allows fuzzy phrases within the edits over all words', () => {
+    assert.deepStrictEqual(index.findPhrase('graet wite whale'), []);
+    const [match] = index.findPhrase('graet wite whale', { maxEditDistance: 3 });
+    assert.strictEqual(slice(MOBY, match.start, match.end), 'great white whale');
+    assert.strictEqual(match.editDistance, 3);
+    assert.deepStrictEqual(index.findPhrase('graet wite whale', { maxEditDistance: 2 }), []);
+  });
+
+  it('answers boolean and NEAR queries like PassageMatcher', () => {
+    for (const query of ['whale AND ship NOT harpoon', '"white whale" NEAR/5 ship', 'ship NEAR/4 whale', 'whale OR (ship NOT whale)']) {
+      const matcher = new PassageMatcher(booleanRoot(query));
+      const expected = [...matcher.push(MOBY), ...matcher.end(0)]
+        .map(m => m.byteStart + Buffer.byteLength(m.text.slice(0, m.start)));
+      assert.deepStrictEqual(index.findQuery(booleanRoot(query)).map(m => m.start), expected, query);
+    }
+  });
+
+  it('keeps matches inside the byte bounds', () => {
+    const all = index.findPhrase('ship');
+    assert.strictEqual(all.length, 3);
+    assert.deepStrictEqual(index.findPhrase('ship', { start: all[0].start + 1, end: all[2].start }), [all[1]]);
+    assert.strictEqual(index.findPhrase('ship', { maxMatches: 2 }).length, 2);
+  });
+
+  describe('on disk', () => {
+    beforeEach(() => {
+      fs.rmSync(TEST_DIR, { recursive: true, force: true });
+      fs.mkdirSync(TEST_DIR, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    });
+
+    it('saves and loads for the same version of the book only', () => {
+      const filePath = path.join(TEST_DIR, '1.index.json');
+      index.save(filePath, KEY);
+
+      const loaded = BookIndex.load(filePath, KEY)!;
+      assert.strictEqual(loaded.wordCount, index.wordCount);
+      assert.deepStrictEqual(loaded.findQuery(booleanRoot('harpoon OR calm')), index.findQuery(booleanRoot('harpoon OR calm')));
+
+      assert.strictEqual(BookIndex.load(filePath, { ...KEY, etag: '"b"' }), null);
+      assert.strictEqual(BookIndex.load(path.join(TEST_DIR, 'missing.json'), KEY), null);
+    });
+
+    it('builds in the background once a book is fully cached', async () => {
+      const cache = new SparseCache({ cacheDir: TEST_DIR, blockSize: 256 });
+      cache.setUpstreamFetcher(new MockUpstream(Buffer.from(BOOK)));
+      let onBuilt!: (bookId: number) => void;
+      const built = new Promise<number>(resolve => { onBuilt = resolve; });
+      const manager = new BookIndexManager(cache, { onBuilt: bookId => onBuilt(bookId) });
+
+      await cache.getRange(7, 0, 255);
+      assert.strictEqual(await manager.get(7), null, 'partly cached books get no index');
+      assert.strictEqual((manager as any).queue.length, 0);
+
+      await cache.getRange(7, 0, BOOK.length - 1);
+      assert.strictEqual(await manager.get(7), null, 'not built yet');
+      assert.strictEqual(await built, 7);
+      assert.ok(fs.existsSync(cache.getIndexPath(7)));
+
+      // A fresh manager reads the saved index instead of rebuilding
+      const fresh = new BookIndexManager(cache);
+      assert.strictEqual((await fresh.get(7))?.wordCount, (await manager.get(7))!.wordCount);
+    });
+
+    it('builds and loads in a worker, leaving the event loop free', async () => {
+      const big = Buffer.from(BOOK + MOBY.repeat(4000));
+      const cache = new SparseCache({ cacheDir: TEST_DIR });
+      cache.setUpstreamFetcher(new MockUpstream(big));
+      await cache.getRange(8, 0, big.length - 1);
+      const manager = new BookIndexManager(cache);
+      const fresh = new BookIndexManager(cache);
+
+      let ticks = 0;
+      const ticker = setInterval(() => ticks++, 1);
+      try {
+        const built = (await manager.build(8))!;
+        const ticksWhileBuilding = ticks;
+        const loaded = (await fresh.get(8))!;
+        assert.ok(ticksWhileBuilding > 0, 'timers ran during the build');
+        assert.ok(ticks > ticksWhileBuilding, 'timers ran during the load');
+        assert.strictEqual(built.wordCount, BookIndex.build(big).wordCount);
+        assert.deepStrictEqual(loaded.findPhrase('harpoon', { maxMatches: 5 }), built.findPhrase('harpoon', { maxMatches: 5 }));
+      } finally {
+        clearInterval(ticker);
+        manager.close();
+        fresh.close();
+      }
+    });
+
+    it('drops the index when the book is invalidated or changes upstream', async () => {
+      const upstream = new MockUpstream(Buffer.from(BOOK));
+      const cache = new SparseCache({ cacheDir: TEST_DIR, blockSize: 256, validationIntervalMs: 10 });
+      cache.setUpstreamFetcher(upstream);
+      const manager = new BookIndexManager(cache);
+
+      await cache.getRange(7, 0, BOOK.length - 1);
+      assert.ok(await manager.build(7));
+      await cache.invalidate(7);
+      assert.ok(!fs.existsSync(cache.getIndexPath(7)));
+      assert.strictEqual(await manager.get(7), null);
+
+      await cache.getRange(7, 0, BOOK.length - 1);
+      assert.ok(await manager.build(7));
+      upstream.etag = '"v2"';
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await cache.getRange(7, 0, 63);
+      assert.ok(!fs.existsSync(cache.getIndexPath(7)), 'ETag change removes the saved index');
+      assert.strictEqual(await manager.get(7), null, 'and the one in memory is stale');
+    });
+  });
+
+  describe('NetworkSearcher', () => {
+    const bookIndex = BookIndex.build(Buffer.from(BOOK));
+    const data = Buffer.from(BOOK);
+
+    function options(reads: Array<[number, number]>) {
+      return {
+        fullyCached: true,
+        fileSize: data.length,
+        wordIndex: bookIndex,
+        contextSize: 20,
+        rangeFetcher: async (start: number, end: number) => {
+          reads.push([start, end]);
+          return data.subarray(start, end + 1);
+        }
+      };
+    }
+
+    it('answers phrases from the index, reading only around matches', async () => {
+      const reads: Array<[number, number]> = [];
+      const result = await new NetworkSearcher().search('http://unused/1.txt', 'the ship', options(reads));
+
+      assert.strictEqual(result.strategy, 'index');
+      assert.strictEqual(result.matches.length, 2);
+      const [first] = result.matches;
+      assert.strictEqual(first.matchedText, 'the ship');
+      assert.strictEqual(slice(BOOK, first.byteStart, first.byteStart + 8), 'the ship');
+      assert.ok(first.context.includes('was seen from the ship at dawn'));
+      assert.strictEqual(reads.length, 2);
+      assert.ok(reads.every(([start, end]) => end - start < 100));
+      assert.ok(!result.matches.some(m => m.context.includes('filler')), 'header and footer are skipped');
+    });
+
+    it('finds the same phrases as a scan, a partly typed last word included', async () => {
+      const searcher = new NetworkSearcher();
+      for (const phrase of ['the ship', 'the whal', 'Queequeg sharpened his harp', 'whi']) {
+        const indexed = await searcher.search('http://unused/1.txt', phrase, options([]));
+        const scanned = await searcher.search('http://unused/1.txt', phrase, { ...options([]), wordIndex: undefined });
+        assert.strictEqual(indexed.strategy, 'index');
+        assert.strictEqual(scanned.strategy, 'range-search');
+        assert.ok(scanned.matches.length > 0, phrase);
+        assert.deepStrictEqual(indexed.matches.map(m => m.byteStart), scanned.matches.map(m => m.byteStart), phrase);
+      }
+    });
+
+    it('answers fuzzy and boolean queries, regexes still scan', async () => {
+      const searcher = new NetworkSearcher();
+      const fuzzy = await searcher.search('http://unused/1.txt', 'Queequeg sharpend', { ...options([]), fuzzy: true });
+      assert.deepStrictEqual(fuzzy.matches.map(m => [m.matchedText, m.editDistance]), [['Queequeg sharpened', 1]]);
+
+      const near = await searcher.search('http://unused/1.txt', 'harpoon NEAR/3 whale', options([]));
+      assert.strictEqual(near.strategy, 'index');
+      assert.deepStrictEqual(near.matches.map(m => m.matchedText), ['harpoon; the whale']);
+
+      const regex = await searcher.search('http://unused/1.txt', '/harpoon;/', options([]));
+      assert.strictEqual(regex.strategy, 'range-search');
+      assert.strictEqual(regex.matches.length, 1);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Tests for chapter detection, outlines and chapter navigation
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { StructureAnalyzer, OutlineStore, readOutline } from '../src/book-structure.js';
+import { Navigator } from '../src/navigator.js';
+import type { Boundaries, BookOutline } from '../src/types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-book-structure');
+
+const PROSE = [
+  'It was a bright cold day in April, and the clocks were striking thirteen,',
+  'and the whale went about its business in the grey water without a care.',
+  'Nobody on the ship had seen it, though the lookout swore he heard it sing.'
+].join('\n');
+
+// CONTENTS list with dot leaders and page numbers, parts and chapters with
+// and without titles, a preface not in the list
+const NOVEL = [
+  'CONTENTS',
+  '',
+  'BOOK I. THE SEA',
+  'CHAPTER I. Loomings ........ 1',
+  'CHAPTER II.  The Carpet-Bag     9',
+  'CHAPTER III.',
+  '    The Spouter-Inn',
+  'BOOK II. THE SHORE',
+  'CHAPTER I. Ashore ....... 40',
+  '',
+  '',
+  'PREFACE',
+  '',
+  PROSE,
+  '',
+  'BOOK I. THE SEA',
+  '',
+  'CHAPTER I.',
+  '',
+  PROSE,
+  '',
+  'Chapter 2 of the log says the same thing, and this line is prose.',
+  '',
+  'CHAPTER II.',
+  '',
+  PROSE,
+  '',
+  'CHAPTER III',
+  'THE SPOUTER-INN',
+  '',
+  PROSE,
+  '',
+  'BOOK II. THE SHORE',
+  '',
+  'CHAPTER I.',
+  '',
+  PROSE,
+  '',
+  'THE END',
+  ''
+].join('\n');
+
+// Numbered with bare numerals and spelled-out divisions
+const STAVES = [
+  'STAVE ONE.',
+  'MARLEY’S GHOST.',
+  '',
+  PROSE,
+  '',
+  'STAVE TWO.',
+  '',
+  'THE FIRST OF THE THREE SPIRITS.',
+  '',
+  PROSE,
+  '',
+  'IV. The Last of the Spirits',
+  '',
+  PROSE,
+  ''
+].join('\n');
+
+// No numbered headings: standalone all-caps lines are used instead
+const ESSAYS = [
+  'ON HISTORY',
+  '',
+  PROSE,
+  '',
+  'ON FRIENDSHIP',
+  '',
+  PROSE,
+  '',
+  'HAMLET.',
+  'Speaks a line that follows straight on.',
+  ''
+].join('\n');
+
+function boundariesOf(text: string, startByte = 0): Boundaries {
+  const length = Buffer.byteLength(text);
+  return { startByte, endByte: startByte + length, cleanLength: length };
+}
+
+function analyze(text: string, pieceSize = text.length): BookOutline {
+  const analyzer = new StructureAnalyzer(boundariesOf(text));
+  for (let i = 0; i < text.length; i += pieceSize) {
+    analyzer.push(text.slice(i, i + pieceSize));
+  }
+  return analyzer.end();
+}
+
+function lineStart(text: string, line: string, from = 0): number {
+  const index = text.indexOf(`\n${line}\n`, from);
+  assert.ok(index >= 0, `fixture has "${line}"`);
+  return Buffer.byteLength(text.slice(0, index + 1));
+}
+
+class MockFetcher {
+  requests = 0;
+  private buffer: Buffer;
+
+  constructor(content: string) {
+    this.buffer = Buffer.from(content);
+  }
+
+  async fetchRange(start: number, end: number): Promise<Buffer> {
+    this.requests++;
+    return this.buffer.subarray(start, end + 1);
+  }
+}
+
+describe('Book structure', () => {
+  describe('StructureAnalyzer', () => {
+    it('finds parts and chapters, skipping the CONTENTS list and prose', () => {
+      const outline = analyze(NOVEL);
+      assert.strictEqual(outline.hasContents, true);
+      assert.deepStrictEqual(outline.entries.map(e => [e.label, e.title, e.level]), [
+        ['PREFACE', null, 2],
+        ['BOOK I.', 'THE SEA', 1],
+        ['CHAPTER I.', 'Loomings', 2],
+        ['CHAPTER II.', 'The Carpet-Bag', 2],
+        ['CHAPTER III', 'THE SPOUTER-INN', 2],
+        ['BOOK II.', 'THE SHORE', 1],
+        ['CHAPTER I.', 'Ashore', 2]
+      ]);
+
+      const [preface, book] = outline.entries;
+      assert.strictEqual(preface.byteStart, lineStart(NOVEL, 'PREFACE'));
+      assert.strictEqual(book.byteStart, lineStart(NOVEL, 'BOOK I. THE SEA', preface.byteStart));
+      assert.ok(outline.entries.every((e, i, all) => i === 0 || e.percent >= all[i - 1].percent));
+    });
+
+    it('gives the same outline however the text is split', () => {
+      const whole = analyze(NOVEL);
+      for (const size of [1, 13, 100]) {
+        assert.deepStrictEqual(analyze(NOVEL, size), whole, `piece size ${size}`);
+      }
+    });
+
+    it('reads spelled-out numbers, bare numerals and titles under headings', () => {
+      const outline = analyze(STAVES);
+      assert.strictEqual(outline.hasContents, false);
+      assert.deepStrictEqual(outline.entries.map(e => [e.label, e.title]), [
+        ['STAVE ONE.', 'MARLEY’S GHOST'],
+        ['STAVE TWO.', 'THE FIRST OF THE THREE SPIRITS'],
+        ['IV.', 'The Last of the Spirits']
+      ]);
+      assert.strictEqual(outline.entries[0].byteStart, 0);
+    });
+
+    it('falls back to standalone all-caps lines', () => {
+      const outline = analyze(ESSAYS);
+      assert.deepStrictEqual(outline.entries.map(e => [e.label, e.level]), [['ON HISTORY', 3], ['ON FRIENDSHIP', 3]]);
+      assert.strictEqual(analyze(NOVEL).entries.some(e => e.label === 'THE END'), false);
+    });
+
+    it('counts bytes of multi-byte text and from the clean start', async () => {
+      const text = 'Café crème\n\nCHAPTER 1. Naïveté\n\n' + PROSE + '\n\nCHAPTER 2\n\n' + PROSE + '\n';
+      const header = 'HEADER ÉÉÉ\n';
+      const book = header + text;
+      const boundaries = boundariesOf(text, Buffer.byteLength(header));
+      const fetcher = new MockFetcher(book);
+
+      const outline = await readOutline((start, end) => fetcher.fetchRange(start, end), boundaries);
+      assert.deepStrictEqual(outline.entries.map(e => e.title), ['Naïveté', null]);
+      assert.strictEqual(outline.entries[1].byteStart, lineStart(book, 'CHAPTER 2'));
+      assert.strictEqual(outline.entries[0].percent, Math.round(Buffer.byteLength('Café crème\n\n') / boundaries.cleanLength * 1000) / 10);
+    });
+  });
+
+  describe('OutlineStore', () => {
+    before(() => {
+      fs.mkdirSync(TEST_DIR, { recursive: true });
+    });
+
+    after(() => {
+      fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    });
+
+    it('keeps outlines for the same boundaries only', () => {
+      const filePath = path.join(TEST_DIR, 'outlines.json');
+      const outline = analyze(NOVEL);
+      const boundaries = boundariesOf(NOVEL);
+      new OutlineStore(filePath).save(2701, boundaries, outline);
+
+      const store = new OutlineStore(filePath);
+      assert.deepStrictEqual(store.load(2701, boundaries), outline);
+      assert.strictEqual(store.load(2701, { ...boundaries, endByte: boundaries.endByte - 1 }), null);
+      assert.strictEqual(store.load(11, boundaries), null);
+    });
+  });
+
+  describe('Navigator chapters', () => {
+    it('jumps to the next and previous heading', async () => {
+      const fetcher = new MockFetcher(NOVEL);
+      const navigator = new Navigator(fetcher, boundariesOf(NOVEL), 20);
+      const { entries } = await navigator.getOutline();
+
+      let position = await navigator.goToPercent(0);
+      position = (await navigator.nextChapter(position))!;
+      assert.strictEqual(position.byteStart, entries[0].byteStart);
+      assert.strictEqual(position.words[0], 'PREFACE');
+
+      position = (await navigator.nextChapter(position))!;
+      position = (await navigator.nextChapter(position))!;
+      assert.deepStrictEqual(position.words.slice(0, 2), ['CHAPTER', 'I.']);
+      assert.strictEqual(navigator.chapterAt(position.byteStart + 50)?.title, 'Loomings');
+
+      // Mid-chapter, previous goes back to the start of the chapter
+      const inside = await navigator.moveForward(position);
+      position = (await navigator.previousChapter(inside))!;
+      assert.strictEqual(position.byteStart, entries[2].byteStart);
+      assert.strictEqual(navigator.positionHistory.length, 0, 'history is cleared as for goToPercent');
+
+      const last = await navigator.nextChapter({ ...position, byteStart: entries[entries.length - 1].byteStart });
+      assert.strictEqual(last, null);
+    });
+
+    it('reads the outline once and uses a stored one when there is one', async () => {
+      const filePath = path.join(TEST_DIR, 'navigator-outlines.json');
+      fs.mkdirSync(TEST_DIR, { recursive: true });
+      const store = new OutlineStore(filePath);
+
+      const first = new MockFetcher(NOVEL);
+      const navigator = new Navigator(first, boundariesOf(NOVEL), 20);
+      await navigator.getOutline(store, 7);
+      await navigator.getOutline(store, 7);
+      assert.strictEqual(first.requests, 1);
+
+      const second = new MockFetcher(NOVEL);
+      const outline = await new Navigator(second, boundariesOf(NOVEL), 20).getOutline(new OutlineStore(filePath), 7);
+      assert.strictEqual(second.requests, 0);
+      assert.strictEqual(outline.entries.length, 7);
+      fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    });
+  });
+});
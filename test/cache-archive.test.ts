@@ -0,0 +1,205 @@
+/**
+ * Tests for cache export/import archives
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { fileURLToPath } from 'url';
+import { SparseCache, type UpstreamFetcher } from '../src/sparse-cache.js';
+import { CatalogManager } from '../src/catalog-manager.js';
+import {
+  exportCacheArchiveToFile,
+  importCacheArchiveFromFile,
+  _internal
+} from '../src/cache-archive.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_ROOT = path.join(__dirname, '..', '.test-cache-archive');
+const ARCHIVE = path.join(TEST_ROOT, 'library.tar.gz');
+
+const CONTENT = Buffer.from('abcdefgh'.repeat(128)); // 1024 bytes, 16 blocks of 64
+
+class MockUpstream implements UpstreamFetcher {
+  public etag = 'etag-1';
+  public rangeCalls = 0;
+
+  async head(_bookId: number): Promise<{ size: number; etag: string | null; lastModified: string | null }> {
+    return { size: CONTENT.length, etag: this.etag, lastModified: null };
+  }
+
+  async getRange(_bookId: number, start: number, end: number): Promise<Buffer> {
+    this.rangeCalls++;
+    return CONTENT.subarray(start, Math.min(end, CONTENT.length - 1) + 1);
+  }
+}
+
+function createCache(name: string, upstream: UpstreamFetcher | null = new MockUpstream()): SparseCache {
+  const cache = new SparseCache({ cacheDir: path.join(TEST_ROOT, name), blockSize: 64, maxCoalesceGap: 0 });
+  if (upstream) cache.setUpstreamFetcher(upstream);
+  return cache;
+}
+
+function createCatalog(name: string, csv: string | null, downloadDate: string): CatalogManager {
+  const dir = path.join(TEST_ROOT, name);
+  fs.mkdirSync(dir, { recursive: true });
+  const catalog = new CatalogManager();
+  (catalog as any).cacheDir = dir;
+  (catalog as any).catalogPath = path.join(dir, 'pg_catalog.csv');
+  (catalog as any).metaPath = path.join(dir, 'pg_catalog.meta.json');
+  catalog.setOffline(true);
+  if (csv !== null) {
+    fs.writeFileSync(path.join(dir, 'pg_catalog.csv'), csv);
+    fs.writeFileSync(path.join(dir, 'pg_catalog.meta.json'), JSON.stringify({ sha256: 'x', downloadDate }));
+  }
+  return catalog;
+}
+
+const CSV = 'Text#,Type,Issued,Title,Language,Authors\n1342,Text,1998-06-01,Pride and Prejudice,en,"Austen, Jane"\n';
+
+describe('Cache archives', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_ROOT, { recursive: true, force: true });
+    fs.mkdirSync(TEST_ROOT, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it('writes a plain tar with the manifest first and data last', async () => {
+    const source = createCache('a');
+    await source.getRange(42, 0, 127);
+    await exportCacheArchiveToFile(ARCHIVE, { cache: source });
+
+    const tar = gunzipSync(fs.readFileSync(ARCHIVE));
+    const parser = new _internal.TarParser();
+    const names = parser.push(tar).map(e => e.name);
+
+    assert.ok(parser.ended);
+    assert.deepStrictEqual(names, [
+      'manifest.json',
+      'books/42.meta.json',
+      'books/42.bitmap',
+      'books/42.sums',
+      'books/42.txt'
+    ]);
+  });
+
+  it('round-trips books into an empty cache that then reads them offline', async () => {
+    const source = createCache('a');
+    await source.getRange(42, 0, 255);
+    source.setPinned(42, true);
+    const manifest = await exportCacheArchiveToFile(ARCHIVE, { cache: source });
+    assert.deepStrictEqual(manifest.books, [42]);
+
+    const target = createCache('b', null);
+    const summary = await importCacheArchiveFromFile(ARCHIVE, { cache: target });
+
+    assert.deepStrictEqual(summary.books, [{ bookId: 42, action: 'added', blocksAdded: 4, blocksRejected: 0 }]);
+    assert.strictEqual(summary.catalog, 'absent');
+    assert.ok(target.isPinned(42));
+    assert.strictEqual(target.verify(42)?.ok, true);
+
+    target.setOffline(true);
+    assert.deepStrictEqual(await target.getRange(42, 0, 255), CONTENT.subarray(0, 256));
+  });
+
+  it('merges blocks into an existing copy of the same book', async () => {
+    const source = createCache('a');
+    await source.getRange(42, 512, 767);
+    await exportCacheArchiveToFile(ARCHIVE, { cache: source });
+
+    const upstream = new MockUpstream();
+    const target = createCache('b', upstream);
+    await target.getRange(42, 0, 255);
+    const summary = await importCacheArchiveFromFile(ARCHIVE, { cache: target });
+
+    assert.strictEqual(summary.books[0].action, 'merged');
+    assert.strictEqual(summary.books[0].blocksAdded, 4);
+    assert.strictEqual(target.getBookStats(42)?.blocksCached, 8);
+
+    upstream.rangeCalls = 0;
+    assert.deepStrictEqual(await target.getRange(42, 512, 767), CONTENT.subarray(512, 768));
+    assert.strictEqual(upstream.rangeCalls, 0);
+  });
+
+  it('keeps the local copy when it is a newer version of the book', async () => {
+    const source = createCache('a');
+    await source.getRange(42, 0, 127);
+    await exportCacheArchiveToFile(ARCHIVE, { cache: source });
+
+    const upstream = new MockUpstream();
+    upstream.etag = 'etag-2';
+    const target = createCache('b', upstream);
+    await target.getRange(42, 512, 575);
+    const summary = await importCacheArchiveFromFile(ARCHIVE, { cache: target });
+
+    assert.strictEqual(summary.books[0].action, 'skipped');
+    assert.match(summary.books[0].reason ?? '', /newer/);
+    assert.strictEqual(target.getBookStats(42)?.blocksCached, 1);
+  });
+
+  it('rejects incoming blocks that fail their checksums', async () => {
+    const source = createCache('a');
+    await source.getRange(42, 0, 255);
+    // Corrupt block 1 on disk after its checksum was recorded
+    const fd = fs.openSync(path.join(TEST_ROOT, 'a', '42.txt'), 'r+');
+    fs.writeSync(fd, Buffer.from('XXXX'), 0, 4, 70);
+    fs.closeSync(fd);
+    await exportCacheArchiveToFile(ARCHIVE, { cache: source });
+
+    const target = createCache('b', null);
+    const summary = await importCacheArchiveFromFile(ARCHIVE, { cache: target });
+
+    assert.strictEqual(summary.books[0].blocksAdded, 3);
+    assert.strictEqual(summary.books[0].blocksRejected, 1);
+    assert.strictEqual(target.verify(42)?.ok, true);
+    assert.strictEqual(target.getBookStats(42)?.blocksCached, 3);
+  });
+
+  it('exports only the selected books', async () => {
+    const source = createCache('a');
+    await source.getRange(1, 0, 63);
+    await source.getRange(2, 0, 63);
+    await source.getRange(3, 0, 63);
+    const manifest = await exportCacheArchiveToFile(ARCHIVE, { cache: source, bookIds: [1, 3, 99] });
+    assert.deepStrictEqual(manifest.books, [1, 3]);
+
+    const target = createCache('b', null);
+    await importCacheArchiveFromFile(ARCHIVE, { cache: target });
+    assert.deepStrictEqual(target.listCachedBooks(), [1, 3]);
+  });
+
+  it('carries the catalog and keeps whichever copy is newer', async () => {
+    const source = createCache('a');
+    const sourceCatalog = createCatalog('catalog-a', CSV, '2026-02-01T00:00:00.000Z');
+    await exportCacheArchiveToFile(ARCHIVE, { cache: source, catalog: sourceCatalog });
+
+    const emptyCatalog = createCatalog('catalog-b', null, '');
+    const imported = await importCacheArchiveFromFile(ARCHIVE, { cache: createCache('b', null), catalog: emptyCatalog });
+    assert.strictEqual(imported.catalog, 'imported');
+    assert.strictEqual(emptyCatalog.getBookById(1342)?.title, 'Pride and Prejudice');
+
+    const newerCatalog = createCatalog('catalog-c', 'Text#,Type,Issued,Title\n', '2026-03-01T00:00:00.000Z');
+    const kept = await importCacheArchiveFromFile(ARCHIVE, { cache: createCache('c', null), catalog: newerCatalog });
+    assert.strictEqual(kept.catalog, 'kept');
+    assert.strictEqual(newerCatalog.getBookById(1342), null);
+  });
+
+  it('refuses archives with a different block size', async () => {
+    const source = createCache('a');
+    await source.getRange(42, 0, 63);
+    await exportCacheArchiveToFile(ARCHIVE, { cache: source });
+
+    const target = new SparseCache({ cacheDir: path.join(TEST_ROOT, 'b'), blockSize: 128 });
+    await assert.rejects(importCacheArchiveFromFile(ARCHIVE, { cache: target }), /block size/);
+  });
+
+  it('refuses files that are not cache archives', async () => {
+    fs.writeFileSync(ARCHIVE, 'not gzip at all');
+    await assert.rejects(importCacheArchiveFromFile(ARCHIVE, { cache: createCache('b', null) }));
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for author parsing and author pages
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CatalogManager } from '../src/catalog-manager.js';
+import { parseAuthors, parseAuthorCredit, displayAuthorName, authorSlug } from '../src/catalog-author.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-catalog-author');
+
+const CATALOG = `Text#,Type,Issued,Title,Language,Authors
+1342,Text,1998-06-01,Pride and Prejudice,en,"Austen, Jane, 1775-1817"
+42671,Text,2013-05-09,Pride and Prejudice: A Play,en,"Austen, Jane, 1775-1817; Jerome, Helen [Adapter]"
+161,Text,1994-09-01,Sense and Sensibility,en,"Austen, Jane, 1775-1817"
+6130,Text,2004-06-01,The Iliad,en,"Homer, 751? BCE-651? BCE; Pope, Alexander, 1688-1744 [Translator]"
+3600,Text,2002-12-01,Essays of Michel de Montaigne,en,"Montaigne, Michel de, 1533-1592"
+99,Text,2000-01-01,Another Austen,en,"Austen, Jane, 1900-1990"
+`;
+
+describe('Catalog authors', () => {
+  describe('parseAuthorCredit', () => {
+    it('splits name, dates and role', () => {
+      assert.deepStrictEqual(parseAuthorCredit('Wells, H. G. (Herbert George), 1866-1946 [Illustrator]'), {
+        name: 'Wells, H. G. (Herbert George)',
+        displayName: 'H. G. Wells',
+        dates: '1866-1946',
+        birthYear: 1866,
+        deathYear: 1946,
+        role: 'Illustrator',
+        slug: 'wells-h-g-herbert-george-1866-1946'
+      });
+    });
+
+    it('reads BCE, uncertain and open-ended dates', () => {
+      const homer = parseAuthorCredit('Homer, 751? BCE-651? BCE')!;
+      assert.strictEqual(homer.displayName, 'Homer');
+      assert.strictEqual(homer.birthYear, -751);
+      assert.strictEqual(homer.deathYear, -651);
+
+      const chaucer = parseAuthorCredit('Chaucer, Geoffrey, -1400')!;
+      assert.strictEqual(chaucer.birthYear, null);
+      assert.strictEqual(chaucer.deathYear, 1400);
+
+      const active = parseAuthorCredit('Langland, William, fl. 1370')!;
+      assert.strictEqual(active.dates, 'fl. 1370');
+      assert.strictEqual(active.birthYear, null);
+    });
+
+    it('handles names without dates and name suffixes', () => {
+      assert.strictEqual(parseAuthorCredit('Anonymous')!.slug, 'anonymous');
+      assert.strictEqual(displayAuthorName('Davis, Richard Harding, Jr.'), 'Richard Harding Davis Jr.');
+      assert.strictEqual(displayAuthorName('Brontë, Charlotte'), 'Charlotte Brontë');
+      assert.strictEqual(authorSlug('Brontë, Charlotte', '1816-1855'), 'bronte-charlotte-1816-1855');
+    });
+
+    it('parses every author of a field', () => {
+      const credits = parseAuthors('Austen, Jane, 1775-1817; Jerome, Helen [Adapter]; ');
+      assert.deepStrictEqual(credits.map(c => [c.displayName, c.role]), [['Jane Austen', null], ['Helen Jerome', 'Adapter']]);
+      assert.deepStrictEqual(parseAuthors(null), []);
+    });
+  });
+
+  describe('CatalogManager.getAuthor', () => {
+    let catalog: CatalogManager;
+
+    before(() => {
+      fs.mkdirSync(TEST_DIR, { recursive: true });
+      fs.writeFileSync(path.join(TEST_DIR, 'pg_catalog.csv'), CATALOG);
+      catalog = new CatalogManager();
+      (catalog as any).cacheDir = TEST_DIR;
+      (catalog as any).catalogPath = path.join(TEST_DIR, 'pg_catalog.csv');
+      (catalog as any).metaPath = path.join(TEST_DIR, 'pg_catalog.meta.json');
+      catalog.setOffline(true);
+    });
+
+    after(() => {
+      fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    });
+
+    it('lists an author\'s books by title', () => {
+      const page = catalog.getAuthor('austen-jane-1775-1817')!;
+      assert.strictEqual(page.author.displayName, 'Jane Austen');
+      assert.strictEqual(page.total, 3);
+      assert.deepStrictEqual(page.results.map(r => r.id), ['1342', '42671', '161']);
+    });
+
+    it('keeps authors with the same name but different dates apart', () => {
+      assert.deepStrictEqual(catalog.getAuthor('austen-jane-1900-1990')!.results.map(r => r.id), ['99']);
+    });
+
+    it('includes books with a role and reports it', () => {
+      const pope = catalog.getAuthor('POPE-ALEXANDER-1688-1744')!;
+      assert.strictEqual(pope.author.role, null);
+      assert.deepStrictEqual(pope.results.map(r => [r.id, r.role]), [['6130', 'Translator']]);
+    });
+
+    it('pages through the books and returns null for an unknown slug', () => {
+      const second = catalog.getAuthor('austen-jane-1775-1817', { offset: 1, limit: 1 })!;
+      assert.deepStrictEqual(second.results.map(r => r.id), ['42671']);
+      assert.strictEqual(catalog.getAuthor('nobody'), null);
+    });
+  });
+});
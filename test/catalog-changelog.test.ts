@@ -0,0 +1,140 @@
+/**
+ * Tests for the catalog changelog and new arrivals feed
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CatalogManager } from '../src/catalog-manager.js';
+import {
+  diffCatalogRecords,
+  loadChangelog,
+  appendChangelog,
+  changesSince,
+  renderArrivalsFeed
+} from '../src/catalog-changelog.js';
+import type { CatalogRecord, CatalogChangelogEntry } from '../src/types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-catalog-changelog');
+const CSV_PATH = path.join(TEST_DIR, 'pg_catalog.csv');
+const CHANGELOG_PATH = path.join(TEST_DIR, 'pg_catalog.changelog.json');
+
+const HEADER = 'Text#,Type,Issued,Title,Language,Authors,Subjects,LoCC,Bookshelves\n';
+
+const OLD_CATALOG = HEADER +
+  '1342,Text,1998-06-01,Pride and Prejudice,en,"Austen, Jane, 1775-1817",,PR,\n' +
+  '161,Text,1994-09-01,Sense and Sensibility,en,"Austen, Jane, 1775-1817",,PR,\n' +
+  '768,Text,1996-12-01,Wuthering Heights,en,"Brontë, Emily, 1818-1848",,PR,\n';
+
+const NEW_CATALOG = HEADER +
+  '1342,Text,1998-06-01,Pride and Prejudice,en,"Austen, Jane, 1775-1817",,PR,Best Books Ever Listings\n' +
+  '161,Text,1994-09-01,Sense and Sensibility,en,"Austen, Jane, 1775-1817",,PR,\n' +
+  '77001,Text,2026-10-18,A Brand New Book,en,"Doe, Jane, 1900-1980 [Editor]; Roe, Richard",Diaries,PS,\n' +
+  '77002,Sound,2026-10-18,A Brand New Recording,en,"Roe, Richard",,,\n';
+
+function record(id: string, title: string, extra: Partial<CatalogRecord> = {}): CatalogRecord {
+  return {
+    id, title, author: null, year: null, language: 'en', type: 'Text',
+    subjects: [], locc: [], bookshelves: [], ...extra
+  };
+}
+
+function entry(date: string, diff: Partial<CatalogChangelogEntry>): CatalogChangelogEntry {
+  return { date, sha256: null, added: [], changed: [], removed: [], ...diff };
+}
+
+function openCatalog(): CatalogManager {
+  const catalog = new CatalogManager();
+  (catalog as any).cacheDir = TEST_DIR;
+  (catalog as any).catalogPath = CSV_PATH;
+  (catalog as any).metaPath = path.join(TEST_DIR, 'pg_catalog.meta.json');
+  catalog.setOffline(true);
+  return catalog;
+}
+
+describe('Catalog changelog', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('diffs added, changed and removed records', () => {
+    const before = [record('1', 'One'), record('2', 'Two'), record('3', 'Three')];
+    const after = [record('1', 'One'), record('2', 'Two', { subjects: ['Fiction'] }), record('4', 'Four')];
+    assert.deepStrictEqual(diffCatalogRecords(before, after), { added: ['4'], changed: ['2'], removed: ['3'] });
+  });
+
+  it('appends entries and reads them back', () => {
+    assert.deepStrictEqual(loadChangelog(CHANGELOG_PATH), []);
+    appendChangelog(CHANGELOG_PATH, entry('2026-10-01T00:00:00.000Z', { added: ['1'] }));
+    appendChangelog(CHANGELOG_PATH, entry('2026-10-02T00:00:00.000Z', { changed: ['1'] }));
+    assert.deepStrictEqual(loadChangelog(CHANGELOG_PATH).map(e => e.date), ['2026-10-01T00:00:00.000Z', '2026-10-02T00:00:00.000Z']);
+
+    fs.writeFileSync(CHANGELOG_PATH, 'not json');
+    assert.deepStrictEqual(loadChangelog(CHANGELOG_PATH), []);
+  });
+
+  it('lists changes since a date, newest first', () => {
+    const entries = [
+      entry('2026-09-01T00:00:00.000Z', { added: ['1'] }),
+      entry('2026-10-01T00:00:00.000Z', { added: ['2', '3'], changed: ['1'] }),
+      entry('2026-10-05T00:00:00.000Z', { changed: ['2'], removed: ['3'] })
+    ];
+
+    assert.deepStrictEqual(changesSince(entries, new Date('2026-09-15')), [
+      { id: '2', change: 'added', date: '2026-10-05T00:00:00.000Z' },
+      { id: '1', change: 'changed', date: '2026-10-01T00:00:00.000Z' }
+    ]);
+    assert.deepStrictEqual(changesSince(entries, new Date('2026-11-01')), []);
+  });
+
+  it('renders an Atom feed with escaped text', () => {
+    const xml = renderArrivalsFeed([
+      { ...record('77001', 'Tom & Jerry <Annotated>', { author: 'Doe, Jane [Editor]; Roe, Richard', subjects: ['Cats'] }), change: 'added', date: '2026-10-18T00:00:00.000Z' }
+    ], 'http://localhost:3000');
+
+    assert.ok(xml.startsWith('<?xml version="1.0" encoding="utf-8"?>\n<feed xmlns="http://www.w3.org/2005/Atom">'));
+    assert.ok(xml.includes('<title>Tom &amp; Jerry &lt;Annotated&gt;</title>'));
+    assert.ok(xml.includes('<link href="http://localhost:3000/read#77001"/>'));
+    assert.ok(xml.includes('<updated>2026-10-18T00:00:00.000Z</updated>'));
+    assert.ok(xml.includes('<author><name>Richard Roe</name></author>'));
+    assert.ok(!xml.includes('Jane Doe</name>'), 'editors are not listed as authors');
+    assert.ok(xml.includes('<category term="Cats"/>'));
+  });
+
+  describe('CatalogManager', () => {
+    it('records what an imported catalog changed', () => {
+      fs.writeFileSync(CSV_PATH, OLD_CATALOG);
+      const catalog = openCatalog();
+      assert.strictEqual(catalog.getBookById(768)?.title, 'Wuthering Heights');
+
+      assert.ok(catalog.importFiles(Buffer.from(NEW_CATALOG), { sha256: 'new', downloadDate: '2026-10-19T00:00:00.000Z' }));
+
+      const [logged] = loadChangelog(CHANGELOG_PATH);
+      assert.deepStrictEqual(
+        { added: logged.added, changed: logged.changed, removed: logged.removed, sha256: logged.sha256 },
+        { added: ['77001', '77002'], changed: ['1342'], removed: ['768'], sha256: 'new' }
+      );
+    });
+
+    it('lists new Text arrivals and skips the first download', () => {
+      const catalog = openCatalog();
+      catalog.importFiles(Buffer.from(OLD_CATALOG), { sha256: 'old', downloadDate: '2026-10-01T00:00:00.000Z' });
+      assert.ok(!fs.existsSync(CHANGELOG_PATH), 'nothing to diff against');
+
+      catalog.importFiles(Buffer.from(NEW_CATALOG), { sha256: 'new', downloadDate: '2026-10-19T00:00:00.000Z' });
+      const page = catalog.getNewArrivals();
+      assert.deepStrictEqual(page.results.map(r => [r.id, r.change]), [['77001', 'added'], ['1342', 'changed']]);
+      assert.strictEqual(page.results[0].title, 'A Brand New Book');
+
+      assert.strictEqual(catalog.getNewArrivals(new Date(Date.now() + 60000)).total, 0);
+    });
+  });
+});
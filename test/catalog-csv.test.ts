@@ -0,0 +1,149 @@
+/**
+ * Tests for the streaming catalog CSV parser
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { fileURLToPath } from 'url';
+import {
+  CatalogCsvParser,
+  CatalogCsvError,
+  parseCatalogCsv,
+  readCatalogFile,
+  readCatalogFileSync
+} from '../src/catalog-csv.js';
+import type { CatalogRecord } from '../src/types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-catalog-csv');
+
+// Quoted fields with commas, doubled quotes and line breaks, CRLF line ends
+const TRICKY = [
+  'Text#,Type,Issued,Title,Language,Authors,Subjects,LoCC,Bookshelves',
+  '1,Text,1971-12-01,"The Declaration of Independence of the United States of America",en,"Jefferson, Thomas, 1743-1826","United States -- History -- Revolution, 1775-1783 -- Sources; United States. Declaration of Independence",E201; JK,"Politics; American Revolutionary War"',
+  '2,Text,1972-12-01,"A ""Quoted"" Title",en,"Doe, John",,,',
+  '3,Text,1973-01-01,"Three Lines:',
+  'Of A',
+  'Title",en,,,,',
+  '4,Sound,2004-01-01,An Audio Book,en,,,,'
+].join('\r\n') + '\r\n';
+
+// Columns reordered, an extra column, no Subjects/LoCC/Bookshelves
+const REORDERED = 'Title,Text#,Extra,Language\n"Moby Dick; Or, The Whale",2701,x,en\n';
+
+const MALFORMED = [
+  'Text#,Type,Issued,Title,Language,Authors',
+  '10,Text,2000-01-01,Fine,en,',
+  '11,Text,2000-01-01,Too,Many,Fields,Here',
+  'abc,Text,2000-01-01,Bad Id,en,',
+  '',
+  '12,Text,2000-01-01,,en,',
+  '13,Text,2000-01-01,Also Fine,en,',
+  '14,Text,2000-01-01,"Never closed,en,'
+].join('\n');
+
+function parseInChunks(text: string, size: number): { records: CatalogRecord[]; parser: CatalogCsvParser } {
+  const parser = new CatalogCsvParser();
+  const records: CatalogRecord[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    records.push(...parser.push(text.slice(i, i + size)));
+  }
+  records.push(...parser.end());
+  return { records, parser };
+}
+
+describe('Catalog CSV parser', () => {
+  before(() => {
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  after(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('reads quoted commas, doubled quotes and embedded line breaks', () => {
+    const { records, problems } = parseCatalogCsv(TRICKY);
+    assert.deepStrictEqual(problems, []);
+    assert.deepStrictEqual(records.map(r => r.id), ['1', '2', '3', '4']);
+
+    assert.deepStrictEqual(records[0], {
+      id: '1',
+      title: 'The Declaration of Independence of the United States of America',
+      author: 'Jefferson, Thomas, 1743-1826',
+      year: '1971',
+      language: 'en',
+      type: 'Text',
+      subjects: ['United States -- History -- Revolution, 1775-1783 -- Sources', 'United States. Declaration of Independence'],
+      locc: ['E201', 'JK'],
+      bookshelves: ['Politics', 'American Revolutionary War']
+    });
+    assert.strictEqual(records[1].title, 'A "Quoted" Title');
+    assert.strictEqual(records[2].title, 'Three Lines: Of A Title');
+    assert.strictEqual(records[3].type, 'Sound');
+  });
+
+  it('gives the same records however the text is split', () => {
+    const whole = parseCatalogCsv(TRICKY).records;
+    for (const size of [1, 2, 3, 7, 64]) {
+      assert.deepStrictEqual(parseInChunks(TRICKY, size).records, whole, `chunk size ${size}`);
+    }
+  });
+
+  it('finds columns by header name', () => {
+    const [moby] = parseCatalogCsv(REORDERED).records;
+    assert.strictEqual(moby.id, '2701');
+    assert.strictEqual(moby.title, 'Moby Dick; Or, The Whale');
+    assert.strictEqual(moby.type, 'Text', 'type defaults to Text');
+    assert.deepStrictEqual(moby.subjects, []);
+    assert.strictEqual(parseCatalogCsv('\uFEFF' + REORDERED).records.length, 1, 'a byte order mark is ignored');
+  });
+
+  it('rejects a header without the required columns', () => {
+    assert.throws(() => parseCatalogCsv('Id,Name\n1,Foo\n'), (err: unknown) =>
+      err instanceof CatalogCsvError && err.line === 1 && /missing Text#, Title/.test(err.message));
+  });
+
+  it('skips malformed rows and reports their line numbers', () => {
+    const reported: number[] = [];
+    const parser = new CatalogCsvParser(problem => reported.push(problem.line));
+    const records = [...parser.push(MALFORMED), ...parser.end()];
+
+    assert.deepStrictEqual(records.map(r => r.id), ['10', '13']);
+    assert.deepStrictEqual(parser.problems, [
+      { line: 3, message: 'expected 6 fields, found 7' },
+      { line: 4, message: 'invalid Text# "abc"' },
+      { line: 6, message: 'book 12 has no Title' },
+      { line: 8, message: 'unterminated quoted field' }
+    ]);
+    assert.deepStrictEqual(reported, [3, 4, 6, 8]);
+  });
+
+  it('counts lines inside quoted fields when reporting', () => {
+    const { problems } = parseCatalogCsv(TRICKY + '5,Text,x\r\n');
+    assert.deepStrictEqual(problems, [{ line: 8, message: 'expected 9 fields, found 3' }]);
+  });
+
+  it('drops an overlong row and picks up at the next line', () => {
+    const runaway = 'Text#,Title\n1,"' + 'x'.repeat(300 * 1024) + '\n2,Next\n';
+    const { records, parser } = parseInChunks(runaway, 64 * 1024);
+    assert.match(parser.problems[0].message, /row longer than/);
+    assert.strictEqual(parser.problems[0].line, 2);
+    assert.deepStrictEqual(records.map(r => r.id), ['2']);
+  });
+
+  it('reads plain and gzipped files, streamed or in blocks', async () => {
+    const csvPath = path.join(TEST_DIR, 'pg_catalog.csv');
+    const gzPath = path.join(TEST_DIR, 'pg_catalog.csv.gz');
+    fs.writeFileSync(csvPath, TRICKY);
+    fs.writeFileSync(gzPath, zlib.gzipSync(TRICKY));
+    const expected = parseCatalogCsv(TRICKY).records;
+
+    assert.deepStrictEqual((await readCatalogFile(csvPath)).records, expected);
+    assert.deepStrictEqual((await readCatalogFile(gzPath)).records, expected);
+    assert.deepStrictEqual(readCatalogFileSync(csvPath).records, expected);
+    assert.deepStrictEqual(readCatalogFileSync(gzPath).records, expected);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for the catalog inverted index and its on-disk copy
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CatalogManager } from '../src/catalog-manager.js';
+import { CatalogIndex } from '../src/catalog-index.js';
+import { parseCatalogQuery, prepareRecord, scoreRecord } from '../src/catalog-query.js';
+import type { CatalogRecord } from '../src/types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-catalog-index');
+const CSV_PATH = path.join(TEST_DIR, 'pg_catalog.csv');
+const META_PATH = path.join(TEST_DIR, 'pg_catalog.meta.json');
+const INDEX_PATH = path.join(TEST_DIR, 'pg_catalog.index.json');
+
+const CATALOG = `Text#,Type,Issued,Title,Language,Authors
+1342,Text,1998-06-01,Pride and Prejudice,en,"Austen, Jane, 1775-1817"
+161,Text,1994-09-01,Sense and Sensibility,en,"Austen, Jane, 1775-1817"
+1260,Text,1998-03-01,Jane Eyre: An Autobiography,en,"Brontë, Charlotte, 1816-1855"
+768,Text,1996-12-01,Wuthering Heights,en,"Brontë, Emily, 1818-1848"
+17989,Text,2006-03-06,Les misérables Tome I,fr,"Hugo, Victor, 1802-1885"
+5000,Text,2004-01-01,Recueil bilingue,"fr; en","Hugo, Victor, 1802-1885; Austen, Jane, 1775-1817"
+`;
+
+const LISTS = { type: 'Text', subjects: [], locc: [], bookshelves: [] };
+
+const RECORDS: CatalogRecord[] = [
+  { id: 'Text#', title: 'Title', author: 'Authors', year: null, language: 'Language', type: 'Type', subjects: ['Subjects'], locc: ['LoCC'], bookshelves: ['Bookshelves'] },
+  { id: '1342', title: 'Pride and Prejudice', author: 'Austen, Jane, 1775-1817', year: '1998', language: 'en', ...LISTS },
+  { id: '161', title: 'Sense and Sensibility', author: 'Austen, Jane, 1775-1817', year: '1994', language: 'en', ...LISTS },
+  { id: '1260', title: 'Jane Eyre: An Autobiography', author: 'Brontë, Charlotte, 1816-1855', year: '1998', language: 'en', ...LISTS },
+  { id: '17989', title: 'Les misérables Tome I', author: 'Hugo, Victor, 1802-1885', year: '2006', language: 'fr', ...LISTS }
+];
+
+function createCatalog(sha256: string | null = 'abc123'): CatalogManager {
+  fs.writeFileSync(CSV_PATH, CATALOG);
+  fs.writeFileSync(META_PATH, JSON.stringify(sha256 ? { sha256, downloadDate: '2026-01-01T00:00:00.000Z' } : {}));
+  return openCatalog();
+}
+
+function openCatalog(): CatalogManager {
+  const catalog = new CatalogManager();
+  (catalog as any).cacheDir = TEST_DIR;
+  (catalog as any).catalogPath = CSV_PATH;
+  (catalog as any).metaPath = META_PATH;
+  catalog.setOffline(true);
+  return catalog;
+}
+
+describe('CatalogIndex', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('skips the header row and looks records up by id', () => {
+    const index = CatalogIndex.fromRecords(RECORDS);
+    assert.strictEqual(index.size, 4);
+    assert.strictEqual(index.getById('1260')?.title, 'Jane Eyre: An Autobiography');
+    assert.strictEqual(index.getById('Text#'), null);
+  });
+
+  it('finds the same matches as scoring every record', () => {
+    const index = CatalogIndex.fromRecords(RECORDS);
+    const prepared = RECORDS.slice(1).map(r => prepareRecord(r));
+
+    for (const q of ['jane', 'ane', 'austen pride', 'bronte', 'lang:fr', 'year:1995..', '1342', 'author:"jane austen" sense', 'zzz']) {
+      const query = parseCatalogQuery(q);
+      const expected = prepared.filter(p => scoreRecord(p, query) !== null).map(p => p.record.id).sort();
+      const actual = index.search(query).map(m => m.prepared.record.id).sort();
+      assert.deepStrictEqual(actual, expected, q);
+    }
+  });
+
+  it('counts language and author facets', () => {
+    const index = CatalogIndex.fromRecords(RECORDS);
+    assert.deepStrictEqual(index.languages(), [{ value: 'en', count: 3 }, { value: 'fr', count: 1 }]);
+    assert.deepStrictEqual(index.authors()[0], { value: 'Austen, Jane, 1775-1817', count: 2 });
+    assert.deepStrictEqual(index.byLanguage('FR').map(r => r.id), ['17989']);
+  });
+
+  it('saves and loads only for the same catalog', () => {
+    const key = { sha256: 'abc', csvSize: 10, csvMtimeMs: 1000 };
+    CatalogIndex.fromRecords(RECORDS).save(INDEX_PATH, key);
+
+    const loaded = CatalogIndex.load(INDEX_PATH, key);
+    assert.strictEqual(loaded?.size, 4);
+    assert.strictEqual(loaded?.search(parseCatalogQuery('miserables'))[0].prepared.record.id, '17989');
+
+    assert.strictEqual(CatalogIndex.load(INDEX_PATH, { ...key, sha256: 'def' }), null);
+    assert.strictEqual(CatalogIndex.load(INDEX_PATH, { ...key, csvMtimeMs: 2000 }), null);
+    assert.strictEqual(CatalogIndex.load(path.join(TEST_DIR, 'missing.json'), key), null);
+  });
+
+  describe('CatalogManager', () => {
+    it('saves the index and reuses it without reparsing the CSV', () => {
+      const first = createCatalog();
+      assert.strictEqual(first.getBookById(768)?.title, 'Wuthering Heights');
+      assert.ok(fs.existsSync(INDEX_PATH));
+
+      const restarted = openCatalog();
+      (restarted as any)._readCatalog = () => { throw new Error('CSV should not be parsed'); };
+      assert.deepStrictEqual(restarted.searchCatalog('hugo').map(r => r.id), ['5000', '17989']);
+    });
+
+    it('rebuilds when the catalog file changes', () => {
+      const catalog = createCatalog();
+      assert.strictEqual(catalog.getBookById(99), null);
+
+      fs.appendFileSync(CSV_PATH, '99,Text,2000-01-01,New Arrival,en,"Doe, Jane"\n');
+      assert.strictEqual(catalog.getBookById(99)?.title, 'New Arrival');
+      assert.strictEqual(openCatalog().getBookById(99)?.title, 'New Arrival');
+    });
+
+    it('keeps the index in memory only when the catalog has no sha256', () => {
+      const catalog = createCatalog(null);
+      assert.strictEqual(catalog.searchCatalog('heights')[0].id, '768');
+      assert.ok(!fs.existsSync(INDEX_PATH));
+    });
+
+    it('picks random books through the language facet', () => {
+      const catalog = createCatalog();
+      for (let i = 0; i < 10; i++) {
+        assert.ok(['17989', '5000'].includes(catalog.getRandomBook('fr')!.id));
+      }
+    });
+  });
+});
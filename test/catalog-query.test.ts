@@ -0,0 +1,217 @@
+/**
+ * Tests for structured catalog queries, ranking and pagination
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CatalogManager } from '../src/catalog-manager.js';
+import { parseCatalogQuery, foldText, CatalogQueryError } from '../src/catalog-query.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-catalog-query');
+
+const CATALOG = `Text#,Type,Issued,Title,Language,Authors
+1342,Text,1998-06-01,Pride and Prejudice,en,"Austen, Jane, 1775-1817"
+42671,Text,2013-05-09,Pride and Prejudice: A Play,en,"Austen, Jane, 1775-1817; Jerome, Helen"
+37431,Text,2011-09-18,"Pride and Prejudice, Illustrated",en,"Austen, Jane, 1775-1817"
+20788,Text,2007-03-13,The Prideful Heart,en,"Smith, Anne"
+161,Text,1994-09-01,Sense and Sensibility,en,"Austen, Jane, 1775-1817"
+1260,Text,1998-03-01,Jane Eyre: An Autobiography,en,"Brontë, Charlotte, 1816-1855"
+768,Text,1996-12-01,Wuthering Heights,en,"Brontë, Emily, 1818-1848"
+17989,Text,2006-03-06,Les misérables Tome I,fr,"Hugo, Victor, 1802-1885"
+2000,Text,1999-12-01,Don Quijote,es,"Cervantes Saavedra, Miguel de, 1547-1616"
+`;
+
+const FULL_CATALOG = `Text#,Type,Issued,Title,Language,Authors,Subjects,LoCC,Bookshelves
+84,Text,1993-10-01,"Frankenstein; Or, The Modern Prometheus",en,"Shelley, Mary Wollstonecraft, 1797-1851","Science fiction; Frankenstein's monster (Fictitious character) -- Fiction; Horror tales",PR,"Gothic Fiction; Science Fiction by Women"
+35,Text,2004-10-10,The Time Machine,en,"Wells, H. G. (Herbert George), 1866-1946","Science fiction; Time travel -- Fiction",PR,"Science Fiction; Movie Books"
+36,Text,2004-10-10,The War of the Worlds,en,"Wells, H. G. (Herbert George), 1866-1946","Science fiction; Martians -- Fiction",PR,Science Fiction
+345,Text,1995-10-01,Dracula,en,"Stoker, Bram, 1847-1912","Horror tales; Vampires -- Fiction",PR,Gothic Fiction
+10802,Sound,2004-01-01,The Time Machine (audio),en,"Wells, H. G. (Herbert George), 1866-1946",Science fiction,,Science Fiction
+11,Text,1994-01-01,Alice's Adventures in Wonderland,en,"Carroll, Lewis, 1832-1898",Fantasy fiction,PZ,Children's Literature
+`;
+
+function createCatalog(csv: string = CATALOG): CatalogManager {
+  fs.mkdirSync(TEST_DIR, { recursive: true });
+  fs.writeFileSync(path.join(TEST_DIR, 'pg_catalog.csv'), csv);
+  const catalog = new CatalogManager();
+  (catalog as any).cacheDir = TEST_DIR;
+  (catalog as any).catalogPath = path.join(TEST_DIR, 'pg_catalog.csv');
+  (catalog as any).metaPath = path.join(TEST_DIR, 'pg_catalog.meta.json');
+  catalog.setOffline(true);
+  return catalog;
+}
+
+describe('Catalog queries', () => {
+  let catalog: CatalogManager;
+
+  before(() => {
+    catalog = createCatalog();
+  });
+
+  after(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe('parseCatalogQuery', () => {
+    it('separates fields, phrases and free terms', () => {
+      const query = parseCatalogQuery('author:austen title:"pride and" lang:en year:1800..1850 heart');
+      assert.deepStrictEqual(query.author, [{ text: 'austen', phrase: false }]);
+      assert.deepStrictEqual(query.title, [{ text: 'pride and', phrase: true }]);
+      assert.deepStrictEqual(query.languages, ['en']);
+      assert.deepStrictEqual(query.year, { from: 1800, to: 1850 });
+      assert.deepStrictEqual(query.terms, [{ text: 'heart', phrase: false }]);
+    });
+
+    it('accepts open and single-year ranges', () => {
+      assert.deepStrictEqual(parseCatalogQuery('year:..1850').year, { from: null, to: 1850 });
+      assert.deepStrictEqual(parseCatalogQuery('year:1999..').year, { from: 1999, to: null });
+      assert.deepStrictEqual(parseCatalogQuery('year:1998').year, { from: 1998, to: 1998 });
+      assert.throws(() => parseCatalogQuery('year:soon'), CatalogQueryError);
+      assert.throws(() => parseCatalogQuery('year:1900..1800'), /start is after end/);
+    });
+
+    it('keeps unknown prefixes as free text', () => {
+      assert.deepStrictEqual(parseCatalogQuery('Re:Zero').terms, [{ text: 're zero', phrase: false }]);
+    });
+
+    it('folds case, diacritics and punctuation', () => {
+      assert.strictEqual(foldText('Brontë, Charlotte'), 'bronte charlotte');
+      assert.strictEqual(foldText('Les Misérables'), 'les miserables');
+      assert.strictEqual(foldText('Straße'), 'strasse');
+    });
+  });
+
+  describe('searchCatalog ranking', () => {
+    it('ranks exact title over title prefix over word matches', () => {
+      const ids = catalog.searchCatalog('pride and prejudice').map(r => r.id);
+      assert.deepStrictEqual(ids, ['1342', '42671', '37431']);
+
+      const pride = catalog.searchCatalog('pride').map(r => r.id);
+      assert.strictEqual(pride[pride.length - 1], '20788', 'a substring match ranks below word matches');
+    });
+
+    it('weighs title words above author words', () => {
+      const ids = catalog.searchCatalog('jane').map(r => r.id);
+      assert.strictEqual(ids[0], '1260');
+      assert.ok(ids.includes('161'));
+    });
+
+    it('matches without diacritics', () => {
+      assert.deepStrictEqual(catalog.searchCatalog('bronte').map(r => r.id).sort(), ['1260', '768']);
+      assert.deepStrictEqual(catalog.searchCatalog('miserables').map(r => r.id), ['17989']);
+    });
+
+    it('applies field filters', () => {
+      assert.deepStrictEqual(catalog.searchCatalog('author:austen title:"pride"').map(r => r.id), ['1342', '42671', '37431']);
+      assert.deepStrictEqual(catalog.searchCatalog('lang:fr').map(r => r.id), ['17989']);
+      assert.deepStrictEqual(catalog.searchCatalog('title:"prid"'), []);
+    });
+
+    it('filters year: by the years the authors lived, not the ebook release', () => {
+      assert.deepStrictEqual(catalog.searchCatalog('author:austen title:"pride" lang:en year:1800..1850').map(r => r.id), ['1342', '42671', '37431']);
+      assert.strictEqual(catalog.searchCatalog('author:austen year:..1850').length, 4);
+      assert.deepStrictEqual(catalog.searchCatalog('year:1830..1850').map(r => r.id).sort(), ['1260', '17989', '768']);
+      assert.deepStrictEqual(catalog.searchCatalog('year:..1600').map(r => r.id), ['2000']);
+      // Release years don't match, and neither do authors without dates
+      assert.deepStrictEqual(catalog.searchCatalog('year:1990..'), []);
+    });
+
+    it('lets a lang: field override the language filter', () => {
+      assert.deepStrictEqual(catalog.searchCatalog('quijote', 'en'), []);
+      assert.deepStrictEqual(catalog.searchCatalog('quijote lang:es', 'en').map(r => r.id), ['2000']);
+      assert.strictEqual(catalog.searchCatalog('lang:all', 'en').length, 9);
+    });
+
+    it('finds a book by bare id or id:', () => {
+      assert.strictEqual(catalog.searchCatalog('768')[0].id, '768');
+      assert.deepStrictEqual(catalog.searchCatalog('id:161').map(r => r.id), ['161']);
+    });
+
+    it('matches nothing for an empty query', () => {
+      assert.deepStrictEqual(catalog.searchCatalog('   '), []);
+    });
+  });
+
+  describe('searchCatalogPage', () => {
+    it('pages through ranked results with a total', () => {
+      const first = catalog.searchCatalogPage('austen', { limit: 2 });
+      assert.strictEqual(first.total, 4);
+      assert.deepStrictEqual(first.results.map(r => r.id), ['1342', '161']);
+
+      const second = catalog.searchCatalogPage('austen', { offset: 2, limit: 2 });
+      assert.deepStrictEqual(second.results.map(r => r.id), ['42671', '37431']);
+      assert.strictEqual(second.offset, 2);
+    });
+
+    it('clamps the page size', () => {
+      assert.strictEqual(catalog.searchCatalogPage('austen', { limit: 0 }).limit, 1);
+      assert.strictEqual(catalog.searchCatalogPage('austen', { limit: 10000 }).limit, 200);
+    });
+  });
+
+  describe('full catalog schema', () => {
+    let full: CatalogManager;
+
+    before(() => {
+      full = createCatalog(FULL_CATALOG);
+    });
+
+    after(() => {
+      catalog = createCatalog();
+    });
+
+    it('reads type, subjects, LoCC and bookshelves', () => {
+      const book = full.getBookById(84)!;
+      assert.strictEqual(book.type, 'Text');
+      assert.deepStrictEqual(book.subjects, [
+        'Science fiction',
+        "Frankenstein's monster (Fictitious character) -- Fiction",
+        'Horror tales'
+      ]);
+      assert.deepStrictEqual(book.locc, ['PR']);
+      assert.deepStrictEqual(book.bookshelves, ['Gothic Fiction', 'Science Fiction by Women']);
+      assert.deepStrictEqual(full.getBookById(10802)!.locc, []);
+    });
+
+    it('leaves non-Text records out of search and random picks unless asked', () => {
+      assert.deepStrictEqual(full.searchCatalog('time machine').map(r => r.id), ['35']);
+      assert.deepStrictEqual(full.searchCatalog('time machine type:sound').map(r => r.id), ['10802']);
+      assert.deepStrictEqual(full.searchCatalog('time machine type:all').map(r => r.id).sort(), ['10802', '35']);
+      for (let i = 0; i < 10; i++) {
+        assert.notStrictEqual(full.getRandomBook()!.id, '10802');
+      }
+    });
+
+    it('filters by subject, bookshelf and LoCC class', () => {
+      assert.deepStrictEqual(full.searchCatalog('subject:"horror tales"').map(r => r.id).sort(), ['345', '84']);
+      assert.deepStrictEqual(full.searchCatalog('shelf:gothic wells'), []);
+      assert.deepStrictEqual(full.searchCatalog('shelf:"science fiction" wells').map(r => r.id).sort(), ['35', '36']);
+      assert.deepStrictEqual(full.searchCatalog('locc:p subject:fantasy').map(r => r.id), ['11']);
+      assert.deepStrictEqual(full.searchCatalog('locc:PR subject:fantasy'), []);
+    });
+
+    it('counts facets over every match', () => {
+      const page = full.searchCatalogPage('subject:fiction', { limit: 1 });
+      assert.strictEqual(page.results.length, 1);
+      assert.deepStrictEqual(page.facets?.subjects[0], { value: 'Science fiction', count: 3 });
+      assert.deepStrictEqual(page.facets?.types, [{ value: 'Text', count: 5 }]);
+    });
+
+    it('lists subjects and pages through a bookshelf', () => {
+      // Catalog-wide counts include the audio book
+      assert.deepStrictEqual(full.getSubjects()[0], { value: 'Science fiction', count: 4 });
+      assert.deepStrictEqual(full.getSubjects('vampire'), [{ value: 'Vampires -- Fiction', count: 1 }]);
+      assert.ok(full.getBookshelves().some(s => s.value === "Children's Literature"));
+
+      const shelf = full.getBookshelf('gothic fiction', { limit: 1 })!;
+      assert.strictEqual(shelf.name, 'Gothic Fiction');
+      assert.strictEqual(shelf.total, 2);
+      assert.deepStrictEqual(shelf.results.map(r => r.id), ['345']);
+      assert.strictEqual(full.getBookshelf('Nonexistent'), null);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for sentence, paragraph and screenful chunking
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { endsSentence, startsSentence, isChunkMode } from '../src/chunking.js';
+import { Navigator } from '../src/navigator.js';
+import type { Boundaries, ChunkMode, Position } from '../src/types.js';
+
+const SENTENCES = [
+  'Mr. Brown met Dr. Grey by St. Paul’s, e.g. at the door.',
+  '“Is it late?” he asked.',
+  'It was, i.e. nearly ten, and J. R. Smith had gone home!',
+  'The lamps were lit along the quay.',
+  '“Then we wait,” said Grey, “until the tide turns.”',
+  'Nobody answered him.'
+];
+
+// Paragraphs of two to four sentences, and one long paragraph
+const BOOK = Array.from({ length: 40 }, (_, i) =>
+  Array.from({ length: 2 + (i % 3) }, (_, j) => SENTENCES[(i + j) % SENTENCES.length]).join(' ')
+).concat([Array.from({ length: 12 }, (_, j) => SENTENCES[j % SENTENCES.length]).join(' ')])
+  .join('\n\n') + '\n';
+
+function boundariesOf(text: string): Boundaries {
+  const length = Buffer.byteLength(text);
+  return { startByte: 0, endByte: length, cleanLength: length };
+}
+
+function navigatorFor(mode: ChunkMode, chunkSize = 20): Navigator {
+  const buffer = Buffer.from(BOOK);
+  const navigator = new Navigator({
+    fetchRange: async (start: number, end: number) => buffer.subarray(start, end + 1)
+  }, boundariesOf(BOOK), chunkSize);
+  navigator.chunkMode = mode;
+  return navigator;
+}
+
+async function readAll(navigator: Navigator): Promise<Position[]> {
+  const pages: Position[] = [];
+  let position = await navigator.goToPercent(0);
+  pages.push(position);
+  while (position.nextByteStart !== undefined) {
+    position = await navigator.moveForward(position);
+    pages.push(position);
+  }
+  return pages;
+}
+
+// The text before a byte, with trailing whitespace removed
+function textBefore(byte: number): string {
+  return Buffer.from(BOOK).subarray(0, byte).toString('utf8').trimEnd();
+}
+
+describe('Chunking', () => {
+  describe('sentence ends', () => {
+    it('skips abbreviations and initials', () => {
+      for (const word of ['Mr.', 'Dr.', 'St.', 'e.g.', 'i.e.', 'J.', '(Mrs.']) {
+        assert.strictEqual(endsSentence(word), false, word);
+      }
+      for (const word of ['door.', 'asked.', 'home!', 'late?”', 'turns.”', 'so...', 'end.)']) {
+        assert.strictEqual(endsSentence(word), true, word);
+      }
+    });
+
+    it('needs a capital or digit to start the next sentence', () => {
+      assert.strictEqual(startsSentence('“Then'), true);
+      assert.strictEqual(startsSentence('1814'), true);
+      assert.strictEqual(startsSentence('he'), false);
+      assert.strictEqual(isChunkMode('sentences'), true);
+      assert.strictEqual(isChunkMode('chapters'), false);
+    });
+  });
+
+  describe('Navigator', () => {
+    it('ends sentence chunks at sentence ends and loses no words', async () => {
+      const pages = await readAll(navigatorFor('sentences'));
+      assert.deepStrictEqual(pages.flatMap(p => p.words), BOOK.split(/\s+/).filter(Boolean));
+
+      for (const page of pages.slice(0, -1)) {
+        assert.ok(endsSentence(page.words[page.words.length - 1]), `ends a sentence: ${page.formattedText}`);
+        assert.ok(page.words.length <= 20, 'whole sentences fit in chunkSize words');
+      }
+      assert.strictEqual(pages[pages.length - 1].isNearEnd, true);
+    });
+
+    it('ends paragraph chunks at breaks, and long paragraphs at sentences', async () => {
+      const pages = await readAll(navigatorFor('paragraphs', 30));
+      assert.deepStrictEqual(pages.flatMap(p => p.words), BOOK.split(/\s+/).filter(Boolean));
+
+      const longParagraph = BOOK.lastIndexOf('\n\n') + 2;
+      for (const page of pages) {
+        const before = textBefore(page.byteStart);
+        if (page.byteStart <= longParagraph) {
+          assert.ok(before === '' || /\n\n$/.test(Buffer.from(BOOK).subarray(0, page.byteStart).toString()),
+            `starts a paragraph: ${page.formattedText}`);
+        } else {
+          assert.ok(endsSentence(before.split(/\s+/).pop()!), 'long paragraph cut at a sentence');
+        }
+      }
+    });
+
+    it('goes back to a sentence start without history', async () => {
+      const navigator = navigatorFor('sentences');
+      const pages = await readAll(navigator);
+      const page = pages[6];
+
+      navigator.positionHistory = [];
+      const previous = await navigator.moveBackward(page);
+      assert.ok(previous.byteEnd <= page.byteStart);
+      assert.ok(previous.words.length <= 20);
+      assert.ok(endsSentence(textBefore(previous.byteStart).split(/\s+/).pop()!), 'starts after a sentence end');
+      assert.deepStrictEqual(
+        textBefore(page.byteStart).split(/\s+/).slice(-previous.words.length),
+        previous.words,
+        'ends right before the page it came back from'
+      );
+    });
+
+    it('starts a jump at the next sentence', async () => {
+      for (const percent of [13, 50, 71]) {
+        const position = await navigatorFor('sentences').goToPercent(percent);
+        assert.ok(endsSentence(textBefore(position.byteStart).split(/\s+/).pop()!), `at ${percent}%`);
+        assert.ok(startsSentence(position.words[0]));
+      }
+    });
+
+    it('fills a screen in screenful mode', async () => {
+      const navigator = navigatorFor('screenful', 5);
+      navigator.screen = { columns: 30, rows: 6 };
+      const pages = await readAll(navigator);
+      assert.deepStrictEqual(pages.flatMap(p => p.words), BOOK.split(/\s+/).filter(Boolean));
+
+      for (const page of pages) {
+        let lines = 0;
+        for (const paragraph of page.formattedText!.split('\n\n')) {
+          let column = 0;
+          lines += lines > 0 ? 2 : 1;
+          for (const word of paragraph.split(' ')) {
+            if (column > 0 && column + 1 + word.length > 30) {
+              lines++;
+              column = word.length;
+            } else {
+              column += (column > 0 ? 1 : 0) + word.length;
+            }
+          }
+        }
+        assert.ok(lines <= 6, `fits: ${page.formattedText}`);
+      }
+      assert.ok(pages.slice(0, -1).every(p => p.words.length > 5), 'ignores chunkSize');
+    });
+  });
+});
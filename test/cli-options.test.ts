@@ -1,5 +1,6 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
+import { fileURLToPath } from 'url';
 import { CliOptions } from '../src/cli-options.js';
 
 describe('CliOptions', () => {
@@ -180,6 +181,71 @@ describe('CliOptions', () => {
     });
   });
   
+  describe('text sources', () => {
+    it('should accept an existing file path instead of a book ID', () => {
+      const filePath = fileURLToPath(import.meta.url);
+      const options = new CliOptions([filePath, '50', '10']);
+
+      assert.strictEqual(options.isValid(), true);
+      assert.strictEqual(options.source, filePath);
+      assert.strictEqual(options.bookId, null);
+      assert.strictEqual(options.chunkSize, 50);
+      assert.strictEqual(options.startPercent, 10);
+      assert.strictEqual(options.clean, true);
+    });
+
+    it('should accept URLs and --no-clean', () => {
+      const options = new CliOptions(['--no-clean', 'https://example.com/notes.txt']);
+
+      assert.strictEqual(options.isValid(), true);
+      assert.strictEqual(options.source, 'https://example.com/notes.txt');
+      assert.strictEqual(options.clean, false);
+    });
+
+    it('should keep numeric arguments as book IDs', () => {
+      const options = new CliOptions(['1342']);
+
+      assert.strictEqual(options.bookId, 1342);
+      assert.strictEqual(options.source, null);
+    });
+  });
+
+  describe('offline', () => {
+    it('should default to online', () => {
+      assert.strictEqual(new CliOptions(['1342']).offline, false);
+    });
+
+    it('should parse --offline', () => {
+      const options = new CliOptions(['--offline', '1342', '100']);
+
+      assert.strictEqual(options.isValid(), true);
+      assert.strictEqual(options.offline, true);
+      assert.strictEqual(options.chunkSize, 100);
+    });
+  });
+
+  describe('chunk mode', () => {
+    it('should default to word chunks', () => {
+      assert.strictEqual(new CliOptions(['1342']).chunkMode, 'words');
+    });
+
+    it('should parse --sentences, --paragraphs and --screenful', () => {
+      assert.strictEqual(new CliOptions(['1342', '--sentences']).chunkMode, 'sentences');
+      assert.strictEqual(new CliOptions(['--paragraphs', '1342', '150']).chunkMode, 'paragraphs');
+
+      const options = new CliOptions(['--screenful', '1342']);
+      assert.strictEqual(options.isValid(), true);
+      assert.strictEqual(options.chunkMode, 'screenful');
+    });
+
+    it('should reject two different modes', () => {
+      const options = new CliOptions(['--sentences', '--paragraphs', '1342']);
+
+      assert.strictEqual(options.isValid(), false);
+      assert.ok(options.getErrorMessage()!.includes('--paragraphs cannot be used with --sentences'));
+    });
+  });
+
   describe('usage message', () => {
     it('should provide usage message', () => {
       const options = new CliOptions([]);
@@ -94,6 +94,10 @@ describe('KeyboardHandler - Key Dispatch', () => {
     handler.onDebug(() => callbacksCalled.push('debug'));
     handler.onPageUp(() => callbacksCalled.push('pageUp'));
     handler.onPageDown(() => callbacksCalled.push('pageDown'));
+    handler.onNextChapter(() => callbacksCalled.push('nextChapter'));
+    handler.onPreviousChapter(() => callbacksCalled.push('previousChapter'));
+    handler.onTrailBack(() => callbacksCalled.push('trailBack'));
+    handler.onTrailForward(() => callbacksCalled.push('trailForward'));
     handler.onEscape(() => callbacksCalled.push('escape'));
   });
 
@@ -222,6 +226,18 @@ describe('KeyboardHandler - Key Dispatch', () => {
     assert.deepStrictEqual(callbacksCalled, ['pageDown']);
   });
 
+  it('should dispatch nextChapter on n and previousChapter on p', () => {
+    simulateKey('n', { name: 'n' });
+    simulateKey('p', { name: 'p' });
+    assert.deepStrictEqual(callbacksCalled, ['nextChapter', 'previousChapter']);
+  });
+
+  it('should dispatch trailBack on < and trailForward on >', () => {
+    simulateKey('<', { name: undefined, shift: true });
+    simulateKey('>', { name: undefined, shift: true });
+    assert.deepStrictEqual(callbacksCalled, ['trailBack', 'trailForward']);
+  });
+
   it('should dispatch gotoPercent on g', () => {
     simulateKey('g', { name: 'g' });
     assert.deepStrictEqual(callbacksCalled, ['gotoPercent']);
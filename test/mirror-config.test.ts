@@ -0,0 +1,123 @@
+/**
+ * Tests for user mirror config and file:// mirrors
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { MirrorManager } from '../src/mirror-manager.js';
+import {
+  validateMirrorConfig,
+  loadMirrorConfig,
+  withExtraMirrors,
+  customMirror,
+  applyMirrorConfig
+} from '../src/mirror-config.js';
+import type { Mirror } from '../src/types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_ROOT = path.join(__dirname, '..', '.test-mirror-config');
+
+const DEFAULT = 'https://www.gutenberg.org';
+const LISTED: Mirror[] = [
+  { baseUrl: 'https://eu.example.org', provider: 'EU Mirror', location: 'Berlin', continent: 'Europe' },
+  { baseUrl: 'https://asia.example.org', provider: 'Asia Mirror', location: 'Tokyo', continent: 'Asia' },
+  { baseUrl: 'http://na.example.org', provider: 'NA Mirror', location: 'Ohio', continent: 'North America' },
+  { baseUrl: DEFAULT, provider: 'Project Gutenberg', location: 'Default' }
+];
+
+describe('Mirror config', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_ROOT, { recursive: true, force: true });
+    fs.mkdirSync(TEST_ROOT, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it('treats a missing file as an empty config and rejects invalid ones', () => {
+    assert.deepStrictEqual(loadMirrorConfig(path.join(TEST_ROOT, 'none.json')), {});
+
+    const bad = path.join(TEST_ROOT, 'bad.json');
+    fs.writeFileSync(bad, JSON.stringify({ mirrors: [{ url: 'ftp://example.org' }] }));
+    assert.throws(() => loadMirrorConfig(bad), /Invalid mirror config.*http:\/\/, https:\/\/ or file:\/\//);
+
+    assert.throws(() => validateMirrorConfig({ exclude: { continents: 'Asia' } }), /exclude\.continents/);
+    assert.throws(() => validateMirrorConfig({ priority: { 'EU Mirror': 'high' } }), /priority/);
+  });
+
+  it('names file:// and http mirrors from their URL', () => {
+    const local = customMirror({ url: 'file:///srv/gutenberg/' });
+    assert.strictEqual(local.baseUrl, 'file:///srv/gutenberg');
+    assert.strictEqual(local.provider, 'Local (/srv/gutenberg)');
+    assert.strictEqual(local.custom, true);
+    assert.strictEqual(local.priority, 10);
+
+    assert.strictEqual(customMirror({ url: 'http://localhost:8080', priority: 3 }).provider, 'localhost:8080');
+  });
+
+  it('excludes continents and URLs, and adds --mirror URLs first', () => {
+    const config = withExtraMirrors(
+      { exclude: { continents: ['asia'], urls: ['http://na.example.org/'] } },
+      ['http://localhost:8080']
+    );
+    const mirrors = applyMirrorConfig(LISTED, config, DEFAULT);
+    assert.deepStrictEqual(mirrors.map(m => m.baseUrl), ['http://localhost:8080', 'https://eu.example.org', DEFAULT]);
+  });
+
+  it('keeps only pinned providers, plus gutenberg.org as a fallback', () => {
+    const mirrors = applyMirrorConfig(LISTED, { pin: { providers: ['Asia Mirror'], continents: ['North America'] } }, DEFAULT);
+    assert.deepStrictEqual(mirrors.map(m => m.provider), ['Asia Mirror', 'NA Mirror', 'Project Gutenberg']);
+  });
+
+  it('sets priority by URL or provider name', () => {
+    const mirrors = applyMirrorConfig(LISTED, { priority: { 'https://asia.example.org': 5, 'NA Mirror': -1 } }, DEFAULT);
+    assert.strictEqual(mirrors.find(m => m.provider === 'Asia Mirror')?.priority, 5);
+    assert.strictEqual(mirrors.find(m => m.provider === 'NA Mirror')?.priority, -1);
+    assert.strictEqual(mirrors.find(m => m.provider === 'EU Mirror')?.priority, undefined);
+  });
+
+  it('orders mirrors by priority before latency', () => {
+    const mm = new MirrorManager({ config: { priority: { 'Asia Mirror': 2 } } });
+    (mm as any).listedMirrors = LISTED;
+    mm.initialized = true;
+    mm.configure({ priority: { 'Asia Mirror': 2 }, exclude: { providers: ['NA Mirror'] } });
+
+    mm._updateMirrorStats('https://eu.example.org', true, 50);
+    mm._updateMirrorStats('https://asia.example.org', true, 900);
+    mm._updateMirrorStats(DEFAULT, true, 100);
+
+    assert.deepStrictEqual(mm._getOrderedMirrors().map(m => m.provider), ['Asia Mirror', 'EU Mirror', 'Project Gutenberg']);
+  });
+
+  it('serves HEAD, whole-file and range requests from a file:// mirror', async () => {
+    const bookDir = path.join(TEST_ROOT, 'cache', 'epub', '1342');
+    fs.mkdirSync(bookDir, { recursive: true });
+    fs.writeFileSync(path.join(bookDir, 'pg1342.txt'), 'It is a truth universally acknowledged');
+
+    const mm = new MirrorManager({ verifyContent: false });
+    const local = customMirror({ url: pathToFileURL(TEST_ROOT).href });
+    (mm as any).listedMirrors = [];
+    mm.initialized = true;
+    mm.configure({ mirrors: [{ url: local.baseUrl }] });
+
+    const head = await mm.headWithFallback(1342);
+    assert.strictEqual(head.contentLength, 38);
+    assert.strictEqual(head.mirror.baseUrl, local.baseUrl);
+
+    const url = mm._buildBookUrl(local.baseUrl, 1342);
+    const range = await mm._makeFileRequest(url, { headers: { 'Range': 'bytes=8-9' } });
+    assert.strictEqual(range.statusCode, 206);
+    assert.strictEqual(range.body?.toString(), 'tr');
+    assert.strictEqual(range.headers['content-range'], 'bytes 8-9/38');
+
+    const whole = await mm._makeFileRequest(url);
+    assert.strictEqual(whole.statusCode, 200);
+    assert.strictEqual(whole.body?.length, 38);
+
+    assert.strictEqual((await mm._makeFileRequest(mm._buildBookUrl(local.baseUrl, 11))).statusCode, 404);
+  });
+});
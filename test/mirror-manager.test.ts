@@ -1,7 +1,16 @@
 import { describe, it, beforeEach } from 'node:test';
 import assert from 'node:assert';
-import { MirrorManager, resetSharedMirrorManager } from '../src/mirror-manager.js';
-import type { Mirror } from '../src/types.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  MirrorManager,
+  resetSharedMirrorManager,
+  classifyMirrorError,
+  compareFingerprints,
+  fingerprintOffsets
+} from '../src/mirror-manager.js';
+import type { Mirror, ContentFingerprint } from '../src/types.js';
 
 describe('MirrorManager', () => {
   
@@ -187,6 +196,379 @@ describe('MirrorManager', () => {
     });
   });
 
+  describe('_latencyP90', () => {
+    it('returns null until enough samples exist', () => {
+      const mm = new MirrorManager();
+      mm._updateMirrorStats('https://a.com', true, 100);
+      assert.strictEqual(mm._latencyP90('https://a.com'), null);
+      assert.strictEqual(mm._latencyP90(), null);
+    });
+
+    it('computes the p90 per mirror and across mirrors', () => {
+      const mm = new MirrorManager();
+      for (let i = 1; i <= 10; i++) {
+        mm._updateMirrorStats('https://a.com', true, i * 10);
+        mm._updateMirrorStats('https://b.com', true, i * 100);
+      }
+      assert.strictEqual(mm._latencyP90('https://a.com'), 90);
+      assert.strictEqual(mm._latencyP90('https://b.com'), 900);
+      assert.strictEqual(mm._latencyP90(), 800);
+    });
+  });
+
+  describe('_raceAttempts', () => {
+    const mirrors: Mirror[] = [
+      { baseUrl: 'https://a.com', provider: 'A', location: 'Test' },
+      { baseUrl: 'https://b.com', provider: 'B', location: 'Test' },
+      { baseUrl: 'https://c.com', provider: 'C', location: 'Test' }
+    ];
+
+    /** Fake request: resolves after `delays[provider]` ms, rejects if negative, honours aborts */
+    function fakeRequests(delays: Record<string, number>) {
+      const started: string[] = [];
+      const aborted: string[] = [];
+      const fn = (_url: string, mirror: Mirror, signal: AbortSignal): Promise<string> => {
+        started.push(mirror.provider);
+        return new Promise((resolve, reject) => {
+          const delay = delays[mirror.provider];
+          const timer = setTimeout(() => {
+            if (delay < 0) reject(new Error('HTTP 404'));
+            else resolve(mirror.provider);
+          }, Math.abs(delay));
+          signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            aborted.push(mirror.provider);
+            reject(new Error('Request cancelled'));
+          });
+        });
+      };
+      return { fn, started, aborted };
+    }
+
+    it('resolves on the first success and aborts the others', async () => {
+      const mm = new MirrorManager();
+      const { fn, started, aborted } = fakeRequests({ A: 2000, B: 10, C: 2000 });
+
+      const start = Date.now();
+      const winner = await mm._raceAttempts(1342, mirrors, fn, 0);
+
+      assert.strictEqual(winner.result, 'B');
+      assert.ok(Date.now() - start < 1000, 'should not wait for the slow mirrors');
+      assert.deepStrictEqual(started, ['A', 'B', 'C']);
+      assert.deepStrictEqual(aborted.sort(), ['A', 'C']);
+    });
+
+    it('records cancelled attempts separately from failures', async () => {
+      const mm = new MirrorManager();
+      const { fn } = fakeRequests({ A: 2000, B: 10, C: -5 });
+
+      await mm._raceAttempts(1342, mirrors, fn, 0);
+
+      const a = mm.mirrorStats.get('https://a.com')!;
+      assert.strictEqual(a.cancelled, 1);
+      assert.strictEqual(a.failures, 0);
+      assert.strictEqual(a.lastFailure, null);
+      assert.ok(a.lastCancelled !== null);
+      assert.strictEqual(mm.mirrorStats.get('https://b.com')!.successes, 1);
+      assert.strictEqual(mm.mirrorStats.get('https://c.com')!.failures, 1);
+    });
+
+    it('does not hedge when the first mirror answers within the delay', async () => {
+      const mm = new MirrorManager();
+      const { fn, started } = fakeRequests({ A: 10, B: 10, C: 10 });
+
+      const winner = await mm._raceAttempts(1342, mirrors, fn, 200);
+
+      assert.strictEqual(winner.result, 'A');
+      assert.deepStrictEqual(started, ['A']);
+    });
+
+    it('hedges with the next mirror when the first is slower than the delay', async () => {
+      const mm = new MirrorManager();
+      const { fn, started, aborted } = fakeRequests({ A: 2000, B: 10, C: 10 });
+
+      const winner = await mm._raceAttempts(1342, mirrors, fn, 30);
+
+      assert.strictEqual(winner.result, 'B');
+      assert.deepStrictEqual(started, ['A', 'B']);
+      assert.deepStrictEqual(aborted, ['A']);
+    });
+
+    it('starts the next mirror at once when one fails', async () => {
+      const mm = new MirrorManager();
+      const { fn, started } = fakeRequests({ A: -5, B: -5, C: 10 });
+
+      const start = Date.now();
+      const winner = await mm._raceAttempts(1342, mirrors, fn, null);
+
+      assert.strictEqual(winner.result, 'C');
+      assert.deepStrictEqual(started, ['A', 'B', 'C']);
+      assert.ok(Date.now() - start < 1000);
+    });
+
+    it('rejects once every mirror has failed', async () => {
+      const mm = new MirrorManager();
+      const { fn } = fakeRequests({ A: -5, B: -5, C: -5 });
+
+      await assert.rejects(mm._raceAttempts(1342, mirrors, fn, 0), /All 3 mirrors failed for book 1342/);
+    });
+
+    it('uses the p90 of observed latencies as the hedge delay', () => {
+      const mm = new MirrorManager();
+      assert.strictEqual(mm._hedgeDelay(mirrors[0]), null);
+
+      for (let i = 1; i <= 10; i++) mm._updateMirrorStats('https://b.com', true, i * 10);
+      assert.strictEqual(mm._hedgeDelay(mirrors[0]), 90, 'falls back to the p90 across mirrors');
+
+      for (let i = 1; i <= 5; i++) mm._updateMirrorStats('https://a.com', true, 500);
+      assert.strictEqual(mm._hedgeDelay(mirrors[0]), 500);
+    });
+  });
+
+  describe('response time decay', () => {
+    it('weights recent samples over old ones', () => {
+      const mm = new MirrorManager({ decayHalfLifeMs: 1000 });
+      mm._updateMirrorStats('https://a.com', true, 1000);
+      const stats = mm.mirrorStats.get('https://a.com')!;
+      // Pretend the first sample is ten half-lives old
+      stats.lastSampleAt = Date.now() - 10_000;
+
+      mm._updateMirrorStats('https://a.com', true, 100);
+
+      assert.ok(stats.avgResponseTime! < 102, `expected ~100ms, got ${stats.avgResponseTime}`);
+      assert.ok(stats.sampleWeight < 1.01);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const mirrors: Mirror[] = [
+      { baseUrl: 'https://a.com', provider: 'A', location: 'Test' },
+      { baseUrl: 'https://b.com', provider: 'B', location: 'Test' }
+    ];
+
+    it('opens after consecutive failures and skips the mirror', () => {
+      const mm = new MirrorManager({ breakerThreshold: 2 });
+      mm.mirrors = mirrors;
+      mm._updateMirrorStats('https://b.com', true, 100);
+
+      mm._updateMirrorStats('https://a.com', false, 100, new Error('HTTP 503'));
+      assert.strictEqual(mm.mirrorStats.get('https://a.com')!.breaker, 'closed');
+      mm._updateMirrorStats('https://a.com', false, 100, new Error('HTTP 503'));
+
+      const stats = mm.mirrorStats.get('https://a.com')!;
+      assert.strictEqual(stats.breaker, 'open');
+      assert.ok(stats.openUntil! > Date.now());
+      assert.deepStrictEqual(mm._getOrderedMirrors().map(m => m.provider), ['B']);
+    });
+
+    it('does not count cancelled attempts toward the breaker', () => {
+      const mm = new MirrorManager({ breakerThreshold: 1 });
+      mm._recordCancelled('https://a.com');
+      mm._recordCancelled('https://a.com');
+      assert.strictEqual(mm.mirrorStats.get('https://a.com')!.breaker, 'closed');
+    });
+
+    it('allows one probe once the cooldown passes, and closes on success', () => {
+      const mm = new MirrorManager({ breakerThreshold: 1 });
+      mm._updateMirrorStats('https://a.com', false, 100, new Error('Timeout after 3000ms'));
+      const stats = mm.mirrorStats.get('https://a.com')!;
+      assert.strictEqual(mm._isAvailable('https://a.com'), false);
+
+      stats.openUntil = Date.now() - 1;
+      assert.strictEqual(mm._isAvailable('https://a.com'), true);
+      assert.strictEqual(stats.breaker, 'half-open');
+
+      (mm as any)._beginAttempt('https://a.com');
+      assert.strictEqual(mm._isAvailable('https://a.com'), false, 'only one probe at a time');
+
+      mm._updateMirrorStats('https://a.com', true, 100);
+      assert.strictEqual(stats.breaker, 'closed');
+      assert.strictEqual(stats.consecutiveFailures, 0);
+    });
+
+    it('re-opens with a doubled cooldown when the probe fails', () => {
+      const mm = new MirrorManager({ breakerThreshold: 1, breakerCooldownMs: 1000 });
+      mm._updateMirrorStats('https://a.com', false, 100);
+      const stats = mm.mirrorStats.get('https://a.com')!;
+      stats.openUntil = Date.now() - 1;
+      mm._isAvailable('https://a.com');
+
+      const before = Date.now();
+      mm._updateMirrorStats('https://a.com', false, 100);
+
+      assert.strictEqual(stats.breaker, 'open');
+      assert.strictEqual(stats.breakerTrips, 2);
+      assert.ok(stats.openUntil! >= before + 2000);
+    });
+
+    it('still offers open mirrors when every breaker is open', () => {
+      const mm = new MirrorManager({ breakerThreshold: 1 });
+      mm.mirrors = mirrors;
+      mm._updateMirrorStats('https://a.com', false, 100);
+      mm._updateMirrorStats('https://b.com', false, 100);
+
+      assert.strictEqual(mm._getOrderedMirrors().length, 2);
+    });
+
+    it('reports breaker states and error classes in getStatus', () => {
+      const mm = new MirrorManager({ breakerThreshold: 1 });
+      mm.mirrors = mirrors;
+      mm._updateMirrorStats('https://a.com', false, 100, new Error('HTTP 404'));
+
+      const status = mm.getStatus();
+      assert.deepStrictEqual(status.breakers, { closed: 1, open: 1, 'half-open': 0 });
+      assert.strictEqual(status.mirrors[0].stats.recentErrors[0].errorClass, 'http-4xx');
+    });
+  });
+
+  describe('classifyMirrorError', () => {
+    it('sorts errors into coarse classes', () => {
+      const withCode = (code: string): Error => Object.assign(new Error(code), { code });
+      assert.strictEqual(classifyMirrorError(new Error('Timeout after 3000ms')), 'timeout');
+      assert.strictEqual(classifyMirrorError(new Error('HTTP 404')), 'http-4xx');
+      assert.strictEqual(classifyMirrorError(new Error('HTTP 502')), 'http-5xx');
+      assert.strictEqual(classifyMirrorError(withCode('ENOTFOUND')), 'dns');
+      assert.strictEqual(classifyMirrorError(withCode('ECONNREFUSED')), 'connection');
+      assert.strictEqual(classifyMirrorError(withCode('CERT_HAS_EXPIRED')), 'tls');
+      assert.strictEqual(classifyMirrorError(new Error('Too many redirects')), 'other');
+    });
+  });
+
+  describe('content verification', () => {
+    const canonical: ContentFingerprint = { size: 5000, etag: '"abc"', sampleHash: 'h1' };
+    const mirror: Mirror = { baseUrl: 'https://stale.example', provider: 'Stale', location: 'Test' };
+    const other: Mirror = { baseUrl: 'https://good.example', provider: 'Good', location: 'Test' };
+
+    /** MirrorManager whose fingerprints come from a table instead of the network */
+    function withFingerprints(table: Record<string, ContentFingerprint | Error>, options = {}): MirrorManager {
+      const mm = new MirrorManager(options);
+      mm.mirrors = [mirror, other, { baseUrl: 'https://www.gutenberg.org', provider: 'Project Gutenberg', location: 'Default' }];
+      mm._fetchFingerprint = async (m: Mirror) => {
+        const entry = table[m.baseUrl];
+        if (entry instanceof Error) throw entry;
+        return entry;
+      };
+      return mm;
+    }
+
+    it('compares size, then sampled content; a matching ETag short-circuits', () => {
+      assert.strictEqual(compareFingerprints(canonical, { ...canonical, etag: null }), null);
+      assert.strictEqual(compareFingerprints(canonical, { size: 5001, etag: '"x"', sampleHash: 'h1' }), 'size');
+      assert.strictEqual(compareFingerprints(canonical, { size: 5000, etag: '"x"', sampleHash: 'h2' }), 'content');
+      assert.strictEqual(compareFingerprints(canonical, { size: 1, etag: '"abc"', sampleHash: 'zz' }), null);
+    });
+
+    it('samples the head, middle and tail of larger files', () => {
+      assert.deepStrictEqual(fingerprintOffsets(2000), [0]);
+      assert.deepStrictEqual(fingerprintOffsets(100_000), [0, 50_000, 100_000 - 1024]);
+    });
+
+    it('quarantines a mismatching mirror for that book only', async () => {
+      const mm = withFingerprints({
+        'https://www.gutenberg.org': canonical,
+        'https://stale.example': { size: 4990, etag: null, sampleHash: 'h9' }
+      });
+      mm.bookMirrors.set(1342, mirror);
+
+      const result = await mm.verifyMirror(1342, mirror);
+
+      assert.strictEqual(result.status, 'quarantined');
+      assert.strictEqual(result.reason, 'size');
+      assert.ok(mm.isQuarantined(1342, mirror.baseUrl));
+      assert.ok(!mm.isQuarantined(11, mirror.baseUrl));
+      assert.strictEqual(mm.bookMirrors.get(1342), undefined, 'sticky mirror is dropped');
+      assert.ok(!mm._getOrderedMirrors(1342).some(m => m.baseUrl === mirror.baseUrl));
+      assert.ok(mm._getOrderedMirrors(11).some(m => m.baseUrl === mirror.baseUrl));
+    });
+
+    it('marks matching mirrors verified', async () => {
+      const mm = withFingerprints({
+        'https://www.gutenberg.org': canonical,
+        'https://good.example': { size: 5000, etag: '"other"', sampleHash: 'h1' }
+      });
+
+      const result = await mm.verifyMirror(1342, other);
+      assert.strictEqual(result.status, 'verified');
+      assert.strictEqual(result.reason, null);
+    });
+
+    it('leaves the mirror usable when the check cannot run', async () => {
+      const mm = withFingerprints({
+        'https://www.gutenberg.org': new Error('Timeout after 3000ms'),
+        'https://stale.example': canonical
+      });
+
+      const result = await mm.verifyMirror(1342, mirror);
+      assert.strictEqual(result.status, 'unverified');
+      assert.match(result.error ?? '', /Timeout/);
+      assert.ok(!mm.isQuarantined(1342, mirror.baseUrl));
+    });
+
+    it('surfaces quarantines in getStatus', async () => {
+      const mm = withFingerprints({
+        'https://www.gutenberg.org': canonical,
+        'https://stale.example': { size: 5000, etag: null, sampleHash: 'h9' }
+      });
+      await mm.verifyMirror(1342, mirror);
+
+      const status = mm.getStatus();
+      assert.strictEqual(status.quarantined.length, 1);
+      assert.strictEqual(status.quarantined[0].provider, 'Stale');
+      assert.strictEqual(status.quarantined[0].reason, 'content');
+      assert.deepStrictEqual(status.mirrors[0].quarantinedBooks, [1342]);
+      assert.deepStrictEqual(status.mirrors[1].quarantinedBooks, []);
+    });
+
+    it('persists quarantines across restarts', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gutex-mirrors-'));
+      const statePath = path.join(dir, 'mirror-health.json');
+      const mm = withFingerprints({
+        'https://www.gutenberg.org': canonical,
+        'https://stale.example': { size: 1, etag: null, sampleHash: 'h9' }
+      }, { statePath });
+      await mm.verifyMirror(1342, mirror);
+      mm.saveState();
+
+      const restarted = new MirrorManager({ statePath });
+      assert.ok(restarted.isQuarantined(1342, mirror.baseUrl));
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+    let statePath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gutex-mirrors-'));
+      statePath = path.join(dir, 'mirror-health.json');
+    });
+
+    it('restores stats, breakers and sticky mirrors after a restart', () => {
+      const mm = new MirrorManager({ statePath, breakerThreshold: 1 });
+      mm._updateMirrorStats('https://a.com', true, 120);
+      mm._updateMirrorStats('https://b.com', false, 100, new Error('HTTP 500'));
+      (mm as any)._setBookMirror(1342, { baseUrl: 'https://a.com', provider: 'A', location: 'Test' });
+      mm.saveState();
+
+      const restarted = new MirrorManager({ statePath });
+      assert.strictEqual(restarted.mirrorStats.get('https://a.com')!.avgResponseTime, 120);
+      assert.strictEqual(restarted.mirrorStats.get('https://b.com')!.breaker, 'open');
+      assert.strictEqual(restarted.bookMirrors.get(1342)!.provider, 'A');
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('ignores a missing or corrupt state file', () => {
+      fs.writeFileSync(statePath, '{not json');
+      const mm = new MirrorManager({ statePath });
+      assert.strictEqual(mm.mirrorStats.size, 0);
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
   describe('_getOrderedMirrors', () => {
     it('returns original order when no stats available', () => {
       const mm = new MirrorManager();
@@ -385,6 +385,168 @@ describe('RangeFetcher injection (caching)', () => {
   });
 });
 
+// ============================================================
+// Library Search Tests
+// ============================================================
+
+describe('Library search', () => {
+  // Over the full-download threshold, with the phrase at bytes 1000 and 40000
+  const text = 'x'.repeat(1000) + 'one two three four' + 'y'.repeat(38982) + 'one two three four' + 'z'.repeat(20000);
+  const fileSize = Buffer.byteLength(text);
+  
+  function textFetcher(calls: Array<{ start: number; end: number }> = []) {
+    return async (start: number, end: number): Promise<Buffer> => {
+      calls.push({ start, end });
+      return Buffer.from(text.slice(start, end + 1));
+    };
+  }
+  
+  it('reads only the given ranges', async () => {
+    const searcher = new NetworkSearcher(false);
+    const calls: Array<{ start: number; end: number }> = [];
+    const result = await searcher.search('http://example.com/test.txt', 'one two three four', {
+      rangeFetcher: textFetcher(calls),
+      fileSize,
+      ranges: [{ start: 30000, end: 45000 }]
+    });
+    
+    assert.deepStrictEqual(result.matches.map(m => m.byteStart), [40000]);
+    assert.ok(calls.every(c => c.start >= 30000 && c.end <= 45000), 'no reads outside the range');
+    assert.strictEqual(result.budgetExhausted, false);
+  });
+  
+  it('stops when the byte budget is spent', async () => {
+    const searcher = new NetworkSearcher(false);
+    const result = await searcher.searchWithRanges('http://example.com/test.txt', fileSize, 'one two three four', {
+      rangeFetcher: textFetcher(),
+      maxBytes: 16 * 1024
+    });
+    
+    assert.strictEqual(result.budgetExhausted, true);
+    assert.deepStrictEqual(result.matches.map(m => m.byteStart), [1000]);
+    assert.ok(result.bytesDownloaded < 32 * 1024);
+  });
+  
+  it('yields a result per book, reporting books that fail', async () => {
+    const searcher = new NetworkSearcher(false);
+    const open = async (bookId: number) => {
+      if (bookId === 3) throw new Error('Book 3 is not cached (offline)');
+      return { url: `http://example.com/${bookId}.txt`, rangeFetcher: textFetcher(), fileSize };
+    };
+    
+    const results = [];
+    for await (const result of searcher.searchLibrary([1, 2, 3], 'one two three four', open, { concurrency: 2 })) {
+      results.push(result);
+    }
+    
+    results.sort((a, b) => a.bookId - b.bookId);
+    assert.deepStrictEqual(results.map(r => [r.bookId, r.matches.length]), [[1, 2], [2, 2], [3, 0]]);
+    assert.strictEqual(results[2].error, 'Book 3 is not cached (offline)');
+  });
+  
+  it('reports matches and progress as it goes', async () => {
+    const searcher = new NetworkSearcher(false);
+    const events: string[] = [];
+    const progress: Array<{ position: number; chunkSize: number }> = [];
+    
+    const result = await searcher.searchWithRanges('http://example.com/test.txt', fileSize, 'one two three four', {
+      rangeFetcher: textFetcher(),
+      onMatch: match => events.push(`match ${match.byteStart}`),
+      onProgress: p => {
+        events.push('progress');
+        progress.push({ position: p.position, chunkSize: p.chunkSize });
+      }
+    });
+    
+    assert.strictEqual(events[0], 'match 1000', 'the first match comes before its chunk\'s progress');
+    assert.deepStrictEqual(events.filter(e => e.startsWith('match')), ['match 1000', 'match 40000']);
+    assert.strictEqual(progress.length, result.chunksRequested);
+    assert.ok(progress.every((p, i) => i === 0 || p.position > progress[i - 1].position));
+    assert.ok(progress.every(p => p.chunkSize >= 16 * 1024));
+  });
+  
+  it('stops between chunks when the signal is aborted', async () => {
+    const searcher = new NetworkSearcher(false);
+    const abort = new AbortController();
+    
+    const result = await searcher.searchWithRanges('http://example.com/test.txt', fileSize, 'one two three four', {
+      rangeFetcher: textFetcher(),
+      signal: abort.signal,
+      onMatch: () => abort.abort()
+    });
+    
+    assert.strictEqual(result.cancelled, true);
+    assert.strictEqual(result.chunksRequested, 1);
+    assert.deepStrictEqual(result.matches.map(m => m.byteStart), [1000]);
+  });
+  
+  it('rejects short phrases before searching', async () => {
+    const searcher = new NetworkSearcher(false);
+    const results = searcher.searchLibrary([1], 'too short', async () => ({ url: 'http://example.com/1.txt' }));
+    await assert.rejects(() => results.next(), /4 words/);
+  });
+});
+
+// ============================================================
+// Regex and Boolean Query Tests
+// ============================================================
+
+describe('Regex and boolean queries', () => {
+  // Header room, then paragraphs spread over several chunks, then footer room
+  const body = [
+    'The whale breached beside the ship.',
+    'x'.repeat(20000),
+    'A whaleship sailed past; whalebone lay on deck.',
+    'y'.repeat(20000),
+    'The whale dived\nand the ship turned about.'
+  ].join('\n\n');
+  const text = 'h'.repeat(600) + '\n\n' + body + '\n\n' + 'f'.repeat(5000);
+  const fileSize = Buffer.byteLength(text);
+  const rangeFetcher = async (start: number, end: number): Promise<Buffer> => Buffer.from(text.slice(start, end + 1));
+  const url = 'http://example.com/test.txt';
+  
+  it('allows short phrases and queries only when fully cached', () => {
+    const searcher = new NetworkSearcher(false);
+    assert.strictEqual(searcher.validateQuery('white whale').valid, false);
+    assert.strictEqual(searcher.validateQuery('white whale', true).valid, true);
+    assert.match(searcher.validateQuery('/whale/').error!, /whole book cached/);
+    assert.strictEqual(searcher.validateQuery('/whale/', true).query?.kind, 'regex');
+    assert.match(searcher.validateQuery('/(a+)+/', true).error!, /nested quantifier/);
+
+    const quoted = 'he said "call me Ishmael" (twice) AND left';
+    assert.deepStrictEqual(searcher.validateQuery(quoted).query, { kind: 'phrase', text: quoted });
+    assert.strictEqual(searcher.validateQuery(quoted, true).query?.kind, 'boolean');
+  });
+  
+  it('finds regex matches once each across overlapping chunks', async () => {
+    const searcher = new NetworkSearcher(false);
+    const result = await searcher.search(url, '/whale(bone|ship)?/', { rangeFetcher, fileSize, fullyCached: true });
+    
+    assert.deepStrictEqual(result.matches.map(m => m.matchedText), ['whale', 'whaleship', 'whalebone', 'whale']);
+    for (const match of result.matches) {
+      assert.strictEqual(text.slice(match.byteStart, match.byteStart + match.matchedText.length), match.matchedText);
+    }
+  });
+  
+  it('matches boolean and NEAR queries by paragraph', async () => {
+    const searcher = new NetworkSearcher(false);
+    const both = await searcher.search(url, 'whale AND ship NOT whaleship', { rangeFetcher, fileSize, fullyCached: true });
+    assert.deepStrictEqual(both.matches.map(m => m.byteStart), [text.indexOf('whale breached'), text.indexOf('whale dived')]);
+    
+    const near = await searcher.search(url, '"whale dived" NEAR/3 ship', { rangeFetcher, fileSize, fullyCached: true });
+    assert.deepStrictEqual(near.matches.map(m => m.matchedText), ['whale dived\nand the ship']);
+  });
+  
+  it('reads only the given ranges for a boolean query', async () => {
+    const searcher = new NetworkSearcher(false);
+    const start = text.indexOf('The whale dived');
+    const result = await searcher.search(url, 'whale AND ship', {
+      rangeFetcher, fileSize, fullyCached: true, ranges: [{ start: start - 3, end: fileSize - 1 }]
+    });
+    assert.deepStrictEqual(result.matches.map(m => m.byteStart), [start + 4]);
+  });
+});
+
 // ============================================================
 // Edge Cases
 // ============================================================
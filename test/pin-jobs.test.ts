@@ -0,0 +1,138 @@
+/**
+ * Tests for pin-for-offline jobs
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { SparseCache, type UpstreamFetcher } from '../src/sparse-cache.js';
+import { PinJobManager, type PinJobStatus } from '../src/pin-jobs.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_CACHE_DIR = path.join(__dirname, '..', '.test-pin-cache');
+
+const CONTENT = Buffer.from('abcdefgh'.repeat(128)); // 1024 bytes, 16 blocks of 64
+
+class MockUpstream implements UpstreamFetcher {
+  public rangeCalls: Array<{ start: number; end: number }> = [];
+  public failOnCall = -1;
+
+  async head(_bookId: number): Promise<{ size: number; etag: string | null; lastModified: string | null }> {
+    return { size: CONTENT.length, etag: 'etag', lastModified: null };
+  }
+
+  async getRange(_bookId: number, start: number, end: number): Promise<Buffer> {
+    this.rangeCalls.push({ start, end });
+    if (this.rangeCalls.length === this.failOnCall) {
+      throw new Error('Mock upstream failure');
+    }
+    return CONTENT.subarray(start, Math.min(end, CONTENT.length - 1) + 1);
+  }
+}
+
+function createCache(upstream: MockUpstream): SparseCache {
+  const cache = new SparseCache({ cacheDir: TEST_CACHE_DIR, blockSize: 64, maxCoalesceGap: 64 });
+  cache.setUpstreamFetcher(upstream);
+  return cache;
+}
+
+describe('PinJobManager', () => {
+  let upstream: MockUpstream;
+  let cache: SparseCache;
+
+  beforeEach(() => {
+    fs.rmSync(TEST_CACHE_DIR, { recursive: true, force: true });
+    upstream = new MockUpstream();
+    cache = createCache(upstream);
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_CACHE_DIR, { recursive: true, force: true });
+  });
+
+  it('downloads a whole book in throttled, size-capped requests', async () => {
+    const jobs = new PinJobManager(cache, { throttleMs: 0, maxRequestBytes: 256 });
+    jobs.pin(42);
+    const status = await jobs.wait(42);
+
+    assert.strictEqual(status?.state, 'done');
+    assert.strictEqual(status?.percent, 100);
+    assert.strictEqual(status?.requests, 4);
+    assert.ok(upstream.rangeCalls.every(r => r.end - r.start + 1 <= 256));
+    assert.ok(cache.isPinned(42));
+    assert.deepStrictEqual(await cache.getRange(42, 0, CONTENT.length - 1), CONTENT);
+  });
+
+  it('only fetches ranges missing from the bitmap', async () => {
+    await cache.getRange(42, 0, 511);
+    upstream.rangeCalls = [];
+
+    const jobs = new PinJobManager(cache, { throttleMs: 0, maxRequestBytes: 1024 });
+    jobs.pin(42);
+    const status = await jobs.wait(42);
+
+    assert.strictEqual(status?.state, 'done');
+    assert.deepStrictEqual(upstream.rangeCalls, [{ start: 512, end: 1023 }]);
+    assert.strictEqual(status?.bytesFetched, 512);
+  });
+
+  it('can be cancelled and resumed by a new manager', async () => {
+    let jobs: PinJobManager;
+    const onProgress = (status: PinJobStatus): void => {
+      if (status.requests === 1) jobs.cancel(42);
+    };
+    jobs = new PinJobManager(cache, { throttleMs: 0, maxRequestBytes: 128, onProgress });
+    jobs.pin(42);
+    const cancelled = await jobs.wait(42);
+
+    assert.strictEqual(cancelled?.state, 'cancelled');
+    assert.strictEqual(cancelled?.requests, 1);
+    assert.ok(cancelled!.percent < 100);
+
+    // Simulate a restart: fresh cache instance reading the same directory
+    upstream.rangeCalls = [];
+    const restarted = createCache(upstream);
+    const resumedJobs = new PinJobManager(restarted, { throttleMs: 0, maxRequestBytes: 128 });
+    assert.deepStrictEqual(resumedJobs.resumePinned(), [42]);
+    const resumed = await resumedJobs.wait(42);
+
+    assert.strictEqual(resumed?.state, 'done');
+    assert.strictEqual(resumed?.percent, 100);
+    assert.ok(upstream.rangeCalls.every(r => r.start >= 128));
+  });
+
+  it('cancels queued jobs without running them', async () => {
+    const jobs = new PinJobManager(cache, { throttleMs: 0 });
+    jobs.pin(1);
+    jobs.pin(2);
+    assert.strictEqual(jobs.cancel(2), true);
+
+    assert.strictEqual((await jobs.wait(2))?.state, 'cancelled');
+    assert.strictEqual((await jobs.wait(1))?.state, 'done');
+    assert.strictEqual(cache.getBookStats(2), null);
+  });
+
+  it('reports upstream failures', async () => {
+    upstream.failOnCall = 2;
+    const jobs = new PinJobManager(cache, { throttleMs: 0, maxRequestBytes: 256 });
+    jobs.pin(42);
+    const status = await jobs.wait(42);
+
+    assert.strictEqual(status?.state, 'failed');
+    assert.match(status?.error ?? '', /Mock upstream failure/);
+  });
+
+  it('unpins a book so LRU pruning may evict it', async () => {
+    const jobs = new PinJobManager(cache, { throttleMs: 0 });
+    jobs.pin(42);
+    await jobs.wait(42);
+    await cache.getRange(7, 0, 63);
+
+    assert.deepStrictEqual(await cache.pruneByLRU(1), [7]);
+
+    assert.deepStrictEqual(jobs.unpin(42), { cancelled: false, unpinned: true });
+    assert.deepStrictEqual(await cache.pruneByLRU(0), [42]);
+  });
+});
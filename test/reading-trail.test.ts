@@ -0,0 +1,99 @@
+/**
+ * Tests for the persistent reading trail
+ */
+
+import { describe, it, beforeEach, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ReadingTrail, MAX_TRAIL_ENTRIES, isTrailKind } from '../src/reading-trail.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-reading-trail');
+const TRAIL_FILE = path.join(TEST_DIR, 'trail.json');
+
+describe('ReadingTrail', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  after(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('goes back and forward across books, where reading left off', () => {
+    const trail = new ReadingTrail(TRAIL_FILE);
+    trail.visit({ bookId: 1342, byteStart: 1000, kind: 'open' });
+    trail.here(1342, 5000, { percent: 12 });
+    trail.visit({ bookId: 2701, byteStart: 300, kind: 'random' });
+    trail.visit({ bookId: 'my-notes', byteStart: 0, kind: 'search' });
+
+    assert.strictEqual(trail.back()!.bookId, 2701);
+    const start = trail.back()!;
+    assert.strictEqual(start.bookId, 1342);
+    assert.strictEqual(start.byteStart, 5000, 'page turns moved the entry along');
+    assert.strictEqual(start.percent, 12);
+    assert.strictEqual(trail.back(), null, 'at the oldest entry');
+
+    assert.strictEqual(trail.forward(2)!.bookId, 'my-notes');
+    assert.strictEqual(trail.forward(), null, 'at the newest entry');
+    assert.strictEqual(trail.back(9)!.bookId, 1342, 'steps stop at the oldest entry');
+  });
+
+  it('drops the entries ahead after going back and teleporting', () => {
+    const trail = new ReadingTrail(TRAIL_FILE);
+    trail.visit({ bookId: 1, byteStart: 10, kind: 'open' });
+    trail.visit({ bookId: 2, byteStart: 20, kind: 'jump' });
+    trail.visit({ bookId: 3, byteStart: 30, kind: 'jump' });
+    trail.back(2);
+
+    const state = trail.visit({ bookId: 4, byteStart: 40, kind: 'chapter' });
+    assert.deepStrictEqual(state.entries.map(e => e.bookId), [1, 4]);
+    assert.strictEqual(state.cursor, 1);
+    assert.strictEqual(trail.forward(), null);
+  });
+
+  it('refreshes the current entry on a visit to the same passage', () => {
+    const trail = new ReadingTrail(TRAIL_FILE);
+    trail.visit({ bookId: 84, byteStart: 700, kind: 'open' });
+    const state = trail.visit({ bookId: 84, byteStart: 700, kind: 'link', title: 'Frankenstein' });
+    assert.strictEqual(state.entries.length, 1);
+    assert.strictEqual(state.entries[0].kind, 'open');
+    assert.strictEqual(state.entries[0].title, 'Frankenstein');
+  });
+
+  it('moves the current entry only for its own book', () => {
+    const trail = new ReadingTrail(TRAIL_FILE);
+    assert.strictEqual(trail.here(84, 100), false, 'empty trail');
+    trail.visit({ bookId: 84, byteStart: 700, kind: 'open', anchor: 'old' });
+    assert.strictEqual(trail.here(11, 100), false);
+    assert.strictEqual(trail.here(84, 900, { anchor: 'new' }), true);
+    assert.strictEqual(trail.current!.byteStart, 900);
+    assert.strictEqual(trail.current!.anchor, 'new');
+    trail.here(84, 900, { percent: 20 });
+    assert.strictEqual(trail.current!.anchor, 'new', 'kept at the same position');
+    trail.here(84, 950);
+    assert.strictEqual(trail.current!.anchor, undefined, 'dropped once it no longer fits');
+  });
+
+  it('persists, keeps the newest entries and survives a damaged file', () => {
+    const trail = new ReadingTrail(TRAIL_FILE);
+    for (let i = 0; i < MAX_TRAIL_ENTRIES + 5; i++) {
+      trail.visit({ bookId: i + 1, byteStart: 0, kind: 'random' });
+    }
+
+    const later = new ReadingTrail(TRAIL_FILE);
+    assert.strictEqual(later.state.entries.length, MAX_TRAIL_ENTRIES);
+    assert.strictEqual(later.state.entries[0].bookId, 6);
+    assert.strictEqual(later.current!.bookId, MAX_TRAIL_ENTRIES + 5);
+
+    fs.writeFileSync(TRAIL_FILE, '{"entries": [');
+    assert.deepStrictEqual(later.state, { entries: [], cursor: -1 });
+    later.clear();
+    assert.strictEqual(later.back(), null);
+    assert.strictEqual(isTrailKind('bookmark'), true);
+    assert.strictEqual(isTrailKind('page'), false);
+  });
+});
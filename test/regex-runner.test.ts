@@ -0,0 +1,48 @@
+/**
+ * Tests for running regexes in a worker with a time limit
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { RegexRunner } from '../src/regex-runner.js';
+import { TextQueryError } from '../src/text-query.js';
+
+describe('RegexRunner', () => {
+  it('finds matches with their byte offsets, within the range asked for', async () => {
+    const runner = new RegexRunner(/whale\w*/gi);
+    try {
+      const text = 'Café whale; naïve whaleship, the WHALE.';
+      const all = await runner.run(text, 100, -1, Infinity, 10);
+      assert.deepStrictEqual(all.map(m => text.slice(m.index, m.end)), ['whale', 'whaleship', 'WHALE']);
+      assert.deepStrictEqual(all.map(m => m.byteStart), [
+        100 + Buffer.byteLength('Café '),
+        100 + Buffer.byteLength('Café whale; naïve '),
+        100 + Buffer.byteLength('Café whale; naïve whaleship, the ')
+      ]);
+
+      const middle = await runner.run(text, 100, all[0].byteStart, all[2].byteStart, 10);
+      assert.deepStrictEqual(middle, [all[1]]);
+      assert.strictEqual((await runner.run(text, 100, -1, Infinity, 2)).length, 2);
+    } finally {
+      runner.close();
+    }
+  });
+
+  it('stops a regex that backtracks past its time limit', async () => {
+    // Gets past no screen: runners are given regexes directly
+    const runner = new RegexRunner(/(a+)+b/g, 200);
+    const started = Date.now();
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 20);
+    try {
+      await assert.rejects(runner.run('a'.repeat(40), 0, -1, Infinity, 10),
+        (err: unknown) => err instanceof TextQueryError && /too long/.test(err.message));
+      await assert.rejects(runner.run('b', 0, -1, Infinity, 10), TextQueryError, 'time is used up');
+    } finally {
+      clearInterval(ticker);
+      runner.close();
+    }
+    assert.ok(Date.now() - started < 2000);
+    assert.ok(ticks >= 3, 'the event loop kept running');
+  });
+});
@@ -19,7 +19,8 @@ import {
   _internal,
   type UpstreamFetcher,
   type SparseCacheOptions,
-  resetSharedSparseCache
+  resetSharedSparseCache,
+  NotCachedError
 } from '../src/sparse-cache.js';
 import { CachedFetcher } from '../src/cached-fetcher.js';
 
@@ -103,7 +104,7 @@ class MockUpstreamFetcher implements UpstreamFetcher {
 // ============================================================================
 
 describe('Bitmap Pure Functions', () => {
-  const { byteToBlock, blockToByte, bitmapSize, isBlockCached, markBlockCached, markBlockRangeCached, countCachedBlocks, findUncachedBlockRanges, coalesceRanges } = _internal;
+  const { byteToBlock, blockToByte, bitmapSize, isBlockCached, markBlockCached, markBlockRangeCached, clearBlockRangeCached, countCachedBlocks, findUncachedBlockRanges, findNextCachedByte, splitRange, coalesceRanges, crc32 } = _internal;
 
   describe('byteToBlock', () => {
     it('converts byte offset to block index', () => {
@@ -217,6 +218,23 @@ describe('Bitmap Pure Functions', () => {
     });
   });
 
+  describe('crc32', () => {
+    it('matches the standard check value', () => {
+      assert.strictEqual(crc32(Buffer.from('123456789')), 0xCBF43926);
+      assert.strictEqual(crc32(Buffer.alloc(0)), 0);
+    });
+  });
+
+  describe('clearBlockRangeCached', () => {
+    it('clears an inclusive range of blocks without mutating the input', () => {
+      const bitmap = Buffer.from([0xFF, 0xFF]);
+      const result = clearBlockRangeCached(bitmap, 6, 9);
+      assert.strictEqual(result[0], 0x3F);
+      assert.strictEqual(result[1], 0xFC);
+      assert.strictEqual(bitmap[0], 0xFF);
+    });
+  });
+
   describe('countCachedBlocks', () => {
     it('counts zero for empty bitmap', () => {
       const bitmap = Buffer.alloc(4, 0);
@@ -289,6 +307,36 @@ describe('Bitmap Pure Functions', () => {
     });
   });
 
+  describe('findNextCachedByte', () => {
+    it('returns the byte offset of the next cached block', () => {
+      const bitmap = markBlockCached(Buffer.alloc(1, 0), 5);
+      assert.strictEqual(findNextCachedByte(bitmap, 2, 8, 64), 320);
+      assert.strictEqual(findNextCachedByte(bitmap, 5, 8, 64), 320);
+    });
+
+    it('returns null when no later block is cached', () => {
+      const bitmap = markBlockCached(Buffer.alloc(1, 0), 1);
+      assert.strictEqual(findNextCachedByte(bitmap, 2, 8, 64), null);
+    });
+  });
+
+  describe('splitRange', () => {
+    it('splits into block-aligned pieces no larger than the cap', () => {
+      assert.deepStrictEqual(splitRange({ start: 0, end: 299 }, 128, 64), [
+        { start: 0, end: 127 },
+        { start: 128, end: 255 },
+        { start: 256, end: 299 }
+      ]);
+    });
+
+    it('never splits below one block', () => {
+      assert.deepStrictEqual(splitRange({ start: 64, end: 191 }, 10, 64), [
+        { start: 64, end: 127 },
+        { start: 128, end: 191 }
+      ]);
+    });
+  });
+
   describe('coalesceRanges', () => {
     it('coalesces overlapping ranges', () => {
       const ranges = [
@@ -588,6 +636,195 @@ describe('SparseCache', () => {
       assert.ok(removed.includes(1));
       assert.ok(!removed.includes(3));
     });
+
+    it('never removes pinned books', async () => {
+      await cache.getRange(1, 0, 63);
+      await new Promise(r => setTimeout(r, 10));
+      await cache.getRange(2, 0, 63);
+      await new Promise(r => setTimeout(r, 10));
+      await cache.getRange(3, 0, 63);
+      cache.setPinned(1, true);
+
+      const removed = await cache.pruneByLRU(1);
+
+      assert.deepStrictEqual(removed, [2, 3]);
+      assert.ok(cache.getBookStats(1)?.pinned);
+    });
+  });
+
+  describe('integrity', () => {
+    function corruptBytes(bookId: number, start: number, length: number): void {
+      const fd = fs.openSync(path.join(TEST_CACHE_DIR, `${bookId}.txt`), 'r+');
+      fs.writeSync(fd, Buffer.alloc(length, 0), 0, length, start);
+      fs.closeSync(fd);
+    }
+
+    it('re-fetches blocks that fail their checksum on read', async () => {
+      await cache.getRange(1234, 0, 255);
+      corruptBytes(1234, 70, 10);
+      mockFetcher.reset();
+
+      const data = await cache.getRange(1234, 64, 127);
+      assert.strictEqual(data.toString('utf8'), 'A'.repeat(64));
+      assert.strictEqual(mockFetcher.rangeCalls.length, 1);
+      assert.strictEqual(cache.getStats().corruptBlocks, 1);
+    });
+
+    it('reports and repairs corrupt blocks', async () => {
+      await cache.getRange(1234, 0, testContent.length - 1);
+      corruptBytes(1234, 300, 4);
+      corruptBytes(1234, 900, 124);
+
+      const report = cache.verify(1234)!;
+      assert.strictEqual(report.ok, false);
+      assert.strictEqual(report.blocksChecked, 16);
+      assert.strictEqual(report.corruptBlocks, 3);
+      assert.deepStrictEqual(report.corruptRanges, [
+        { start: 256, end: 319 },
+        { start: 896, end: 1023 }
+      ]);
+
+      const repaired = (await cache.repair(1234))!;
+      assert.strictEqual(repaired.ok, true);
+      assert.strictEqual(repaired.repairedBlocks, 3);
+      assert.strictEqual(cache.verify(1234)!.ok, true);
+      assert.strictEqual((await cache.getRange(1234, 0, testContent.length - 1)).toString('utf8'), testContent);
+    });
+
+    it('accepts blocks cached before checksums existed unless they are zeros', async () => {
+      await cache.getRange(1234, 0, 255);
+      fs.unlinkSync(path.join(TEST_CACHE_DIR, '1234.sums'));
+      corruptBytes(1234, 192, 64);
+
+      const legacy = new SparseCache(createTestOptions());
+      legacy.setUpstreamFetcher(mockFetcher);
+      const report = legacy.verify(1234)!;
+      assert.strictEqual(report.unverifiedBlocks, 3);
+      assert.strictEqual(report.corruptBlocks, 1);
+
+      await legacy.repair(1234);
+      const after = legacy.verify(1234)!;
+      assert.strictEqual(after.ok, true);
+      assert.strictEqual(after.unverifiedBlocks, 0);
+    });
+
+    it('flags a missing data file as a size mismatch', async () => {
+      await cache.getRange(1234, 0, 127);
+      fs.unlinkSync(path.join(TEST_CACHE_DIR, '1234.txt'));
+
+      const report = cache.verify(1234)!;
+      assert.strictEqual(report.sizeMismatch, true);
+      assert.strictEqual(report.corruptBlocks, 2);
+      assert.strictEqual((await cache.repair(1234))!.ok, true);
+    });
+
+    it('returns null for books that are not cached', async () => {
+      assert.strictEqual(cache.verify(4321), null);
+      assert.strictEqual(await cache.repair(4321), null);
+    });
+
+    it('throws NotCachedError offline when a block is corrupt', async () => {
+      await cache.getRange(1234, 0, 127);
+      corruptBytes(1234, 0, 64);
+      cache.setOffline(true);
+
+      await assert.rejects(() => cache.getRange(1234, 0, 127), NotCachedError);
+    });
+
+    it('leaves no temp files behind', async () => {
+      await cache.getRange(1234, 0, 511);
+      await cache.getRange(1234, 512, 1023);
+      const leftovers = fs.readdirSync(TEST_CACHE_DIR).filter(f => f.endsWith('.tmp'));
+      assert.deepStrictEqual(leftovers, []);
+      assert.ok(fs.existsSync(path.join(TEST_CACHE_DIR, '1234.sums')));
+    });
+  });
+
+  describe('quotas and eviction', () => {
+    function createQuotaCache(overrides: Partial<SparseCacheOptions>): SparseCache {
+      const quotaCache = new SparseCache(createTestOptions({
+        evictionRegionBytes: 128,
+        evictionGraceMs: 0,
+        maxCoalesceGap: 0,
+        ...overrides
+      }));
+      quotaCache.setUpstreamFetcher(mockFetcher);
+      return quotaCache;
+    }
+
+    it('drops cold regions of a book beyond the per-book cap', async () => {
+      const quotaCache = createQuotaCache({ maxBytesPerBook: 256 });
+      await quotaCache.getRange(1234, 0, 255);
+      await quotaCache.getRange(1234, 512, 767);
+
+      const stats = quotaCache.getBookStats(1234)!;
+      assert.strictEqual(stats.cachedBytes, 256);
+      assert.strictEqual(quotaCache.getStats().blocksEvicted, 4);
+
+      // The range just read stays cached; the evicted one must be fetched again
+      mockFetcher.reset();
+      await quotaCache.getRange(1234, 512, 767);
+      assert.strictEqual(mockFetcher.rangeCalls.length, 0);
+      const refetched = await quotaCache.getRange(1234, 0, 63);
+      assert.strictEqual(refetched.toString('utf8'), 'A'.repeat(64));
+      assert.strictEqual(mockFetcher.rangeCalls.length, 1);
+    });
+
+    it('punches evicted blocks out of the data file', async () => {
+      const quotaCache = createQuotaCache({ maxBytesPerBook: 256 });
+      await quotaCache.getRange(1234, 0, 255);
+      await quotaCache.getRange(1234, 512, 767);
+
+      const data = fs.readFileSync(path.join(TEST_CACHE_DIR, '1234.txt'));
+      assert.strictEqual(data.length, testContent.length);
+      assert.ok(data.subarray(0, 256).every(b => b === 0));
+      assert.strictEqual(data.subarray(512, 768).toString('utf8'), 'C'.repeat(256));
+    });
+
+    it('evicts least recently used books first to meet the total quota', async () => {
+      const quotaCache = createQuotaCache({ maxBytes: 512 });
+      await quotaCache.getRange(1, 0, 255);
+      await new Promise(r => setTimeout(r, 10));
+      await quotaCache.getRange(2, 0, 255);
+      await new Promise(r => setTimeout(r, 10));
+      await quotaCache.getRange(3, 0, 255);
+
+      assert.deepStrictEqual(quotaCache.listCachedBooks(), [2, 3]);
+      const stats = quotaCache.getStats();
+      assert.strictEqual(stats.booksEvicted, 1);
+      assert.strictEqual(stats.evictions, 1);
+      assert.strictEqual(stats.quota.usedBytes, 512);
+      assert.strictEqual(stats.quota.usedPercent, 100);
+    });
+
+    it('never evicts pinned books', async () => {
+      const quotaCache = createQuotaCache({ maxBytes: 512, maxBytesPerBook: 128 });
+      await quotaCache.getRange(1, 0, 63);
+      quotaCache.setPinned(1, true);
+      await quotaCache.getRange(1, 0, 511);
+      await quotaCache.getRange(2, 0, 127);
+      await new Promise(r => setTimeout(r, 10));
+      await quotaCache.getRange(3, 0, 127);
+
+      // Book 3's range is being read, so only book 2 can give way
+      assert.strictEqual(quotaCache.getBookStats(1)!.cachedBytes, 512);
+      assert.deepStrictEqual(quotaCache.listCachedBooks(), [1, 3]);
+    });
+
+    it('keeps recently read regions during the grace period', async () => {
+      const quotaCache = createQuotaCache({ maxBytesPerBook: 128, evictionGraceMs: 60000 });
+      await quotaCache.getRange(1234, 0, 127);
+      await quotaCache.getRange(1234, 256, 383);
+
+      assert.strictEqual(quotaCache.getBookStats(1234)!.cachedBytes, 256);
+      assert.strictEqual(quotaCache.getStats().blocksEvicted, 0);
+    });
+
+    it('reports no quota when unconfigured', () => {
+      const { quota } = cache.getStats();
+      assert.strictEqual(quota.maxBytes, null);
+      assert.strictEqual(quota.usedPercent, null);
+    });
   });
 
   describe('error handling', () => {
@@ -614,6 +851,72 @@ describe('SparseCache', () => {
       }, /Mock upstream failure/);
     });
   });
+
+  describe('offline mode', () => {
+    it('serves cached blocks without touching upstream', async () => {
+      await cache.getRange(1234, 0, 127);
+      mockFetcher.reset();
+      cache.setOffline(true);
+
+      const data = await cache.getRange(1234, 10, 100);
+      assert.strictEqual(data.length, 91);
+      assert.strictEqual(mockFetcher.headCalls, 0);
+      assert.strictEqual(mockFetcher.rangeCalls.length, 0);
+    });
+
+    it('throws NotCachedError with missing ranges and next cached byte', async () => {
+      await cache.getRange(1234, 0, 63);
+      await cache.getRange(1234, 256, 319);
+      mockFetcher.reset();
+      cache.setOffline(true);
+
+      await assert.rejects(() => cache.getRange(1234, 0, 300), (err: unknown) => {
+        assert.ok(err instanceof NotCachedError);
+        assert.strictEqual(err.code, 'NOT_CACHED');
+        assert.strictEqual(err.bookId, 1234);
+        assert.deepStrictEqual(err.ranges, [{ start: 64, end: 255 }]);
+        assert.strictEqual(err.nextCachedByte, 256);
+        return true;
+      });
+      assert.strictEqual(mockFetcher.rangeCalls.length, 0);
+    });
+
+    it('throws NotCachedError for books never cached', async () => {
+      cache.setOffline(true);
+      await assert.rejects(() => cache.getFileSize(9999), NotCachedError);
+      assert.strictEqual(mockFetcher.headCalls, 0);
+    });
+
+    it('lists only books with cached blocks as readable', async () => {
+      await cache.getRange(1234, 0, 63);
+      await cache.getFileSize(5678);
+
+      assert.deepStrictEqual(cache.listReadableBooks(), [1234]);
+    });
+  });
+
+  describe('cached ranges', () => {
+    it('lists runs of cached blocks as byte ranges', async () => {
+      await cache.getRange(1234, 0, 127);
+      await cache.getRange(1234, 960, 1023);
+
+      assert.deepStrictEqual(cache.getCachedRanges(1234), [{ start: 0, end: 127 }, { start: 960, end: 1023 }]);
+      assert.deepStrictEqual(cache.getCachedRanges(9999), []);
+    });
+
+    it('reads cached blocks without validating or fetching, even online', async () => {
+      cache = new SparseCache(createTestOptions({ validationIntervalMs: 0 }));
+      cache.setUpstreamFetcher(mockFetcher);
+      await cache.getRange(1234, 0, 127);
+      mockFetcher.reset();
+
+      assert.strictEqual(cache.readCachedRange(1234, 10, 100).toString(), 'A'.repeat(91));
+      assert.throws(() => cache.readCachedRange(1234, 100, 200), (err: unknown) =>
+        err instanceof NotCachedError && err.ranges[0].start === 128);
+      assert.strictEqual(mockFetcher.headCalls, 0);
+      assert.strictEqual(mockFetcher.rangeCalls.length, 0);
+    });
+  });
 });
 
 // ============================================================================
@@ -0,0 +1,86 @@
+/**
+ * Tests for text anchors
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createAnchor, resolveAnchor, encodeAnchor, decodeAnchor } from '../src/text-anchor.js';
+import { Navigator } from '../src/navigator.js';
+import type { Boundaries } from '../src/types.js';
+
+const FILLER = Array.from({ length: 300 }, (_, i) =>
+  `Line ${i} of the log, the wind steady and the sea calm.`
+).join('\n') + '\n';
+
+const PASSAGE = '“Call me Ishmael,” said the stranger, and the crew fell silent before the mast.';
+
+const BOOK = FILLER + PASSAGE + '\n' + FILLER;
+
+// The same book after an edition: a preface added, a word changed in the
+// passage's context, and the filler before it rewrapped
+const REVISED = 'PREFACE TO THE NEW EDITION\n\nSome notes on the text. '.repeat(40) +
+  FILLER.replace(/\n/g, ' ') +
+  PASSAGE.replace('crew', 'sailors') + '\n' + FILLER;
+
+function boundariesOf(text: string): Boundaries {
+  const length = Buffer.byteLength(text);
+  return { startByte: 0, endByte: length, cleanLength: length };
+}
+
+function fetcherFor(text: string) {
+  const buffer = Buffer.from(text);
+  return async (start: number, end: number) => buffer.subarray(start, end + 1);
+}
+
+describe('Text anchors', () => {
+  it('round-trips through tokens and rejects others', async () => {
+    const byteStart = Buffer.byteLength(FILLER);
+    const anchor = await createAnchor(fetcherFor(BOOK), boundariesOf(BOOK), byteStart);
+    assert.deepStrictEqual(anchor.after.slice(0, 4), ['call', 'me', 'ishmael', 'said']);
+    assert.deepStrictEqual(anchor.before, ['log', 'the', 'wind', 'steady', 'and', 'the', 'sea', 'calm']);
+
+    const token = encodeAnchor(anchor);
+    assert.match(token, /^[A-Za-z0-9_-]+$/);
+    assert.deepStrictEqual(decodeAnchor(token), anchor);
+
+    for (const bad of ['', 'not-a-token', Buffer.from('[1,"x"]').toString('base64url'),
+      Buffer.from('[-4,"x","","a"]').toString('base64url')]) {
+      assert.strictEqual(decodeAnchor(bad), null, bad);
+    }
+  });
+
+  it('stays put when the text has not changed', async () => {
+    const byteStart = Buffer.byteLength(FILLER);
+    const anchor = await createAnchor(fetcherFor(BOOK), boundariesOf(BOOK), byteStart);
+    const match = await resolveAnchor(fetcherFor(BOOK), boundariesOf(BOOK), anchor);
+    assert.deepStrictEqual(match, { byteStart, status: 'exact', score: 1 });
+  });
+
+  it('follows the passage into a revised text', async () => {
+    const anchor = await createAnchor(fetcherFor(BOOK), boundariesOf(BOOK), Buffer.byteLength(FILLER));
+    const match = await resolveAnchor(fetcherFor(REVISED), boundariesOf(REVISED), anchor);
+
+    assert.ok(match);
+    assert.strictEqual(match.status, 'moved');
+    assert.ok(match.score >= 0.6 && match.score < 1);
+    const found = Buffer.from(REVISED).subarray(match.byteStart).toString('utf8');
+    assert.ok(found.startsWith('“Call me Ishmael,”'), found.slice(0, 40));
+  });
+
+  it('reports a passage that is gone', async () => {
+    const anchor = await createAnchor(fetcherFor(BOOK), boundariesOf(BOOK), Buffer.byteLength(FILLER));
+    const cut = FILLER + FILLER;
+    assert.strictEqual(await resolveAnchor(fetcherFor(cut), boundariesOf(cut), anchor), null);
+  });
+
+  it('anchors and resolves through Navigator', async () => {
+    const byteStart = Buffer.byteLength(FILLER);
+    const navigator = new Navigator({ fetchRange: fetcherFor(BOOK) }, boundariesOf(BOOK), 50);
+    const anchor = decodeAnchor(encodeAnchor(await navigator.anchorAt(byteStart)))!;
+
+    const revised = new Navigator({ fetchRange: fetcherFor(REVISED) }, boundariesOf(REVISED), 50);
+    const match = (await revised.resolveAnchor(anchor))!;
+    const position = await revised._fetchChunkAt(match.byteStart, 0, 'forward');
+    assert.deepStrictEqual(position.words.slice(0, 3), ['“Call', 'me', 'Ishmael,”']);
+  });
+});
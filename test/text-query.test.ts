@@ -0,0 +1,143 @@
+/**
+ * Tests for regex, boolean and NEAR fulltext queries
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseTextQuery, parseBoolean, PassageMatcher, TextQueryError } from '../src/text-query.js';
+import type { TextQueryNode, PassageMatch } from '../src/text-query.js';
+
+const MOBY = [
+  'Call me Ishmael. Some years ago, never mind how long precisely, I thought',
+  'I would sail about a little and see the watery part of the world.',
+  '',
+  'The whale, the great white whale, was seen from the ship at dawn.',
+  '',
+  'Queequeg sharpened his harpoon; the whale was far from the ship.',
+  '',
+  'There was no ship in sight, and the sea was calm.',
+  ''
+].join('\n');
+
+function booleanRoot(query: string): TextQueryNode {
+  const parsed = parseTextQuery(query);
+  assert.strictEqual(parsed.kind, 'boolean');
+  return (parsed as { kind: 'boolean'; root: TextQueryNode }).root;
+}
+
+function matchAll(query: string, text: string, pieceSize = text.length): PassageMatch[] {
+  const matcher = new PassageMatcher(booleanRoot(query));
+  matcher.end(0);
+  const found: PassageMatch[] = [];
+  for (let i = 0; i < text.length; i += pieceSize) {
+    found.push(...matcher.push(text.slice(i, i + pieceSize)));
+  }
+  found.push(...matcher.end(0));
+  return found;
+}
+
+describe('Text queries', () => {
+  describe('parseTextQuery', () => {
+    it('keeps plain text as a phrase', () => {
+      assert.deepStrictEqual(parseTextQuery('  call me ishmael  '), { kind: 'phrase', text: 'call me ishmael' });
+      assert.strictEqual(parseTextQuery('whales and ships or not').kind, 'phrase', 'lowercase words are not operators');
+    });
+
+    it('parses a regex with flags', () => {
+      const parsed = parseTextQuery('/whale(bone|ship)s?/i');
+      assert.strictEqual(parsed.kind, 'regex');
+      assert.strictEqual((parsed as { regex: RegExp }).regex.flags, 'gi');
+    });
+
+    it('lets through regexes that cannot backtrack for ever', () => {
+      for (const query of ['/(cat|car)+s/', '/\\w+\\s+\\w+/', '/(?:the|a) whale/i', '/\\p{Lu}\\p{Ll}+/u', '/"[^"]+"/']) {
+        assert.strictEqual(parseTextQuery(query).kind, 'regex', query);
+      }
+    });
+
+    it('binds OR loosest, then AND, NOT and NEAR', () => {
+      assert.deepStrictEqual(booleanRoot('whale OR ship harpoon NOT sea'), {
+        type: 'or',
+        left: { type: 'term', words: ['whale'] },
+        right: {
+          type: 'and',
+          left: {
+            type: 'and',
+            left: { type: 'term', words: ['ship'] },
+            right: { type: 'term', words: ['harpoon'] }
+          },
+          right: { type: 'not', operand: { type: 'term', words: ['sea'] } }
+        }
+      } as TextQueryNode);
+
+      assert.deepStrictEqual(booleanRoot('"White Whale" NEAR/5 ship'), {
+        type: 'near',
+        left: { type: 'term', words: ['white', 'whale'] },
+        right: { type: 'term', words: ['ship'] },
+        distance: 5
+      } as TextQueryNode);
+    });
+
+    it('keeps text that is not a boolean query as a phrase', () => {
+      for (const query of ['(whale OR ship', 'whale AND', 'NOT whale', '(whale OR ship) NEAR sea',
+        'whale NEAR/500 ship', 'He said "Call me Ishmael" (twice', 'Me AND', '""']) {
+        assert.deepStrictEqual(parseTextQuery(query), { kind: 'phrase', text: query }, query);
+      }
+    });
+
+    it('rejects malformed and costly queries', () => {
+      const rejects = (parse: () => unknown, pattern: RegExp, query: string) =>
+        assert.throws(parse, (err: unknown) => err instanceof TextQueryError && pattern.test(err.message), query);
+      const rejectsBoolean = (query: string, pattern: RegExp) => rejects(() => parseBoolean(query), pattern, query);
+      const rejectsQuery = (query: string, pattern: RegExp) => rejects(() => parseTextQuery(query), pattern, query);
+
+      rejectsBoolean('(whale OR ship', /Missing "\)"/);
+      rejectsBoolean('whale AND', /ends with an operator/);
+      rejectsBoolean('NOT whale', /at least one term/);
+      rejectsBoolean('(whale OR ship) NEAR sea', /NEAR joins two terms/);
+      rejectsBoolean('whale NEAR/500 ship', /at most 100/);
+      rejectsQuery('/(a+)+b/', /nested quantifier/);
+      rejectsQuery('/(.|\\s)+zzq/', /alternatives overlap/);
+      rejectsQuery('/(a|aa)+b/', /alternatives overlap/);
+      rejectsQuery('/(\\w|\\d)+!/', /alternatives overlap/);
+      rejectsQuery('/\\s*\\s*\\s*\\s*\\s*x$/', /repeated pieces side by side/);
+      rejectsQuery('/(\\w)\\1/', /backreferences/);
+      rejectsQuery('/x*/', /empty text/);
+      rejectsQuery('/[/', /Invalid regex/);
+      rejectsQuery('/whale/g', /Unsupported regex flags/);
+    });
+  });
+
+  describe('PassageMatcher', () => {
+    it('reports matching paragraphs with the first matched term', () => {
+      const found = matchAll('whale AND ship NOT harpoon', MOBY);
+      assert.strictEqual(found.length, 1);
+      const [match] = found;
+      assert.ok(match.text.startsWith('The whale, the great white whale'));
+      assert.strictEqual(match.text.slice(match.start, match.end), 'whale');
+      assert.strictEqual(MOBY.slice(match.byteStart, match.byteStart + 9), 'The whale');
+    });
+
+    it('finds terms within NEAR distance, phrases included', () => {
+      const near = matchAll('"white whale" NEAR/5 ship', MOBY);
+      assert.deepStrictEqual(near.map(m => m.text.slice(m.start, m.end)), ['white whale, was seen from the ship']);
+      assert.strictEqual(matchAll('"white whale" NEAR/3 ship', MOBY).length, 0);
+      assert.strictEqual(matchAll('ship NEAR/4 whale', MOBY).length, 2, 'either order');
+    });
+
+    it('matches the same way however the text is split', () => {
+      const whole = matchAll('whale OR (ship NOT whale)', MOBY);
+      assert.strictEqual(whole.length, 3);
+      for (const size of [1, 7, 50]) {
+        assert.deepStrictEqual(matchAll('whale OR (ship NOT whale)', MOBY, size), whole, `piece size ${size}`);
+      }
+    });
+
+    it('counts bytes of multi-byte text', () => {
+      const text = 'Café crème\n\nThe naïve whale\n';
+      const [match] = matchAll('"naive whale"', text);
+      assert.strictEqual(match.byteStart, Buffer.byteLength('Café crème\n\n'));
+      assert.strictEqual(match.text.slice(match.start, match.end), 'naïve whale');
+    });
+  });
+});
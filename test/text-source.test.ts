@@ -0,0 +1,220 @@
+/**
+ * Tests for pluggable text sources (local files, directories, URLs)
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { AddressInfo } from 'net';
+import {
+  LocalFileSource,
+  HttpTextSource,
+  TextSourceRegistry,
+  SourceFetcher,
+  createTextSource,
+  findSourceBoundaries,
+  isSourceSpec,
+  _internal
+} from '../src/text-source.js';
+import { Navigator } from '../src/navigator.js';
+import { WebServer } from '../src/web-server.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-sources');
+
+const PLAIN_TEXT = Array.from({ length: 400 }, (_, i) => `word${i}`).join(' ') + '\n';
+
+const GUTENBERG_TEXT = [
+  'The Project Gutenberg eBook of Test Book',
+  '',
+  '*** START OF THE PROJECT GUTENBERG EBOOK TEST BOOK ***',
+  '',
+  'Once upon a time there was a very small story about nothing at all.',
+  '',
+  '*** END OF THE PROJECT GUTENBERG EBOOK TEST BOOK ***',
+  'License text that should not be read.',
+  ''
+].join('\n');
+
+describe('Text sources', () => {
+  before(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    fs.writeFileSync(path.join(TEST_DIR, 'My Notes.txt'), PLAIN_TEXT);
+    fs.writeFileSync(path.join(TEST_DIR, '1342.txt'), GUTENBERG_TEXT);
+    fs.writeFileSync(path.join(TEST_DIR, 'ignored.md'), '# not a text');
+  });
+
+  after(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe('helpers', () => {
+    it('slugifies file names and prefixes numeric ids', () => {
+      assert.strictEqual(_internal.slugify('My Notes.txt'), 'my-notes');
+      assert.strictEqual(_internal.slugify('1342.txt'), 'local-1342');
+      assert.strictEqual(_internal.slugify('.txt'), 'text');
+    });
+
+    it('distinguishes book IDs from file paths and URLs', () => {
+      assert.strictEqual(isSourceSpec('1342'), false);
+      assert.strictEqual(isSourceSpec('https://example.com/a.txt'), true);
+      assert.strictEqual(isSourceSpec(path.join(TEST_DIR, 'My Notes.txt')), true);
+      assert.strictEqual(isSourceSpec(path.join(TEST_DIR, 'missing.txt')), false);
+      assert.strictEqual(isSourceSpec('abc'), false);
+    });
+
+    it('creates sources from paths and file:// URLs', () => {
+      const filePath = path.join(TEST_DIR, 'My Notes.txt');
+      assert.ok(createTextSource(filePath) instanceof LocalFileSource);
+      assert.ok(createTextSource(pathToFileURL(filePath).toString()) instanceof LocalFileSource);
+      assert.ok(createTextSource('http://127.0.0.1/a.txt') instanceof HttpTextSource);
+    });
+  });
+
+  describe('LocalFileSource', () => {
+    it('reads inclusive byte ranges clamped to the file size', async () => {
+      const source = new LocalFileSource(path.join(TEST_DIR, 'My Notes.txt'));
+      const size = await source.getSize();
+      assert.strictEqual(size, Buffer.byteLength(PLAIN_TEXT));
+
+      const head = await source.readRange(0, 4);
+      assert.strictEqual(head.toString(), 'word0');
+
+      const tail = await source.readRange(size - 2, size + 100);
+      assert.strictEqual(tail.length, 2);
+
+      const empty = await source.readRange(size + 10, size + 20);
+      assert.strictEqual(empty.length, 0);
+    });
+
+    it('derives id and title from the file name', () => {
+      const source = new LocalFileSource(path.join(TEST_DIR, 'My Notes.txt'), { clean: false });
+      assert.strictEqual(source.id, 'my-notes');
+      assert.strictEqual(source.title, 'My Notes');
+      assert.strictEqual(source.useCleaner, false);
+      assert.ok(source.location.startsWith('file://'));
+    });
+  });
+
+  describe('TextSourceRegistry', () => {
+    it('registers .txt files from a directory', () => {
+      const registry = new TextSourceRegistry();
+      const added = registry.registerDirectory(TEST_DIR);
+      assert.strictEqual(added.length, 2);
+      assert.deepStrictEqual(registry.list().map(s => s.id).sort(), ['local-1342', 'my-notes']);
+      assert.ok(registry.get('my-notes'));
+      assert.strictEqual(registry.get('ignored'), null);
+    });
+
+    it('suffixes colliding ids', () => {
+      const registry = new TextSourceRegistry();
+      const filePath = path.join(TEST_DIR, 'My Notes.txt');
+      registry.register(new LocalFileSource(filePath));
+      const second = registry.register(new LocalFileSource(filePath));
+      assert.strictEqual(second.id, 'my-notes-2');
+      assert.strictEqual(registry.size, 2);
+    });
+  });
+
+  describe('boundaries and navigation', () => {
+    it('reads the whole file when cleaning is disabled', async () => {
+      const source = new LocalFileSource(path.join(TEST_DIR, '1342.txt'), { clean: false });
+      const fetcher = new SourceFetcher(source);
+      const boundaries = await findSourceBoundaries(source, fetcher);
+      assert.strictEqual(boundaries.startByte, 0);
+      assert.strictEqual(boundaries.endByte, Buffer.byteLength(GUTENBERG_TEXT));
+    });
+
+    it('applies Gutenberg boundary detection when cleaning is enabled', async () => {
+      const source = new LocalFileSource(path.join(TEST_DIR, '1342.txt'));
+      const fetcher = new SourceFetcher(source);
+      const boundaries = await findSourceBoundaries(source, fetcher);
+      assert.ok(boundaries.startByte > 0);
+      assert.ok(boundaries.endByte < Buffer.byteLength(GUTENBERG_TEXT));
+    });
+
+    it('navigates a local file with Navigator', async () => {
+      const source = new LocalFileSource(path.join(TEST_DIR, 'My Notes.txt'), { clean: false });
+      const fetcher = new SourceFetcher(source);
+      const boundaries = await findSourceBoundaries(source, fetcher);
+      const navigator = new Navigator(fetcher, boundaries, 50);
+
+      const first = await navigator.goToPercent(0);
+      assert.strictEqual(first.words[0], 'word0');
+      assert.strictEqual(first.actualCount, 50);
+
+      const second = await navigator.moveForward(first);
+      assert.strictEqual(second.words[0], 'word50');
+
+      const stats = fetcher.getStats();
+      assert.ok(stats.requests > 0);
+      assert.strictEqual(stats.mirror, 'local file');
+    });
+  });
+
+  describe('WebServer integration', () => {
+    it('serves registered sources by string ID', async () => {
+      const source = new LocalFileSource(path.join(TEST_DIR, 'My Notes.txt'), { clean: false });
+      const server = new WebServer({ port: 0, useLocalCache: false, sources: [source] });
+
+      const navigator = await server.getSourceNavigator('my-notes');
+      assert.strictEqual(navigator.boundaries.cleanLength, Buffer.byteLength(PLAIN_TEXT));
+      assert.strictEqual(await server.getSourceNavigator('my-notes'), navigator);
+      await assert.rejects(() => server.getSourceNavigator('missing'), /not found/);
+    });
+  });
+
+  describe('HttpTextSource', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const body = Buffer.from(PLAIN_TEXT);
+
+    before(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/norange.txt') {
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          res.end(req.method === 'HEAD' ? undefined : body);
+          return;
+        }
+        const range = /bytes=(\d+)-(\d+)/.exec(req.headers.range || '');
+        if (range) {
+          const start = parseInt(range[1], 10);
+          const end = Math.min(parseInt(range[2], 10), body.length - 1);
+          res.writeHead(206, {
+            'Content-Range': `bytes ${start}-${end}/${body.length}`,
+            'Content-Length': end - start + 1
+          });
+          res.end(body.subarray(start, end + 1));
+          return;
+        }
+        res.writeHead(200, { 'Content-Length': body.length });
+        res.end(req.method === 'HEAD' ? undefined : body);
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+      server.close();
+    });
+
+    it('gets size via HEAD and reads ranges', async () => {
+      const source = new HttpTextSource(`${baseUrl}/corpus/notes.txt`);
+      assert.strictEqual(source.id, 'notes');
+      assert.strictEqual(await source.getSize(), body.length);
+      const chunk = await source.readRange(6, 10);
+      assert.strictEqual(chunk.toString(), 'word1');
+    });
+
+    it('slices full responses from servers that ignore Range', async () => {
+      const source = new HttpTextSource(`${baseUrl}/norange.txt`);
+      assert.strictEqual(await source.getSize(), body.length);
+      const chunk = await source.readRange(0, 4);
+      assert.strictEqual(chunk.toString(), 'word0');
+    });
+  });
+});
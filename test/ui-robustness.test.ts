@@ -278,4 +278,13 @@ describe('UI Robustness - web-landing.html', () => {
       );
     });
   });
+  
+  describe('Browse', () => {
+    it('should list subjects and bookshelves from the catalog API', () => {
+      assert.ok(htmlContent.includes('id="browseList"'), 'should have a browse list');
+      assert.ok(htmlContent.includes("fetch('/api/subjects?limit="), 'should fetch subjects');
+      assert.ok(htmlContent.includes("fetch('/api/bookshelves')"), 'should fetch bookshelves');
+      assert.ok(htmlContent.includes("'#bookshelf/'"), 'a bookshelf should open its own page');
+    });
+  });
 });
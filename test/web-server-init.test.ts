@@ -1,7 +1,13 @@
-import { describe, it } from 'node:test';
+import { describe, it, after } from 'node:test';
 import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { WebServer } from '../src/web-server.js';
 import { Fetcher } from '../src/fetcher.js';
+import { getSharedMirrorManager, resetSharedMirrorManager } from '../src/mirror-manager.js';
+import { resetSharedSparseCache } from '../src/sparse-cache.js';
+import type { Mirror } from '../src/types.js';
 
 /**
  * Integration tests for web server book initialization and fallback behavior
@@ -99,3 +105,55 @@ describe('Web Server Book Initialization', () => {
     }
   });
 });
+
+describe('Web Server mirror quarantine', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gutex-quarantine-'));
+
+  after(() => {
+    resetSharedMirrorManager();
+    resetSharedSparseCache();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('drops the navigator and cached blocks of a book read from a quarantined mirror', async () => {
+    resetSharedMirrorManager();
+    resetSharedSparseCache();
+    const mirrorManager = getSharedMirrorManager({ statePath: null });
+    const stale: Mirror = { baseUrl: 'https://stale.example', provider: 'Stale', location: 'Test' };
+    mirrorManager._fetchFingerprint = async (mirror: Mirror) => mirror.baseUrl === stale.baseUrl
+      ? { size: 4990, etag: null, sampleHash: 'h9' }
+      : { size: 5000, etag: '"abc"', sampleHash: 'h1' };
+
+    const server = new WebServer({ port: 0, cacheDir: dir });
+    const sparseCache = (server as any).sparseCache;
+    const text = Buffer.from('x'.repeat(5000));
+    sparseCache.setUpstreamFetcher({
+      head: async () => ({ size: text.length, etag: null, lastModified: null }),
+      getRange: async (_bookId: number, start: number, end: number) => text.subarray(start, end + 1)
+    });
+    await sparseCache.getRange(4242, 0, 999);
+    assert.ok(sparseCache.listCachedBooks().includes(4242));
+
+    const navigators = (server as any).navigators as Map<number, { actualBookId: number }>;
+    navigators.set(4241, { actualBookId: 4242 });
+    navigators.set(4242, { actualBookId: 4242 });
+    navigators.set(11, { actualBookId: 11 });
+
+    await mirrorManager.verifyMirror(4242, stale);
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.deepStrictEqual([...navigators.keys()], [11]);
+    assert.ok(!sparseCache.listCachedBooks().includes(4242));
+    assert.ok(server.eventLog.some(e => e.type === 'mirror_quarantine'));
+    await server.stop();
+  });
+
+  it('lets go of the shared mirror manager when stopped', async () => {
+    const listeners = (getSharedMirrorManager() as any).quarantineListeners as Set<unknown>;
+    const before = listeners.size;
+    const server = new WebServer({ port: 0, cacheDir: dir });
+    assert.strictEqual(listeners.size, before + 1);
+    await server.stop();
+    assert.strictEqual(listeners.size, before);
+  });
+});
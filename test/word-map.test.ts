@@ -0,0 +1,149 @@
+/**
+ * Tests for exact word-index addressing
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { WordCounter, WordMapStore, readWordMap } from '../src/word-map.js';
+import { Navigator } from '../src/navigator.js';
+import type { Boundaries } from '../src/types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEST_DIR = path.join(__dirname, '..', '.test-word-map');
+
+// Multi-byte words, a no-break space and an ideographic space between words
+const TRICKY = 'Café  crème brûlée\n\n  naïve　whale — 𝔴𝔥𝔞𝔩𝔢\tend\n';
+
+const BOOK = Array.from({ length: 400 }, (_, i) =>
+  `Paragraph ${i} tells of the whale and the ship, word after word.${i % 5 === 4 ? '\n\n' : '\n'}`
+).join('');
+
+function boundariesOf(text: string): Boundaries {
+  const length = Buffer.byteLength(text);
+  return { startByte: 0, endByte: length, cleanLength: length };
+}
+
+// Byte offsets of /\S+/ matches, the reference the counter must agree with
+function wordStarts(text: string): number[] {
+  return [...text.matchAll(/\S+/g)].map(m => Buffer.byteLength(text.slice(0, m.index)));
+}
+
+function countInPieces(bytes: Buffer, size: number): number[] {
+  const counter = new WordCounter(0);
+  for (let i = 0; i < bytes.length; i += size) {
+    counter.push(bytes.subarray(i, i + size));
+  }
+  const map = counter.end();
+  return Array.from({ length: map.totalWords }, (_, i) => map.byteOf(i));
+}
+
+class MockFetcher {
+  requests = 0;
+  private buffer: Buffer;
+
+  constructor(content: string) {
+    this.buffer = Buffer.from(content);
+  }
+
+  async fetchRange(start: number, end: number): Promise<Buffer> {
+    this.requests++;
+    return this.buffer.subarray(start, end + 1);
+  }
+}
+
+describe('Word map', () => {
+  describe('WordCounter', () => {
+    it('counts words as /\\S+/ does, at byte offsets', () => {
+      const bytes = Buffer.from(TRICKY);
+      assert.deepStrictEqual(countInPieces(bytes, bytes.length), wordStarts(TRICKY));
+      assert.strictEqual(wordStarts(TRICKY).length, 8);
+    });
+
+    it('gives the same map however the bytes are split', () => {
+      const bytes = Buffer.from(TRICKY);
+      for (const size of [1, 2, 3, 5]) {
+        assert.deepStrictEqual(countInPieces(bytes, size), wordStarts(TRICKY), `piece size ${size}`);
+      }
+    });
+
+    it('finds the word at any byte and clamps word indexes', async () => {
+      const map = await readWordMap(async (start, end) => Buffer.from(BOOK).subarray(start, end + 1), boundariesOf(BOOK));
+      const starts = wordStarts(BOOK);
+      assert.strictEqual(map.totalWords, starts.length);
+      assert.strictEqual(map.wordAt(starts[1000]), 1000);
+      assert.strictEqual(map.wordAt(starts[1000] + 2), 1000, 'inside a word');
+      assert.strictEqual(map.byteOf(-5), 0);
+      assert.strictEqual(map.byteOf(1e9), starts[starts.length - 1]);
+    });
+  });
+
+  describe('WordMapStore', () => {
+    before(() => {
+      fs.mkdirSync(TEST_DIR, { recursive: true });
+    });
+
+    after(() => {
+      fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    });
+
+    it('keeps maps for the same boundaries only', async () => {
+      const boundaries = boundariesOf(BOOK);
+      const map = await readWordMap(async (start, end) => Buffer.from(BOOK).subarray(start, end + 1), boundaries);
+      new WordMapStore(TEST_DIR).save(2701, boundaries, map);
+
+      const loaded = new WordMapStore(TEST_DIR).load(2701, boundaries)!;
+      assert.strictEqual(loaded.totalWords, map.totalWords);
+      assert.strictEqual(loaded.byteOf(4321), map.byteOf(4321));
+      assert.strictEqual(new WordMapStore(TEST_DIR).load(2701, { ...boundaries, startByte: 1 }), null);
+    });
+
+    it('gives the same word indexes in a later session', async () => {
+      const first = new Navigator(new MockFetcher(BOOK), boundariesOf(BOOK), 50);
+      await first.loadWordMap(new WordMapStore(TEST_DIR), 11);
+      const cited = await first.goToPercent(37);
+
+      const fetcher = new MockFetcher(BOOK);
+      const later = new Navigator(fetcher, boundariesOf(BOOK), 50);
+      await later.loadWordMap(new WordMapStore(TEST_DIR), 11);
+      assert.strictEqual(fetcher.requests, 0, 'map read from the store');
+      const found = await later.goToWord(cited.wordIndex);
+      assert.strictEqual(found.byteStart, cited.byteStart);
+      assert.deepStrictEqual(found.words, cited.words);
+    });
+  });
+
+  describe('Navigator', () => {
+    it('reports exact word indexes while reading', async () => {
+      const starts = wordStarts(BOOK);
+      const navigator = new Navigator(new MockFetcher(BOOK), boundariesOf(BOOK), 50);
+      await navigator.loadWordMap();
+
+      let position = await navigator.goToWord(3000);
+      assert.strictEqual(position.byteStart, starts[3000]);
+      assert.strictEqual(position.wordIndex, 3000);
+      assert.strictEqual(position.wordIndexExact, true);
+
+      for (let i = 0; i < 3; i++) position = await navigator.moveForward(position);
+      assert.strictEqual(position.wordIndex, 3150);
+      assert.strictEqual(position.byteStart, starts[3150]);
+
+      navigator.positionHistory = [];
+      position = await navigator.moveBackward(position);
+      assert.strictEqual(position.wordIndex, 3100);
+
+      const half = await navigator.goToPercent(50);
+      assert.strictEqual(half.wordIndex, Math.floor(starts.length / 2));
+      assert.strictEqual(half.byteStart, starts[half.wordIndex]);
+    });
+
+    it('estimates without a word map', async () => {
+      const navigator = new Navigator(new MockFetcher(BOOK), boundariesOf(BOOK), 50);
+      const position = await navigator.goToWord(3000);
+      assert.ok(!position.wordIndexExact);
+      assert.strictEqual(navigator.hasWordMap, false);
+    });
+  });
+});